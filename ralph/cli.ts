@@ -6,16 +6,22 @@
  * - status: Detailed status of one PRD
  * - start: Start orchestration (Ctrl+C to stop)
  * - progress: View progress log
+ * - plan: Plan a spec-only PRD's stories with a planner agent
+ * - lint: Check prd.json and story files for one or all PRDs
  * - prd: PRD management commands
  * - spec: Spec file commands
  * - complete: Complete a PRD (extract findings via LLM and move to completed)
  * - test: Run automated tests for a PRD
+ * - answer: Answer, skip, or rewrite blocked stories
+ * - review: Review commands (findings)
+ * - story: Story commands (rollback)
  * - swarm: Parallel PRD execution via worktrees + tmux
  */
 
-import { execSync } from "node:child_process";
+import { execSync, spawnSync } from "node:child_process";
 import { existsSync } from "node:fs";
-import { readFile } from "node:fs/promises";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { stdin as input, stdout as output } from "node:process";
 import * as readline from "node:readline/promises";
@@ -23,23 +29,50 @@ import { command, routes } from "@omnidev-ai/capability";
 import { getProviderVariantConfig } from "./lib/core/config.js";
 import { getStatusDir } from "./lib/core/paths.js";
 import {
+	type AppliedAnswer,
+	answerStory,
+	applyAnswersFile,
 	buildDependencyGraph,
+	buildStoryDependencyGraph,
 	canStartPRD,
 	createEngine,
+	createTranscript,
 	type EngineEvent,
 	extractAndSaveFindings,
+	FindingStatusSchema,
 	findPRDLocation,
+	formatUsage,
+	getCheckpoint,
+	getLintConfig,
+	getOpenQuestions,
 	getPRD,
 	getProgress,
 	getSpec,
+	getStoryDependencyChain,
 	hasPRDFile,
+	lintPRDs,
+	listFindings,
 	listPRDsByStatus,
+	listTranscripts,
 	loadConfig,
 	movePRD,
+	readTranscript,
+	renderTranscript,
+	rollbackStory,
+	triageFinding,
 	unblockStory,
+	validateStoryDependencyGraph,
 } from "./lib/index.js";
 import { getAgentExecutor } from "./lib/orchestration/agent-runner.js";
-import type { PRD, PRDStatus, Story } from "./lib/types.js";
+import type {
+	FindingStatus,
+	PRD,
+	PRDStatus,
+	ReviewFinding,
+	Story,
+	StoryResponse,
+	UsageTotals,
+} from "./lib/types.js";
 
 /**
  * Translate engine events to console output
@@ -79,6 +112,16 @@ function consoleEventHandler(event: EngineEvent): void {
 		case "health_check_failed":
 			console.log(`\n⚠️  ${event.error}`);
 			break;
+		case "story_verify_start":
+			console.log(`\nVerifying story ${event.storyId} (attempt ${event.attempt})...`);
+			break;
+		case "story_verify_complete":
+			if (event.result === "pass") console.log(`✓ Story ${event.storyId} verified`);
+			else {
+				console.log(`❌ Story ${event.storyId} failed verification`);
+				for (const check of event.failedChecks) console.log(`  - ${check}`);
+			}
+			break;
 		case "review_start":
 			console.log(`\n=== Review Phase: ${event.phase} ===`);
 			break;
@@ -90,6 +133,11 @@ function consoleEventHandler(event: EngineEvent): void {
 		case "review_fix_start":
 			console.log(`Fixing ${event.findingsCount} findings (iteration ${event.iteration})...`);
 			break;
+		case "review_recheck_complete":
+			console.log(
+				`Re-check after fix ${event.iteration}: ${event.resolved} resolved, ${event.unresolved} unresolved, ${event.regressions} new`,
+			);
+			break;
 		case "review_phase_complete":
 			console.log(`Review phase ${event.phase} complete${event.clean ? " (clean)" : ""}`);
 			break;
@@ -102,6 +150,66 @@ function consoleEventHandler(event: EngineEvent): void {
 				}
 			} else console.log("\n⚠️  No clear QA result signal detected.");
 			break;
+		case "agent_recovery":
+			if (event.action === "backoff")
+				console.log(
+					`\n🔁 Agent failed (${event.failure}), retrying in ${Math.round(event.delayMs / 1000)}s...`,
+				);
+			else
+				console.log(
+					`\n🔁 Agent failed (${event.failure}) on ${event.providerVariant}, switching to ${event.nextProviderVariant}`,
+				);
+			break;
+		case "agent_timeout": {
+			const actions = {
+				retry: "retrying without counting the iteration",
+				count: "counted as a failed iteration",
+				block: "blocking the story",
+				stop: "stopping",
+			};
+			console.log(`\n⏱️  ${event.message} — ${actions[event.action]}`);
+			break;
+		}
+		case "story_stuck": {
+			const actions = {
+				replan: "re-prompting with a re-plan",
+				escalated: "escalating to a stronger provider variant",
+				block: "blocking it",
+			};
+			console.log(
+				`\n🧱 Story ${event.storyId} stuck after ${event.iterations} iterations — ${actions[event.action]}`,
+			);
+			break;
+		}
+		case "story_split":
+			console.log(`\n✂️  Split ${event.storyId} into ${event.subStoryIds.join(", ")}`);
+			break;
+		case "plan_check":
+			if (event.problems.length === 0)
+				console.log(`\n✓ Plan checks out (attempt ${event.attempt})`);
+			else {
+				console.log(
+					`\n✗ Plan attempt ${event.attempt} has ${event.problems.length} problem(s), sending them back:`,
+				);
+				for (const problem of event.problems) console.log(`  - ${problem}`);
+			}
+			break;
+		case "story_gates":
+			if (event.passed) console.log(`✓ Gates passed for ${event.storyId}`);
+			else
+				console.log(
+					`⚠️  Gates failed for ${event.storyId} (${event.failedGates.join(", ")}), reopening it`,
+				);
+			break;
+		case "hook_run":
+			if (event.vetoed) {
+				console.log(
+					`⚠️  ${event.hook} hook${event.storyId ? ` (${event.storyId})` : ""} exited with code ${event.exitCode} and vetoed the transition`,
+				);
+			} else {
+				console.log(`🪝 ${event.hook} hook${event.storyId ? ` (${event.storyId})` : ""} passed`);
+			}
+			break;
 		case "complete":
 			// Handled in the result processing
 			break;
@@ -154,36 +262,117 @@ function formatDuration(startIso: string, endIso?: string): string {
 }
 
 /**
- * Interactively prompt user to answer questions for a blocked story
+ * Interactively resolve a blocked story: answer its questions, skip it,
+ * rewrite it in $EDITOR, or leave it for later. Returns whether it was resolved.
  */
 async function promptForAnswers(
 	projectName: string,
 	repoRoot: string,
 	prdName: string,
 	story: Story,
-): Promise<void> {
+): Promise<boolean> {
 	console.log(`\n🚫 Story ${story.id} is blocked: ${story.title}\n`);
-	console.log("Please answer the following questions to unblock:\n");
+	for (const [i, question] of story.questions.entries()) {
+		console.log(`  ${i + 1}. ${question}`);
+	}
+	console.log();
 
 	const rl = readline.createInterface({ input, output });
-	const answers: string[] = [];
+	let response: StoryResponse | null = null;
+	let rewrite = false;
 
 	try {
-		for (let i = 0; i < story.questions.length; i++) {
-			const question = story.questions[i];
-			console.log(`Question ${i + 1}/${story.questions.length}:`);
-			console.log(`  ${question}\n`);
-			const answer = await rl.question("Answer: ");
-			answers.push(answer.trim());
-			console.log();
+		const choice =
+			(await rl.question("[a]nswer, [s]kip story, [r]ewrite story, or [l]ater? (a): "))
+				.trim()
+				.toLowerCase() || "a";
+
+		if (choice.startsWith("a")) {
+			const answers: string[] = [];
+			for (let i = 0; i < story.questions.length; i++) {
+				const question = story.questions[i];
+				console.log(`Question ${i + 1}/${story.questions.length}:`);
+				console.log(`  ${question}\n`);
+				const answer = await rl.question("Answer: ");
+				answers.push(answer.trim());
+				console.log();
+			}
+			response = { action: "answer", answers };
+		} else if (choice.startsWith("s")) {
+			const reason = (await rl.question("Why skip it? (optional): ")).trim();
+			response = reason ? { action: "skip", reason } : { action: "skip" };
+		} else if (choice.startsWith("r")) {
+			rewrite = true;
 		}
-
-		// Save answers and unblock story
-		await unblockStory(projectName, repoRoot, prdName, story.id, answers);
-		console.log(`✅ Story ${story.id} has been unblocked!\n`);
 	} finally {
 		rl.close();
 	}
+
+	if (rewrite) {
+		const content = await editStoryFile(projectName, repoRoot, prdName, story);
+		if (content === null) {
+			console.log(`Story file unchanged; ${story.id} stays blocked.\n`);
+			return false;
+		}
+		response = { action: "rewrite", content };
+	}
+
+	if (!response) {
+		console.log(`Left ${story.id} blocked for later.\n`);
+		return false;
+	}
+
+	const result = await answerStory(projectName, repoRoot, prdName, story.id, response);
+	if (!result.ok) {
+		console.error(`Error: ${result.error!.message}\n`);
+		return false;
+	}
+
+	const done = {
+		answer: "has been unblocked",
+		skip: "was skipped and counts as completed",
+		rewrite: "was rewritten and starts over",
+	}[response.action];
+	console.log(`✅ Story ${story.id} ${done}!\n`);
+	if (result.data!.dependents.length > 0) {
+		console.log(
+			`⚠️  ${result.data!.dependents.join(", ")} depend on ${story.id} and will start without its work.\n`,
+		);
+	}
+	return true;
+}
+
+/**
+ * Open a copy of a story file in $VISUAL/$EDITOR. Returns the edited content,
+ * or null when it was left unchanged.
+ */
+async function editStoryFile(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	story: Story,
+): Promise<string | null> {
+	const status = findPRDLocation(projectName, repoRoot, prdName);
+	const storyPath = status
+		? join(getStatusDir(projectName, repoRoot, status), prdName, story.promptPath)
+		: null;
+	const original = storyPath && existsSync(storyPath) ? await readFile(storyPath, "utf-8") : "";
+
+	const tempDir = await mkdtemp(join(tmpdir(), "ralph-story-"));
+	const tempPath = join(tempDir, `${story.id}.md`);
+	try {
+		await writeFile(tempPath, original);
+		const editor = process.env["VISUAL"] || process.env["EDITOR"] || "vi";
+		const result = spawnSync(editor, [tempPath], { stdio: "inherit", shell: true });
+		if (result.status !== 0) {
+			console.error(`Editor exited with code ${result.status ?? "unknown"}`);
+			return null;
+		}
+		const content = await readFile(tempPath, "utf-8");
+		return content.trim() && content !== original ? content : null;
+	} finally {
+		await rm(tempDir, { recursive: true, force: true });
+	}
 }
 
 /**
@@ -313,8 +502,9 @@ export async function runList(flags: Record<string, unknown>): Promise<void> {
 				if (prd.metrics?.iterations) {
 					timingParts.push(`${prd.metrics.iterations} iterations`);
 				}
-				if (prd.metrics?.totalTokens) {
-					timingParts.push(`${prd.metrics.totalTokens.toLocaleString()} tokens`);
+				const usage = prd.metrics ? formatUsage(prd.metrics) : "";
+				if (usage) {
+					timingParts.push(usage);
 				}
 				console.log(`  Time: ${timingParts.join(", ")}`);
 			}
@@ -367,6 +557,8 @@ export async function runStatus(_flags: Record<string, unknown>, prdName?: unkno
 
 	const prd: PRD = JSON.parse(await readFile(prdPath, "utf-8"));
 	const { canStart, unmetDependencies } = await canStartPRD(projectName, repoRoot, prdName);
+	const storyGraph = buildStoryDependencyGraph(prdDir, prd.stories);
+	const storyGraphCheck = validateStoryDependencyGraph(storyGraph);
 
 	console.log(`\n=== ${prd.name} ===`);
 	console.log(`Status: ${STATUS_EMOJI[status]} ${status}`);
@@ -394,9 +586,30 @@ export async function runStatus(_flags: Record<string, unknown>, prdName?: unkno
 			metricParts.push(`${prd.metrics.inputTokens.toLocaleString()} input`);
 		if (prd.metrics.outputTokens)
 			metricParts.push(`${prd.metrics.outputTokens.toLocaleString()} output`);
+		if (prd.metrics.cacheReadTokens)
+			metricParts.push(`${prd.metrics.cacheReadTokens.toLocaleString()} cache read`);
+		if (prd.metrics.cacheWriteTokens)
+			metricParts.push(`${prd.metrics.cacheWriteTokens.toLocaleString()} cache write`);
+		if (prd.metrics.costUsd) metricParts.push(`$${prd.metrics.costUsd.toFixed(2)}`);
 		if (metricParts.length > 0) {
 			console.log(`Metrics: ${metricParts.join(", ")}`);
 		}
+
+		const breakdowns: [string, Record<string, UsageTotals | undefined> | undefined][] = [
+			["By phase", prd.metrics.byPhase],
+			["By provider variant", prd.metrics.byProviderVariant],
+			["By story", prd.metrics.byStory],
+		];
+		for (const [label, totals] of breakdowns) {
+			const entries = Object.entries(totals ?? {}).filter(
+				(entry): entry is [string, UsageTotals] => entry[1] !== undefined,
+			);
+			if (entries.length === 0) continue;
+			console.log(`  ${label}:`);
+			for (const [key, t] of entries) {
+				console.log(`    ${key}: ${formatUsage(t)} (${t.runs} run${t.runs === 1 ? "" : "s"})`);
+			}
+		}
 	}
 
 	// Show dependencies if any
@@ -425,11 +638,26 @@ export async function runStatus(_flags: Record<string, unknown>, prdName?: unkno
 		console.log(`  Summary: ${prd.lastRun.summary}`);
 	}
 
+	// Show where an interrupted review or QA run will resume
+	const checkpoint = getCheckpoint(projectName, repoRoot, prdName);
+	if (checkpoint) {
+		const detail = checkpoint.review
+			? ` (${checkpoint.review.phase} phase, fix iteration ${checkpoint.review.fixIteration})`
+			: checkpoint.qa
+				? ` (last completed: ${checkpoint.qa.step})`
+				: "";
+		console.log(`
+Checkpoint: ${checkpoint.phase}${detail} — ${checkpoint.updatedAt}`);
+	}
+
 	// Calculate progress
 	const total = prd.stories.length;
 	const completed = prd.stories.filter((s) => s.status === "completed").length;
 
 	console.log(`\nProgress: ${completed}/${total} stories complete`);
+	if (!storyGraphCheck.ok) {
+		console.log(`\n⚠️  ${storyGraphCheck.error!.message}`);
+	}
 
 	// Group stories by status
 	const pending = prd.stories.filter((s) => s.status === "pending");
@@ -439,6 +667,16 @@ export async function runStatus(_flags: Record<string, unknown>, prdName?: unkno
 
 	const printStory = (s: Story, prefix: string) => {
 		console.log(`  ${prefix} ${s.id}: ${s.title} [priority: ${s.priority}]`);
+		const chain = getStoryDependencyChain(s.id, storyGraph);
+		if (chain.length > 0) {
+			const chainText = chain
+				.map((id) => {
+					const depStatus = prd.stories.find((st) => st.id === id)?.status;
+					return `${id} ${depStatus === "completed" ? "✅" : "⏳"}`;
+				})
+				.join(" → ");
+			console.log(`     Depends on: ${chainText}`);
+		}
 		if (s.questions.length > 0) {
 			console.log(`     Questions:`);
 			for (let i = 0; i < s.questions.length; i++) {
@@ -514,11 +752,15 @@ export async function runStart(flags: Record<string, unknown>, prdName?: unknown
 
 	if (!hasPRDFile(projectName, repoRoot, prdName)) {
 		console.error(`\n⚠️  PRD "${prdName}" only has a spec — no stories defined yet.`);
-		console.error(`Complete the PRD creation first using /prd, then start.`);
+		console.error(`Plan its stories first: omnidev ralph plan ${prdName}`);
 		process.exit(1);
 	}
 
-	if (status !== "pending" && status !== "in_progress") {
+	// A PRD whose move to QA was interrupted mid-verification resumes via start
+	const resumingVerification =
+		status === "qa" && getCheckpoint(projectName, repoRoot, prdName)?.phase === "verification";
+
+	if (status !== "pending" && status !== "in_progress" && !resumingVerification) {
 		console.error(`\n⚠️  PRD "${prdName}" is in ${status} status.`);
 		console.error(`Only PRDs in 'pending' or 'in_progress' status can be started.`);
 		if (status === "qa") {
@@ -580,8 +822,16 @@ export async function runStart(flags: Record<string, unknown>, prdName?: unknown
 
 			if (answer.toLowerCase() === "y" || answer.toLowerCase() === "yes") {
 				rl.close();
+				let unresolved = 0;
 				for (const story of blockedStories) {
-					await promptForAnswers(projectName, repoRoot, prdName, story);
+					if (!(await promptForAnswers(projectName, repoRoot, prdName, story))) {
+						unresolved++;
+					}
+				}
+				if (unresolved > 0) {
+					console.log(`${unresolved} story(ies) still blocked.`);
+					console.log(`Use 'omnidev ralph answer ${prdName}' when you are ready to resolve them.`);
+					process.exit(1);
 				}
 				console.log("All blocked stories have been addressed. Starting orchestration...\n");
 			} else {
@@ -635,6 +885,16 @@ export async function runStart(flags: Record<string, unknown>, prdName?: unknown
 				console.log(`\n${data.message}`);
 				console.log(`Run 'omnidev ralph start ${prdName}' again to continue.`);
 				break;
+			case "budget_exceeded":
+				console.log(`\n💸 ${data.message}`);
+				console.log(
+					`Raise the limit in [ralph.budget] (omni.toml), then: omnidev ralph start ${prdName}`,
+				);
+				break;
+			case "hook_vetoed":
+				console.log(`\n${data.message}`);
+				console.log(`Fix what the hook reports, then: omnidev ralph start ${prdName}`);
+				break;
 			case "aborted":
 				console.log("State saved.");
 				break;
@@ -675,6 +935,174 @@ export async function runProgress(
 	}
 }
 
+/**
+ * Render captured agent transcripts for a PRD
+ */
+export async function runTranscript(
+	flags: Record<string, unknown>,
+	prdName?: unknown,
+): Promise<void> {
+	if (!prdName || typeof prdName !== "string") {
+		console.error(
+			"Usage: omnidev ralph transcript <prd-name> [--story <id>] [--phase <phase>] [--list] [--prompt]",
+		);
+		process.exit(1);
+	}
+
+	const { projectName, repoRoot } = await getProjectContext();
+	if (!findPRDLocation(projectName, repoRoot, prdName)) {
+		console.error(`PRD not found: ${prdName}`);
+		process.exit(1);
+	}
+
+	const entries = listTranscripts(projectName, repoRoot, prdName, {
+		storyId: typeof flags["story"] === "string" ? flags["story"] : undefined,
+		phase: typeof flags["phase"] === "string" ? flags["phase"] : undefined,
+	});
+	if (entries.length === 0) {
+		console.log(`No transcripts found for: ${prdName}`);
+		return;
+	}
+
+	if (flags["list"] === true) {
+		for (const entry of entries) {
+			console.log(
+				`${entry.startedAt}  ${entry.phase.padEnd(8)} ${entry.storyId.padEnd(10)} #${entry.run}  ${entry.providerVariant ?? ""}  ${entry.file}`,
+			);
+		}
+		return;
+	}
+
+	for (const entry of entries) {
+		const records = readTranscript(projectName, repoRoot, prdName, entry);
+		console.log(renderTranscript(entry, records, { showPrompt: flags["prompt"] === true }));
+		console.log();
+	}
+}
+
+/**
+ * Resolve blocked stories: list open questions, answer them interactively, or
+ * apply an answers file
+ */
+export async function runAnswer(
+	flags: Record<string, unknown>,
+	prdName?: unknown,
+	storyId?: unknown,
+): Promise<void> {
+	const { projectName, repoRoot } = await getProjectContext();
+	const file = typeof flags["file"] === "string" ? flags["file"] : undefined;
+
+	if (file) {
+		const result = await applyAnswersFile(projectName, repoRoot, file);
+		const applied = result.ok
+			? result.data!
+			: ((result.error!.details?.["applied"] as AppliedAnswer[] | undefined) ?? []);
+		for (const entry of applied) {
+			console.log(`✓ ${entry.prdName} / ${entry.storyId}: ${entry.action}`);
+			if (entry.dependents.length > 0) {
+				console.log(
+					`  ⚠️  ${entry.dependents.join(", ")} will start without ${entry.storyId}'s work`,
+				);
+			}
+		}
+		if (!result.ok) {
+			console.error(`Error: ${result.error!.message}`);
+			process.exit(1);
+		}
+		console.log(`\nApplied ${applied.length} response(s) from ${file}`);
+		return;
+	}
+
+	const openResult = await getOpenQuestions(
+		projectName,
+		repoRoot,
+		typeof prdName === "string" ? prdName : undefined,
+	);
+	if (!openResult.ok) {
+		console.error(`Error: ${openResult.error!.message}`);
+		process.exit(1);
+	}
+
+	let open = openResult.data!;
+	if (typeof storyId === "string") {
+		open = open.filter((q) => q.storyId === storyId);
+		if (open.length === 0) {
+			console.error(`Story ${storyId} is not blocked`);
+			process.exit(1);
+		}
+	}
+
+	if (open.length === 0) {
+		console.log("No open questions.");
+		return;
+	}
+
+	if (flags["list"] === true) {
+		for (const q of open) {
+			console.log(`${q.prdName} / ${q.storyId}: ${q.title} [${q.prdStatus}]`);
+			for (const [i, question] of q.questions.entries()) {
+				console.log(`  ${i + 1}. ${question}`);
+			}
+		}
+		return;
+	}
+
+	const resolvedPRDs = new Set<string>();
+	for (const q of open) {
+		const prd = await getPRD(projectName, repoRoot, q.prdName);
+		const story = prd.stories.find((s) => s.id === q.storyId);
+		if (story && (await promptForAnswers(projectName, repoRoot, q.prdName, story))) {
+			resolvedPRDs.add(q.prdName);
+		}
+	}
+
+	for (const name of resolvedPRDs) {
+		console.log(`Continue with: omnidev ralph start ${name}`);
+	}
+}
+
+/**
+ * Roll back a story: undo its commits and reset it to pending
+ */
+export async function runStoryRollback(
+	flags: Record<string, unknown>,
+	prdName?: unknown,
+	storyId?: unknown,
+): Promise<void> {
+	if (!prdName || typeof prdName !== "string" || !storyId || typeof storyId !== "string") {
+		console.error("Usage: omnidev ralph story rollback <prd-name> <story-id> [--yes]");
+		process.exit(1);
+	}
+
+	const { projectName, repoRoot } = await getProjectContext();
+
+	if (flags["yes"] !== true) {
+		const rl = readline.createInterface({ input, output });
+		try {
+			const answer = await rl.question(
+				`Undo the commits of ${storyId} and reset it to pending? Uncommitted changes may be lost. (y/n): `,
+			);
+			if (answer.toLowerCase() !== "y" && answer.toLowerCase() !== "yes") {
+				console.log("Rollback cancelled.");
+				return;
+			}
+		} finally {
+			rl.close();
+		}
+	}
+
+	const result = await rollbackStory(projectName, repoRoot, prdName, storyId);
+	if (!result.ok) {
+		console.error(`Error: ${result.error!.message}`);
+		process.exit(1);
+	}
+
+	const { mode, commits } = result.data!;
+	console.log(
+		`✓ ${mode === "reset" ? "Reset" : "Reverted"} ${commits.length} commit(s) of ${storyId}; the story is pending again`,
+	);
+}
+
 /**
  * PRD management command
  */
@@ -689,6 +1117,7 @@ export async function runPrd(flags: Record<string, unknown>, prdName?: unknown):
 	const moveToStatus = flags["move"] as PRDStatus | undefined;
 	const edit = flags["edit"] as boolean | undefined;
 	const extractFindingsFlag = flags["extract-findings"] as boolean | undefined;
+	const splitStoryId = flags["split"] as string | undefined;
 
 	// Handle --move
 	if (moveToStatus) {
@@ -740,6 +1169,28 @@ export async function runPrd(flags: Record<string, unknown>, prdName?: unknown):
 		return;
 	}
 
+	// Handle --split: an agent proposes sub-stories, Ralph writes and inserts them
+	if (splitStoryId) {
+		if (!hasPRDFile(projectName, repoRoot, prdName)) {
+			console.error(`\n⚠️  PRD "${prdName}" only has a spec — no stories to split.`);
+			process.exit(1);
+		}
+
+		console.log(`Asking the agent to split ${splitStoryId}...`);
+		const engine = createEngine({ projectName, repoRoot });
+		const result = await engine.splitStory(prdName, splitStoryId, {
+			providerVariant:
+				typeof flags["provider-variant"] === "string" ? flags["provider-variant"] : undefined,
+			onEvent: consoleEventHandler,
+		});
+		if (!result.ok) {
+			console.error(`\nCould not split ${splitStoryId}: ${result.error!.message}`);
+			process.exit(1);
+		}
+		console.log(`\nReview the new story files, then run: omnidev ralph start ${prdName}`);
+		return;
+	}
+
 	// Handle --edit (placeholder - would launch editor)
 	if (edit) {
 		console.log(`Edit mode for "${prdName}" not yet implemented.`);
@@ -751,6 +1202,207 @@ export async function runPrd(flags: Record<string, unknown>, prdName?: unknown):
 	await runStatus({}, prdName);
 }
 
+/**
+ * Plan a spec-only PRD: a planner agent writes prd.json and the story files
+ */
+export async function runPlan(flags: Record<string, unknown>, prdName?: unknown): Promise<void> {
+	if (!prdName || typeof prdName !== "string") {
+		console.error(
+			"Usage: omnidev ralph plan <prd-name> [--replace] [--max-attempts <n>] [--provider-variant <name>]",
+		);
+		process.exit(1);
+	}
+
+	const { projectName, repoRoot } = await getProjectContext();
+	const engine = createEngine({ projectName, repoRoot });
+	const controller = new AbortController();
+	const shutdownHandler = () => controller.abort();
+	process.on("SIGINT", shutdownHandler);
+	process.on("SIGTERM", shutdownHandler);
+
+	try {
+		console.log(`Planning stories for ${prdName} from its spec...`);
+		const result = await engine.planPRD(prdName, {
+			providerVariant:
+				typeof flags["provider-variant"] === "string" ? flags["provider-variant"] : undefined,
+			maxAttempts: typeof flags["max-attempts"] === "number" ? flags["max-attempts"] : undefined,
+			replace: flags["replace"] === true,
+			signal: controller.signal,
+			onEvent: consoleEventHandler,
+		});
+		if (!result.ok) {
+			console.error(`\nCould not plan ${prdName}: ${result.error!.message}`);
+			process.exit(1);
+		}
+
+		const data = result.data!;
+		switch (data.outcome) {
+			case "planned":
+				console.log(`\nPlanned ${data.storyIds.length} stories: ${data.storyIds.join(", ")}`);
+				console.log(`Review them with: omnidev ralph status ${prdName}`);
+				console.log(`Then start with:  omnidev ralph start ${prdName}`);
+				break;
+			case "blocked":
+				console.log("\nThe planner needs the spec clarified first:");
+				for (const question of data.questions) console.log(`  - ${question}`);
+				console.log(`\nUpdate spec.md (omnidev ralph spec ${prdName}), then plan again.`);
+				process.exit(1);
+				break;
+			case "invalid":
+				console.error(
+					`\nThe plan still has ${data.problems.length} problem(s) after ${data.attempts} attempt(s):`,
+				);
+				for (const problem of data.problems) console.error(`  - ${problem}`);
+				console.error(`\nFix the files by hand or run: omnidev ralph plan ${prdName} --replace`);
+				process.exit(1);
+		}
+	} finally {
+		process.off("SIGINT", shutdownHandler);
+		process.off("SIGTERM", shutdownHandler);
+	}
+}
+
+/**
+ * Lint story files and prd.json for one PRD or all of them
+ */
+export async function runLint(flags: Record<string, unknown>, prdName?: unknown): Promise<void> {
+	const { projectName, repoRoot } = await getProjectContext();
+	const configResult = await loadConfig();
+	if (!configResult.ok) {
+		console.error(`Error: ${configResult.error!.message}`);
+		process.exit(1);
+	}
+
+	const result = lintPRDs(projectName, repoRoot, getLintConfig(configResult.data!), {
+		prdName: typeof prdName === "string" ? prdName : undefined,
+		all: flags["all"] === true,
+	});
+	if (!result.ok) {
+		console.error(`Error: ${result.error!.message}`);
+		process.exit(1);
+	}
+
+	const report = result.data!;
+	if (flags["json"] === true) {
+		console.log(JSON.stringify(report, null, 2));
+	} else if (report.prds.length === 0) {
+		console.log("No PRDs to lint.");
+	} else {
+		for (const prd of report.prds) {
+			if (prd.issues.length === 0) {
+				console.log(`✓ ${prd.prdName} (${prd.status})`);
+				continue;
+			}
+			console.log(`\n${prd.prdName} (${prd.status})`);
+			for (const issue of prd.issues) {
+				const icon = issue.severity === "error" ? "✗" : "⚠️ ";
+				console.log(`  ${icon} ${issue.file}: ${issue.message} [${issue.rule}]`);
+			}
+		}
+		console.log(
+			`\n${report.errors} error(s), ${report.warnings} warning(s) in ${report.prds.length} PRD(s)`,
+		);
+	}
+
+	if (report.errors > 0) {
+		process.exit(1);
+	}
+}
+
+/**
+ * List, filter, and triage a PRD's review findings
+ */
+export async function runReviewFindings(
+	flags: Record<string, unknown>,
+	prdName?: unknown,
+	findingId?: unknown,
+): Promise<void> {
+	if (!prdName || typeof prdName !== "string") {
+		console.error(
+			"Usage: omnidev ralph review findings <prd-name> [finding-id --mark <status> [--note <text>]] [--status <s,...>] [--severity <s,...>] [--file <path>] [--reviewer <name>] [--json]",
+		);
+		process.exit(1);
+	}
+	const { projectName, repoRoot } = await getProjectContext();
+	const list = (name: string) =>
+		typeof flags[name] === "string"
+			? (flags[name] as string)
+					.split(",")
+					.map((s) => s.trim())
+					.filter(Boolean)
+			: undefined;
+
+	const mark = typeof flags["mark"] === "string" ? flags["mark"] : undefined;
+	if (mark !== undefined || typeof findingId === "string") {
+		const status = FindingStatusSchema.safeParse(mark);
+		if (typeof findingId !== "string" || !status.success) {
+			console.error(
+				`Usage: omnidev ralph review findings ${prdName} <finding-id> --mark <${FindingStatusSchema.options.join("|")}> [--note <text>]`,
+			);
+			process.exit(1);
+		}
+		const result = await triageFinding(
+			projectName,
+			repoRoot,
+			prdName,
+			findingId,
+			status.data,
+			typeof flags["note"] === "string" ? flags["note"] : undefined,
+		);
+		if (!result.ok) {
+			console.error(`Error: ${result.error!.message}`);
+			process.exit(1);
+		}
+		console.log(`✓ ${result.data!.id} is now ${result.data!.status}`);
+		return;
+	}
+
+	const statusFilter = list("status");
+	const invalidStatus = statusFilter?.find((s) => !FindingStatusSchema.safeParse(s).success);
+	if (invalidStatus) {
+		console.error(`Unknown status "${invalidStatus}"`);
+		process.exit(1);
+	}
+	const result = await listFindings(projectName, repoRoot, prdName, {
+		status: statusFilter as FindingStatus[] | undefined,
+		severity: list("severity") as ReviewFinding["severity"][] | undefined,
+		file: typeof flags["file"] === "string" ? flags["file"] : undefined,
+		reviewer: typeof flags["reviewer"] === "string" ? flags["reviewer"] : undefined,
+	});
+	if (!result.ok) {
+		console.error(`Error: ${result.error!.message}`);
+		process.exit(1);
+	}
+
+	const findings = result.data!;
+	if (flags["json"] === true) {
+		console.log(JSON.stringify(findings, null, 2));
+		return;
+	}
+	if (findings.length === 0) {
+		console.log("No findings.");
+		return;
+	}
+	for (const f of findings) {
+		console.log(
+			`${f.id}  ${f.severity.toUpperCase().padEnd(10)} ${f.status.padEnd(8)} ${f.file}${f.line ? `:${f.line}` : ""} — ${f.issue} (${f.reviewer})`,
+		);
+		if (f.fixedBy) {
+			console.log(
+				`            fixed by ${f.fixedBy.phase}-phase fix iteration ${f.fixedBy.iteration}`,
+			);
+		}
+		if (f.note) {
+			console.log(`            note: ${f.note}`);
+		}
+	}
+	const counts = new Map<string, number>();
+	for (const f of findings) counts.set(f.status, (counts.get(f.status) ?? 0) + 1);
+	console.log(
+		`\n${findings.length} finding(s): ${Array.from(counts, ([status, n]) => `${n} ${status}`).join(", ")}`,
+	);
+}
+
 /**
  * Spec file command
  */
@@ -850,8 +1502,38 @@ const progressCommand = command({
 	func: runProgress,
 });
 
+const transcriptCommand = command({
+	brief: "Show captured agent transcripts for a PRD",
+	parameters: {
+		flags: {
+			story: {
+				kind: "string",
+				brief: "Only transcripts for this story ID (ALL for PRD-wide runs)",
+				optional: true,
+			},
+			phase: {
+				kind: "string",
+				brief: "Only transcripts for this phase (dev, verify, review, qa, docs, merge, findings)",
+				optional: true,
+			},
+			list: {
+				kind: "boolean",
+				brief: "List transcripts instead of rendering them",
+				optional: true,
+			},
+			prompt: {
+				kind: "boolean",
+				brief: "Include the full prompt of each run",
+				optional: true,
+			},
+		},
+		positional: [{ brief: "PRD name", kind: "string" }],
+	},
+	func: runTranscript,
+});
+
 const prdCommand = command({
-	brief: "PRD management (view, move, extract findings)",
+	brief: "PRD management (view, move, extract findings, split stories)",
 	parameters: {
 		flags: {
 			move: {
@@ -869,6 +1551,16 @@ const prdCommand = command({
 				brief: "Extract findings from PRD progress to per-PRD findings.md",
 				optional: true,
 			},
+			split: {
+				kind: "string",
+				brief: "Have an agent split this story into sub-stories",
+				optional: true,
+			},
+			"provider-variant": {
+				kind: "string",
+				brief: "Provider variant for --split (default: default_provider_variant)",
+				optional: true,
+			},
 		},
 		positional: [
 			{ brief: "PRD name (optional - lists PRDs if omitted)", kind: "string", optional: true },
@@ -956,7 +1648,11 @@ export async function runComplete(
 
 		const executor = getAgentExecutor();
 		const runAgentFn = async (prompt: string, cfg: typeof providerVariant) => {
-			const result = await executor.run(prompt, cfg);
+			const transcriptPath = createTranscript(projectName, repoRoot, prdName, {
+				phase: "findings",
+				providerVariant: cfg,
+			});
+			const result = await executor.run(prompt, cfg, transcriptPath ? { transcriptPath } : {});
 			return { output: result.output, exitCode: result.exitCode };
 		};
 
@@ -1046,6 +1742,14 @@ export async function runQA(flags: Record<string, unknown>, prdName?: unknown):
 			console.log(`\nPRD "${prdName}" moved back to in_progress.`);
 			console.log(`To fix issues: omnidev ralph start ${prdName}`);
 			process.exit(1);
+		} else if (data.outcome === "budget_exceeded") {
+			console.log(
+				`\nRaise the limit in [ralph.budget] (omni.toml), then: omnidev ralph qa ${prdName}`,
+			);
+			process.exit(2);
+		} else if (data.outcome === "hook_vetoed") {
+			console.log(`\nFix what the post_qa hook reports, then: omnidev ralph qa ${prdName}`);
+			process.exit(2);
 		} else {
 			// Unknown - manual action needed
 			console.log(`\nManual action required:`);
@@ -1318,6 +2022,7 @@ async function runSwarmLogs(flags: Record<string, unknown>, prdName?: unknown):
 
 async function runSwarmMerge(flags: Record<string, unknown>, prdName?: unknown): Promise<void> {
 	const { getProviderVariantConfig, getSwarmConfig } = await import("./lib/core/config.js");
+	const { getAgentTimeoutOptions } = await import("./lib/orchestration/agent-runner.js");
 	const configResult = await loadConfig();
 	if (!configResult.ok) {
 		console.error(configResult.error!.message);
@@ -1338,6 +2043,7 @@ async function runSwarmMerge(flags: Record<string, unknown>, prdName?: unknown):
 	const mergeOptions = {
 		providerVariant: variantResult.data!,
 		onOutput: (data: string) => process.stdout.write(data),
+		timeouts: getAgentTimeoutOptions(configResult.data!, variantResult.data!, "merge"),
 	};
 
 	const manager = await createSwarmManager();
@@ -1537,6 +2243,118 @@ const swarmRoutes = routes({
 	},
 });
 
+const answerCommand = command({
+	brief: "Answer, skip, or rewrite blocked stories",
+	parameters: {
+		flags: {
+			file: {
+				kind: "string",
+				brief: "Apply responses from a YAML or JSON answers file",
+				optional: true,
+			},
+			list: { kind: "boolean", brief: "Only list the open questions", optional: true },
+		},
+		positional: [
+			{ brief: "PRD name (default: all PRDs)", kind: "string", optional: true },
+			{ brief: "Story ID", kind: "string", optional: true },
+		],
+	},
+	func: runAnswer,
+});
+
+const planCommand = command({
+	brief: "Write prd.json and story files for a spec-only PRD",
+	parameters: {
+		flags: {
+			replace: {
+				kind: "boolean",
+				brief: "Plan again even though prd.json exists",
+				optional: true,
+			},
+			"max-attempts": {
+				kind: "number",
+				brief: "Planner runs before giving up on an invalid plan (default: 3)",
+				optional: true,
+			},
+			"provider-variant": { kind: "string", brief: "Provider variant to use", optional: true },
+		},
+		positional: [{ brief: "PRD name", kind: "string" }],
+	},
+	func: runPlan,
+});
+
+const lintCommand = command({
+	brief: "Check prd.json and story files without running anything",
+	parameters: {
+		flags: {
+			all: { kind: "boolean", brief: "Include completed PRDs", optional: true },
+			json: { kind: "boolean", brief: "Print the report as JSON", optional: true },
+		},
+		positional: [{ brief: "PRD name (default: all active PRDs)", kind: "string", optional: true }],
+	},
+	func: runLint,
+});
+
+const reviewFindingsCommand = command({
+	brief: "List, filter, and triage a PRD's review findings",
+	parameters: {
+		flags: {
+			status: {
+				kind: "string",
+				brief: "Only these statuses, comma-separated (open, fixed, disputed, deferred, wontfix)",
+				optional: true,
+			},
+			severity: {
+				kind: "string",
+				brief: "Only these severities, comma-separated (critical, major, minor, suggestion)",
+				optional: true,
+			},
+			file: { kind: "string", brief: "Only findings under this path", optional: true },
+			reviewer: { kind: "string", brief: "Only findings from this reviewer", optional: true },
+			json: { kind: "boolean", brief: "Print the findings as JSON", optional: true },
+			mark: {
+				kind: "string",
+				brief: "Set the given finding's status (open, fixed, disputed, deferred, wontfix)",
+				optional: true,
+			},
+			note: { kind: "string", brief: "Reason recorded with --mark", optional: true },
+		},
+		positional: [
+			{ brief: "PRD name", kind: "string" },
+			{ brief: "Finding ID or ID prefix (with --mark)", kind: "string", optional: true },
+		],
+	},
+	func: runReviewFindings,
+});
+
+const reviewRoutes = routes({
+	brief: "Review commands",
+	routes: {
+		findings: reviewFindingsCommand,
+	},
+});
+
+const storyRollbackCommand = command({
+	brief: "Undo a story's commits and reset it to pending",
+	parameters: {
+		flags: {
+			yes: { kind: "boolean", brief: "Skip the confirmation prompt", optional: true },
+		},
+		positional: [
+			{ brief: "PRD name", kind: "string" },
+			{ brief: "Story ID", kind: "string" },
+		],
+	},
+	func: runStoryRollback,
+});
+
+const storyRoutes = routes({
+	brief: "Story commands",
+	routes: {
+		rollback: storyRollbackCommand,
+	},
+});
+
 // Export route map
 export const ralphRoutes = routes({
 	brief: "Ralph AI orchestrator",
@@ -1545,11 +2363,17 @@ export const ralphRoutes = routes({
 		status: statusCommand,
 		start: startCommand,
 		progress: progressCommand,
+		transcript: transcriptCommand,
+		plan: planCommand,
+		lint: lintCommand,
 		prd: prdCommand,
 		spec: specCommand,
 		complete: completeCommand,
 		qa: qaCommand,
 		migrate: migrateCommand,
+		answer: answerCommand,
+		review: reviewRoutes,
+		story: storyRoutes,
 		swarm: swarmRoutes,
 	},
 });
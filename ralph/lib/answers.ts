@@ -0,0 +1,334 @@
+/**
+ * Ralph Answers
+ *
+ * Resolves blocked stories outside of `ralph start`: list the open questions
+ * across PRDs, then answer them, skip the story, or replace it with a
+ * rewritten story file. Responses can also come in bulk from a YAML or JSON
+ * answers file.
+ */
+
+import { readFile } from "node:fs/promises";
+import { getDefaultStore } from "./core/prd-store.js";
+import { ErrorCodes, err, ok, type Result } from "./results.js";
+import { type AnswerEntryZ, validateAnswersFile } from "./schemas.js";
+import type { PRDStatus, StoryResponse } from "./types.js";
+
+/**
+ * A blocked story waiting on the user
+ */
+export interface OpenQuestion {
+	prdName: string;
+	prdStatus: PRDStatus;
+	storyId: string;
+	title: string;
+	questions: string[];
+}
+
+/**
+ * One response applied from an answers file
+ */
+export interface AppliedAnswer {
+	prdName: string;
+	storyId: string;
+	action: StoryResponse["action"];
+	/** For a skip, the unfinished stories that now start without the skipped one */
+	dependents: string[];
+}
+
+/** PRD folders whose stories can still be answered */
+const ANSWERABLE_STATUSES: PRDStatus[] = ["pending", "in_progress"];
+
+/**
+ * List blocked stories across every pending and in-progress PRD, or just one PRD
+ */
+export async function listOpenQuestions(
+	projectName: string,
+	repoRoot: string,
+	prdName?: string,
+): Promise<Result<OpenQuestion[]>> {
+	const store = getDefaultStore(projectName, repoRoot);
+
+	let prds: Array<{ name: string; status: PRDStatus }>;
+	if (prdName) {
+		const status = store.findLocation(prdName);
+		if (!status) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+		}
+		prds = [{ name: prdName, status }];
+	} else {
+		prds = ANSWERABLE_STATUSES.flatMap((status) => store.list(status));
+	}
+
+	const open: OpenQuestion[] = [];
+	for (const { name, status } of prds) {
+		const prdResult = await store.get(name);
+		if (!prdResult.ok) {
+			// A PRD that has only a spec has no stories to answer yet
+			if (!prdName) continue;
+			return err(prdResult.error!.code, prdResult.error!.message);
+		}
+		for (const story of prdResult.data!.stories) {
+			if (story.status === "blocked") {
+				open.push({
+					prdName: name,
+					prdStatus: status,
+					storyId: story.id,
+					title: story.title,
+					questions: story.questions,
+				});
+			}
+		}
+	}
+	return ok(open);
+}
+
+function noDependents(result: Result<void>): Result<string[]> {
+	return result.ok ? ok([]) : (result as unknown as Result<string[]>);
+}
+
+/**
+ * Resolve a blocked story with the user's response
+ *
+ * @returns For a skip, the unfinished stories that depend on the skipped one;
+ * otherwise an empty list
+ */
+export async function respondToStory(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	storyId: string,
+	response: StoryResponse,
+): Promise<Result<string[]>> {
+	const store = getDefaultStore(projectName, repoRoot);
+	const prdResult = await store.get(prdName);
+	if (!prdResult.ok) {
+		return err(prdResult.error!.code, prdResult.error!.message);
+	}
+	const story = prdResult.data!.stories.find((s) => s.id === storyId);
+	if (!story) {
+		return err(ErrorCodes.PRD_NOT_FOUND, `Story not found: ${storyId}`);
+	}
+	if (story.status !== "blocked") {
+		return err(ErrorCodes.STORY_NOT_BLOCKED, `Story ${storyId} is not blocked`);
+	}
+
+	switch (response.action) {
+		case "answer":
+			if (response.answers.length !== story.questions.length) {
+				return err(
+					ErrorCodes.ANSWERS_INVALID,
+					`Story ${storyId} has ${story.questions.length} question(s), got ${response.answers.length} answer(s)`,
+				);
+			}
+			return noDependents(await store.unblockStory(prdName, storyId, response.answers));
+		case "skip":
+			return store.skipStory(prdName, storyId, response.reason);
+		case "rewrite":
+			return noDependents(await store.rewriteStory(prdName, storyId, response.content));
+	}
+}
+
+/**
+ * Parse an answers file: a JSON array, or a YAML list of entries such as
+ *
+ * ```yaml
+ * - prd: auth
+ *   story: US-002
+ *   answers:
+ *     - Use JWT
+ * - prd: auth
+ *   story: US-003
+ *   skip: Covered by US-001
+ * ```
+ *
+ * Only the YAML needed for answers is supported: a top-level list of maps with
+ * plain or quoted scalars, lists of scalars, and `|` block scalars.
+ */
+export function parseAnswersFile(content: string, path: string): Result<AnswerEntryZ[]> {
+	let data: unknown;
+	if (path.endsWith(".json") || /^\s*[[{]/.test(content)) {
+		try {
+			data = JSON.parse(content);
+		} catch (error) {
+			return err(
+				ErrorCodes.ANSWERS_INVALID,
+				`Invalid JSON in ${path}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	} else {
+		const yamlResult = parseYamlEntries(content);
+		if (!yamlResult.ok) {
+			return err(
+				ErrorCodes.ANSWERS_INVALID,
+				`Invalid YAML in ${path}: ${yamlResult.error!.message}`,
+			);
+		}
+		data = yamlResult.data;
+	}
+
+	const validation = validateAnswersFile(data);
+	if (!validation.success) {
+		const issues = validation.error.issues
+			.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+			.join("; ");
+		return err(ErrorCodes.ANSWERS_INVALID, `Invalid answers file ${path}: ${issues}`);
+	}
+	return ok(validation.data);
+}
+
+/**
+ * The response an answers file entry describes
+ */
+export function entryToResponse(entry: AnswerEntryZ): StoryResponse {
+	if (entry.answers !== undefined) {
+		return { action: "answer", answers: entry.answers };
+	}
+	if (entry.rewrite !== undefined) {
+		return { action: "rewrite", content: entry.rewrite };
+	}
+	return typeof entry.skip === "string"
+		? { action: "skip", reason: entry.skip }
+		: { action: "skip" };
+}
+
+/**
+ * Apply every entry of an answers file. Stops at the first entry that fails;
+ * the entries before it stay applied.
+ */
+export async function applyAnswersFile(
+	projectName: string,
+	repoRoot: string,
+	path: string,
+): Promise<Result<AppliedAnswer[]>> {
+	let content: string;
+	try {
+		content = await readFile(path, "utf-8");
+	} catch (error) {
+		return err(
+			ErrorCodes.ANSWERS_INVALID,
+			`Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const entriesResult = parseAnswersFile(content, path);
+	if (!entriesResult.ok) {
+		return err(entriesResult.error!.code, entriesResult.error!.message);
+	}
+
+	const applied: AppliedAnswer[] = [];
+	for (const entry of entriesResult.data!) {
+		const response = entryToResponse(entry);
+		const result = await respondToStory(projectName, repoRoot, entry.prd, entry.story, response);
+		if (!result.ok) {
+			return err(result.error!.code, `${entry.prd}/${entry.story}: ${result.error!.message}`, {
+				applied,
+			});
+		}
+		applied.push({
+			prdName: entry.prd,
+			storyId: entry.story,
+			action: response.action,
+			dependents: result.data!,
+		});
+	}
+	return ok(applied);
+}
+
+function indentOf(line: string): number {
+	return line.length - line.trimStart().length;
+}
+
+function parseScalar(value: string): string | boolean {
+	if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+		return JSON.parse(value) as string;
+	}
+	if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+		return value.slice(1, -1).replace(/''/g, "'");
+	}
+	if (value === "true" || value === "false") {
+		return value === "true";
+	}
+	return value;
+}
+
+/**
+ * Parse the YAML subset described on `parseAnswersFile`
+ */
+function parseYamlEntries(content: string): Result<Record<string, unknown>[]> {
+	const lines = content.replace(/\r\n/g, "\n").split("\n");
+	const entries: Record<string, unknown>[] = [];
+	let current: Record<string, unknown> | undefined;
+	const fail = (index: number, message: string) =>
+		err(ErrorCodes.ANSWERS_INVALID, `line ${index + 1}: ${message}`);
+
+	let i = 0;
+	while (i < lines.length) {
+		const line = lines[i]!;
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("#")) {
+			i++;
+			continue;
+		}
+
+		let text = trimmed;
+		let keyIndent = indentOf(line);
+		if (keyIndent === 0) {
+			if (text !== "-" && !text.startsWith("- ")) {
+				return fail(i, 'expected a list entry starting with "- "');
+			}
+			current = {};
+			entries.push(current);
+			text = text.slice(1).trimStart();
+			keyIndent = line.length - text.length;
+			if (!text) {
+				i++;
+				continue;
+			}
+		}
+		if (!current) {
+			return fail(i, 'expected a list entry starting with "- "');
+		}
+
+		const match = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/.exec(text);
+		if (!match) {
+			return fail(i, `expected "key: value", got "${text}"`);
+		}
+		const key = match[1]!;
+		const value = (match[2] ?? "").trim();
+		i++;
+
+		try {
+			if (value === "|" || value === "|-") {
+				const block: string[] = [];
+				while (i < lines.length && (!lines[i]!.trim() || indentOf(lines[i]!) > keyIndent)) {
+					block.push(lines[i]!);
+					i++;
+				}
+				while (block.length > 0 && !block[block.length - 1]!.trim()) {
+					block.pop();
+				}
+				const blockIndent = Math.min(...block.filter((l) => l.trim()).map(indentOf));
+				const text = block.map((l) => l.slice(blockIndent)).join("\n");
+				current[key] = value === "|" ? `${text}\n` : text;
+			} else if (value === "") {
+				const items: Array<string | boolean> = [];
+				while (i < lines.length) {
+					const item = lines[i]!.trim();
+					if (item && (indentOf(lines[i]!) < keyIndent || !item.startsWith("-"))) {
+						break;
+					}
+					if (item) {
+						items.push(parseScalar(item.slice(1).trim()));
+					}
+					i++;
+				}
+				current[key] = items.map(String);
+			} else {
+				current[key] = parseScalar(value);
+			}
+		} catch (error) {
+			return fail(i - 1, error instanceof Error ? error.message : String(error));
+		}
+	}
+	return ok(entries);
+}
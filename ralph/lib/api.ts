@@ -5,8 +5,10 @@
  * Wraps the event-based Orchestrator with result types.
  */
 
+import { listOpenQuestions, type OpenQuestion, respondToStory } from "./answers.js";
 import { createOrchestrator, type OrchestratorEvent, type OrchestratorOptions } from "./events.js";
 import {
+	type AnswerResult,
 	computeDisplayState,
 	ErrorCodes,
 	err,
@@ -19,6 +21,7 @@ import {
 	type StateResult,
 } from "./results.js";
 import { findPRDLocation, getPRD, hasBlockedStories } from "./state.js";
+import type { StoryResponse } from "./types.js";
 
 /**
  * Get the current state of a PRD
@@ -115,6 +118,12 @@ export async function startDevelopment(
 				case "max_iterations":
 					outcome = "max_iterations";
 					break;
+				case "budget_exceeded":
+					outcome = "budget_exceeded";
+					break;
+				case "hook_vetoed":
+					outcome = "hook_vetoed";
+					break;
 				default:
 					outcome = "error";
 			}
@@ -196,6 +205,12 @@ export async function runQA(
 		if (event.type === "qa_complete") {
 			outcome = event.result;
 			issues = event.issues ?? [];
+		} else if (
+			event.type === "complete" &&
+			(event.result === "budget_exceeded" || event.result === "hook_vetoed")
+		) {
+			outcome = event.result;
+			message = event.message;
 		} else if (event.type === "health_check_failed") {
 			healthCheckFailed = true;
 			outcome = "health_check_failed";
@@ -278,3 +293,44 @@ export async function canTransition(
 	const allowed = validTransitions[currentState]?.includes(toState) ?? false;
 	return ok(allowed);
 }
+
+/**
+ * List blocked stories waiting on the user, across all PRDs or for one PRD
+ */
+export async function getOpenQuestions(
+	projectName: string,
+	repoRoot: string,
+	prdName?: string,
+): Promise<Result<OpenQuestion[]>> {
+	return listOpenQuestions(projectName, repoRoot, prdName);
+}
+
+/**
+ * Answer, skip, or rewrite a blocked story, then report the PRD's new state
+ */
+export async function answerStory(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	storyId: string,
+	response: StoryResponse,
+	hasWorktree = false,
+): Promise<Result<AnswerResult>> {
+	const result = await respondToStory(projectName, repoRoot, prdName, storyId, response);
+	if (!result.ok) {
+		return err(result.error!.code, result.error!.message);
+	}
+
+	const stateResult = await getPRDState(projectName, repoRoot, prdName, hasWorktree);
+	if (!stateResult.ok) {
+		return err(stateResult.error!.code, stateResult.error!.message);
+	}
+
+	return ok({
+		prdName,
+		storyId,
+		action: response.action,
+		dependents: result.data!,
+		state: stateResult.data!,
+	});
+}
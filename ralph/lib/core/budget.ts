@@ -0,0 +1,89 @@
+/**
+ * Ralph Budget Limits
+ *
+ * Checks a PRD's recorded usage against `[ralph.budget]`. The engines call
+ * this before spawning agents; when a limit trips they stop with a
+ * `budget_exceeded` outcome and leave the PRD where it was, so raising the
+ * limit and re-running resumes the work.
+ */
+
+import type { BudgetConfig, PRD } from "../types.js";
+import type { PRDStore } from "./prd-store.js";
+
+/**
+ * Which budget limit was exceeded
+ */
+export type BudgetLimit = "tokens" | "usd" | "wall_clock" | "story_iterations";
+
+/**
+ * A tripped budget limit
+ */
+export interface BudgetExceeded {
+	limit: BudgetLimit;
+	message: string;
+}
+
+/**
+ * Check a PRD against the configured budget.
+ *
+ * @param storyId - Story about to be worked on (enables the per-story iteration limit)
+ * @returns The first exceeded limit, or null when within budget
+ */
+export function checkBudget(
+	prd: PRD,
+	budget: BudgetConfig,
+	storyId?: string,
+	now: Date = new Date(),
+): BudgetExceeded | null {
+	const metrics = prd.metrics ?? {};
+
+	if (budget.max_tokens !== undefined && (metrics.totalTokens ?? 0) >= budget.max_tokens) {
+		return {
+			limit: "tokens",
+			message: `Token budget exceeded: ${(metrics.totalTokens ?? 0).toLocaleString()} / ${budget.max_tokens.toLocaleString()} tokens (raise ralph.budget.max_tokens to continue)`,
+		};
+	}
+
+	if (budget.max_usd !== undefined && (metrics.costUsd ?? 0) >= budget.max_usd) {
+		return {
+			limit: "usd",
+			message: `Cost budget exceeded: $${(metrics.costUsd ?? 0).toFixed(2)} / $${budget.max_usd.toFixed(2)} (raise ralph.budget.max_usd to continue)`,
+		};
+	}
+
+	if (budget.max_wall_clock_minutes !== undefined && prd.startedAt) {
+		const elapsedMinutes = (now.getTime() - new Date(prd.startedAt).getTime()) / 60000;
+		if (elapsedMinutes >= budget.max_wall_clock_minutes) {
+			return {
+				limit: "wall_clock",
+				message: `Wall-clock budget exceeded: ${Math.floor(elapsedMinutes)} / ${budget.max_wall_clock_minutes} minutes since the PRD started (raise ralph.budget.max_wall_clock_minutes to continue)`,
+			};
+		}
+	}
+
+	if (budget.max_iterations_per_story !== undefined && storyId) {
+		const iterations = prd.stories.find((s) => s.id === storyId)?.iterationCount ?? 0;
+		if (iterations >= budget.max_iterations_per_story) {
+			return {
+				limit: "story_iterations",
+				message: `Iteration budget exceeded for story ${storyId}: ${iterations} / ${budget.max_iterations_per_story} iterations (raise ralph.budget.max_iterations_per_story to continue)`,
+			};
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Load a PRD from the store and check it against the configured budget.
+ * A PRD that cannot be loaded is treated as within budget.
+ */
+export async function checkPRDBudget(
+	store: PRDStore,
+	prdName: string,
+	budget: BudgetConfig,
+	storyId?: string,
+): Promise<BudgetExceeded | null> {
+	const prdResult = await store.get(prdName);
+	return prdResult.ok ? checkBudget(prdResult.data!, budget, storyId) : null;
+}
@@ -12,14 +12,31 @@ import { parse } from "smol-toml";
 import { ErrorCodes, err, ok, type Result } from "../results.js";
 import { validateRalphConfig } from "../schemas.js";
 import type {
+	AgentTimeoutConfig,
+	BudgetConfig,
+	CommitsConfig,
 	DocsConfig,
+	GatesConfig,
+	HooksConfig,
+	LintConfig,
+	NotificationEvent,
+	NotificationsConfig,
+	ParallelConfig,
+	ProviderFormat,
 	ProviderVariantConfig,
 	QAConfig,
 	QAPlatformConfig,
 	RalphConfig,
+	RetryConfig,
 	ReviewConfig,
 	ScriptsConfig,
+	Story,
+	StuckConfig,
 	SwarmConfig,
+	TimeoutPolicy,
+	TimeoutsConfig,
+	UsagePhase,
+	VerificationConfig,
 } from "../types.js";
 
 const CONFIG_PATH = "omni.toml";
@@ -35,6 +52,17 @@ interface RawTomlConfig {
 		default_iterations?: number;
 		verification_provider_variant?: string;
 		provider_variants?: Record<string, RawProviderVariantConfig>;
+		verification?: RawVerificationConfig;
+		budget?: RawBudgetConfig;
+		timeouts?: RawTimeoutsConfig;
+		retry?: RawRetryConfig;
+		parallel?: RawParallelConfig;
+		stuck?: RawStuckConfig;
+		commits?: RawCommitsConfig;
+		hooks?: RawHooksConfig;
+		gates?: RawGatesConfig;
+		lint?: RawLintConfig;
+		notifications?: RawNotificationsConfig;
 		qa?: RawQAConfig;
 		scripts?: RawScriptsConfig;
 		docs?: RawDocsConfig;
@@ -51,6 +79,93 @@ export { getPrdsDir, getStateDir, validateProjectName } from "./paths.js";
 interface RawProviderVariantConfig {
 	command?: string;
 	args?: string[];
+	format?: ProviderFormat;
+	timeout_minutes?: number;
+	idle_timeout_minutes?: number;
+	fallback_variants?: string[];
+}
+
+interface RawVerificationConfig {
+	enabled?: boolean;
+	story_verifier_provider_variant?: string;
+}
+
+interface RawBudgetConfig {
+	max_tokens?: number;
+	max_usd?: number;
+	max_wall_clock_minutes?: number;
+	max_iterations_per_story?: number;
+}
+
+interface RawTimeoutsConfig {
+	on_timeout?: TimeoutPolicy;
+	max_retries?: number;
+	kill_grace_seconds?: number;
+	dev?: AgentTimeoutConfig;
+	verify?: AgentTimeoutConfig;
+	qa?: AgentTimeoutConfig;
+	review?: AgentTimeoutConfig;
+	merge?: AgentTimeoutConfig;
+	docs?: AgentTimeoutConfig;
+}
+
+interface RawRetryConfig {
+	max_retries?: number;
+	base_delay_seconds?: number;
+	max_delay_seconds?: number;
+}
+
+interface RawParallelConfig {
+	enabled?: boolean;
+	max_stories?: number;
+	worktree_parent?: string;
+}
+
+interface RawStuckConfig {
+	max_iterations?: number;
+	priority_max_iterations?: Record<string, number>;
+	story_max_iterations?: Record<string, number>;
+	replan?: boolean;
+	escalation_provider_variant?: string;
+}
+
+interface RawCommitsConfig {
+	auto_commit?: boolean;
+	require_commit?: boolean;
+}
+
+interface RawHooksConfig {
+	pre_iteration?: string;
+	post_iteration?: string;
+	pre_review?: string;
+	post_qa?: string;
+	on_complete?: string;
+	on_blocked?: string;
+	timeout?: number;
+}
+
+interface RawGatesConfig {
+	commands?: Record<string, string>;
+	timeout?: number;
+}
+
+interface RawLintConfig {
+	min_acceptance_criteria?: number;
+	max_acceptance_criteria?: number;
+}
+
+interface RawNotificationsConfig {
+	events?: NotificationEvent[];
+	timeout?: number;
+	desktop?: { enabled?: boolean; events?: NotificationEvent[] };
+	webhook?: {
+		url?: string;
+		method?: string;
+		headers?: Record<string, string>;
+		body?: string;
+		events?: NotificationEvent[];
+	};
+	command?: { command?: string; events?: NotificationEvent[] };
 }
 
 interface RawQAConfig {
@@ -91,6 +206,9 @@ interface RawReviewConfig {
 	second_review_agents?: string[];
 	max_fix_iterations?: number;
 	todo_file?: string;
+	diff_token_budget?: number;
+	diff_exclude?: string[];
+	recheck_fixes?: boolean;
 }
 
 interface RawSwarmConfig {
@@ -134,10 +252,156 @@ function transformConfig(raw: RawTomlConfig): Partial<RalphConfig> {
 				command: variantRaw.command ?? "",
 				args: variantRaw.args ?? [],
 			};
+			if (variantRaw.format) variant.format = variantRaw.format;
+			if (variantRaw.timeout_minutes !== undefined)
+				variant.timeout_minutes = variantRaw.timeout_minutes;
+			if (variantRaw.idle_timeout_minutes !== undefined)
+				variant.idle_timeout_minutes = variantRaw.idle_timeout_minutes;
+			if (variantRaw.fallback_variants)
+				variant.fallback_variants = [...variantRaw.fallback_variants];
 			config.provider_variants[name] = variant;
 		}
 	}
 
+	// Story verifier config
+	if (ralph.verification) {
+		const verification: VerificationConfig = {};
+		if (ralph.verification.enabled !== undefined) verification.enabled = ralph.verification.enabled;
+		if (ralph.verification.story_verifier_provider_variant)
+			verification.story_verifier_provider_variant =
+				ralph.verification.story_verifier_provider_variant;
+		config.verification = verification;
+	}
+
+	// Budget config
+	if (ralph.budget) {
+		const budget: BudgetConfig = {};
+		if (ralph.budget.max_tokens !== undefined) budget.max_tokens = ralph.budget.max_tokens;
+		if (ralph.budget.max_usd !== undefined) budget.max_usd = ralph.budget.max_usd;
+		if (ralph.budget.max_wall_clock_minutes !== undefined)
+			budget.max_wall_clock_minutes = ralph.budget.max_wall_clock_minutes;
+		if (ralph.budget.max_iterations_per_story !== undefined)
+			budget.max_iterations_per_story = ralph.budget.max_iterations_per_story;
+		config.budget = budget;
+	}
+
+	// Agent run timeouts
+	if (ralph.timeouts) {
+		const timeouts: TimeoutsConfig = {};
+		if (ralph.timeouts.on_timeout) timeouts.on_timeout = ralph.timeouts.on_timeout;
+		if (ralph.timeouts.max_retries !== undefined) timeouts.max_retries = ralph.timeouts.max_retries;
+		if (ralph.timeouts.kill_grace_seconds !== undefined)
+			timeouts.kill_grace_seconds = ralph.timeouts.kill_grace_seconds;
+		for (const phase of ["dev", "verify", "qa", "review", "merge", "docs"] as const) {
+			const phaseTimeouts = ralph.timeouts[phase];
+			if (phaseTimeouts) {
+				timeouts[phase] = { ...phaseTimeouts };
+			}
+		}
+		config.timeouts = timeouts;
+	}
+
+	// Transient failure retry policy
+	if (ralph.retry) {
+		const retry: RetryConfig = {};
+		if (ralph.retry.max_retries !== undefined) retry.max_retries = ralph.retry.max_retries;
+		if (ralph.retry.base_delay_seconds !== undefined)
+			retry.base_delay_seconds = ralph.retry.base_delay_seconds;
+		if (ralph.retry.max_delay_seconds !== undefined)
+			retry.max_delay_seconds = ralph.retry.max_delay_seconds;
+		config.retry = retry;
+	}
+
+	// Parallel story execution
+	if (ralph.parallel) {
+		const parallel: ParallelConfig = {};
+		if (ralph.parallel.enabled !== undefined) parallel.enabled = ralph.parallel.enabled;
+		if (ralph.parallel.max_stories !== undefined) parallel.max_stories = ralph.parallel.max_stories;
+		if (ralph.parallel.worktree_parent) parallel.worktree_parent = ralph.parallel.worktree_parent;
+		config.parallel = parallel;
+	}
+
+	// Stuck-story policy
+	if (ralph.stuck) {
+		const stuck: StuckConfig = {};
+		if (ralph.stuck.max_iterations !== undefined) stuck.max_iterations = ralph.stuck.max_iterations;
+		if (ralph.stuck.priority_max_iterations)
+			stuck.priority_max_iterations = { ...ralph.stuck.priority_max_iterations };
+		if (ralph.stuck.story_max_iterations)
+			stuck.story_max_iterations = { ...ralph.stuck.story_max_iterations };
+		if (ralph.stuck.replan !== undefined) stuck.replan = ralph.stuck.replan;
+		if (ralph.stuck.escalation_provider_variant)
+			stuck.escalation_provider_variant = ralph.stuck.escalation_provider_variant;
+		config.stuck = stuck;
+	}
+
+	// Per-story commit discipline
+	if (ralph.commits) {
+		const commits: CommitsConfig = {};
+		if (ralph.commits.auto_commit !== undefined) commits.auto_commit = ralph.commits.auto_commit;
+		if (ralph.commits.require_commit !== undefined)
+			commits.require_commit = ralph.commits.require_commit;
+		config.commits = commits;
+	}
+
+	// Lifecycle hooks
+	if (ralph.hooks) {
+		const hooks: HooksConfig = {};
+		if (ralph.hooks.pre_iteration) hooks.pre_iteration = ralph.hooks.pre_iteration;
+		if (ralph.hooks.post_iteration) hooks.post_iteration = ralph.hooks.post_iteration;
+		if (ralph.hooks.pre_review) hooks.pre_review = ralph.hooks.pre_review;
+		if (ralph.hooks.post_qa) hooks.post_qa = ralph.hooks.post_qa;
+		if (ralph.hooks.on_complete) hooks.on_complete = ralph.hooks.on_complete;
+		if (ralph.hooks.on_blocked) hooks.on_blocked = ralph.hooks.on_blocked;
+		if (ralph.hooks.timeout !== undefined) hooks.timeout = ralph.hooks.timeout;
+		config.hooks = hooks;
+	}
+
+	// Quality gates
+	if (ralph.gates) {
+		const gates: GatesConfig = {};
+		if (ralph.gates.commands) gates.commands = { ...ralph.gates.commands };
+		if (ralph.gates.timeout !== undefined) gates.timeout = ralph.gates.timeout;
+		config.gates = gates;
+	}
+
+	// Story file lint limits
+	if (ralph.lint) {
+		const lint: LintConfig = {};
+		if (ralph.lint.min_acceptance_criteria !== undefined) {
+			lint.min_acceptance_criteria = ralph.lint.min_acceptance_criteria;
+		}
+		if (ralph.lint.max_acceptance_criteria !== undefined) {
+			lint.max_acceptance_criteria = ralph.lint.max_acceptance_criteria;
+		}
+		config.lint = lint;
+	}
+
+	// Notifications
+	if (ralph.notifications) {
+		const raw = ralph.notifications;
+		const notifications: NotificationsConfig = {};
+		if (raw.events) notifications.events = [...raw.events];
+		if (raw.timeout !== undefined) notifications.timeout = raw.timeout;
+		if (raw.desktop) {
+			notifications.desktop = {};
+			if (raw.desktop.enabled !== undefined) notifications.desktop.enabled = raw.desktop.enabled;
+			if (raw.desktop.events) notifications.desktop.events = [...raw.desktop.events];
+		}
+		if (raw.webhook?.url) {
+			notifications.webhook = { url: raw.webhook.url };
+			if (raw.webhook.method) notifications.webhook.method = raw.webhook.method;
+			if (raw.webhook.headers) notifications.webhook.headers = { ...raw.webhook.headers };
+			if (raw.webhook.body) notifications.webhook.body = raw.webhook.body;
+			if (raw.webhook.events) notifications.webhook.events = [...raw.webhook.events];
+		}
+		if (raw.command?.command) {
+			notifications.command = { command: raw.command.command };
+			if (raw.command.events) notifications.command.events = [...raw.command.events];
+		}
+		config.notifications = notifications;
+	}
+
 	// QA config
 	if (ralph.qa) {
 		const qa: QAConfig = {};
@@ -211,6 +475,10 @@ function transformConfig(raw: RawTomlConfig): Partial<RalphConfig> {
 		if (ralph.review.max_fix_iterations !== undefined)
 			review.max_fix_iterations = ralph.review.max_fix_iterations;
 		if (ralph.review.todo_file) review.todo_file = ralph.review.todo_file;
+		if (ralph.review.diff_token_budget !== undefined)
+			review.diff_token_budget = ralph.review.diff_token_budget;
+		if (ralph.review.diff_exclude) review.diff_exclude = ralph.review.diff_exclude;
+		if (ralph.review.recheck_fixes !== undefined) review.recheck_fixes = ralph.review.recheck_fixes;
 		config.review = review;
 	}
 
@@ -282,6 +550,10 @@ function validateProviderVariantReferences(config: RalphConfig): Result<RalphCon
 	const references: Array<{ name: string | undefined; setting: string }> = [
 		{ name: config.default_provider_variant, setting: "ralph.default_provider_variant" },
 		{ name: config.verification_provider_variant, setting: "ralph.verification_provider_variant" },
+		{
+			name: config.verification?.story_verifier_provider_variant,
+			setting: "ralph.verification.story_verifier_provider_variant",
+		},
 		{ name: config.review?.provider_variant, setting: "ralph.review.provider_variant" },
 		{ name: config.review?.fix_provider_variant, setting: "ralph.review.fix_provider_variant" },
 		{
@@ -297,8 +569,21 @@ function validateProviderVariantReferences(config: RalphConfig): Result<RalphCon
 			name: config.swarm?.merge_provider_variant,
 			setting: "ralph.swarm.merge_provider_variant",
 		},
+		{
+			name: config.stuck?.escalation_provider_variant,
+			setting: "ralph.stuck.escalation_provider_variant",
+		},
 	];
 
+	for (const [variantName, variant] of Object.entries(config.provider_variants)) {
+		for (const fallback of variant.fallback_variants ?? []) {
+			references.push({
+				name: fallback,
+				setting: `ralph.provider_variants.${variantName}.fallback_variants`,
+			});
+		}
+	}
+
 	for (const ref of references) {
 		if (ref.name && !(ref.name in config.provider_variants)) {
 			return err(
@@ -375,7 +660,7 @@ export function getProviderVariantConfig(
 		);
 	}
 
-	return ok(variant);
+	return ok({ ...variant, name: resolved });
 }
 
 /**
@@ -399,6 +684,208 @@ export function getQAConfig(config: RalphConfig): QAConfig {
 	};
 }
 
+/**
+ * Default provider variant for the per-story verifier
+ */
+const DEFAULT_STORY_VERIFIER_PROVIDER_VARIANT = "claude-haiku";
+
+/**
+ * Get per-story verifier configuration with defaults filled in
+ */
+export function getVerificationConfig(config: RalphConfig): Required<VerificationConfig> {
+	return {
+		enabled: config.verification?.enabled ?? true,
+		story_verifier_provider_variant:
+			config.verification?.story_verifier_provider_variant ??
+			DEFAULT_STORY_VERIFIER_PROVIDER_VARIANT,
+	};
+}
+
+/**
+ * Get budget configuration. Limits left unset are not enforced.
+ */
+export function getBudgetConfig(config: RalphConfig): BudgetConfig {
+	return { ...config.budget };
+}
+
+/**
+ * Get timeout policy configuration with defaults filled in
+ */
+export function getTimeoutsConfig(
+	config: RalphConfig,
+): TimeoutsConfig &
+	Required<Pick<TimeoutsConfig, "on_timeout" | "max_retries" | "kill_grace_seconds">> {
+	return {
+		...config.timeouts,
+		on_timeout: config.timeouts?.on_timeout ?? "count",
+		max_retries: config.timeouts?.max_retries ?? 1,
+		kill_grace_seconds: config.timeouts?.kill_grace_seconds ?? 10,
+	};
+}
+
+/**
+ * Get retry policy configuration with defaults filled in
+ */
+export function getRetryConfig(config: RalphConfig): Required<RetryConfig> {
+	return {
+		max_retries: config.retry?.max_retries ?? 3,
+		base_delay_seconds: config.retry?.base_delay_seconds ?? 30,
+		max_delay_seconds: config.retry?.max_delay_seconds ?? 600,
+	};
+}
+
+/**
+ * Get parallel story execution configuration with defaults filled in
+ */
+export function getParallelConfig(config: RalphConfig): Required<ParallelConfig> {
+	return {
+		enabled: config.parallel?.enabled ?? false,
+		max_stories: config.parallel?.max_stories ?? 2,
+		worktree_parent: config.parallel?.worktree_parent ?? getSwarmConfig(config).worktree_parent,
+	};
+}
+
+/**
+ * Get the stuck-story policy with defaults filled in
+ */
+export function getStuckConfig(
+	config: RalphConfig,
+): Required<Omit<StuckConfig, "escalation_provider_variant">> &
+	Pick<StuckConfig, "escalation_provider_variant"> {
+	return {
+		max_iterations: config.stuck?.max_iterations ?? 3,
+		priority_max_iterations: { ...config.stuck?.priority_max_iterations },
+		story_max_iterations: { ...config.stuck?.story_max_iterations },
+		replan: config.stuck?.replan ?? true,
+		...(config.stuck?.escalation_provider_variant && {
+			escalation_provider_variant: config.stuck.escalation_provider_variant,
+		}),
+	};
+}
+
+/**
+ * Get per-story commit discipline with defaults filled in
+ */
+export function getCommitsConfig(config: RalphConfig): Required<CommitsConfig> {
+	return {
+		auto_commit: config.commits?.auto_commit ?? true,
+		require_commit: config.commits?.require_commit ?? false,
+	};
+}
+
+/**
+ * Get quality gates with defaults filled in
+ */
+export function getGatesConfig(config: RalphConfig): Required<GatesConfig> {
+	return {
+		commands: { ...config.gates?.commands },
+		timeout: config.gates?.timeout ?? 600,
+	};
+}
+
+/**
+ * Get story file lint limits with defaults filled in
+ */
+export function getLintConfig(config: RalphConfig): Required<LintConfig> {
+	return {
+		min_acceptance_criteria: config.lint?.min_acceptance_criteria ?? 1,
+		max_acceptance_criteria: config.lint?.max_acceptance_criteria ?? 10,
+	};
+}
+
+/**
+ * Get notifications with the default event list and timeout filled in
+ */
+export function getNotificationsConfig(
+	config: RalphConfig,
+): NotificationsConfig & { events: NotificationEvent[]; timeout: number } {
+	return {
+		...config.notifications,
+		events: config.notifications?.events ?? [
+			"story_blocked",
+			"prd_qa",
+			"qa_verified",
+			"qa_failed",
+			"budget_exceeded",
+			"error",
+		],
+		timeout: config.notifications?.timeout ?? 10,
+	};
+}
+
+/**
+ * Get lifecycle hooks with the default timeout filled in
+ */
+export function getHooksConfig(config: RalphConfig): HooksConfig & { timeout: number } {
+	return { ...config.hooks, timeout: config.hooks?.timeout ?? 300 };
+}
+
+/**
+ * Iterations a story may take before it counts as stuck: its per-story
+ * threshold, else its priority's, else `max_iterations`
+ */
+export function getStuckThreshold(config: RalphConfig, story: Story): number {
+	const stuck = getStuckConfig(config);
+	return (
+		stuck.story_max_iterations[story.id] ??
+		stuck.priority_max_iterations[String(story.priority)] ??
+		stuck.max_iterations
+	);
+}
+
+/**
+ * Resolve a provider variant's fallback chain: the variant itself followed by
+ * its `fallback_variants`, in order. Fallbacks of fallbacks are not followed.
+ */
+export function getProviderVariantChain(
+	config: RalphConfig,
+	providerVariant: ProviderVariantConfig,
+): ProviderVariantConfig[] {
+	const chain = [providerVariant];
+	for (const name of providerVariant.fallback_variants ?? []) {
+		const fallback = getProviderVariantConfig(config, name);
+		if (fallback.ok && name !== providerVariant.name) {
+			chain.push(fallback.data!);
+		}
+	}
+	return chain;
+}
+
+/**
+ * Resolve the timeouts for an agent run: the phase's [ralph.timeouts] entry
+ * wins over the provider variant's own limits. Unset limits mean no timeout.
+ */
+export function getAgentTimeouts(
+	config: RalphConfig,
+	providerVariant: ProviderVariantConfig,
+	phase: UsagePhase,
+): AgentTimeoutConfig {
+	const phaseTimeouts = config.timeouts?.[phase];
+	return {
+		timeout_minutes: phaseTimeouts?.timeout_minutes ?? providerVariant.timeout_minutes,
+		idle_timeout_minutes:
+			phaseTimeouts?.idle_timeout_minutes ?? providerVariant.idle_timeout_minutes,
+	};
+}
+
+/**
+ * Resolve the provider variant used by the per-story verifier.
+ * Fails when the configured (or default) variant is not defined.
+ */
+export function resolveStoryVerifierProviderVariant(
+	config: RalphConfig,
+): Result<ProviderVariantConfig> {
+	const name = getVerificationConfig(config).story_verifier_provider_variant;
+	const variant = config.provider_variants[name];
+	if (!variant) {
+		return err(
+			ErrorCodes.AGENT_NOT_FOUND,
+			`Provider variant '${name}' referenced by ralph.verification.story_verifier_provider_variant is not defined in [ralph.provider_variants.*].`,
+		);
+	}
+	return ok({ ...variant, name });
+}
+
 /**
  * Get scripts configuration
  */
@@ -418,6 +905,26 @@ const DEFAULT_FIRST_REVIEW_AGENTS = [
 ];
 const DEFAULT_SECOND_REVIEW_AGENTS = ["quality", "implementation"];
 
+/**
+ * Lockfiles and generated files left out of the review diff by default
+ */
+const DEFAULT_REVIEW_DIFF_EXCLUDE = [
+	"package-lock.json",
+	"pnpm-lock.yaml",
+	"yarn.lock",
+	"bun.lock",
+	"bun.lockb",
+	"Cargo.lock",
+	"go.sum",
+	"poetry.lock",
+	"uv.lock",
+	"composer.lock",
+	"Gemfile.lock",
+	"*.min.js",
+	"*.min.css",
+	"*.map",
+];
+
 /**
  * Get review configuration with defaults filled in
  */
@@ -434,6 +941,9 @@ export function getReviewConfig(config: RalphConfig): Required<ReviewConfig> {
 		second_review_agents: config.review?.second_review_agents ?? DEFAULT_SECOND_REVIEW_AGENTS,
 		max_fix_iterations: config.review?.max_fix_iterations ?? 3,
 		todo_file: config.review?.todo_file ?? "",
+		diff_token_budget: config.review?.diff_token_budget ?? 12000,
+		diff_exclude: config.review?.diff_exclude ?? DEFAULT_REVIEW_DIFF_EXCLUDE,
+		recheck_fixes: config.review?.recheck_fixes ?? true,
 	};
 }
 
@@ -9,14 +9,45 @@
 
 import { existsSync, mkdirSync, readdirSync, renameSync, rmSync } from "node:fs";
 import { readFile, writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
 import { ErrorCodes, err, ok, type Result } from "../results.js";
-import { validatePRD } from "../schemas.js";
-import type { LastRun, PRD, PRDStatus, Story, StoryStatus } from "../types.js";
+import { validateEngineCheckpoint, validateFindingsLedger, validatePRD } from "../schemas.js";
+import type {
+	AgentUsage,
+	EngineCheckpoint,
+	FindingsLedger,
+	LastRun,
+	PRD,
+	PRDStatus,
+	Story,
+	StoryGateResult,
+	StorySplitPart,
+	StoryStatus,
+	StoryVerificationResult,
+	UsageAttribution,
+} from "../types.js";
 import { atomicWrite, ensureStateDirs, getStatusDir } from "./paths.js";
 import { PRDStateMachine, StoryStateMachine } from "./state-machine.js";
+import {
+	buildStoryDependencyGraph,
+	getUnmetStoryDependencies,
+	parseStoryFrontmatter,
+	readStorySuggestedFiles,
+	type StoryDependencyGraph,
+	selectIndependentStories,
+	setStoryDependencies,
+	validateStoryDependencyGraph,
+} from "./story-graph.js";
+import { accumulateMetrics } from "./usage.js";
 
 const ALL_STATUSES: PRDStatus[] = ["pending", "in_progress", "qa", "completed"];
+const MAX_ATTEMPT_SUMMARIES = 3;
+
+/**
+ * Tail of the in-flight updates per PRD, shared by every store in this process,
+ * so concurrent updates (e.g. parallel agent runs recording usage) apply one at a time
+ */
+const pendingUpdates = new Map<string, Promise<unknown>>();
 
 /**
  * PRD Store - single source of truth for all PRD operations
@@ -105,7 +136,15 @@ export class PRDStore {
 				);
 			}
 
-			return ok(validation.data as PRD);
+			const prd = validation.data as PRD;
+			const graphCheck = validateStoryDependencyGraph(
+				buildStoryDependencyGraph(dirname(prdPath), prd.stories),
+			);
+			if (!graphCheck.ok) {
+				return err(graphCheck.error!.code, `PRD ${name}: ${graphCheck.error!.message}`);
+			}
+
+			return ok(prd);
 		} catch (error) {
 			return err(
 				ErrorCodes.UNKNOWN,
@@ -144,9 +183,26 @@ export class PRDStore {
 	}
 
 	/**
-	 * Atomic update - load, modify, save
+	 * Atomic update - load, modify, save. Updates to the same PRD are queued
+	 * behind each other; an updater must not update the same PRD itself.
 	 */
 	async update(name: string, updater: (prd: PRD) => PRD | Promise<PRD>): Promise<Result<PRD>> {
+		const key = join(this.repoRoot, this.projectName, name);
+		const run = (pendingUpdates.get(key) ?? Promise.resolve()).then(() =>
+			this.applyUpdate(name, updater),
+		);
+		const tail = run.catch(() => {});
+		pendingUpdates.set(key, tail);
+		void tail.then(() => {
+			if (pendingUpdates.get(key) === tail) pendingUpdates.delete(key);
+		});
+		return run;
+	}
+
+	private async applyUpdate(
+		name: string,
+		updater: (prd: PRD) => PRD | Promise<PRD>,
+	): Promise<Result<PRD>> {
 		const getResult = await this.get(name);
 		if (!getResult.ok) {
 			return getResult as Result<PRD>;
@@ -260,7 +316,19 @@ export class PRDStore {
 	}
 
 	/**
-	 * Get the next story to work on (pending or in_progress, sorted by priority)
+	 * Build the story dependency graph from the PRD's story file frontmatter
+	 */
+	getStoryDependencyGraph(prdName: string, stories: Story[]): Result<StoryDependencyGraph> {
+		const prdPath = this.getPRDPath(prdName);
+		if (!prdPath) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+		}
+		return ok(buildStoryDependencyGraph(prdPath, stories));
+	}
+
+	/**
+	 * Get the next story to work on (pending or in_progress, sorted by priority).
+	 * Stories whose dependencies are not all completed are skipped.
 	 */
 	async getNextStory(prdName: string): Promise<Result<Story | null>> {
 		const result = await this.get(prdName);
@@ -269,13 +337,57 @@ export class PRDStore {
 		}
 
 		const prd = result.data!;
+		const graphResult = this.getStoryDependencyGraph(prdName, prd.stories);
+		if (!graphResult.ok) {
+			return graphResult as unknown as Result<Story | null>;
+		}
+		const graph = graphResult.data!;
+
 		const workableStories = prd.stories
 			.filter((story) => StoryStateMachine.isWorkable(story.status))
+			.filter((story) => getUnmetStoryDependencies(story.id, prd.stories, graph).length === 0)
 			.sort((a, b) => a.priority - b.priority);
 
 		return ok(workableStories[0] ?? null);
 	}
 
+	/**
+	 * Get the stories to run concurrently in parallel mode: the next story plus
+	 * up to `maxStories - 1` workable stories independent of it (see
+	 * selectIndependentStories). Stories in `exclude` are only ever run alone.
+	 */
+	async getParallelStories(
+		prdName: string,
+		maxStories: number,
+		exclude: ReadonlySet<string> = new Set(),
+	): Promise<Result<Story[]>> {
+		const result = await this.get(prdName);
+		if (!result.ok) {
+			return result as unknown as Result<Story[]>;
+		}
+
+		const prd = result.data!;
+		const graphResult = this.getStoryDependencyGraph(prdName, prd.stories);
+		if (!graphResult.ok) {
+			return graphResult as unknown as Result<Story[]>;
+		}
+		const graph = graphResult.data!;
+		const prdPath = this.getPRDPath(prdName)!;
+
+		const workableStories = prd.stories
+			.filter((story) => StoryStateMachine.isWorkable(story.status))
+			.filter((story) => getUnmetStoryDependencies(story.id, prd.stories, graph).length === 0)
+			.sort((a, b) => a.priority - b.priority);
+		const suggestedFiles = new Map(
+			workableStories.map((story) => [
+				story.id,
+				exclude.has(story.id) ? [] : readStorySuggestedFiles(join(prdPath, story.promptPath)),
+			]),
+		);
+
+		return ok(selectIndependentStories(workableStories, graph, suggestedFiles, maxStories));
+	}
+
 	/**
 	 * Get blocked stories
 	 */
@@ -303,12 +415,16 @@ export class PRDStore {
 	}
 
 	/**
-	 * Mark PRD as started (sets startedAt if not set)
+	 * Mark PRD as started (sets startedAt if not set). `baseCommit` is only
+	 * recorded on the first start: HEAD on a later run is not where the work began.
 	 */
-	async markStarted(prdName: string): Promise<Result<void>> {
+	async markStarted(prdName: string, baseCommit?: string): Promise<Result<void>> {
 		return this.update(prdName, (prd) => {
 			if (!prd.startedAt) {
 				prd.startedAt = new Date().toISOString();
+				if (baseCommit) {
+					prd.baseCommit = baseCommit;
+				}
 			}
 			return prd;
 		}).then((result) => (result.ok ? ok(undefined) : (result as unknown as Result<void>)));
@@ -335,30 +451,87 @@ export class PRDStore {
 	}
 
 	/**
-	 * Update metrics (accumulates values)
+	 * Get the engine checkpoint file path
+	 */
+	private getCheckpointPath(prdName: string): string | null {
+		const prdPath = this.getPRDPath(prdName);
+		if (!prdPath) return null;
+		return join(prdPath, "checkpoint.json");
+	}
+
+	/**
+	 * Load the engine checkpoint. Returns null when there is none; an unreadable
+	 * checkpoint is ignored so the phase restarts from the beginning.
+	 */
+	async getCheckpoint(prdName: string): Promise<EngineCheckpoint | null> {
+		const checkpointPath = this.getCheckpointPath(prdName);
+		if (!checkpointPath || !existsSync(checkpointPath)) {
+			return null;
+		}
+
+		try {
+			const validation = validateEngineCheckpoint(
+				JSON.parse(await readFile(checkpointPath, "utf-8")),
+			);
+			return validation.success ? (validation.data as EngineCheckpoint) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Persist the engine checkpoint (stamps updatedAt)
+	 */
+	async saveCheckpoint(
+		prdName: string,
+		checkpoint: Omit<EngineCheckpoint, "updatedAt">,
+	): Promise<Result<void>> {
+		const checkpointPath = this.getCheckpointPath(prdName);
+		if (!checkpointPath) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+		}
+
+		try {
+			const data: EngineCheckpoint = { ...checkpoint, updatedAt: new Date().toISOString() };
+			await atomicWrite(checkpointPath, JSON.stringify(data, null, 2));
+			return ok(undefined);
+		} catch (error) {
+			return err(
+				ErrorCodes.UNKNOWN,
+				`Failed to save checkpoint: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Remove the engine checkpoint once its phase is finished
+	 */
+	clearCheckpoint(prdName: string): void {
+		const checkpointPath = this.getCheckpointPath(prdName);
+		if (checkpointPath && existsSync(checkpointPath)) {
+			rmSync(checkpointPath);
+		}
+	}
+
+	/**
+	 * Update metrics (accumulates values).
+	 * Usage is also added to the story, phase, and provider variant named in `attribution`.
 	 */
 	async updateMetrics(
 		prdName: string,
-		newMetrics: { inputTokens?: number; outputTokens?: number; iterations?: number },
+		newMetrics: AgentUsage & { iterations?: number },
+		attribution?: UsageAttribution,
 	): Promise<Result<void>> {
 		return this.update(prdName, (prd) => {
-			const existing = prd.metrics ?? {};
-			prd.metrics = {
-				inputTokens: (existing.inputTokens ?? 0) + (newMetrics.inputTokens ?? 0),
-				outputTokens: (existing.outputTokens ?? 0) + (newMetrics.outputTokens ?? 0),
-				totalTokens:
-					(existing.inputTokens ?? 0) +
-					(newMetrics.inputTokens ?? 0) +
-					(existing.outputTokens ?? 0) +
-					(newMetrics.outputTokens ?? 0),
-				iterations: (existing.iterations ?? 0) + (newMetrics.iterations ?? 0),
-			};
+			prd.metrics = accumulateMetrics(prd.metrics, newMetrics, attribution);
 			return prd;
 		}).then((result) => (result.ok ? ok(undefined) : (result as unknown as Result<void>)));
 	}
 
 	/**
-	 * Unblock a story by providing answers
+	 * Unblock a story by providing answers. The answers are new guidance, so the
+	 * story's iteration count and stuck-policy progress start over, as after a
+	 * rewrite.
 	 */
 	async unblockStory(prdName: string, storyId: string, answers: string[]): Promise<Result<void>> {
 		return this.update(prdName, (prd) => {
@@ -377,10 +550,389 @@ export class PRDStore {
 
 			story.answers = answers;
 			story.status = "pending";
+			story.iterationCount = 0;
+			delete story.stuckStage;
+			delete story.stuckStagesTried;
+			delete story.attemptSummaries;
+			delete story.verificationAttempts;
+			return prd;
+		}).then((result) => (result.ok ? ok(undefined) : (result as unknown as Result<void>)));
+	}
+
+	/**
+	 * Re-open a completed story after the per-story verifier rejected it.
+	 * Replaces questions with the failed-check evidence and counts the attempt.
+	 */
+	async reopenStory(prdName: string, storyId: string, questions: string[]): Promise<Result<void>> {
+		return this.update(prdName, (prd) => {
+			const story = prd.stories.find((s) => s.id === storyId);
+			if (!story) {
+				throw new Error(`Story not found: ${storyId}`);
+			}
+
+			const transitionResult = StoryStateMachine.validateTransition(story.status, "in_progress");
+			if (!transitionResult.ok) {
+				throw new Error(transitionResult.error!.message);
+			}
+
+			story.status = "in_progress";
+			story.questions = questions;
+			delete story.answers;
+			story.verificationAttempts = (story.verificationAttempts ?? 0) + 1;
+			return prd;
+		}).then((result) => (result.ok ? ok(undefined) : (result as unknown as Result<void>)));
+	}
+
+	/**
+	 * Clear a story's verifier failure count once the verifier passes it
+	 */
+	async resetVerificationAttempts(prdName: string, storyId: string): Promise<Result<void>> {
+		return this.update(prdName, (prd) => {
+			const story = prd.stories.find((s) => s.id === storyId);
+			if (!story) {
+				throw new Error(`Story not found: ${storyId}`);
+			}
+
+			delete story.verificationAttempts;
 			return prd;
 		}).then((result) => (result.ok ? ok(undefined) : (result as unknown as Result<void>)));
 	}
 
+	/**
+	 * Record the agent's summary of one attempt at a story, keeping the most
+	 * recent few for the stuck policy's re-plan prompt and diagnosis
+	 */
+	async recordStoryAttempt(
+		prdName: string,
+		storyId: string,
+		summary: string,
+	): Promise<Result<void>> {
+		return this.update(prdName, (prd) => {
+			const story = prd.stories.find((s) => s.id === storyId);
+			if (!story) {
+				throw new Error(`Story not found: ${storyId}`);
+			}
+
+			story.attemptSummaries = [...(story.attemptSummaries ?? []), summary].slice(
+				-MAX_ATTEMPT_SUMMARIES,
+			);
+			return prd;
+		}).then((result) => (result.ok ? ok(undefined) : (result as unknown as Result<void>)));
+	}
+
+	/**
+	 * Replace a story that is too large with sub-stories (`US-003a`, `US-003b`, …).
+	 * Each part gets its own story file with every section `ralph lint` requires,
+	 * at the parent's priority. The first part inherits the parent's dependencies
+	 * and each later part depends on the one before it; stories that depended on
+	 * the parent now depend on the last part.
+	 * The split is recorded in progress.txt.
+	 *
+	 * @returns The new story ids, in implementation order
+	 */
+	async splitStory(
+		prdName: string,
+		storyId: string,
+		parts: StorySplitPart[],
+		reason = "",
+	): Promise<Result<string[]>> {
+		const prdResult = await this.get(prdName);
+		if (!prdResult.ok) {
+			return prdResult as unknown as Result<string[]>;
+		}
+		const prd = prdResult.data!;
+		const prdDir = this.getPRDPath(prdName)!;
+
+		const story = prd.stories.find((s) => s.id === storyId);
+		if (!story) {
+			return err(ErrorCodes.STORY_SPLIT_INVALID, `Story not found: ${storyId}`);
+		}
+		if (story.status === "completed") {
+			return err(ErrorCodes.STORY_SPLIT_INVALID, `Story ${storyId} is already completed`);
+		}
+		if (parts.length < 2 || parts.length > 26) {
+			return err(
+				ErrorCodes.STORY_SPLIT_INVALID,
+				`A split needs 2–26 sub-stories, got ${parts.length}`,
+			);
+		}
+		const invalidPart = parts.findIndex(
+			(part) => !part.title.trim() || part.acceptanceCriteria.length === 0,
+		);
+		if (invalidPart !== -1) {
+			return err(
+				ErrorCodes.STORY_SPLIT_INVALID,
+				`Sub-story ${invalidPart + 1} needs a title and at least one acceptance criterion`,
+			);
+		}
+
+		const ids = parts.map((_, i) => `${storyId}${String.fromCharCode(97 + i)}`);
+		const taken = ids.find((id) => prd.stories.some((s) => s.id === id));
+		if (taken) {
+			return err(ErrorCodes.STORY_SPLIT_INVALID, `Story ${taken} already exists`);
+		}
+
+		const parentPath = join(prdDir, story.promptPath);
+		const parentDependencies = existsSync(parentPath)
+			? parseStoryFrontmatter(await readFile(parentPath, "utf-8")).dependencies
+			: [];
+		const lastId = ids[ids.length - 1]!;
+		const subStories: Story[] = parts.map((part, i) => ({
+			id: ids[i]!,
+			title: part.title.trim(),
+			promptPath: `stories/${ids[i]}.md`,
+			status: "pending",
+			priority: story.priority,
+			questions: [],
+		}));
+
+		try {
+			mkdirSync(join(prdDir, "stories"), { recursive: true });
+			const bullets = (items: string[]) => items.map((item) => `- ${item}`).join("\n");
+			for (const [i, part] of parts.entries()) {
+				const sub = subStories[i]!;
+				const dependencies = i === 0 ? parentDependencies : [ids[i - 1]!];
+				const otherParts = subStories
+					.filter((other) => other.id !== sub.id)
+					.map((other) => `${other.id}: ${other.title} (a separate sub-story)`);
+				const deliverables = part.deliverables?.length
+					? part.deliverables
+					: ["Changes that meet every acceptance criterion below"];
+				// The FR-1 skeleton, so split stories pass `ralph lint` like planned ones
+				const sections = [
+					[
+						"---",
+						`id: ${sub.id}`,
+						`title: ${sub.title}`,
+						`priority: ${sub.priority}`,
+						`dependencies: [${dependencies.join(", ")}]`,
+						"---",
+					].join("\n"),
+					`## Goal\n${part.goal?.trim() || `Part ${i + 1} of ${parts.length} of ${storyId} (${story.title}).`}`,
+					`Split from \`${story.promptPath}\`; read it for the full context.`,
+					`## Scope\n${bullets(part.scope?.length ? part.scope : [`The work the acceptance criteria below need for ${sub.title}`])}`,
+					`## Out of scope\n${bullets([...(part.outOfScope ?? []), ...otherParts])}`,
+				];
+				if (part.suggestedFiles?.length) {
+					sections.push(
+						`## Suggested files\n${part.suggestedFiles.map((f) => `- \`${f}\``).join("\n")}`,
+					);
+				}
+				sections.push(
+					`## Deliverables\n${deliverables.map((d, n) => `${n + 1}. ${d}`).join("\n")}`,
+					`## Acceptance Criteria\n${part.acceptanceCriteria.map((c) => `- [ ] ${c}`).join("\n")}`,
+				);
+				await writeFile(join(prdDir, sub.promptPath), `${sections.join("\n\n")}\n`);
+			}
+		} catch (error) {
+			return err(
+				ErrorCodes.UNKNOWN,
+				`Failed to write story files: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+
+		const updateResult = await this.update(prdName, (p) => {
+			const index = p.stories.findIndex((s) => s.id === storyId);
+			p.stories.splice(index, 1, ...subStories);
+			return p;
+		});
+		if (!updateResult.ok) {
+			return updateResult as unknown as Result<string[]>;
+		}
+
+		// Stories waiting on the parent now wait on the whole chain. Rewritten
+		// after prd.json lists the sub-stories, so every file references a known id.
+		try {
+			for (const other of prd.stories) {
+				const otherPath = join(prdDir, other.promptPath);
+				if (other.id === storyId || !existsSync(otherPath)) continue;
+				const content = await readFile(otherPath, "utf-8");
+				const dependencies = parseStoryFrontmatter(content).dependencies;
+				if (dependencies.includes(storyId)) {
+					await writeFile(
+						otherPath,
+						setStoryDependencies(
+							content,
+							dependencies.map((dep) => (dep === storyId ? lastId : dep)),
+						),
+					);
+				}
+			}
+		} catch (error) {
+			return err(
+				ErrorCodes.UNKNOWN,
+				`Failed to update dependent story files: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+
+		await this.appendProgressEntry(prdName, [
+			`## [${new Date().toISOString()}] - Split ${storyId}: ${story.title}`,
+			"",
+			...(reason ? [`**Why:** ${reason}`, ""] : []),
+			"**Sub-stories:**",
+			...subStories.map((s) => `- ${s.id}: ${s.title}`),
+			"",
+			"---",
+		]);
+
+		return ok(ids);
+	}
+
+	/**
+	 * Skip a blocked story: it counts as completed without being implemented,
+	 * so the stories depending on it can proceed. Recorded in progress.txt,
+	 * along with the dependents that now start without its work.
+	 *
+	 * @returns The unfinished stories that depend on the skipped one
+	 */
+	async skipStory(prdName: string, storyId: string, reason = ""): Promise<Result<string[]>> {
+		const story = await this.getBlockedStory(prdName, storyId);
+		if (!story.ok) {
+			return story as unknown as Result<string[]>;
+		}
+
+		let dependents: string[] = [];
+		const updateResult = await this.update(prdName, (prd) => {
+			const s = prd.stories.find((st) => st.id === storyId);
+			if (!s) {
+				throw new Error(`Story not found: ${storyId}`);
+			}
+			const transitionResult = StoryStateMachine.validateTransition(s.status, "completed");
+			if (!transitionResult.ok) {
+				throw new Error(transitionResult.error!.message);
+			}
+			const graphResult = this.getStoryDependencyGraph(prdName, prd.stories);
+			if (!graphResult.ok) {
+				throw new Error(graphResult.error!.message);
+			}
+			dependents = prd.stories
+				.filter(
+					(other) =>
+						other.status !== "completed" &&
+						(graphResult.data!.get(other.id) ?? []).includes(storyId),
+				)
+				.map((other) => other.id);
+
+			s.status = "completed";
+			s.skipped = true;
+			return prd;
+		});
+		if (!updateResult.ok) {
+			return updateResult as unknown as Result<string[]>;
+		}
+
+		await this.appendProgressEntry(prdName, [
+			`## [${new Date().toISOString()}] - Skipped ${storyId}: ${story.data!.title}`,
+			"",
+			"The user skipped this story instead of answering its questions; it was not implemented.",
+			...(reason ? ["", `**Why:** ${reason}`] : []),
+			...(dependents.length > 0
+				? [
+						"",
+						`**Starts without it:** ${dependents.join(", ")}. Check they do not rely on its work.`,
+					]
+				: []),
+			"",
+			"---",
+		]);
+		return ok(dependents);
+	}
+
+	/**
+	 * Replace a blocked story's file with rewritten content and reset the story
+	 * to pending. The original dependencies are kept unless the new content
+	 * brings its own frontmatter.
+	 */
+	async rewriteStory(prdName: string, storyId: string, content: string): Promise<Result<void>> {
+		const story = await this.getBlockedStory(prdName, storyId);
+		if (!story.ok) {
+			return story as unknown as Result<void>;
+		}
+		if (!content.trim()) {
+			return err(ErrorCodes.ANSWERS_INVALID, `The rewrite of ${storyId} is empty`);
+		}
+
+		const storyPath = this.getStoryFilePath(prdName, story.data!);
+		const existed = existsSync(storyPath);
+		const original = existed ? await readFile(storyPath, "utf-8") : "";
+		const dependencies = parseStoryFrontmatter(original).dependencies;
+		const rewritten = content.trimStart().startsWith("---")
+			? content
+			: dependencies.length > 0
+				? setStoryDependencies(content, dependencies)
+				: content;
+
+		try {
+			await writeFile(storyPath, rewritten.endsWith("\n") ? rewritten : `${rewritten}\n`);
+		} catch (error) {
+			return err(
+				ErrorCodes.UNKNOWN,
+				`Failed to write story file: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+
+		const updateResult = await this.update(prdName, (prd) => {
+			const s = prd.stories.find((st) => st.id === storyId);
+			if (s) {
+				s.status = "pending";
+				s.questions = [];
+				s.iterationCount = 0;
+				delete s.answers;
+				delete s.stuckStage;
+				delete s.stuckStagesTried;
+				delete s.attemptSummaries;
+				delete s.verificationAttempts;
+			}
+			return prd;
+		});
+		if (!updateResult.ok) {
+			// The new frontmatter broke the dependency graph; keep the original story
+			if (existed) {
+				await writeFile(storyPath, original);
+			} else {
+				rmSync(storyPath, { force: true });
+			}
+			return updateResult as unknown as Result<void>;
+		}
+
+		await this.appendProgressEntry(prdName, [
+			`## [${new Date().toISOString()}] - Rewrote ${storyId}: ${story.data!.title}`,
+			"",
+			"The user rewrote this story instead of answering its questions; it starts over.",
+			"",
+			"---",
+		]);
+		return ok(undefined);
+	}
+
+	/**
+	 * Look up a story that must be blocked before the user can respond to it
+	 */
+	private async getBlockedStory(prdName: string, storyId: string): Promise<Result<Story>> {
+		const prdResult = await this.get(prdName);
+		if (!prdResult.ok) {
+			return prdResult as unknown as Result<Story>;
+		}
+		const story = prdResult.data!.stories.find((s) => s.id === storyId);
+		if (!story) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `Story not found: ${storyId}`);
+		}
+		if (story.status !== "blocked") {
+			return err(ErrorCodes.STORY_NOT_BLOCKED, `Story ${storyId} is not blocked`);
+		}
+		return ok(story);
+	}
+
+	/**
+	 * Append an entry to the PRD's progress.txt
+	 */
+	private async appendProgressEntry(prdName: string, lines: string[]): Promise<void> {
+		const progressPath = this.getProgressPath(prdName);
+		if (!progressPath) return;
+		const progress = existsSync(progressPath) ? await readFile(progressPath, "utf-8") : "";
+		await atomicWrite(progressPath, `${progress}\n${lines.join("\n")}\n`);
+	}
+
 	/**
 	 * Add a fix story for QA failures.
 	 * Emits a story markdown file at `stories/<id>.md` and records `promptPath`.
@@ -505,6 +1057,139 @@ ${issues.map((issue) => `- [ ] Fix: ${issue}`).join("\n")}
 		return ok(undefined);
 	}
 
+	/**
+	 * Get per-story verifier results directory path
+	 */
+	getVerificationResultsDir(prdName: string): string | null {
+		const prdPath = this.getPRDPath(prdName);
+		if (!prdPath) return null;
+		return join(prdPath, "verification-results");
+	}
+
+	/**
+	 * Persist a per-story verifier verdict to `verification-results/<story-id>.json`
+	 */
+	async saveStoryVerification(
+		prdName: string,
+		verdict: StoryVerificationResult,
+	): Promise<Result<string>> {
+		const dir = this.getVerificationResultsDir(prdName);
+		if (!dir) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+		}
+
+		try {
+			mkdirSync(dir, { recursive: true });
+			const filePath = join(dir, `${verdict.storyId}.json`);
+			await atomicWrite(filePath, JSON.stringify(verdict, null, 2));
+			return ok(filePath);
+		} catch (error) {
+			return err(
+				ErrorCodes.UNKNOWN,
+				`Failed to save verification result: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Get per-story gate results directory path
+	 */
+	getGateResultsDir(prdName: string): string | null {
+		const prdPath = this.getPRDPath(prdName);
+		if (!prdPath) return null;
+		return join(prdPath, "gate-results");
+	}
+
+	/**
+	 * Append one iteration's gate results to `gate-results/<story-id>.json`
+	 */
+	async saveStoryGateResult(prdName: string, result: StoryGateResult): Promise<Result<string>> {
+		const dir = this.getGateResultsDir(prdName);
+		if (!dir) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+		}
+
+		try {
+			mkdirSync(dir, { recursive: true });
+			const filePath = join(dir, `${result.storyId}.json`);
+			const history: StoryGateResult[] = existsSync(filePath)
+				? JSON.parse(await readFile(filePath, "utf-8"))
+				: [];
+			history.push(result);
+			await atomicWrite(filePath, JSON.stringify(history, null, 2));
+			return ok(filePath);
+		} catch (error) {
+			return err(
+				ErrorCodes.UNKNOWN,
+				`Failed to save gate results: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Get the findings ledger path, `review-results/findings.json`
+	 */
+	getFindingsLedgerPath(prdName: string): string | null {
+		const prdPath = this.getPRDPath(prdName);
+		if (!prdPath) return null;
+		return join(prdPath, "review-results", "findings.json");
+	}
+
+	/**
+	 * Load the findings ledger; empty when the PRD has not been reviewed yet
+	 */
+	async getFindingsLedger(prdName: string): Promise<Result<FindingsLedger>> {
+		const ledgerPath = this.getFindingsLedgerPath(prdName);
+		if (!ledgerPath) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+		}
+		if (!existsSync(ledgerPath)) {
+			return ok({ updatedAt: new Date().toISOString(), findings: [] });
+		}
+
+		try {
+			const validation = validateFindingsLedger(JSON.parse(await readFile(ledgerPath, "utf-8")));
+			if (!validation.success) {
+				const issues = validation.error.issues
+					.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+					.join("; ");
+				return err(ErrorCodes.UNKNOWN, `Invalid findings ledger ${ledgerPath}: ${issues}`);
+			}
+			return ok(validation.data as FindingsLedger);
+		} catch (error) {
+			return err(
+				ErrorCodes.UNKNOWN,
+				`Failed to read findings ledger: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Read, change, and write back the findings ledger (stamps updatedAt)
+	 */
+	async updateFindingsLedger(
+		prdName: string,
+		updateFn: (ledger: FindingsLedger) => FindingsLedger,
+	): Promise<Result<FindingsLedger>> {
+		const current = await this.getFindingsLedger(prdName);
+		if (!current.ok) {
+			return current;
+		}
+
+		try {
+			const updated = { ...updateFn(current.data!), updatedAt: new Date().toISOString() };
+			const ledgerPath = this.getFindingsLedgerPath(prdName)!;
+			mkdirSync(dirname(ledgerPath), { recursive: true });
+			await atomicWrite(ledgerPath, JSON.stringify(updated, null, 2));
+			return ok(updated);
+		} catch (error) {
+			return err(
+				ErrorCodes.UNKNOWN,
+				`Failed to save findings ledger: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
 	/**
 	 * Resolve the absolute path to a story's markdown file.
 	 */
@@ -26,13 +26,13 @@ const PRD_TRANSITIONS: Record<PRDStatus, PRDStatus[]> = {
  * Story state transitions
  * pending -> in_progress (start work)
  * in_progress -> completed (work done) | blocked (needs input) | pending (reset)
- * blocked -> pending (unblocked)
+ * blocked -> pending (unblocked) | completed (skipped by the user, not implemented)
  * completed -> in_progress (per-story verifier rejected, story must be re-worked)
  */
 const STORY_TRANSITIONS: Record<StoryStatus, StoryStatus[]> = {
 	pending: ["in_progress"],
 	in_progress: ["completed", "blocked", "pending"],
-	blocked: ["pending"],
+	blocked: ["pending", "completed"],
 	completed: ["in_progress"],
 };
 
@@ -0,0 +1,317 @@
+/**
+ * Ralph Story Dependency Graph
+ *
+ * Story-level dependencies are declared in the `dependencies` key of each
+ * story file's frontmatter (`stories/<id>.md`). prd.json does not carry them;
+ * the graph is rebuilt from the story files whenever a PRD is loaded.
+ * The `## Suggested files` section decides which stories may run in parallel.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ErrorCodes, err, ok, type Result } from "../results.js";
+import type { Story } from "../types.js";
+
+/**
+ * Story id → ids of the stories it depends on
+ */
+export type StoryDependencyGraph = Map<string, string[]>;
+
+/**
+ * Frontmatter keys Ralph reads from a story file
+ */
+export interface StoryFrontmatter {
+	id?: string;
+	title?: string;
+	priority?: number;
+	dependencies: string[];
+}
+
+function unquote(value: string): string {
+	return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * Parse the leading `---` frontmatter block of a story file.
+ * Supports scalar values, inline lists (`[a, b]`), and block lists (`- a`).
+ */
+export function parseStoryFrontmatter(content: string): StoryFrontmatter {
+	const result: StoryFrontmatter = { dependencies: [] };
+	const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\s*(?:\r?\n|$)/);
+	if (!match?.[1]) {
+		return result;
+	}
+
+	const lines = match[1].split(/\r?\n/);
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]!;
+		const keyMatch = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+		if (!keyMatch) continue;
+		const key = keyMatch[1]!;
+		const rawValue = keyMatch[2]!.trim();
+
+		if (key === "dependencies") {
+			if (rawValue.startsWith("[")) {
+				result.dependencies = rawValue
+					.replace(/^\[/, "")
+					.replace(/\]$/, "")
+					.split(",")
+					.map(unquote)
+					.filter(Boolean);
+			} else if (rawValue === "") {
+				const items: string[] = [];
+				while (i + 1 < lines.length && /^\s*-\s+/.test(lines[i + 1]!)) {
+					i++;
+					items.push(unquote(lines[i]!.replace(/^\s*-\s+/, "")));
+				}
+				result.dependencies = items.filter(Boolean);
+			} else {
+				result.dependencies = [unquote(rawValue)];
+			}
+		} else if (key === "id") {
+			result.id = unquote(rawValue);
+		} else if (key === "title") {
+			result.title = unquote(rawValue);
+		} else if (key === "priority") {
+			const priority = Number.parseInt(rawValue, 10);
+			if (!Number.isNaN(priority)) result.priority = priority;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Rewrite the `dependencies` key of a story file's frontmatter as an inline
+ * list, adding the key (or the frontmatter block) when it is missing
+ */
+export function setStoryDependencies(content: string, dependencies: string[]): string {
+	const line = `dependencies: [${dependencies.join(", ")}]`;
+	const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+	if (!match || match[1] === undefined) {
+		return `---\n${line}\n---\n\n${content}`;
+	}
+
+	const lines = match[1].split(/\r?\n/);
+	const start = lines.findIndex((l) => /^dependencies:/.test(l));
+	if (start === -1) {
+		lines.push(line);
+	} else {
+		let end = start + 1;
+		if (lines[start]!.replace(/^dependencies:/, "").trim() === "") {
+			while (end < lines.length && /^\s*-\s+/.test(lines[end]!)) end++;
+		}
+		lines.splice(start, end - start, line);
+	}
+	return `---\n${lines.join("\n")}\n---\n${content.slice(match[0].length)}`;
+}
+
+/**
+ * Read the dependency ids declared in a story file's frontmatter.
+ * A missing story file declares no dependencies.
+ */
+export function readStoryDependencies(storyFilePath: string): string[] {
+	if (!existsSync(storyFilePath)) {
+		return [];
+	}
+	return parseStoryFrontmatter(readFileSync(storyFilePath, "utf-8")).dependencies;
+}
+
+/**
+ * Build the dependency graph for a PRD's stories from their story files
+ */
+export function buildStoryDependencyGraph(prdDir: string, stories: Story[]): StoryDependencyGraph {
+	const graph: StoryDependencyGraph = new Map();
+	for (const story of stories) {
+		graph.set(story.id, readStoryDependencies(join(prdDir, story.promptPath)));
+	}
+	return graph;
+}
+
+/**
+ * Find a dependency cycle, returned as the closed path (e.g. `[A, B, A]`), or null
+ */
+export function findStoryDependencyCycle(graph: StoryDependencyGraph): string[] | null {
+	const state = new Map<string, "visiting" | "done">();
+	const path: string[] = [];
+
+	const visit = (id: string): string[] | null => {
+		const current = state.get(id);
+		if (current === "done") return null;
+		if (current === "visiting") {
+			return [...path.slice(path.indexOf(id)), id];
+		}
+
+		state.set(id, "visiting");
+		path.push(id);
+		for (const dep of graph.get(id) ?? []) {
+			if (!graph.has(dep)) continue;
+			const cycle = visit(dep);
+			if (cycle) return cycle;
+		}
+		path.pop();
+		state.set(id, "done");
+		return null;
+	};
+
+	for (const id of graph.keys()) {
+		const cycle = visit(id);
+		if (cycle) return cycle;
+	}
+	return null;
+}
+
+/**
+ * Validate a story dependency graph: every dependency must name a story in
+ * the PRD, and the graph must be acyclic.
+ */
+export function validateStoryDependencyGraph(graph: StoryDependencyGraph): Result<void> {
+	for (const [id, deps] of graph) {
+		for (const dep of deps) {
+			if (!graph.has(dep)) {
+				return err(
+					ErrorCodes.STORY_DEPENDENCY_INVALID,
+					`Story ${id} depends on unknown story '${dep}' (check the dependencies frontmatter in its story file)`,
+				);
+			}
+		}
+	}
+
+	const cycle = findStoryDependencyCycle(graph);
+	if (cycle) {
+		return err(
+			ErrorCodes.STORY_DEPENDENCY_INVALID,
+			`Story dependency cycle detected: ${cycle.join(" → ")}`,
+		);
+	}
+
+	return ok(undefined);
+}
+
+/**
+ * Dependencies of a story that are not completed yet
+ */
+export function getUnmetStoryDependencies(
+	storyId: string,
+	stories: Story[],
+	graph: StoryDependencyGraph,
+): string[] {
+	return (graph.get(storyId) ?? []).filter(
+		(dep) => stories.find((s) => s.id === dep)?.status !== "completed",
+	);
+}
+
+/**
+ * Transitive dependencies of a story, ordered so each id comes after its own dependencies
+ */
+export function getStoryDependencyChain(storyId: string, graph: StoryDependencyGraph): string[] {
+	const chain: string[] = [];
+	const seen = new Set<string>([storyId]);
+
+	const visit = (id: string) => {
+		for (const dep of graph.get(id) ?? []) {
+			if (seen.has(dep)) continue;
+			seen.add(dep);
+			visit(dep);
+			chain.push(dep);
+		}
+	};
+
+	visit(storyId);
+	return chain;
+}
+
+/**
+ * Read the paths listed under a story file's `## Suggested files` section.
+ * Takes the first backticked span of each list item (or its first word), so
+ * `` - `lib/a.ts` — entry point `` yields `lib/a.ts`. A missing file or
+ * section yields an empty list.
+ */
+export function readStorySuggestedFiles(storyFilePath: string): string[] {
+	if (!existsSync(storyFilePath)) {
+		return [];
+	}
+	const content = readFileSync(storyFilePath, "utf-8");
+	const match = content.match(/^##\s+Suggested files\s*$/im);
+	if (!match || match.index === undefined) {
+		return [];
+	}
+	const after = content.slice(match.index + match[0].length);
+	const nextHeading = after.search(/^##\s+/m);
+	const block = nextHeading === -1 ? after : after.slice(0, nextHeading);
+
+	const files: string[] = [];
+	for (const rawLine of block.split("\n")) {
+		const item = rawLine.trim().match(/^[-*+]\s+(.*)$/)?.[1];
+		if (!item) continue;
+		const path = (item.match(/`([^`]+)`/)?.[1] ?? item.split(/\s+/)[0] ?? "")
+			.replace(/[,:;]$/, "")
+			.replace(/^\.\//, "");
+		if (path) files.push(path);
+	}
+	return files;
+}
+
+/**
+ * Directory or file a suggested path covers: globs are cut back to their
+ * static prefix (`src/**` covers `src`)
+ */
+function pathScope(path: string): string {
+	const glob = path.search(/[*?[{]/);
+	const prefix = glob === -1 ? path : path.slice(0, glob);
+	return prefix.replace(/\/+$/, "");
+}
+
+/**
+ * Whether two suggested-file lists may touch the same file
+ */
+export function suggestedFilesOverlap(a: string[], b: string[]): boolean {
+	const scopesB = b.map(pathScope);
+	return a
+		.map(pathScope)
+		.some((x) =>
+			scopesB.some(
+				(y) => x === "" || y === "" || x === y || x.startsWith(`${y}/`) || y.startsWith(`${x}/`),
+			),
+		);
+}
+
+/**
+ * Pick stories that can run concurrently, starting from the first (highest
+ * priority) candidate. A story joins the batch only when it lists its
+ * suggested files, they are disjoint from every story already picked, and
+ * the two stories share no dependencies. Candidates must already be workable
+ * (dependencies completed) and sorted by priority.
+ */
+export function selectIndependentStories(
+	candidates: Story[],
+	graph: StoryDependencyGraph,
+	suggestedFiles: Map<string, string[]>,
+	maxStories: number,
+): Story[] {
+	const [first, ...rest] = candidates;
+	if (!first) {
+		return [];
+	}
+	const batch = [first];
+	if ((suggestedFiles.get(first.id) ?? []).length === 0) {
+		return batch;
+	}
+
+	for (const story of rest) {
+		if (batch.length >= maxStories) break;
+		const files = suggestedFiles.get(story.id) ?? [];
+		const deps = graph.get(story.id) ?? [];
+		const independent =
+			files.length > 0 &&
+			batch.every(
+				(picked) =>
+					!suggestedFilesOverlap(files, suggestedFiles.get(picked.id) ?? []) &&
+					!deps.some((dep) => (graph.get(picked.id) ?? []).includes(dep)),
+			);
+		if (independent) {
+			batch.push(story);
+		}
+	}
+	return batch;
+}
@@ -0,0 +1,150 @@
+/**
+ * Ralph Usage Accounting
+ *
+ * Aggregates the token and cost usage reported by agent runs into
+ * `prd.json` metrics: PRD totals plus breakdowns per story, per phase
+ * (dev, review, qa, docs, merge), and per provider variant.
+ */
+
+import type { AgentUsage, PRDMetrics, UsageAttribution, UsageTotals } from "../types.js";
+
+const USAGE_KEYS = [
+	"inputTokens",
+	"outputTokens",
+	"cacheReadTokens",
+	"cacheWriteTokens",
+	"costUsd",
+] as const satisfies ReadonlyArray<keyof AgentUsage>;
+
+/**
+ * Whether a usage report carries any tokens or cost
+ */
+export function hasUsage(usage: AgentUsage): boolean {
+	return Boolean(
+		usage.inputTokens ||
+			usage.outputTokens ||
+			usage.cacheReadTokens ||
+			usage.cacheWriteTokens ||
+			usage.costUsd,
+	);
+}
+
+/**
+ * Sum of all token kinds in a usage report
+ */
+function totalTokensOf(usage: AgentUsage): number {
+	return (
+		(usage.inputTokens ?? 0) +
+		(usage.outputTokens ?? 0) +
+		(usage.cacheReadTokens ?? 0) +
+		(usage.cacheWriteTokens ?? 0)
+	);
+}
+
+/**
+ * Sum two usage reports (e.g. per-turn usage within one run)
+ */
+export function sumUsage(a: AgentUsage, b: AgentUsage): AgentUsage {
+	const sum: AgentUsage = {};
+	for (const key of USAGE_KEYS) {
+		if (a[key] !== undefined || b[key] !== undefined) {
+			sum[key] = (a[key] ?? 0) + (b[key] ?? 0);
+		}
+	}
+	return sum;
+}
+
+/**
+ * Add one run's usage to a totals bucket (creating it if missing)
+ */
+export function addUsage(totals: UsageTotals | undefined, usage: AgentUsage): UsageTotals {
+	return {
+		inputTokens: (totals?.inputTokens ?? 0) + (usage.inputTokens ?? 0),
+		outputTokens: (totals?.outputTokens ?? 0) + (usage.outputTokens ?? 0),
+		cacheReadTokens: (totals?.cacheReadTokens ?? 0) + (usage.cacheReadTokens ?? 0),
+		cacheWriteTokens: (totals?.cacheWriteTokens ?? 0) + (usage.cacheWriteTokens ?? 0),
+		totalTokens: (totals?.totalTokens ?? 0) + totalTokensOf(usage),
+		costUsd: (totals?.costUsd ?? 0) + (usage.costUsd ?? 0),
+		runs: (totals?.runs ?? 0) + 1,
+	};
+}
+
+/**
+ * Accumulate usage (and iterations) into PRD metrics.
+ * Breakdowns are only updated when the run has usage and an attribution.
+ */
+export function accumulateMetrics(
+	existing: PRDMetrics | undefined,
+	usage: AgentUsage & { iterations?: number },
+	attribution: UsageAttribution = {},
+): PRDMetrics {
+	const metrics: PRDMetrics = {
+		...existing,
+		inputTokens: (existing?.inputTokens ?? 0) + (usage.inputTokens ?? 0),
+		outputTokens: (existing?.outputTokens ?? 0) + (usage.outputTokens ?? 0),
+		cacheReadTokens: (existing?.cacheReadTokens ?? 0) + (usage.cacheReadTokens ?? 0),
+		cacheWriteTokens: (existing?.cacheWriteTokens ?? 0) + (usage.cacheWriteTokens ?? 0),
+		totalTokens: (existing?.totalTokens ?? 0) + totalTokensOf(usage),
+		costUsd: (existing?.costUsd ?? 0) + (usage.costUsd ?? 0),
+		iterations: (existing?.iterations ?? 0) + (usage.iterations ?? 0),
+	};
+
+	if (!hasUsage(usage)) {
+		return metrics;
+	}
+
+	if (attribution.storyId) {
+		metrics.byStory = {
+			...metrics.byStory,
+			[attribution.storyId]: addUsage(metrics.byStory?.[attribution.storyId], usage),
+		};
+	}
+	if (attribution.phase) {
+		metrics.byPhase = {
+			...metrics.byPhase,
+			[attribution.phase]: addUsage(metrics.byPhase?.[attribution.phase], usage),
+		};
+	}
+	if (attribution.providerVariant) {
+		metrics.byProviderVariant = {
+			...metrics.byProviderVariant,
+			[attribution.providerVariant]: addUsage(
+				metrics.byProviderVariant?.[attribution.providerVariant],
+				usage,
+			),
+		};
+	}
+
+	return metrics;
+}
+
+/**
+ * Split one run's usage evenly across several PRDs (e.g. a merge-all agent run)
+ */
+export function splitUsage(usage: AgentUsage, parts: number): AgentUsage {
+	if (parts <= 1) {
+		return usage;
+	}
+	const share = (value?: number) => (value ? Math.round(value / parts) : undefined);
+	return {
+		inputTokens: share(usage.inputTokens),
+		outputTokens: share(usage.outputTokens),
+		cacheReadTokens: share(usage.cacheReadTokens),
+		cacheWriteTokens: share(usage.cacheWriteTokens),
+		costUsd: usage.costUsd ? usage.costUsd / parts : undefined,
+	};
+}
+
+/**
+ * Format a usage summary, e.g. `12,345 tokens, $0.42`
+ */
+export function formatUsage(usage: { totalTokens?: number; costUsd?: number }): string {
+	const parts: string[] = [];
+	if (usage.totalTokens) {
+		parts.push(`${usage.totalTokens.toLocaleString()} tokens`);
+	}
+	if (usage.costUsd) {
+		parts.push(`$${usage.costUsd.toFixed(2)}`);
+	}
+	return parts.join(", ");
+}
@@ -7,6 +7,7 @@
 
 import { existsSync, readdirSync, readFileSync } from "node:fs";
 import { basename, isAbsolute, join, normalize, relative, resolve, sep } from "node:path";
+import { formatRalphResultInstructions, parseRalphResult } from "./ralph-result.js";
 import { getPRD, getProgress, getSpec } from "./state.js";
 import type { PRD, ProviderVariantConfig } from "./types.js";
 
@@ -49,12 +50,10 @@ Summary of what you're changing
 </doc-update>
 \`\`\`
 
-If no documentation updates are needed, output:
-
-\`\`\`
-<doc-update-result>NO_UPDATES_NEEDED</doc-update-result>
-<reason>Explanation of why no docs need updating</reason>
-\`\`\`
+${formatRalphResultInstructions({
+	completed: "you emitted one or more `<doc-update>` blocks (list their files in `files`)",
+	no_updates: "no documentation needs updating — explain why in `summary`",
+})}
 
 Important:
 - Only update docs that are genuinely affected by the PRD changes
@@ -229,8 +228,11 @@ export function parseDocumentationUpdates(
 ): { file: string; reason: string; changes: string; content: string }[] {
 	const updates: { file: string; reason: string; changes: string; content: string }[] = [];
 
-	// Check if no updates needed
-	if (output.includes("<doc-update-result>NO_UPDATES_NEEDED</doc-update-result>")) {
+	// Check if no updates needed (result block, then the legacy tag)
+	if (
+		parseRalphResult(output)?.status === "no_updates" ||
+		output.includes("<doc-update-result>NO_UPDATES_NEEDED</doc-update-result>")
+	) {
 		return [];
 	}
 
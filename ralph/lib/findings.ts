@@ -0,0 +1,218 @@
+/**
+ * Ralph Review Findings Ledger
+ *
+ * Every finding a reviewer reports is tracked in the PRD's
+ * `review-results/findings.json` under a stable fingerprint of its file and
+ * issue text, so the same finding keeps its ID across review rounds even as
+ * line numbers shift. A finding stays `open` until the fix iteration it was
+ * handed to makes reviewers stop reporting it (`fixed`), or until it is
+ * triaged as `disputed`, `deferred`, or `wontfix`. Triaged findings no longer
+ * block the review.
+ */
+
+import { createHash } from "node:crypto";
+import { getDefaultStore } from "./core/prd-store.js";
+import { ErrorCodes, err, ok, type Result } from "./results.js";
+import type {
+	FindingRound,
+	FindingStatus,
+	FindingsLedger,
+	LedgerFinding,
+	ReviewFinding,
+} from "./types.js";
+
+/** Statuses set by a person; the review leaves these findings alone */
+export const TRIAGED_FINDING_STATUSES: readonly FindingStatus[] = [
+	"disputed",
+	"deferred",
+	"wontfix",
+];
+
+/** Finding severities ordered most severe first */
+export const SEVERITY_RANK: Record<ReviewFinding["severity"], number> = {
+	critical: 0,
+	major: 1,
+	minor: 2,
+	suggestion: 3,
+};
+
+/**
+ * Fingerprint a finding by its file and issue text. Case, punctuation, and
+ * numbers in the text are ignored so rephrased line references still match.
+ */
+export function fingerprintFinding(finding: Pick<ReviewFinding, "file" | "issue">): string {
+	const issue = finding.issue
+		.toLowerCase()
+		.replace(/\d+/g, "#")
+		.replace(/[^a-z#]+/g, " ")
+		.trim();
+	const hash = createHash("sha256").update(`${finding.file}\n${issue}`).digest("hex");
+	return `F-${hash.slice(0, 8)}`;
+}
+
+/**
+ * Whether a finding still holds up the review
+ */
+export function isFindingTriaged(finding: LedgerFinding): boolean {
+	return TRIAGED_FINDING_STATUSES.includes(finding.status);
+}
+
+/**
+ * Record one review round's findings. New findings are added as open, fixed
+ * ones that come back are reopened, and open findings that the round's fix
+ * iteration was handed but reviewers no longer report are marked fixed by it.
+ */
+export function recordReviewRound(
+	ledger: FindingsLedger,
+	findings: ReviewFinding[],
+	round: Omit<FindingRound, "timestamp">,
+): FindingsLedger {
+	const seenAt: FindingRound = { ...round, timestamp: new Date().toISOString() };
+	const byId = new Map(ledger.findings.map((f) => [f.id, { ...f }]));
+	const reported = new Set<string>();
+
+	for (const finding of findings) {
+		const id = fingerprintFinding(finding);
+		reported.add(id);
+		const existing = byId.get(id);
+		if (!existing) {
+			byId.set(id, { ...finding, id, status: "open", firstSeen: seenAt, lastSeen: seenAt });
+			continue;
+		}
+
+		if (SEVERITY_RANK[finding.severity] < SEVERITY_RANK[existing.severity]) {
+			existing.severity = finding.severity;
+		}
+		const reviewers = new Set(existing.reviewer.split(", ").filter(Boolean));
+		for (const reviewer of finding.reviewer.split(", ")) reviewers.add(reviewer);
+		existing.reviewer = Array.from(reviewers).join(", ");
+		if (finding.line !== undefined) existing.line = finding.line;
+		existing.lastSeen = seenAt;
+		if (existing.status === "fixed") {
+			existing.status = "open";
+			delete existing.fixedBy;
+		}
+	}
+
+	for (const finding of byId.values()) {
+		if (
+			finding.status === "open" &&
+			!reported.has(finding.id) &&
+			finding.sentToFix?.phase === round.phase &&
+			finding.sentToFix.iteration === round.iteration
+		) {
+			finding.status = "fixed";
+			finding.fixedBy = finding.sentToFix;
+		}
+	}
+
+	return { ...ledger, findings: Array.from(byId.values()) };
+}
+
+/**
+ * Note that findings were handed to a fix iteration
+ */
+export function markSentToFix(
+	ledger: FindingsLedger,
+	findings: ReviewFinding[],
+	round: Omit<FindingRound, "timestamp">,
+): FindingsLedger {
+	const ids = new Set(findings.map(fingerprintFinding));
+	const sentAt: FindingRound = { ...round, timestamp: new Date().toISOString() };
+	return {
+		...ledger,
+		findings: ledger.findings.map((f) => (ids.has(f.id) ? { ...f, sentToFix: sentAt } : f)),
+	};
+}
+
+/**
+ * What to list from a ledger; every field narrows the list
+ */
+export interface FindingsFilter {
+	status?: FindingStatus[];
+	severity?: ReviewFinding["severity"][];
+	/** Path prefix */
+	file?: string;
+	reviewer?: string;
+}
+
+/**
+ * Findings matching a filter, most severe first
+ */
+export function filterFindings(findings: LedgerFinding[], filter: FindingsFilter): LedgerFinding[] {
+	return findings
+		.filter(
+			(f) =>
+				(!filter.status || filter.status.includes(f.status)) &&
+				(!filter.severity || filter.severity.includes(f.severity)) &&
+				(!filter.file || f.file.startsWith(filter.file)) &&
+				(!filter.reviewer || f.reviewer.split(", ").includes(filter.reviewer)),
+		)
+		.sort(
+			(a, b) =>
+				SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.file.localeCompare(b.file),
+		);
+}
+
+/**
+ * List a PRD's findings
+ */
+export async function listFindings(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	filter: FindingsFilter = {},
+): Promise<Result<LedgerFinding[]>> {
+	const ledger = await getDefaultStore(projectName, repoRoot).getFindingsLedger(prdName);
+	if (!ledger.ok) {
+		return err(ledger.error!.code, ledger.error!.message);
+	}
+	return ok(filterFindings(ledger.data!.findings, filter));
+}
+
+/**
+ * Set a finding's status by ID or unique ID prefix, with an optional note
+ */
+export async function triageFinding(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	findingId: string,
+	status: FindingStatus,
+	note?: string,
+): Promise<Result<LedgerFinding>> {
+	const store = getDefaultStore(projectName, repoRoot);
+	const ledger = await store.getFindingsLedger(prdName);
+	if (!ledger.ok) {
+		return err(ledger.error!.code, ledger.error!.message);
+	}
+
+	const wanted = findingId.toUpperCase().startsWith("F-")
+		? `F-${findingId.slice(2).toLowerCase()}`
+		: `F-${findingId.toLowerCase()}`;
+	const matches = ledger.data!.findings.filter((f) => f.id.startsWith(wanted));
+	if (matches.length !== 1) {
+		return err(
+			ErrorCodes.FINDING_NOT_FOUND,
+			matches.length === 0
+				? `Finding not found in ${prdName}: ${findingId}`
+				: `Finding ID ${findingId} is ambiguous: ${matches.map((f) => f.id).join(", ")}`,
+		);
+	}
+	const id = matches[0]!.id;
+
+	const updated = await store.updateFindingsLedger(prdName, (current) => ({
+		...current,
+		findings: current.findings.map((f) => {
+			if (f.id !== id) return f;
+			const next: LedgerFinding = { ...f, status };
+			if (note !== undefined) next.note = note;
+			if (status !== "fixed") delete next.fixedBy;
+			return next;
+		}),
+	}));
+	if (!updated.ok) {
+		return err(updated.error!.code, updated.error!.message);
+	}
+	return ok(updated.data!.findings.find((f) => f.id === id)!);
+}
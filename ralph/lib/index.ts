@@ -9,26 +9,60 @@
  * - Configuration loading
  */
 
+// Blocked-story answers
+export {
+	type AppliedAnswer,
+	applyAnswersFile,
+	entryToResponse,
+	listOpenQuestions,
+	type OpenQuestion,
+	parseAnswersFile,
+	respondToStory,
+} from "./answers.js";
 // High-level API (structured results for CLI and daemon)
 export {
+	answerStory,
 	canTransition,
 	getActions,
+	getOpenQuestions,
 	getPRDState,
 	type RunOptions,
 	runQA,
 	startDevelopment,
 } from "./api.js";
+// Core - Budget limits
+export {
+	type BudgetExceeded,
+	type BudgetLimit,
+	checkBudget,
+	checkPRDBudget,
+} from "./core/budget.js";
 // Core - Config (Result-based API)
 export {
+	getAgentTimeouts,
+	getBudgetConfig,
+	getCommitsConfig,
+	getGatesConfig,
+	getHooksConfig,
+	getLintConfig,
+	getNotificationsConfig,
+	getParallelConfig,
+	getProviderVariantChain,
 	getProviderVariantConfig,
 	getQAConfig,
+	getRetryConfig,
 	getReviewConfig,
 	getScriptsConfig,
+	getStuckConfig,
+	getStuckThreshold,
 	getSwarmConfig,
+	getTimeoutsConfig,
+	getVerificationConfig,
 	hasProviderVariant,
 	loadConfig,
 	type ResolvedReviewProviderVariants,
 	resolveReviewProviderVariants,
+	resolveStoryVerifierProviderVariant,
 } from "./core/config.js";
 // Core - Logger
 export {
@@ -70,6 +104,31 @@ export {
 	PRDStateMachine,
 	StoryStateMachine,
 } from "./core/state-machine.js";
+// Core - Story Dependency Graph
+export {
+	buildStoryDependencyGraph,
+	findStoryDependencyCycle,
+	getStoryDependencyChain,
+	getUnmetStoryDependencies,
+	parseStoryFrontmatter,
+	readStoryDependencies,
+	readStorySuggestedFiles,
+	type StoryDependencyGraph,
+	type StoryFrontmatter,
+	selectIndependentStories,
+	setStoryDependencies,
+	suggestedFilesOverlap,
+	validateStoryDependencyGraph,
+} from "./core/story-graph.js";
+// Core - Usage accounting
+export {
+	accumulateMetrics,
+	addUsage,
+	formatUsage,
+	hasUsage,
+	splitUsage,
+	sumUsage,
+} from "./core/usage.js";
 // Documentation
 export {
 	applyDocumentationUpdates,
@@ -89,13 +148,43 @@ export {
 	type OrchestratorEvent,
 	type OrchestratorOptions,
 } from "./events.js";
+// Review findings ledger
+export {
+	type FindingsFilter,
+	filterFindings,
+	fingerprintFinding,
+	isFindingTriaged,
+	listFindings,
+	markSentToFix,
+	recordReviewRound,
+	TRIAGED_FINDING_STATUSES,
+	triageFinding,
+} from "./findings.js";
+// Lint (ralph lint)
+export {
+	type LintOptions,
+	lintPRDDirectory,
+	lintPRDs,
+	REQUIRED_STORY_SECTIONS,
+} from "./lint.js";
 // Orchestration - Agent Executor
 export {
 	AgentExecutor,
+	type AgentFailureKind,
+	type AgentRecovery,
 	type AgentResult,
+	type AgentTimeoutKind,
+	agentRecoveryHooks,
+	classifyAgentFailure,
 	createAgentExecutor,
+	describeAgentTimeout,
 	getAgentExecutor,
+	getAgentTimeoutOptions,
+	isTransientFailure,
+	type RecoveryRunOptions,
 	type RunOptions as AgentRunOptions,
+	recordAgentUsage,
+	runAgentWithRecovery,
 } from "./orchestration/agent-runner.js";
 // Orchestration - Engine
 export {
@@ -104,15 +193,69 @@ export {
 	type EngineContext,
 	type EngineEvent,
 	OrchestrationEngine,
+	type PlanResult,
 	type QARunResult,
 	type RunOptions as EngineRunOptions,
 } from "./orchestration/engine.js";
-
+// Orchestration - Quality gates
+export { formatGateFeedback, runGates } from "./orchestration/gates.js";
+// Orchestration - Lifecycle hooks
+export { type HookContext, hookEnv, runHook } from "./orchestration/hooks.js";
+// Orchestration - Notifications
+export {
+	type NotificationContext,
+	Notifier,
+	renderNotificationTemplate,
+	toNotification,
+} from "./orchestration/notifications.js";
+// Orchestration - Provider adapters
+export {
+	type AgentEvent,
+	getProviderAdapter,
+	type ProviderAdapter,
+} from "./orchestration/provider-adapters.js";
+// Orchestration - Review diff
+export {
+	buildFixDiff,
+	buildReviewDiff,
+	chunkDiffFiles,
+	type DiffFile,
+	globToRegExp,
+	parseDiffFiles,
+	type ReviewDiff,
+	type ReviewDiffBase,
+	resolveReviewBase,
+	snapshotWorkingTree,
+} from "./orchestration/review-diff.js";
 // Orchestration - Review Engine
-export { ReviewEngine } from "./orchestration/review-engine.js";
-
+export { ReviewEngine, type ReviewRunResult } from "./orchestration/review-engine.js";
+// Orchestration - Stuck-story policy
+export {
+	formatStuckDiagnosis,
+	nextStuckStage,
+	summarizeAttempt,
+} from "./orchestration/stuck-policy.js";
+// Orchestration - Tool reviewers
+export {
+	parseSarifFindings,
+	parseToolFindings,
+	runToolReviewer,
+} from "./orchestration/tool-reviewer.js";
+// Orchestration - Story Verifier
+export {
+	generateStoryVerifierPrompt,
+	parseStoryVerifierOutput,
+	type StoryVerifierOutput,
+} from "./orchestration/verifier-prompt.js";
+// Planning (ralph plan)
+export { checkPlannedPRD, INITIAL_PROGRESS } from "./planning.js";
 // Prompt generation
-export { generateFindingsExtractionPrompt, generatePrompt } from "./prompt.js";
+export {
+	generateFindingsExtractionPrompt,
+	generatePlanPrompt,
+	generatePrompt,
+	generateSplitPrompt,
+} from "./prompt.js";
 // QA
 export {
 	detectQAResult,
@@ -125,8 +268,17 @@ export {
 	resolveQAPluginPath,
 	saveQAReport,
 } from "./qa.js";
+// Ralph result protocol
+export {
+	formatRalphResultInstructions,
+	parseRalphResult,
+	parseRalphResultFor,
+	parseRalphResults,
+	RALPH_RESULT_VERSION,
+} from "./ralph-result.js";
 // Result types
 export {
+	type AnswerResult,
 	computeDisplayState,
 	type ErrorCode,
 	ErrorCodes,
@@ -146,17 +298,55 @@ export {
 	generateExternalReviewPrompt,
 	generateFinalizePrompt,
 	generateFixPrompt,
+	generateRecheckPrompt,
 	generateReviewPrompt,
+	parseRecheckResult,
 	parseReviewResult,
 } from "./review-prompt.js";
+// Reviewers (bundled and repo-local)
+export {
+	applySeverityThreshold,
+	BUNDLED_REVIEWERS_DIR,
+	loadReviewerDefinition,
+	REPO_REVIEWERS_DIR,
+	reviewerMatchesFiles,
+} from "./reviewers.js";
 // Schemas (Zod validation)
 export {
+	AnswerEntrySchema,
+	type AnswerEntryZ,
+	AnswersFileSchema,
+	BudgetConfigSchema,
+	type BudgetConfigZ,
+	CommitsConfigSchema,
+	type CommitsConfigZ,
 	DependencyInfoSchema,
 	type DependencyInfoZ,
 	DocsConfigSchema,
 	type DocsConfigZ,
+	EngineCheckpointSchema,
+	type EngineCheckpointZ,
+	FindingStatusSchema,
+	FindingsLedgerSchema,
+	type FindingsLedgerZ,
+	GatesConfigSchema,
+	type GatesConfigZ,
+	HookNameSchema,
+	HookOutputSchema,
+	type HookOutputZ,
+	HooksConfigSchema,
+	type HooksConfigZ,
 	LastRunSchema,
 	type LastRunZ,
+	LedgerFindingSchema,
+	LintConfigSchema,
+	type LintConfigZ,
+	NotificationEventSchema,
+	type NotificationEventZ,
+	NotificationsConfigSchema,
+	type NotificationsConfigZ,
+	ParallelConfigSchema,
+	type ParallelConfigZ,
 	PRDMetricsSchema,
 	type PRDMetricsZ,
 	PRDSchema,
@@ -165,6 +355,8 @@ export {
 	PRDSummarySchema,
 	type PRDSummaryZ,
 	type PRDZ,
+	ProviderFormatSchema,
+	type ProviderFormatZ,
 	ProviderVariantConfigSchema,
 	type ProviderVariantConfigZ,
 	QAConfigSchema,
@@ -179,19 +371,50 @@ export {
 	type QAResultZ,
 	RalphConfigSchema,
 	type RalphConfigZ,
+	RalphResultSchema,
+	RalphResultStatusSchema,
+	type RalphResultStatusZ,
+	type RalphResultZ,
+	RetryConfigSchema,
+	type RetryConfigZ,
 	ReviewConfigSchema,
 	type ReviewConfigZ,
+	ReviewerAgentSchema,
+	type ReviewerAgentZ,
+	ReviewFindingSchema,
+	type ReviewFindingZ,
 	ScriptsConfigSchema,
 	type ScriptsConfigZ,
 	StorySchema,
+	StorySplitPartSchema,
+	type StorySplitPartZ,
 	StoryStatusSchema,
 	type StoryStatusZ,
 	type StoryZ,
+	StuckConfigSchema,
+	type StuckConfigZ,
 	SwarmConfigSchema,
 	type SwarmConfigZ,
+	TimeoutsConfigSchema,
+	type TimeoutsConfigZ,
+	ToolFindingSchema,
+	ToolFindingsSchema,
+	type ToolFindingZ,
+	UsagePhaseSchema,
+	type UsagePhaseZ,
+	UsageTotalsSchema,
+	type UsageTotalsZ,
+	VerificationConfigSchema,
+	type VerificationConfigZ,
+	validateAnswersFile,
+	validateEngineCheckpoint,
+	validateFindingsLedger,
 	validatePRD,
 	validateRalphConfig,
+	validateRalphResult,
+	validateReviewerAgent,
 	validateStory,
+	validateToolFindings,
 } from "./schemas.js";
 // Legacy State management (for backward compatibility)
 export {
@@ -205,6 +428,7 @@ export {
 	extractAndSaveFindings,
 	extractFindings,
 	findPRDLocation,
+	getCheckpoint,
 	getNextFixStoryId,
 	getNextStory,
 	getPRD,
@@ -213,6 +437,7 @@ export {
 	getQAResultsDir,
 	getSpec,
 	getStoryFilePath,
+	getTranscriptsDir,
 	getUnmetDependencies,
 	hasBlockedStories,
 	hasPRDFile,
@@ -231,9 +456,12 @@ export {
 	updatePRD,
 	updateStoryStatus,
 } from "./state.js";
+// Story commits
+export { rollbackStory, type StoryRollback, storyCommitMessage } from "./story-commits.js";
 // Swarm module — parallel PRD execution via worktrees + session backends
 export {
 	branchExists,
+	commitAll,
 	createWorktree,
 	DEFAULT_SWARM_CONFIG,
 	getAllRuns,
@@ -247,6 +475,7 @@ export {
 	loadSwarmState,
 	type MergeOptions,
 	type MergeResult,
+	mergeBranch,
 	type PaneInfo,
 	type PaneOptions,
 	type PersistedRunInstance,
@@ -273,29 +502,90 @@ export {
 	// Worktree operations
 	type WorktreeInfo,
 } from "./swarm/index.js";
+// Transcripts
+export {
+	createTranscript,
+	listTranscripts,
+	readTranscript,
+	renderTranscript,
+} from "./transcripts.js";
 // Types
 export type {
+	AgentTimeoutConfig,
+	AgentUsage,
+	BudgetConfig,
+	CommandNotificationConfig,
+	CommitsConfig,
 	DependencyInfo,
+	DesktopNotificationConfig,
 	DocsConfig,
+	EngineCheckpoint,
+	FindingRound,
+	FindingStatus,
+	FindingsLedger,
+	FindingVerdict,
+	GateCheck,
+	GatesConfig,
+	HookName,
+	HookOutput,
+	HooksConfig,
 	LastRun,
+	LedgerFinding,
+	LintConfig,
+	LintIssue,
+	LintReport,
+	LintRule,
+	LintSeverity,
+	Notification,
+	NotificationEvent,
+	NotificationsConfig,
+	ParallelConfig,
 	PRD,
+	PRDLintReport,
 	PRDMetrics,
 	PRDStatus,
 	PRDSummary,
+	ProviderFormat,
 	ProviderVariantConfig,
+	QACheckpoint,
 	QAConfig,
 	QAIssue,
 	QAPlatformConfig,
 	QAReport,
 	QAResult,
 	RalphConfig,
+	RalphResult,
+	RalphResultStatus,
+	RecheckResult,
+	RetryConfig,
+	ReviewCheckpoint,
 	ReviewConfig,
+	ReviewerDefinition,
 	ReviewFinding,
 	ReviewRoundResult,
 	ScriptsConfig,
 	Story,
+	StoryGateResult,
+	StoryResponse,
+	StorySplitPart,
 	StoryStatus,
+	StoryVerificationCheck,
+	StoryVerificationResult,
+	StuckConfig,
+	StuckStage,
 	SwarmConfig,
+	TimeoutPolicy,
+	TimeoutsConfig,
+	ToolReviewerConfig,
+	ToolReviewerFormat,
+	TranscriptIndexEntry,
+	TranscriptPhase,
+	TranscriptRecord,
+	UsageAttribution,
+	UsagePhase,
+	UsageTotals,
+	VerificationConfig,
+	WebhookNotificationConfig,
 } from "./types.js";
 // Verification
 export {
@@ -0,0 +1,309 @@
+/**
+ * Ralph Lint
+ *
+ * Static checks for PRD folders, so broken story files surface before
+ * `generatePrompt` throws mid-run: prd.json against its schema, every story
+ * file against the prd-creation template (frontmatter matching prd.json,
+ * required sections, acceptance criteria count), and PRD and story
+ * dependencies that point nowhere or form a cycle.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { getDefaultStore } from "./core/prd-store.js";
+import {
+	findStoryDependencyCycle,
+	parseStoryFrontmatter,
+	type StoryDependencyGraph,
+} from "./core/story-graph.js";
+import { ErrorCodes, err, ok, type Result } from "./results.js";
+import { validatePRD } from "./schemas.js";
+import { readStoryAcceptanceCriteria } from "./state.js";
+import type {
+	LintConfig,
+	LintIssue,
+	LintReport,
+	PRDLintReport,
+	PRDStatus,
+	Story,
+} from "./types.js";
+
+/** Sections every story file must have; the story files Ralph writes itself include them too */
+export const REQUIRED_STORY_SECTIONS = [
+	"Goal",
+	"Scope",
+	"Deliverables",
+	"Acceptance Criteria",
+] as const;
+
+/**
+ * What a PRD folder is checked against
+ */
+export interface LintOptions extends Required<LintConfig> {
+	/** Every PRD in the project, for checking PRD dependencies */
+	knownPRDs: ReadonlySet<string>;
+}
+
+function hasSection(content: string, section: string): boolean {
+	return new RegExp(`^##\\s+${section}\\s*$`, "im").test(content);
+}
+
+/**
+ * Issues with one story file; the caller has checked that it exists
+ */
+function lintStoryFile(story: Story, prdDir: string, options: LintOptions): LintIssue[] {
+	const file = story.promptPath;
+	const storyPath = join(prdDir, file);
+	const content = readFileSync(storyPath, "utf-8");
+	const issues: LintIssue[] = [];
+	const issue = (rule: LintIssue["rule"], severity: LintIssue["severity"], message: string) =>
+		issues.push({ rule, severity, file, storyId: story.id, message });
+
+	const frontmatter = parseStoryFrontmatter(content);
+	if (frontmatter.id !== story.id) {
+		issue(
+			"frontmatter",
+			"error",
+			`frontmatter \`id\` must be "${story.id}"${frontmatter.id ? `, got "${frontmatter.id}"` : ""}`,
+		);
+	}
+	if (frontmatter.title === undefined) {
+		issue("frontmatter", "warning", "frontmatter has no `title`");
+	} else if (frontmatter.title !== story.title) {
+		issue(
+			"frontmatter",
+			"warning",
+			`frontmatter \`title\` "${frontmatter.title}" differs from prd.json "${story.title}"`,
+		);
+	}
+	if (frontmatter.priority === undefined) {
+		issue("frontmatter", "warning", "frontmatter has no `priority`");
+	} else if (frontmatter.priority !== story.priority) {
+		issue(
+			"frontmatter",
+			"warning",
+			`frontmatter \`priority\` ${frontmatter.priority} differs from prd.json ${story.priority}`,
+		);
+	}
+
+	for (const section of REQUIRED_STORY_SECTIONS) {
+		if (!hasSection(content, section)) {
+			issue("section", "error", `missing \`## ${section}\` section`);
+		}
+	}
+
+	if (hasSection(content, "Acceptance Criteria")) {
+		let count = 0;
+		try {
+			count = readStoryAcceptanceCriteria(storyPath).length;
+		} catch {
+			// An empty section; reported below as zero criteria
+		}
+		if (count < Math.max(options.min_acceptance_criteria, 1)) {
+			issue(
+				"acceptance-criteria",
+				"error",
+				`has ${count} acceptance criteria, needs at least ${Math.max(options.min_acceptance_criteria, 1)}`,
+			);
+		} else if (count > options.max_acceptance_criteria) {
+			issue(
+				"acceptance-criteria",
+				"warning",
+				`has ${count} acceptance criteria, more than ${options.max_acceptance_criteria}; consider splitting the story`,
+			);
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Lint one PRD folder. A folder without prd.json (spec only) yields a single
+ * warning; every other problem found is listed.
+ */
+export function lintPRDDirectory(
+	prdDir: string,
+	prdName: string,
+	options: LintOptions,
+): LintIssue[] {
+	const prdPath = join(prdDir, "prd.json");
+	if (!existsSync(prdPath)) {
+		return [
+			{
+				rule: "prd-json",
+				severity: "warning",
+				file: "prd.json",
+				message: `no prd.json yet; run \`ralph plan ${prdName}\` to write one from spec.md`,
+			},
+		];
+	}
+
+	let data: unknown;
+	try {
+		data = JSON.parse(readFileSync(prdPath, "utf-8"));
+	} catch (error) {
+		return [
+			{
+				rule: "prd-json",
+				severity: "error",
+				file: "prd.json",
+				message: `not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+			},
+		];
+	}
+
+	const issues: LintIssue[] = [];
+	// Zod drops unknown keys, so criteria put in prd.json would silently vanish
+	const rawStories = (data as { stories?: unknown } | null)?.stories;
+	if (Array.isArray(rawStories)) {
+		for (const raw of rawStories as Array<Record<string, unknown>>) {
+			if (raw && typeof raw === "object" && "acceptanceCriteria" in raw) {
+				issues.push({
+					rule: "prd-json",
+					severity: "error",
+					file: "prd.json",
+					storyId: String(raw["id"]),
+					message: `story ${String(raw["id"])}: \`acceptanceCriteria\` belongs in the story file's \`## Acceptance Criteria\` section, not in prd.json`,
+				});
+			}
+		}
+	}
+
+	const validation = validatePRD(data);
+	if (!validation.success) {
+		return [
+			...issues,
+			...validation.error.issues.map(
+				(issue): LintIssue => ({
+					rule: "prd-json",
+					severity: "error",
+					file: "prd.json",
+					message: `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+				}),
+			),
+		];
+	}
+	const prd = validation.data;
+
+	if (prd.name !== prdName) {
+		issues.push({
+			rule: "prd-name",
+			severity: "error",
+			file: "prd.json",
+			message: `\`name\` must be "${prdName}" (the PRD folder), got "${prd.name}"`,
+		});
+	}
+
+	for (const dep of prd.dependencies ?? []) {
+		if (dep === prdName) {
+			issues.push({
+				rule: "prd-dependency",
+				severity: "error",
+				file: "prd.json",
+				message: "PRD depends on itself",
+			});
+		} else if (!options.knownPRDs.has(dep)) {
+			issues.push({
+				rule: "prd-dependency",
+				severity: "error",
+				file: "prd.json",
+				message: `depends on unknown PRD '${dep}'`,
+			});
+		}
+	}
+
+	const graph: StoryDependencyGraph = new Map();
+	for (const story of prd.stories) {
+		if (graph.has(story.id)) {
+			issues.push({
+				rule: "story-id",
+				severity: "error",
+				file: "prd.json",
+				storyId: story.id,
+				message: `story id ${story.id} is used more than once`,
+			});
+			continue;
+		}
+
+		const storyPath = join(prdDir, story.promptPath);
+		if (!existsSync(storyPath)) {
+			issues.push({
+				rule: "story-file",
+				severity: "error",
+				file: "prd.json",
+				storyId: story.id,
+				message: `story ${story.id}: story file ${story.promptPath} does not exist`,
+			});
+			graph.set(story.id, []);
+			continue;
+		}
+		issues.push(...lintStoryFile(story, prdDir, options));
+		graph.set(story.id, parseStoryFrontmatter(readFileSync(storyPath, "utf-8")).dependencies ?? []);
+	}
+
+	for (const [storyId, deps] of graph) {
+		for (const dep of deps) {
+			if (!graph.has(dep)) {
+				issues.push({
+					rule: "story-dependency",
+					severity: "error",
+					file: prd.stories.find((s) => s.id === storyId)!.promptPath,
+					storyId,
+					message: `depends on unknown story '${dep}'`,
+				});
+			}
+		}
+	}
+	const cycle = findStoryDependencyCycle(graph);
+	if (cycle) {
+		issues.push({
+			rule: "story-dependency",
+			severity: "error",
+			file: "prd.json",
+			message: `story dependency cycle: ${cycle.join(" → ")}`,
+		});
+	}
+
+	return issues;
+}
+
+/**
+ * Lint one PRD, or every PRD that is not completed yet (`all` includes completed ones)
+ */
+export function lintPRDs(
+	projectName: string,
+	repoRoot: string,
+	limits: Required<LintConfig>,
+	target: { prdName?: string; all?: boolean } = {},
+): Result<LintReport> {
+	const { prdName, all: includeCompleted = false } = target;
+	const store = getDefaultStore(projectName, repoRoot);
+	const all = store.list();
+	let targets: Array<{ name: string; status: PRDStatus }> = includeCompleted
+		? all
+		: all.filter((p) => p.status !== "completed");
+	if (prdName) {
+		const status = store.findLocation(prdName);
+		if (!status) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+		}
+		targets = [{ name: prdName, status }];
+	}
+
+	const options: LintOptions = {
+		...limits,
+		knownPRDs: new Set(all.map((p) => p.name)),
+	};
+	const prds: PRDLintReport[] = targets.map(({ name, status }) => ({
+		prdName: name,
+		status,
+		issues: lintPRDDirectory(store.getPRDPath(name)!, name, options),
+	}));
+
+	const issues = prds.flatMap((p) => p.issues);
+	return ok({
+		prds,
+		errors: issues.filter((i) => i.severity === "error").length,
+		warnings: issues.filter((i) => i.severity === "warning").length,
+	});
+}
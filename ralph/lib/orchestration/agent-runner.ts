@@ -6,8 +6,27 @@
  */
 
 import { spawn } from "node:child_process";
+import { appendFileSync } from "node:fs";
+import {
+	getAgentTimeouts,
+	getProviderVariantChain,
+	getRetryConfig,
+	getTimeoutsConfig,
+} from "../core/config.js";
 import type { Logger } from "../core/logger.js";
-import type { ProviderVariantConfig } from "../types.js";
+import type { PRDStore } from "../core/prd-store.js";
+import { hasUsage, sumUsage } from "../core/usage.js";
+import { parseRalphResultFor } from "../ralph-result.js";
+import { createTranscript } from "../transcripts.js";
+import type {
+	AgentUsage,
+	ProviderVariantConfig,
+	RalphConfig,
+	TranscriptRecord,
+	UsagePhase,
+} from "../types.js";
+import type { EngineContext, EngineEvent } from "./engine.js";
+import { type AgentEvent, getProviderAdapter } from "./provider-adapters.js";
 
 /**
  * Options for running an agent
@@ -23,69 +42,141 @@ export interface RunOptions {
 	onOutput?: (data: string) => void;
 	/** Callback for tool usage */
 	onTool?: (toolName: string) => void;
+	/** Callback for every parsed provider event */
+	onEvent?: (event: AgentEvent) => void;
 	/** Working directory for the spawned process */
 	cwd?: string;
+	/** Kill the agent after this many milliseconds */
+	timeoutMs?: number;
+	/** Kill the agent after this many milliseconds without output */
+	idleTimeoutMs?: number;
+	/** Milliseconds between SIGTERM and SIGKILL when stopping the agent (default: 10000) */
+	killGraceMs?: number;
+	/** Append the prompt, raw stdout/stderr chunks, and exit to this JSON-lines file */
+	transcriptPath?: string;
+}
+
+/**
+ * Which timeout stopped an agent run
+ */
+export type AgentTimeoutKind = "wall_clock" | "idle";
+
+/**
+ * Why an agent run exited non-zero:
+ * - rate_limit, network: transient, retried with backoff
+ * - auth, model_error: provider problem, switch to a fallback variant
+ * - crash: anything else
+ */
+export type AgentFailureKind = "rate_limit" | "network" | "auth" | "model_error" | "crash";
+
+/**
+ * A retry or fallback switch made by runAgentWithRecovery
+ */
+export interface AgentRecovery {
+	failure: AgentFailureKind;
+	/** backoff: retry the same variant after delayMs; fallback: switch to the next variant */
+	action: "backoff" | "fallback";
+	/** Variant that failed */
+	providerVariant?: string;
+	/** Variant used for the next attempt */
+	nextProviderVariant?: string;
+	/** 1-based attempt number on the failed variant */
+	attempt: number;
+	delayMs: number;
 }
 
 /**
  * Result of running an agent
  */
 export interface AgentResult {
-	/** Plain text output (extracted from stream-json if applicable) */
+	/** Plain text output (extracted from the provider's event stream if applicable) */
 	output: string;
 	/** Exit code of the agent process */
 	exitCode: number;
 	/** Whether the agent was aborted */
 	aborted: boolean;
+	/** Token and cost usage from the provider's event stream, when reported */
+	usage?: AgentUsage;
+	/** Set when the agent was killed by a timeout */
+	timedOut?: AgentTimeoutKind;
+	/** Set when the agent exited non-zero (not aborted or timed out) */
+	failure?: AgentFailureKind;
+}
+
+const FAILURE_PATTERNS: Array<[Exclude<AgentFailureKind, "crash">, RegExp]> = [
+	[
+		"rate_limit",
+		/rate[ _-]?limit|too many requests|\b429\b|\b529\b|overloaded|quota exceeded|usage limit/i,
+	],
+	[
+		"auth",
+		/\b401\b|unauthori[sz]ed|invalid (api|x-api)[ _-]?key|authentication|not logged in|please (log|sign) in/i,
+	],
+	[
+		"model_error",
+		/model.{0,40}(not found|does not exist|not available)|invalid model|prompt is too long|context (length|window)|invalid_request_error/i,
+	],
+	[
+		"network",
+		/ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network error|\b50[234]\b/i,
+	],
+];
+
+/**
+ * Classify a failed agent run from its exit code and stderr/output tail
+ */
+export function classifyAgentFailure(exitCode: number, text: string): AgentFailureKind | undefined {
+	if (exitCode === 0) {
+		return undefined;
+	}
+	const tail = text.slice(-4000);
+	return FAILURE_PATTERNS.find(([, pattern]) => pattern.test(tail))?.[0] ?? "crash";
 }
 
+/**
+ * Whether a failure is worth retrying on the same provider variant
+ */
+export function isTransientFailure(failure: AgentFailureKind): boolean {
+	return failure === "rate_limit" || failure === "network";
+}
+
+/** Omit that distributes over the members of a union */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
 /**
  * Context for accumulating stream content
  */
 interface StreamContext {
 	plainText: string;
+	usage?: AgentUsage;
 }
 
 /**
- * Parse and handle a stream-json line from Claude Code
+ * Apply a provider event to the stream context and forward it to callbacks
  */
-function handleStreamLine(line: string, ctx: StreamContext, options?: RunOptions): void {
-	try {
-		const event = JSON.parse(line);
-
-		switch (event.type) {
-			case "assistant": {
-				const content = event.message?.content;
-				if (Array.isArray(content)) {
-					for (const block of content) {
-						if (block.type === "text" && block.text) {
-							ctx.plainText += block.text;
-							options?.onOutput?.(block.text);
-						} else if (block.type === "tool_use") {
-							options?.onTool?.(block.name);
-						}
-					}
-				}
-				break;
+function handleEvent(event: AgentEvent, ctx: StreamContext, options?: RunOptions): void {
+	switch (event.type) {
+		case "text":
+			ctx.plainText += event.text;
+			options?.onOutput?.(event.text);
+			break;
+		case "tool_use":
+			options?.onTool?.(event.name);
+			break;
+		case "usage":
+			ctx.usage = ctx.usage ? sumUsage(ctx.usage, event.usage) : event.usage;
+			break;
+		case "result":
+			// Use result if plainText is empty
+			if (event.text && !ctx.plainText.trim()) {
+				ctx.plainText = event.text;
 			}
-			case "result": {
-				if (event.result && typeof event.result === "string") {
-					// Use result if plainText is empty
-					if (!ctx.plainText.trim()) {
-						ctx.plainText = event.result;
-					}
-				}
-				break;
+			if (event.usage) {
+				ctx.usage = event.usage;
 			}
-			// Ignore user, system, init events
-		}
-	} catch {
-		// Not JSON - treat as raw output
-		if (line.trim()) {
-			ctx.plainText += `${line}\n`;
-			options?.onOutput?.(`${line}\n`);
-		}
+			break;
 	}
+	options?.onEvent?.(event);
 }
 
 /**
@@ -100,6 +191,11 @@ export class AgentExecutor {
 		providerVariant: ProviderVariantConfig,
 		options?: RunOptions,
 	): Promise<AgentResult> {
+		// Cancelled before it started: don't spawn the agent at all
+		if (options?.signal?.aborted) {
+			return { output: "", exitCode: 1, aborted: true };
+		}
+
 		return new Promise((resolve, reject) => {
 			const proc = spawn(providerVariant.command, providerVariant.args, {
 				stdio: ["pipe", "pipe", "pipe"],
@@ -110,8 +206,31 @@ export class AgentExecutor {
 			let stderr = "";
 			let lineBuffer = "";
 			const streamCtx: StreamContext = { plainText: "" };
+			const adapter = getProviderAdapter(providerVariant.format);
+			const handleLine = (line: string) => {
+				for (const event of adapter.parseLine(line)) {
+					handleEvent(event, streamCtx, options);
+				}
+			};
 			let aborted = false;
+			let timedOut: AgentTimeoutKind | undefined;
 			let settled = false;
+			let killTimer: ReturnType<typeof setTimeout> | undefined;
+			let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+			// Transcript capture must never fail the run
+			const transcript = (record: DistributiveOmit<TranscriptRecord, "ts">) => {
+				if (!options?.transcriptPath) return;
+				try {
+					appendFileSync(
+						options.transcriptPath,
+						`${JSON.stringify({ ...record, ts: new Date().toISOString() })}\n`,
+					);
+				} catch {
+					// Ignore - transcripts are best-effort
+				}
+			};
+			transcript({ type: "prompt", text: prompt });
 
 			const safeResolve = (result: AgentResult) => {
 				if (settled) return;
@@ -125,10 +244,40 @@ export class AgentExecutor {
 				reject(error);
 			};
 
+			// Stop gracefully, escalating to SIGKILL if the agent ignores SIGTERM
+			const stop = () => {
+				if (killTimer) return;
+				proc.kill("SIGTERM");
+				killTimer = setTimeout(() => proc.kill("SIGKILL"), options?.killGraceMs ?? 10_000);
+			};
+
+			const timeOut = (kind: AgentTimeoutKind) => {
+				if (aborted || timedOut) return;
+				timedOut = kind;
+				stop();
+			};
+
+			const wallClockTimer = options?.timeoutMs
+				? setTimeout(() => timeOut("wall_clock"), options.timeoutMs)
+				: undefined;
+
+			const resetIdleTimer = () => {
+				if (!options?.idleTimeoutMs || timedOut) return;
+				clearTimeout(idleTimer);
+				idleTimer = setTimeout(() => timeOut("idle"), options.idleTimeoutMs);
+			};
+			resetIdleTimer();
+
+			const clearTimers = () => {
+				clearTimeout(wallClockTimer);
+				clearTimeout(idleTimer);
+				clearTimeout(killTimer);
+			};
+
 			// Handle abort signal
 			const abortHandler = () => {
 				aborted = true;
-				proc.kill("SIGTERM");
+				stop();
 			};
 
 			if (options?.signal) {
@@ -138,9 +287,11 @@ export class AgentExecutor {
 			proc.stdout?.on("data", (data) => {
 				const chunk = data.toString() as string;
 				stdout += chunk;
+				transcript({ type: "stdout", data: chunk });
+				resetIdleTimer();
 
 				if (options?.stream !== false) {
-					// Buffer and process complete lines for stream-json format
+					// Buffer and process complete lines through the provider adapter
 					lineBuffer += chunk;
 					const lines = lineBuffer.split("\n");
 					// Keep the last incomplete line in buffer
@@ -148,7 +299,7 @@ export class AgentExecutor {
 
 					for (const line of lines) {
 						if (line.trim()) {
-							handleStreamLine(line, streamCtx, options);
+							handleLine(line);
 						}
 					}
 				}
@@ -157,10 +308,13 @@ export class AgentExecutor {
 			proc.stderr?.on("data", (data) => {
 				const chunk = data.toString() as string;
 				stderr += chunk;
+				transcript({ type: "stderr", data: chunk });
+				resetIdleTimer();
 				options?.onOutput?.(chunk);
 			});
 
 			proc.on("error", (error) => {
+				clearTimers();
 				if (options?.signal) {
 					options.signal.removeEventListener("abort", abortHandler);
 				}
@@ -175,24 +329,38 @@ export class AgentExecutor {
 			});
 
 			proc.on("close", (code) => {
+				clearTimers();
 				if (options?.signal) {
 					options.signal.removeEventListener("abort", abortHandler);
 				}
 
 				// Process any remaining buffered content
 				if (options?.stream !== false && lineBuffer.trim()) {
-					handleStreamLine(lineBuffer, streamCtx, options);
+					handleLine(lineBuffer);
 				}
 
 				// When streaming, return the accumulated plain text for parsing
 				// Otherwise return raw stdout/stderr
 				const output =
 					options?.stream !== false && streamCtx.plainText ? streamCtx.plainText : stdout + stderr;
+				const exitCode = code ?? 1;
+				const failure =
+					aborted || timedOut ? undefined : classifyAgentFailure(exitCode, `${output}\n${stderr}`);
+				transcript({
+					type: "exit",
+					exitCode,
+					aborted,
+					...(timedOut && { timedOut }),
+					...(failure && { failure }),
+				});
 
 				safeResolve({
 					output,
-					exitCode: code ?? 1,
+					exitCode,
 					aborted,
+					...(streamCtx.usage && { usage: streamCtx.usage }),
+					...(timedOut && { timedOut }),
+					...(failure && { failure }),
 				});
 			});
 
@@ -211,63 +379,31 @@ export class AgentExecutor {
 	}
 
 	/**
-	 * Parse status from agent output
-	 * Returns "completed", "blocked", or null if status cannot be determined
+	 * Parse story status from the agent's `<ralph-result>` block.
+	 * Falls back to the legacy `<promise>COMPLETE</promise>` tag, which implies
+	 * the current story is done. Returns null when no signal is present.
 	 */
-	parseStatus(output: string, storyId: string): "completed" | "blocked" | null {
-		// Look for explicit completion messages
-		const completionPatterns = [
-			new RegExp(`${storyId}\\s+completed`, "i"),
-			new RegExp(`marked\\s+${storyId}\\s+as\\s+completed`, "i"),
-			new RegExp(`${storyId}.*status.*completed`, "i"),
-			/All checks pass/i,
-			/Committed changes/i,
-		];
-
-		let completionHints = 0;
-		for (const pattern of completionPatterns) {
-			if (pattern.test(output)) {
-				completionHints++;
-			}
+	parseStatus(output: string, _storyId: string): "completed" | "blocked" | null {
+		const result = parseRalphResultFor(output, ["completed", "blocked"] as const);
+		if (result) {
+			return result.status;
 		}
-
-		// Look for blocking patterns
-		const blockPatterns = [
-			new RegExp(`${storyId}.*blocked`, "i"),
-			/cannot\s+(complete|proceed)/i,
-			/unclear requirements/i,
-			/missing.*dependencies/i,
-		];
-
-		for (const pattern of blockPatterns) {
-			if (pattern.test(output)) {
-				return "blocked";
-			}
-		}
-
-		// If we have multiple completion hints, consider it completed
-		if (completionHints >= 2) {
-			return "completed";
-		}
-
-		// Look for JSON status updates in output
-		const jsonMatch = output.match(/\{[^}]*"status"\s*:\s*"(completed|blocked)"[^}]*\}/i);
-		if (jsonMatch?.[1]) {
-			return jsonMatch[1] as "completed" | "blocked";
-		}
-
-		return null;
+		return output.includes("<promise>COMPLETE</promise>") ? "completed" : null;
 	}
 
 	/**
-	 * Check if output contains completion signal
+	 * Check if output contains a completion signal
+	 * (`<ralph-result>` with status completed, or the legacy `<promise>COMPLETE</promise>`)
 	 */
 	hasCompletionSignal(output: string): boolean {
+		if (parseRalphResultFor(output, ["completed"] as const)) {
+			return true;
+		}
 		return output.includes("<promise>COMPLETE</promise>");
 	}
 
 	/**
-	 * Parse token usage from Claude Code output
+	 * Parse token usage from plain-text output (fallback when the provider reported no usage events)
 	 */
 	parseTokenUsage(output: string): { inputTokens?: number; outputTokens?: number } {
 		const inputMatch = output.match(/Input:\s*([\d,]+)/i);
@@ -286,6 +422,197 @@ export class AgentExecutor {
 	}
 }
 
+/**
+ * Record an agent run's token and cost usage in prd.json metrics, attributed
+ * to a phase, the provider variant, and optionally a story. Prefers the
+ * usage reported by the provider adapter, falling back to parsing the output text.
+ */
+export async function recordAgentUsage(
+	ctx: { store: PRDStore; agentExecutor: Pick<AgentExecutor, "parseTokenUsage"> },
+	prdName: string,
+	result: AgentResult,
+	providerVariant: ProviderVariantConfig,
+	phase: UsagePhase,
+	storyId?: string,
+): Promise<void> {
+	const usage = result.usage ?? ctx.agentExecutor.parseTokenUsage(result.output);
+	if (!hasUsage(usage)) {
+		return;
+	}
+	await ctx.store.updateMetrics(prdName, usage, {
+		phase,
+		storyId,
+		providerVariant: providerVariant.name,
+	});
+}
+
+/**
+ * Run options enforcing the configured timeouts for an agent run in a phase
+ */
+export function getAgentTimeoutOptions(
+	config: RalphConfig,
+	providerVariant: ProviderVariantConfig,
+	phase: UsagePhase,
+): Pick<RunOptions, "timeoutMs" | "idleTimeoutMs" | "killGraceMs"> {
+	const timeouts = getAgentTimeouts(config, providerVariant, phase);
+	return {
+		timeoutMs: timeouts.timeout_minutes ? timeouts.timeout_minutes * 60_000 : undefined,
+		idleTimeoutMs: timeouts.idle_timeout_minutes
+			? timeouts.idle_timeout_minutes * 60_000
+			: undefined,
+		killGraceMs: getTimeoutsConfig(config).kill_grace_seconds * 1000,
+	};
+}
+
+/**
+ * Options for runAgentWithRecovery
+ */
+export interface RecoveryRunOptions extends RunOptions {
+	/** Called after every attempt (e.g. to record usage against the variant that ran) */
+	onAttempt?: (result: AgentResult, providerVariant: ProviderVariantConfig) => Promise<void> | void;
+	/** Called before each backoff retry or fallback switch */
+	onRecovery?: (recovery: AgentRecovery) => void;
+	/** Allocate a transcript file for each attempt (see createTranscript) */
+	transcript?: (providerVariant: ProviderVariantConfig) => string | null;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (ms <= 0 || signal?.aborted) {
+			resolve();
+			return;
+		}
+		const timer = setTimeout(resolve, ms);
+		signal?.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timer);
+				resolve();
+			},
+			{ once: true },
+		);
+	});
+}
+
+/**
+ * Run an agent, recovering from provider failures: transient failures
+ * (rate limits, network errors) are retried with exponential backoff per
+ * [ralph.retry], then the variant's `fallback_variants` are tried in order.
+ * Auth and model errors switch to the next fallback straight away; crashes,
+ * timeouts, and aborts (including one during a backoff delay) are returned
+ * as-is. Phase timeouts are applied to each variant unless the options set
+ * them explicitly.
+ *
+ * @returns The last attempt's result and the variant that produced it
+ */
+export async function runAgentWithRecovery(
+	executor: Pick<AgentExecutor, "run">,
+	prompt: string,
+	providerVariant: ProviderVariantConfig,
+	config: RalphConfig,
+	phase: UsagePhase,
+	options: RecoveryRunOptions = {},
+): Promise<AgentResult & { providerVariant: ProviderVariantConfig }> {
+	const { onAttempt, onRecovery, transcript, ...runOptions } = options;
+	const retry = getRetryConfig(config);
+	const chain = getProviderVariantChain(config, providerVariant);
+
+	let result: AgentResult = { output: "", exitCode: 1, aborted: false };
+	for (const [index, variant] of chain.entries()) {
+		const next = chain[index + 1];
+		for (let attempt = 1; ; attempt++) {
+			const transcriptPath = transcript?.(variant) ?? undefined;
+			result = await executor.run(prompt, variant, {
+				...getAgentTimeoutOptions(config, variant, phase),
+				...runOptions,
+				...(transcriptPath && { transcriptPath }),
+			});
+			await onAttempt?.(result, variant);
+
+			const failure = result.failure;
+			if (!failure || failure === "crash" || result.aborted || runOptions.signal?.aborted) {
+				return { ...result, providerVariant: variant };
+			}
+
+			if (isTransientFailure(failure) && attempt <= retry.max_retries) {
+				const delayMs =
+					Math.min(retry.base_delay_seconds * 2 ** (attempt - 1), retry.max_delay_seconds) * 1000;
+				onRecovery?.({
+					failure,
+					action: "backoff",
+					providerVariant: variant.name,
+					nextProviderVariant: variant.name,
+					attempt,
+					delayMs,
+				});
+				await sleep(delayMs, runOptions.signal);
+				if (runOptions.signal?.aborted) {
+					return { ...result, aborted: true, providerVariant: variant };
+				}
+				continue;
+			}
+
+			if (!next) {
+				return { ...result, providerVariant: variant };
+			}
+			onRecovery?.({
+				failure,
+				action: "fallback",
+				providerVariant: variant.name,
+				nextProviderVariant: next.name,
+				attempt,
+				delayMs: 0,
+			});
+			break;
+		}
+	}
+
+	return { ...result, providerVariant: chain.at(-1) ?? providerVariant };
+}
+
+/**
+ * Standard runAgentWithRecovery hooks for the engines: capture a transcript
+ * and record usage for every attempt against the variant that ran, and emit
+ * an agent_recovery event (and a log line) for each backoff retry or fallback switch.
+ */
+export function agentRecoveryHooks(
+	ctx: Pick<EngineContext, "projectName" | "repoRoot" | "store" | "agentExecutor" | "logger">,
+	prdName: string,
+	phase: UsagePhase,
+	emit: (event: EngineEvent) => void,
+	storyId?: string,
+): Pick<RecoveryRunOptions, "onAttempt" | "onRecovery" | "transcript"> {
+	return {
+		transcript: (providerVariant) =>
+			createTranscript(ctx.projectName, ctx.repoRoot, prdName, {
+				phase,
+				storyId,
+				providerVariant,
+			}),
+		onAttempt: (result, variant) => recordAgentUsage(ctx, prdName, result, variant, phase, storyId),
+		onRecovery: (recovery) => {
+			const message =
+				recovery.action === "backoff"
+					? `Agent failed (${recovery.failure}) on ${recovery.providerVariant ?? "provider variant"}, retrying in ${Math.round(recovery.delayMs / 1000)}s (attempt ${recovery.attempt})`
+					: `Agent failed (${recovery.failure}) on ${recovery.providerVariant ?? "provider variant"}, switching to fallback ${recovery.nextProviderVariant}`;
+			ctx.logger.log("warn", message, { prdName, storyId });
+			emit({ type: "agent_recovery", prdName, storyId, phase, ...recovery });
+		},
+	};
+}
+
+/**
+ * Describe a timed-out agent run for logs and blocked-story questions
+ */
+export function describeAgentTimeout(
+	kind: AgentTimeoutKind,
+	options: Pick<RunOptions, "timeoutMs" | "idleTimeoutMs">,
+): string {
+	return kind === "wall_clock"
+		? `Agent timed out after ${(options.timeoutMs ?? 0) / 60_000} minutes`
+		: `Agent produced no output for ${(options.idleTimeoutMs ?? 0) / 60_000} minutes`;
+}
+
 // Default executor instance
 let defaultExecutor: AgentExecutor | null = null;
 
@@ -5,20 +5,36 @@
  * Consolidates logic from orchestrator.ts and events.ts.
  */
 
-import { execSync, spawn } from "node:child_process";
+import { execFileSync, execSync, spawn } from "node:child_process";
 import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
 import { join, resolve } from "node:path";
+import { type BudgetExceeded, checkBudget, checkPRDBudget } from "../core/budget.js";
 import {
+	getBudgetConfig,
+	getCommitsConfig,
+	getGatesConfig,
+	getHooksConfig,
+	getLintConfig,
+	getNotificationsConfig,
+	getParallelConfig,
 	getProviderVariantConfig,
 	getQAConfig,
 	getReviewConfig,
 	getScriptsConfig,
+	getStuckConfig,
+	getStuckThreshold,
+	getTimeoutsConfig,
+	getVerificationConfig,
 	loadConfig,
 	resolveReviewProviderVariants,
+	resolveStoryVerifierProviderVariant,
 } from "../core/config.js";
 import { getLogger, type Logger } from "../core/logger.js";
+import { atomicWrite } from "../core/paths.js";
 import { getDefaultStore, type PRDStore } from "../core/prd-store.js";
-import { generatePrompt } from "../prompt.js";
+import { checkPlannedPRD, INITIAL_PROGRESS } from "../planning.js";
+import { generatePlanPrompt, generatePrompt, generateSplitPrompt } from "../prompt.js";
 import {
 	detectHealthCheckResult,
 	detectQAResult,
@@ -30,17 +46,60 @@ import {
 	parseQAReport,
 	saveQAReport,
 } from "../qa.js";
+import {
+	formatRalphResultInstructions,
+	parseRalphResult,
+	parseRalphResultFor,
+} from "../ralph-result.js";
 import type { Result } from "../results.js";
 import { ErrorCodes, err, ok } from "../results.js";
-import { extractAndSaveFindings } from "../state.js";
-import type { PRD, ProviderVariantConfig, QAReport, RalphConfig } from "../types.js";
+import { appendProgress, extractAndSaveFindings, readStoryAcceptanceCriteria } from "../state.js";
+import { storyCommitMessage } from "../story-commits.js";
+import { commitAll, createWorktree, mergeBranch, removeWorktree } from "../swarm/worktree.js";
+import { createTranscript } from "../transcripts.js";
+import type {
+	HookName,
+	HookOutput,
+	PRD,
+	ProviderVariantConfig,
+	QACheckpoint,
+	QAReport,
+	RalphConfig,
+	Story,
+	StoryVerificationCheck,
+	StuckStage,
+	TimeoutPolicy,
+	TranscriptPhase,
+	UsagePhase,
+} from "../types.js";
 import {
 	generateSimpleVerification,
 	generateVerification,
 	hasVerification,
 } from "../verification.js";
-import { type AgentExecutor, getAgentExecutor } from "./agent-runner.js";
+import {
+	type AgentExecutor,
+	type AgentRecovery,
+	type AgentResult,
+	type AgentTimeoutKind,
+	agentRecoveryHooks,
+	describeAgentTimeout,
+	getAgentExecutor,
+	getAgentTimeoutOptions,
+	recordAgentUsage,
+	runAgentWithRecovery,
+} from "./agent-runner.js";
+import { formatGateFeedback, runGates } from "./gates.js";
+import { runHook as runHookCommand } from "./hooks.js";
+import { Notifier } from "./notifications.js";
 import { ReviewEngine } from "./review-engine.js";
+import { formatStuckDiagnosis, nextStuckStage, summarizeAttempt } from "./stuck-policy.js";
+import { generateStoryVerifierPrompt, parseStoryVerifierOutput } from "./verifier-prompt.js";
+
+/**
+ * FAIL verdicts a story may receive before it is auto-blocked (1 retry)
+ */
+const MAX_STORY_VERIFICATION_FAILURES = 2;
 
 /**
  * Engine context - dependencies injected into the engine
@@ -70,14 +129,75 @@ export type EngineEvent =
 	| { type: "health_check_failed"; error: string }
 	| {
 			type: "complete";
-			result: "success" | "blocked" | "max_iterations" | "error";
+			result:
+				| "success"
+				| "blocked"
+				| "max_iterations"
+				| "budget_exceeded"
+				| "hook_vetoed"
+				| "error";
 			message: string;
 	  }
 	| { type: "qa_complete"; result: "verified" | "failed" | "unknown"; issues?: string[] }
+	| { type: "story_verify_start"; prdName: string; storyId: string; attempt: number }
+	| {
+			type: "story_verify_complete";
+			prdName: string;
+			storyId: string;
+			attempt: number;
+			result: "pass" | "fail";
+			failedChecks: string[];
+	  }
 	| { type: "error"; error: string }
+	| ({
+			type: "agent_recovery";
+			prdName: string;
+			storyId?: string;
+			phase: UsagePhase;
+	  } & AgentRecovery)
+	| {
+			type: "agent_timeout";
+			prdName: string;
+			storyId?: string;
+			phase: UsagePhase;
+			kind: AgentTimeoutKind;
+			action: TimeoutPolicy | "stop";
+			message: string;
+	  }
+	| {
+			type: "story_stuck";
+			prdName: string;
+			storyId: string;
+			iterations: number;
+			action: StuckStage | "block";
+	  }
+	| { type: "story_split"; prdName: string; storyId: string; subStoryIds: string[] }
+	| { type: "plan_check"; prdName: string; attempt: number; problems: string[] }
+	| {
+			type: "story_gates";
+			prdName: string;
+			storyId: string;
+			passed: boolean;
+			failedGates: string[];
+	  }
+	| {
+			type: "hook_run";
+			prdName: string;
+			hook: HookName;
+			storyId?: string;
+			exitCode: number;
+			vetoed: boolean;
+	  }
 	| { type: "review_start"; phase: "first" | "external" | "second" | "finalize" }
 	| { type: "review_agent_complete"; reviewType: string; decision: string; findingsCount: number }
 	| { type: "review_fix_start"; iteration: number; findingsCount: number }
+	| {
+			type: "review_recheck_complete";
+			iteration: number;
+			resolved: number;
+			unresolved: number;
+			regressions: number;
+	  }
 	| { type: "review_phase_complete"; phase: string; clean: boolean };
 
 /**
@@ -97,7 +217,13 @@ export interface RunOptions {
  */
 export interface DevelopmentResult {
 	prdName: string;
-	outcome: "moved_to_qa" | "blocked" | "max_iterations" | "aborted";
+	outcome:
+		| "moved_to_qa"
+		| "blocked"
+		| "max_iterations"
+		| "budget_exceeded"
+		| "hook_vetoed"
+		| "aborted";
 	message: string;
 	storiesCompleted: number;
 	storiesRemaining: number;
@@ -105,12 +231,33 @@ export interface DevelopmentResult {
 	reviewFindingsFixed?: number;
 }
 
+/**
+ * Result of planning a PRD from its spec
+ */
+export interface PlanResult {
+	prdName: string;
+	outcome: "planned" | "blocked" | "invalid";
+	/** Planner runs it took */
+	attempts: number;
+	storyIds: string[];
+	/** Problems left in prd.json or the story files when the attempts ran out */
+	problems: string[];
+	/** What the planner needs clarified in the spec when it reported `blocked` */
+	questions: string[];
+}
+
 /**
  * Result of QA run
  */
 export interface QARunResult {
 	prdName: string;
-	outcome: "verified" | "failed" | "unknown" | "health_check_failed";
+	outcome:
+		| "verified"
+		| "failed"
+		| "unknown"
+		| "health_check_failed"
+		| "budget_exceeded"
+		| "hook_vetoed";
 	report: QAReport;
 	issues?: string[];
 }
@@ -169,6 +316,42 @@ export class OrchestrationEngine {
 		return ok(undefined);
 	}
 
+	/**
+	 * Run a phase with the `[ralph.notifications]` sinks listening to its
+	 * events, plus an `error` notification when the phase fails or throws.
+	 * Returns once notifications still being sent have gone out.
+	 */
+	private async withNotifications<T>(
+		prdName: string,
+		options: RunOptions,
+		run: (options: RunOptions) => Promise<Result<T>>,
+	): Promise<Result<T>> {
+		const configResult = await loadConfig();
+		if (!configResult.ok) {
+			return run(options);
+		}
+		const notifier = new Notifier(
+			{ projectName: this.ctx.projectName, prdName, cwd: this.ctx.repoRoot },
+			getNotificationsConfig(configResult.data!),
+			options.onEvent,
+		);
+		try {
+			const result = await run({ ...options, onEvent: notifier.emit });
+			if (!result.ok) {
+				notifier.notify({ type: "error", error: result.error!.message });
+			}
+			return result;
+		} catch (error) {
+			notifier.notify({
+				type: "error",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			throw error;
+		} finally {
+			await notifier.flush();
+		}
+	}
+
 	/**
 	 * Run development orchestration for a PRD
 	 */
@@ -176,6 +359,10 @@ export class OrchestrationEngine {
 		prdName: string,
 		options: RunOptions = {},
 	): Promise<Result<DevelopmentResult>> {
+		return this.withNotifications(prdName, options, (opts) => this.develop(prdName, opts));
+	}
+
+	private async develop(prdName: string, options: RunOptions): Promise<Result<DevelopmentResult>> {
 		const signal = options.signal ?? this.ctx.signal;
 		const emit = options.onEvent ?? (() => {});
 		const log = (level: "info" | "warn" | "error", message: string) => {
@@ -197,6 +384,12 @@ export class OrchestrationEngine {
 		}
 		const agentConfig = variantResult.data!;
 		const maxIterations = config.default_iterations;
+		const budget = getBudgetConfig(config);
+		const timeouts = getTimeoutsConfig(config);
+		const parallel = getParallelConfig(config);
+		const stuck = getStuckConfig(config);
+		// Stories whose parallel merge conflicted; they are only run on their own from now on
+		const serialStories = new Set<string>();
 
 		log("info", `Starting orchestration for PRD: ${prdName} (cwd: ${process.cwd()})`);
 		const cwdCheck = this.validateWorkingDirectory(prdName, log);
@@ -208,8 +401,8 @@ export class OrchestrationEngine {
 			`Using provider variant: ${options.providerVariant ?? config.default_provider_variant}, max iterations: ${maxIterations}`,
 		);
 
-		// Mark PRD as started
-		await this.ctx.store.markStarted(prdName);
+		// Mark PRD as started; HEAD on the first run is the base of the review diff
+		await this.ctx.store.markStarted(prdName, this.getHeadCommit());
 
 		// Check for blocked stories
 		const blockedResult = await this.ctx.store.getBlockedStories(prdName);
@@ -261,9 +454,39 @@ export class OrchestrationEngine {
 			const story = storyResult.data;
 
 			if (!story) {
+				// Workable stories remain but every one is waiting on an unfinished dependency
+				const waiting = prd.stories.filter((s) => s.status !== "completed");
+				if (waiting.length > 0) {
+					const message = `No story can start - waiting on dependencies: ${waiting.map((s) => s.id).join(", ")}`;
+					log("warn", message);
+					emit({ type: "complete", result: "blocked", message });
+					return ok({
+						prdName,
+						outcome: "blocked",
+						message,
+						storiesCompleted: prd.stories.length - waiting.length,
+						storiesRemaining: waiting.length,
+					});
+				}
+
 				// All stories complete
 				log("info", "All stories complete!");
-				await this.handleDevelopmentComplete(prdName, prd, agentConfig, emit, signal);
+				const completionStop = await this.handleDevelopmentComplete(
+					prdName,
+					prd,
+					agentConfig,
+					emit,
+					signal,
+				);
+				if (completionStop) {
+					return ok({
+						prdName,
+						outcome: completionStop.outcome,
+						message: completionStop.message,
+						storiesCompleted: prd.stories.length,
+						storiesRemaining: 0,
+					});
+				}
 
 				const completedCount = prd.stories.filter((s) => s.status === "completed").length;
 				return ok({
@@ -275,6 +498,55 @@ export class OrchestrationEngine {
 				});
 			}
 
+			const budgetExceeded = checkBudget(prd, budget, story.id);
+			if (budgetExceeded) {
+				await this.stopForBudget(prdName, budgetExceeded, emit, story.id);
+				return ok({
+					prdName,
+					outcome: "budget_exceeded",
+					message: budgetExceeded.message,
+					storiesCompleted: prd.stories.filter((s) => s.status === "completed").length,
+					storiesRemaining: prd.stories.filter((s) => s.status !== "completed").length,
+				});
+			}
+
+			// Parallel mode: run the next story alongside independent ones in sub-worktrees.
+			// Stories at the stuck threshold or over budget stay on the serial path. Each
+			// story in a batch uses one of the run's iterations.
+			const withinStuckThreshold = (s: Story) =>
+				!s.stuckStage && (s.iterationCount ?? 0) < getStuckThreshold(config, s);
+			if (parallel.enabled && withinStuckThreshold(story)) {
+				const batchResult = await this.ctx.store.getParallelStories(
+					prdName,
+					parallel.max_stories,
+					serialStories,
+				);
+				const batch = (batchResult.data ?? [])
+					.filter((s) => withinStuckThreshold(s) && !checkBudget(prd, budget, s.id))
+					.slice(0, maxIterations - i);
+				if (batch.length > 1 && batch[0]?.id === story.id) {
+					const batchOutcome = await this.runStoryBatch(
+						prdName,
+						prd,
+						batch,
+						agentConfig,
+						config,
+						parallel.worktree_parent,
+						serialStories,
+						emit,
+						signal,
+					);
+					if (!batchOutcome.ok) {
+						return err(batchOutcome.error!.code, batchOutcome.error!.message);
+					}
+					if (batchOutcome.data) {
+						return ok(batchOutcome.data);
+					}
+					i += batch.length - 1;
+					continue;
+				}
+			}
+
 			const iterationCount = (story.iterationCount ?? 0) + 1;
 
 			emit({
@@ -285,35 +557,90 @@ export class OrchestrationEngine {
 				storyId: story.id,
 			});
 
-			// Check if stuck
-			if (iterationCount > 3 && story.status === "in_progress") {
-				log("warn", `Story ${story.id} stuck for ${iterationCount} iterations, auto-blocking`);
-				await this.ctx.store.updateStoryStatus(prdName, story.id, "blocked", [
-					`Auto-blocked after ${iterationCount} failed iterations`,
-				]);
-				emit({ type: "story_update", prdName, storyId: story.id, status: "blocked" });
+			// Stuck policy: past the story's threshold, re-plan once, then switch to the
+			// escalation variant, and only then block with a diagnosis
+			let stuckStage = story.stuckStage;
+			let storyAgentConfig = agentConfig;
+			const stuckThreshold = getStuckThreshold(config, story);
+			if (iterationCount > stuckThreshold && story.status === "in_progress") {
+				const nextStage = nextStuckStage(stuckStage, stuck);
 				emit({
-					type: "complete",
-					result: "blocked",
-					message: `Story ${story.id} auto-blocked`,
-				});
-
-				const finalPrd = (await this.ctx.store.get(prdName)).data!;
-				return ok({
+					type: "story_stuck",
 					prdName,
-					outcome: "blocked",
-					message: `Story ${story.id} auto-blocked after ${iterationCount} failed iterations`,
-					storiesCompleted: finalPrd.stories.filter((s) => s.status === "completed").length,
-					storiesRemaining: finalPrd.stories.filter((s) => s.status !== "completed").length,
+					storyId: story.id,
+					iterations: iterationCount - 1,
+					action: nextStage ?? "block",
 				});
+
+				if (!nextStage) {
+					log(
+						"warn",
+						`Story ${story.id} stuck after ${iterationCount - 1} iterations, auto-blocking`,
+					);
+					const blocked = await this.blockStory(
+						prdName,
+						story.id,
+						[formatStuckDiagnosis(story, iterationCount - 1, stuck.escalation_provider_variant)],
+						config,
+						emit,
+					);
+					// An on_blocked veto grants the story one more attempt
+					if (blocked) {
+						emit({ type: "story_update", prdName, storyId: story.id, status: "blocked" });
+						emit({
+							type: "complete",
+							result: "blocked",
+							message: `Story ${story.id} auto-blocked`,
+						});
+
+						const finalPrd = (await this.ctx.store.get(prdName)).data!;
+						return ok({
+							prdName,
+							outcome: "blocked",
+							message: `Story ${story.id} auto-blocked after ${iterationCount - 1} failed iterations`,
+							storiesCompleted: finalPrd.stories.filter((s) => s.status === "completed").length,
+							storiesRemaining: finalPrd.stories.filter((s) => s.status !== "completed").length,
+						});
+					}
+				} else {
+					stuckStage = nextStage;
+					await this.ctx.store.update(prdName, (p) => {
+						const s = p.stories.find((st) => st.id === story.id);
+						if (s) {
+							s.stuckStage = nextStage;
+							s.stuckStagesTried = [...(s.stuckStagesTried ?? []), nextStage];
+						}
+						return p;
+					});
+					log(
+						"warn",
+						nextStage === "replan"
+							? `Story ${story.id} stuck after ${iterationCount - 1} iterations, re-prompting with a re-plan`
+							: `Story ${story.id} still stuck, escalating to ${stuck.escalation_provider_variant}`,
+					);
+				}
+			}
+			if (stuckStage === "escalated" && stuck.escalation_provider_variant) {
+				const escalationResult = getProviderVariantConfig(
+					config,
+					stuck.escalation_provider_variant,
+				);
+				if (!escalationResult.ok) {
+					return err(escalationResult.error!.code, escalationResult.error!.message);
+				}
+				storyAgentConfig = escalationResult.data!;
 			}
 
-			// Mark in progress and update iteration count.
+			// Mark in progress, update iteration count, and record the verifier diff base.
+			const startCommit = story.startCommit ?? this.getHeadCommit();
 			await this.ctx.store.update(prdName, (p) => {
 				const s = p.stories.find((st) => st.id === story.id);
 				if (s) {
 					s.status = "in_progress";
 					s.iterationCount = iterationCount;
+					if (startCommit) {
+						s.startCommit = startCommit;
+					}
 				}
 				return p;
 			});
@@ -324,112 +651,1399 @@ export class OrchestrationEngine {
 				`Working on: ${story.id} - ${story.title} (iteration ${iterationCount}, cwd: ${process.cwd()})`,
 			);
 
-			// Generate and run
-			const prompt = await generatePrompt(
+			const iterationStory = { ...story, iterationCount, ...(stuckStage && { stuckStage }) };
+			if (!(await this.runHook(prdName, "pre_iteration", config, emit, iterationStory))) {
+				return this.stopForHook(prdName, "pre_iteration", emit, story.id);
+			}
+
+			// Generate and run
+			const prompt = await generatePrompt(
+				this.ctx.projectName,
+				this.ctx.repoRoot,
+				prd,
+				iterationStory,
+				prdName,
+				await this.takeHookOutputs(prdName, story.id),
+			);
+			const recoveryHooks = agentRecoveryHooks(this.ctx, prdName, "dev", emit, story.id);
+			const runDevAgent = async () => {
+				const agentResult = await runAgentWithRecovery(
+					this.ctx.agentExecutor,
+					prompt,
+					storyAgentConfig,
+					config,
+					"dev",
+					{
+						stream: true,
+						signal,
+						onOutput: (data) => emit({ type: "agent_output", data }),
+						...recoveryHooks,
+					},
+				);
+				emit({ type: "agent_exit", code: agentResult.exitCode });
+				log("info", `Agent exit code: ${agentResult.exitCode}`);
+				return agentResult;
+			};
+
+			// Timed-out runs follow [ralph.timeouts].on_timeout: retry re-runs the
+			// story without counting the iteration, count falls through, block stops
+			let result = await runDevAgent();
+			let timeoutMessage = "";
+			for (let retries = 0; result.timedOut; retries++) {
+				const retry = timeouts.on_timeout === "retry" && retries < timeouts.max_retries;
+				const devTimeouts = getAgentTimeoutOptions(config, result.providerVariant, "dev");
+				timeoutMessage = `${describeAgentTimeout(result.timedOut, devTimeouts)} on story ${story.id}`;
+				await this.recordAgentTimeout(
+					prdName,
+					"dev",
+					result.timedOut,
+					retry ? "retry" : timeouts.on_timeout === "block" ? "block" : "count",
+					timeoutMessage,
+					emit,
+					story.id,
+				);
+				if (!retry) break;
+				result = await runDevAgent();
+			}
+
+			await this.ctx.store.updateMetrics(prdName, { iterations: 1 });
+			await this.ctx.store.recordStoryAttempt(
+				prdName,
+				story.id,
+				summarizeAttempt(iterationCount, result.output, result.exitCode, timeoutMessage),
+			);
+
+			if (
+				result.timedOut &&
+				timeouts.on_timeout === "block" &&
+				(await this.blockStory(
+					prdName,
+					story.id,
+					[
+						`${timeoutMessage}. Raise the limits in [ralph.timeouts] or split the story, then unblock it.`,
+					],
+					config,
+					emit,
+				))
+			) {
+				emit({ type: "story_update", prdName, storyId: story.id, status: "blocked" });
+				emit({ type: "complete", result: "blocked", message: timeoutMessage });
+
+				const finalPrd = (await this.ctx.store.get(prdName)).data!;
+				return ok({
+					prdName,
+					outcome: "blocked",
+					message: timeoutMessage,
+					storiesCompleted: finalPrd.stories.filter((s) => s.status === "completed").length,
+					storiesRemaining: finalPrd.stories.filter((s) => s.status !== "completed").length,
+				});
+			}
+
+			// The agent found the story too large and proposed sub-stories
+			if (await this.applyStorySplit(prdName, story.id, result.output, emit)) {
+				continue;
+			}
+
+			// Determine this story's status after the agent run
+			const updatedPrd = (await this.ctx.store.get(prdName)).data!;
+			const updatedStory = updatedPrd.stories.find((s) => s.id === story.id);
+
+			// A post_iteration veto keeps the story from completing in this iteration
+			const iterationAccepted =
+				!updatedStory ||
+				(await this.runHook(prdName, "post_iteration", config, emit, updatedStory, {
+					RALPH_AGENT_EXIT_CODE: String(result.exitCode),
+				}));
+
+			if (
+				updatedStory?.status === "blocked" &&
+				!(await this.blockStory(prdName, story.id, undefined, config, emit))
+			) {
+				emit({ type: "story_update", prdName, storyId: story.id, status: "in_progress" });
+				continue;
+			}
+
+			if (updatedStory?.status === "blocked") {
+				log("warn", `Story ${story.id} blocked`);
+				emit({ type: "story_update", prdName, storyId: story.id, status: "blocked" });
+				emit({
+					type: "complete",
+					result: "blocked",
+					message: `Story ${story.id} blocked`,
+				});
+
+				return ok({
+					prdName,
+					outcome: "blocked",
+					message: `Story ${story.id} blocked`,
+					storiesCompleted: updatedPrd.stories.filter((s) => s.status === "completed").length,
+					storiesRemaining: updatedPrd.stories.filter((s) => s.status !== "completed").length,
+				});
+			}
+
+			let storyMarkedComplete = updatedStory?.status === "completed";
+			if (!storyMarkedComplete) {
+				const inferredStatus = this.ctx.agentExecutor.parseStatus(result.output, story.id);
+				if (inferredStatus === "completed") {
+					log("info", `Inferred story ${story.id} completed from output`);
+					await this.ctx.store.updateStoryStatus(prdName, story.id, "completed");
+					storyMarkedComplete = true;
+				} else if (inferredStatus === "blocked") {
+					log("info", `Inferred story ${story.id} blocked from output`);
+					const reportedQuestions = parseRalphResult(result.output)?.questions ?? [];
+					const blocked = await this.blockStory(
+						prdName,
+						story.id,
+						reportedQuestions.length > 0
+							? reportedQuestions
+							: ["Agent indicated this story is blocked. Please review the output for details."],
+						config,
+						emit,
+					);
+					emit({
+						type: "story_update",
+						prdName,
+						storyId: story.id,
+						status: blocked ? "blocked" : "in_progress",
+					});
+				}
+			}
+
+			if (storyMarkedComplete && !iterationAccepted) {
+				await this.reopenForHook(prdName, story.id, "post_iteration", emit);
+				continue;
+			}
+
+			if (
+				storyMarkedComplete &&
+				!(await this.runStoryGates(prdName, story.id, iterationCount, config, emit))
+			) {
+				continue;
+			}
+
+			// Close the story's commit range before the verifier diffs it
+			if (storyMarkedComplete && !(await this.commitStory(prdName, story, startCommit, config))) {
+				emit({ type: "story_update", prdName, storyId: story.id, status: "in_progress" });
+				continue;
+			}
+
+			if (storyMarkedComplete) {
+				const verifyResult = await this.verifyStory(prdName, story.id, config, emit, signal);
+				if (!verifyResult.ok) {
+					return err(verifyResult.error!.code, verifyResult.error!.message);
+				}
+
+				if (
+					verifyResult.data === "blocked" &&
+					!(await this.blockStory(prdName, story.id, undefined, config, emit))
+				) {
+					emit({ type: "story_update", prdName, storyId: story.id, status: "in_progress" });
+					continue;
+				}
+
+				if (verifyResult.data === "blocked") {
+					emit({ type: "story_update", prdName, storyId: story.id, status: "blocked" });
+					emit({
+						type: "complete",
+						result: "blocked",
+						message: `Story ${story.id} blocked by the story verifier`,
+					});
+
+					const finalPrd = (await this.ctx.store.get(prdName)).data!;
+					return ok({
+						prdName,
+						outcome: "blocked",
+						message: `Story ${story.id} failed verification ${MAX_STORY_VERIFICATION_FAILURES} times`,
+						storiesCompleted: finalPrd.stories.filter((s) => s.status === "completed").length,
+						storiesRemaining: finalPrd.stories.filter((s) => s.status !== "completed").length,
+					});
+				}
+
+				if (verifyResult.data === "reopened") {
+					emit({ type: "story_update", prdName, storyId: story.id, status: "in_progress" });
+					continue;
+				}
+
+				const completedStory = (await this.ctx.store.get(prdName)).data?.stories.find(
+					(s) => s.id === story.id,
+				);
+				if (
+					completedStory &&
+					!(await this.runHook(prdName, "on_complete", config, emit, completedStory))
+				) {
+					await this.reopenForHook(prdName, story.id, "on_complete", emit);
+					continue;
+				}
+
+				log("info", `Story ${story.id} completed`);
+				emit({ type: "story_update", prdName, storyId: story.id, status: "completed" });
+
+				// Moving to QA requires BOTH the agent's completion signal AND all stories done
+				if (this.ctx.agentExecutor.hasCompletionSignal(result.output)) {
+					const isCompleteResult = await this.ctx.store.isComplete(prdName);
+					if (isCompleteResult.ok && isCompleteResult.data) {
+						log("info", "Agent signaled completion and all stories are done");
+						const completionStop = await this.handleDevelopmentComplete(
+							prdName,
+							prd,
+							agentConfig,
+							emit,
+							signal,
+						);
+						if (completionStop) {
+							return ok({
+								prdName,
+								outcome: completionStop.outcome,
+								message: completionStop.message,
+								storiesCompleted: prd.stories.length,
+								storiesRemaining: 0,
+							});
+						}
+
+						return ok({
+							prdName,
+							outcome: "moved_to_qa",
+							message: "PRD moved to QA",
+							storiesCompleted: prd.stories.length,
+							storiesRemaining: 0,
+						});
+					}
+				}
+			}
+		}
+
+		// Max iterations reached
+		log("info", `Reached max iterations (${maxIterations})`);
+		emit({
+			type: "complete",
+			result: "max_iterations",
+			message: `Reached max iterations (${maxIterations})`,
+		});
+
+		const finalPrd = (await this.ctx.store.get(prdName)).data!;
+		return ok({
+			prdName,
+			outcome: "max_iterations",
+			message: `Reached max iterations (${maxIterations})`,
+			storiesCompleted: finalPrd.stories.filter((s) => s.status === "completed").length,
+			storiesRemaining: finalPrd.stories.filter((s) => s.status !== "completed").length,
+		});
+	}
+
+	/**
+	 * Run independent stories concurrently, each in its own sub-worktree branched
+	 * from the PRD branch. Agents leave prd.json alone and report through their
+	 * `<ralph-result>` block; when every agent has exited, each story's work is
+	 * committed and merged back in batch order and its result applied, then it
+	 * is verified like a serial run. A story whose commit fails or whose merge
+	 * conflicts is discarded and re-run on its own.
+	 *
+	 * @returns The development result when the run must stop (blocked, aborted), else null
+	 */
+	private async runStoryBatch(
+		prdName: string,
+		prd: PRD,
+		batch: Story[],
+		agentConfig: ProviderVariantConfig,
+		config: RalphConfig,
+		worktreeParent: string,
+		serialStories: Set<string>,
+		emit: (event: EngineEvent) => void,
+		signal?: AbortSignal,
+	): Promise<Result<DevelopmentResult | null>> {
+		const log = (level: "info" | "warn" | "error", message: string) => {
+			this.ctx.logger.log(level, message, { prdName });
+			emit({ type: "log", level, message });
+		};
+		for (const story of batch) {
+			const iterationStory = { ...story, iterationCount: (story.iterationCount ?? 0) + 1 };
+			if (!(await this.runHook(prdName, "pre_iteration", config, emit, iterationStory))) {
+				return this.stopForHook(prdName, "pre_iteration", emit, story.id);
+			}
+		}
+
+		// Create every worktree up front; if one fails, fall back to running these stories serially
+		const worktrees: Array<{ story: Story; path: string; branch: string }> = [];
+		for (const story of batch) {
+			const created = await createWorktree(
+				`${prdName}-${story.id.toLowerCase()}`,
+				worktreeParent,
+				this.ctx.repoRoot,
+			);
+			if (!created.ok) {
+				log("warn", `Parallel mode unavailable, running serially: ${created.error!.message}`);
+				for (const wt of worktrees) {
+					await removeWorktree(wt.path, wt.branch, this.ctx.repoRoot);
+				}
+				for (const s of batch) serialStories.add(s.id);
+				return ok(null);
+			}
+			worktrees.push({ story, path: created.data!.path, branch: created.data!.branch });
+		}
+
+		const remaining = new Map(worktrees.map((wt) => [wt.story.id, wt]));
+		try {
+			return await this.runWorktreeBatch(
+				prdName,
+				prd,
+				worktrees,
+				remaining,
+				agentConfig,
+				config,
+				serialStories,
+				emit,
+				signal,
+			);
+		} finally {
+			// Also on errors and aborts: never leave sub-worktrees or branches behind
+			for (const wt of remaining.values()) {
+				await removeWorktree(wt.path, wt.branch, this.ctx.repoRoot);
+			}
+		}
+	}
+
+	/**
+	 * Run the agents of a batch whose worktrees exist, then merge each story
+	 * back. Worktrees are removed from `remaining` as they are cleaned up.
+	 */
+	private async runWorktreeBatch(
+		prdName: string,
+		prd: PRD,
+		worktrees: Array<{ story: Story; path: string; branch: string }>,
+		remaining: Map<string, { story: Story; path: string; branch: string }>,
+		agentConfig: ProviderVariantConfig,
+		config: RalphConfig,
+		serialStories: Set<string>,
+		emit: (event: EngineEvent) => void,
+		signal?: AbortSignal,
+	): Promise<Result<DevelopmentResult | null>> {
+		const log = (level: "info" | "warn" | "error", message: string) => {
+			this.ctx.logger.log(level, message, { prdName });
+			emit({ type: "log", level, message });
+		};
+		const stopWith = async (
+			outcome: "blocked" | "aborted",
+			message: string,
+		): Promise<Result<DevelopmentResult>> => {
+			const finalPrd = (await this.ctx.store.get(prdName)).data!;
+			return ok({
+				prdName,
+				outcome,
+				message,
+				storiesCompleted: finalPrd.stories.filter((s) => s.status === "completed").length,
+				storiesRemaining: finalPrd.stories.filter((s) => s.status !== "completed").length,
+			});
+		};
+		const discard = async (storyId: string, reason: string) => {
+			log("warn", `${reason}; its work is discarded and it will run alone`);
+			serialStories.add(storyId);
+			await this.ctx.store.update(prdName, (p) => {
+				const s = p.stories.find((st) => st.id === storyId);
+				if (s && s.status !== "blocked") {
+					s.status = "in_progress";
+					delete s.startCommit;
+				}
+				return p;
+			});
+			emit({ type: "story_update", prdName, storyId, status: "in_progress" });
+		};
+
+		for (const { story } of worktrees) {
+			await this.ctx.store.update(prdName, (p) => {
+				const s = p.stories.find((st) => st.id === story.id);
+				if (s) {
+					s.status = "in_progress";
+					s.iterationCount = (story.iterationCount ?? 0) + 1;
+				}
+				return p;
+			});
+			emit({ type: "story_update", prdName, storyId: story.id, status: "in_progress" });
+		}
+		log("info", `Working on ${worktrees.map((wt) => wt.story.id).join(", ")} in parallel`);
+
+		const hookOutputs = new Map<string, HookOutput[]>();
+		for (const { story } of worktrees) {
+			hookOutputs.set(story.id, await this.takeHookOutputs(prdName, story.id));
+		}
+
+		const timeouts = getTimeoutsConfig(config);
+		const runs = await Promise.all(
+			worktrees.map(async (wt) => {
+				const prompt = `${await generatePrompt(
+					this.ctx.projectName,
+					this.ctx.repoRoot,
+					prd,
+					wt.story,
+					prdName,
+					hookOutputs.get(wt.story.id),
+				)}\n\n**Parallel run:** other stories of this PRD are being implemented at the same time in separate worktrees. Work only inside \`${wt.path}\` and commit your work before finishing. Do not edit prd.json: the other agents share it. Report ${wt.story.id}'s status and any questions in your \`<ralph-result>\` block instead; Ralph records them once every agent has finished.`;
+				const runAgent = async () => {
+					const result = await runAgentWithRecovery(
+						this.ctx.agentExecutor,
+						prompt,
+						agentConfig,
+						config,
+						"dev",
+						{
+							stream: true,
+							signal,
+							cwd: wt.path,
+							onOutput: (data) => emit({ type: "agent_output", data }),
+							...agentRecoveryHooks(this.ctx, prdName, "dev", emit, wt.story.id),
+						},
+					);
+					emit({ type: "agent_exit", code: result.exitCode });
+					log("info", `Agent exit code for ${wt.story.id}: ${result.exitCode}`);
+					return result;
+				};
+
+				// Same on_timeout retry policy as a serial run; the final timeout is handled below
+				let result = await runAgent();
+				for (
+					let retries = 0;
+					result.timedOut && timeouts.on_timeout === "retry" && retries < timeouts.max_retries;
+					retries++
+				) {
+					const devTimeouts = getAgentTimeoutOptions(config, result.providerVariant, "dev");
+					await this.recordAgentTimeout(
+						prdName,
+						"dev",
+						result.timedOut,
+						"retry",
+						`${describeAgentTimeout(result.timedOut, devTimeouts)} on story ${wt.story.id}`,
+						emit,
+						wt.story.id,
+					);
+					result = await runAgent();
+				}
+				return { ...wt, result };
+			}),
+		);
+		await this.ctx.store.updateMetrics(prdName, { iterations: runs.length });
+
+		// Merge back one story at a time, in batch (priority) order
+		const blocked: string[] = [];
+		for (const { story, path, branch, result } of runs) {
+			let timeoutMessage = "";
+			if (signal?.aborted) {
+				log("info", "Orchestration aborted");
+				return stopWith("aborted", "Orchestration aborted");
+			}
+
+			if (result.timedOut) {
+				const block = timeouts.on_timeout === "block";
+				const devTimeouts = getAgentTimeoutOptions(config, result.providerVariant, "dev");
+				const message = `${describeAgentTimeout(result.timedOut, devTimeouts)} on story ${story.id}`;
+				await this.recordAgentTimeout(
+					prdName,
+					"dev",
+					result.timedOut,
+					block ? "block" : "count",
+					message,
+					emit,
+					story.id,
+				);
+				timeoutMessage = message;
+				if (block) {
+					await this.ctx.store.updateStoryStatus(prdName, story.id, "blocked", [
+						`${message}. Raise the limits in [ralph.timeouts] or split the story, then unblock it.`,
+					]);
+				}
+			}
+
+			await this.ctx.store.recordStoryAttempt(
+				prdName,
+				story.id,
+				summarizeAttempt(
+					(story.iterationCount ?? 0) + 1,
+					result.output,
+					result.exitCode,
+					timeoutMessage,
+				),
+			);
+
+			const committed = await commitAll(path, storyCommitMessage(story));
+			if (!committed.ok) {
+				await removeWorktree(path, branch, this.ctx.repoRoot);
+				remaining.delete(story.id);
+				await discard(
+					story.id,
+					`Committing ${story.id}'s work failed: ${committed.error!.message}`,
+				);
+				continue;
+			}
+			const mergeBase = this.getHeadCommit();
+			const merged = await mergeBranch(
+				branch,
+				this.ctx.repoRoot,
+				`Merge ${story.id} into ${prdName} (parallel run)`,
+			);
+			if (!merged.ok) {
+				return err(merged.error!.code, merged.error!.message);
+			}
+			await removeWorktree(path, branch, this.ctx.repoRoot);
+			remaining.delete(story.id);
+			if (merged.data === "conflict") {
+				await discard(story.id, `Merging ${story.id} conflicted`);
+				continue;
+			}
+
+			if (await this.applyStorySplit(prdName, story.id, result.output, emit)) {
+				continue;
+			}
+
+			// The verifier diffs this story's merge only
+			await this.ctx.store.update(prdName, (p) => {
+				const s = p.stories.find((st) => st.id === story.id);
+				if (s && mergeBase) s.startCommit = mergeBase;
+				return p;
+			});
+
+			const updatedStory = (await this.ctx.store.get(prdName)).data!.stories.find(
+				(s) => s.id === story.id,
+			);
+			const iterationAccepted =
+				!updatedStory ||
+				(await this.runHook(prdName, "post_iteration", config, emit, updatedStory, {
+					RALPH_AGENT_EXIT_CODE: String(result.exitCode),
+				}));
+			let status = updatedStory?.status;
+			if (status === "in_progress") {
+				const inferredStatus = this.ctx.agentExecutor.parseStatus(result.output, story.id);
+				if (inferredStatus === "completed") {
+					await this.ctx.store.updateStoryStatus(prdName, story.id, "completed");
+					status = "completed";
+				} else if (inferredStatus === "blocked") {
+					const reportedQuestions = parseRalphResult(result.output)?.questions ?? [];
+					await this.ctx.store.updateStoryStatus(
+						prdName,
+						story.id,
+						"blocked",
+						reportedQuestions.length > 0
+							? reportedQuestions
+							: ["Agent indicated this story is blocked. Please review the output for details."],
+					);
+					status = "blocked";
+				}
+			}
+
+			if (status === "completed" && !iterationAccepted) {
+				await this.reopenForHook(prdName, story.id, "post_iteration", emit);
+				continue;
+			}
+
+			if (
+				status === "completed" &&
+				!(await this.runStoryGates(
+					prdName,
+					story.id,
+					(story.iterationCount ?? 0) + 1,
+					config,
+					emit,
+				))
+			) {
+				continue;
+			}
+
+			if (status === "completed") {
+				const endCommit = this.getHeadCommit();
+				await this.ctx.store.update(prdName, (p) => {
+					const s = p.stories.find((st) => st.id === story.id);
+					if (s && endCommit) s.endCommit = endCommit;
+					return p;
+				});
+				const verifyResult = await this.verifyStory(prdName, story.id, config, emit, signal);
+				if (!verifyResult.ok) {
+					return err(verifyResult.error!.code, verifyResult.error!.message);
+				}
+				status =
+					verifyResult.data === "blocked"
+						? "blocked"
+						: verifyResult.data === "reopened"
+							? "in_progress"
+							: "completed";
+			}
+
+			if (status === "completed") {
+				const completedStory = (await this.ctx.store.get(prdName)).data?.stories.find(
+					(s) => s.id === story.id,
+				);
+				if (
+					completedStory &&
+					!(await this.runHook(prdName, "on_complete", config, emit, completedStory))
+				) {
+					await this.reopenForHook(prdName, story.id, "on_complete", emit);
+					continue;
+				}
+			}
+
+			if (
+				status === "blocked" &&
+				!(await this.blockStory(prdName, story.id, undefined, config, emit))
+			) {
+				status = "in_progress";
+			}
+
+			if (status === "blocked") {
+				log("warn", `Story ${story.id} blocked`);
+				blocked.push(story.id);
+			} else if (status === "completed") {
+				log("info", `Story ${story.id} completed`);
+			}
+			if (status) {
+				emit({ type: "story_update", prdName, storyId: story.id, status });
+			}
+		}
+
+		if (blocked.length > 0) {
+			const message = `Stories blocked: ${blocked.join(", ")}`;
+			emit({ type: "complete", result: "blocked", message });
+			return stopWith("blocked", message);
+		}
+		return ok(null);
+	}
+
+	/**
+	 * Run a `[ralph.hooks]` command from the repo root and keep its output for
+	 * the next dev prompt
+	 *
+	 * @returns False when the hook vetoed the transition (non-zero exit)
+	 */
+	private async runHook(
+		prdName: string,
+		hook: HookName,
+		config: RalphConfig,
+		emit: (event: EngineEvent) => void,
+		story?: Story,
+		env?: Record<string, string>,
+	): Promise<boolean> {
+		const hooks = getHooksConfig(config);
+		const command = hooks[hook];
+		if (!command) {
+			return true;
+		}
+
+		const run = await runHookCommand(
+			command,
+			hook,
+			{ projectName: this.ctx.projectName, prdName, ...(story && { story }), ...(env && { env }) },
+			{ cwd: this.ctx.repoRoot, timeoutSeconds: hooks.timeout },
+		);
+		const vetoed = run.exitCode !== 0;
+		const message = `${hook} hook exited with code ${run.exitCode}${vetoed ? ", vetoing the transition" : ""}`;
+		this.ctx.logger.log(vetoed ? "warn" : "info", message, {
+			prdName,
+			...(story && { storyId: story.id }),
+		});
+		emit({
+			type: "hook_run",
+			prdName,
+			hook,
+			...(story && { storyId: story.id }),
+			exitCode: run.exitCode,
+			vetoed,
+		});
+
+		if (run.output) {
+			await this.ctx.store.update(prdName, (p) => {
+				p.hookOutputs = [
+					...(p.hookOutputs ?? []).filter((o) => o.hook !== hook || o.storyId !== run.storyId),
+					run,
+				];
+				return p;
+			});
+		}
+		return !vetoed;
+	}
+
+	/**
+	 * Hook output for a story's next prompt (its own and PRD-wide runs), removed
+	 * from the PRD once taken
+	 */
+	private async takeHookOutputs(prdName: string, storyId: string): Promise<HookOutput[]> {
+		const pending = (await this.ctx.store.get(prdName)).data?.hookOutputs ?? [];
+		const taken = pending.filter((o) => !o.storyId || o.storyId === storyId);
+		if (taken.length === 0) {
+			return [];
+		}
+
+		await this.ctx.store.update(prdName, (p) => {
+			const kept = (p.hookOutputs ?? []).filter((o) => o.storyId && o.storyId !== storyId);
+			if (kept.length > 0) p.hookOutputs = kept;
+			else delete p.hookOutputs;
+			return p;
+		});
+		return taken;
+	}
+
+	/**
+	 * Block a story unless the on_blocked hook vetoes it, in which case the story
+	 * stays in progress and keeps the block questions as feedback
+	 *
+	 * @param questions Block questions; omit when the story already carries them
+	 * @returns False when the hook vetoed the block
+	 */
+	private async blockStory(
+		prdName: string,
+		storyId: string,
+		questions: string[] | undefined,
+		config: RalphConfig,
+		emit: (event: EngineEvent) => void,
+	): Promise<boolean> {
+		const story = (await this.ctx.store.get(prdName)).data?.stories.find((s) => s.id === storyId);
+		const blocked =
+			!story ||
+			(await this.runHook(prdName, "on_blocked", config, emit, {
+				...story,
+				status: "blocked",
+				questions: questions ?? story.questions,
+			}));
+
+		await this.ctx.store.update(prdName, (p) => {
+			const s = p.stories.find((st) => st.id === storyId);
+			if (s) {
+				s.status = blocked ? "blocked" : "in_progress";
+				if (questions) s.questions = questions;
+			}
+			return p;
+		});
+		return blocked;
+	}
+
+	/**
+	 * Reopen a completed story whose post_iteration or on_complete hook vetoed it
+	 */
+	private async reopenForHook(
+		prdName: string,
+		storyId: string,
+		hook: HookName,
+		emit: (event: EngineEvent) => void,
+	): Promise<void> {
+		await this.ctx.store.updateStoryStatus(prdName, storyId, "in_progress", [
+			`The ${hook} hook rejected ${storyId}. Fix what its output reports, then mark the story completed again.`,
+		]);
+		emit({ type: "story_update", prdName, storyId, status: "in_progress" });
+	}
+
+	/**
+	 * End a run whose pre_iteration or pre_review hook vetoed it
+	 */
+	private async stopForHook(
+		prdName: string,
+		hook: HookName,
+		emit: (event: EngineEvent) => void,
+		storyId?: string,
+	): Promise<Result<DevelopmentResult>> {
+		const message = `The ${hook} hook vetoed ${storyId ? `iteration of ${storyId}` : "the review"}`;
+		emit({ type: "complete", result: "hook_vetoed", message });
+
+		const finalPrd = (await this.ctx.store.get(prdName)).data!;
+		return ok({
+			prdName,
+			outcome: "hook_vetoed",
+			message,
+			storiesCompleted: finalPrd.stories.filter((s) => s.status === "completed").length,
+			storiesRemaining: finalPrd.stories.filter((s) => s.status !== "completed").length,
+		});
+	}
+
+	/**
+	 * Run the `[ralph.gates]` commands for a story that claims completion and
+	 * record the results. Any failing gate reopens the story with the gate's
+	 * output tail as feedback.
+	 *
+	 * @returns False when a gate failed and the story was reopened
+	 */
+	private async runStoryGates(
+		prdName: string,
+		storyId: string,
+		iteration: number,
+		config: RalphConfig,
+		emit: (event: EngineEvent) => void,
+	): Promise<boolean> {
+		const gates = getGatesConfig(config);
+		if (Object.keys(gates.commands).length === 0) {
+			return true;
+		}
+
+		const checks = await runGates(gates.commands, {
+			cwd: this.ctx.repoRoot,
+			timeoutSeconds: gates.timeout,
+			env: { RALPH_PRD: prdName, RALPH_STORY_ID: storyId },
+		});
+		const passed = checks.every((check) => check.passed);
+		await this.ctx.store.saveStoryGateResult(prdName, {
+			storyId,
+			iteration,
+			timestamp: new Date().toISOString(),
+			passed,
+			gates: checks,
+		});
+
+		const failedGates = checks.filter((check) => !check.passed).map((check) => check.name);
+		emit({ type: "story_gates", prdName, storyId, passed, failedGates });
+		if (passed) {
+			return true;
+		}
+
+		this.ctx.logger.log("warn", `Gates failed for ${storyId}: ${failedGates.join(", ")}`, {
+			prdName,
+			storyId,
+		});
+		await this.ctx.store.updateStoryStatus(
+			prdName,
+			storyId,
+			"in_progress",
+			formatGateFeedback(checks),
+		);
+		emit({ type: "story_update", prdName, storyId, status: "in_progress" });
+		return false;
+	}
+
+	/**
+	 * Close a completed story's commit range: commit whatever the agent left
+	 * uncommitted ([ralph.commits] auto_commit) and record `endCommit`. Under
+	 * require_commit, a story with no commit since `startCommit` is reopened.
+	 *
+	 * @returns False when the story was reopened
+	 */
+	private async commitStory(
+		prdName: string,
+		story: Story,
+		startCommit: string | undefined,
+		config: RalphConfig,
+	): Promise<boolean> {
+		const commits = getCommitsConfig(config);
+		if (!startCommit) {
+			// Not a git repository
+			return true;
+		}
+
+		if (commits.auto_commit) {
+			const committed = await commitAll(this.ctx.repoRoot, storyCommitMessage(story));
+			if (!committed.ok) {
+				this.ctx.logger.log(
+					"warn",
+					`Auto-commit for ${story.id} failed: ${committed.error!.message}`,
+					{ prdName, storyId: story.id },
+				);
+			} else if (committed.data) {
+				this.ctx.logger.log("info", `Committed changes ${story.id} left uncommitted`, {
+					prdName,
+					storyId: story.id,
+				});
+			}
+		}
+
+		const endCommit = this.getHeadCommit();
+		if (commits.require_commit && endCommit === startCommit) {
+			this.ctx.logger.log("warn", `Story ${story.id} completed without a commit, reopening`, {
+				prdName,
+				storyId: story.id,
+			});
+			await this.ctx.store.updateStoryStatus(prdName, story.id, "in_progress", [
+				`${story.id} was marked completed but nothing was committed. Commit its changes as \`${storyCommitMessage(story)}\`.`,
+			]);
+			return false;
+		}
+
+		await this.ctx.store.update(prdName, (p) => {
+			const s = p.stories.find((st) => st.id === story.id);
+			if (s && endCommit) s.endCommit = endCommit;
+			return p;
+		});
+		return true;
+	}
+
+	/**
+	 * Apply a `split` result from a dev agent: replace the story with the
+	 * proposed sub-stories. A rejected split is logged and the run carries on
+	 * as an ordinary iteration.
+	 *
+	 * @returns Whether the story was split
+	 */
+	private async applyStorySplit(
+		prdName: string,
+		storyId: string,
+		output: string,
+		emit: (event: EngineEvent) => void,
+	): Promise<boolean> {
+		const proposal = parseRalphResultFor(output, ["split"]);
+		if (!proposal) {
+			return false;
+		}
+
+		const splitResult = await this.ctx.store.splitStory(
+			prdName,
+			storyId,
+			proposal.split ?? [],
+			proposal.summary,
+		);
+		if (!splitResult.ok) {
+			const message = `Split of ${storyId} rejected: ${splitResult.error!.message}`;
+			this.ctx.logger.log("warn", message, { prdName, storyId });
+			emit({ type: "log", level: "warn", message });
+			return false;
+		}
+
+		const subStoryIds = splitResult.data!;
+		const message = `Split ${storyId} into ${subStoryIds.join(", ")}`;
+		this.ctx.logger.log("info", message, { prdName, storyId });
+		emit({ type: "log", level: "info", message });
+		emit({ type: "story_split", prdName, storyId, subStoryIds });
+		return true;
+	}
+
+	/**
+	 * Ask an agent to split a story on demand (`ralph prd <name> --split <story>`)
+	 * and apply its proposal.
+	 *
+	 * @returns The new story ids
+	 */
+	async splitStory(
+		prdName: string,
+		storyId: string,
+		options: RunOptions = {},
+	): Promise<Result<string[]>> {
+		const emit = options.onEvent ?? (() => {});
+
+		const configResult = await loadConfig();
+		if (!configResult.ok) {
+			return err(configResult.error!.code, configResult.error!.message);
+		}
+		const config = configResult.data!;
+		const variantResult = getProviderVariantConfig(config, options.providerVariant);
+		if (!variantResult.ok) {
+			return err(variantResult.error!.code, variantResult.error!.message);
+		}
+
+		const prdResult = await this.ctx.store.get(prdName);
+		if (!prdResult.ok) {
+			return err(prdResult.error!.code, prdResult.error!.message);
+		}
+		const prd = prdResult.data!;
+		const story = prd.stories.find((s) => s.id === storyId);
+		if (!story) {
+			return err(ErrorCodes.STORY_SPLIT_INVALID, `Story not found: ${storyId}`);
+		}
+
+		const prompt = await generateSplitPrompt(
+			this.ctx.projectName,
+			this.ctx.repoRoot,
+			prd,
+			story,
+			prdName,
+		);
+		const result = await runAgentWithRecovery(
+			this.ctx.agentExecutor,
+			prompt,
+			variantResult.data!,
+			config,
+			"dev",
+			{
+				stream: true,
+				signal: options.signal ?? this.ctx.signal,
+				onOutput: (data) => emit({ type: "agent_output", data }),
+				...agentRecoveryHooks(this.ctx, prdName, "dev", emit, storyId),
+			},
+		);
+
+		const proposal = parseRalphResultFor(result.output, ["split", "blocked"]);
+		if (!proposal) {
+			return err(ErrorCodes.AGENT_FAILED, "Agent did not propose a split");
+		}
+		if (proposal.status === "blocked") {
+			return err(
+				ErrorCodes.STORY_SPLIT_INVALID,
+				`Agent advised against splitting ${storyId}: ${proposal.questions.join(" ") || proposal.summary}`,
+			);
+		}
+
+		const splitResult = await this.ctx.store.splitStory(
+			prdName,
+			storyId,
+			proposal.split ?? [],
+			proposal.summary,
+		);
+		if (splitResult.ok) {
+			emit({ type: "story_split", prdName, storyId, subStoryIds: splitResult.data! });
+		}
+		return splitResult;
+	}
+
+	/**
+	 * Plan a spec-only PRD (`ralph plan <name>`): a planner agent writes
+	 * prd.json and the story files, and every problem Ralph finds in them is
+	 * sent back to the planner until they check out or `maxAttempts` runs out.
+	 */
+	async planPRD(
+		prdName: string,
+		options: RunOptions & { maxAttempts?: number; replace?: boolean } = {},
+	): Promise<Result<PlanResult>> {
+		const emit = options.onEvent ?? (() => {});
+		const signal = options.signal ?? this.ctx.signal;
+
+		const configResult = await loadConfig();
+		if (!configResult.ok) {
+			return err(configResult.error!.code, configResult.error!.message);
+		}
+		const config = configResult.data!;
+		const variantResult = getProviderVariantConfig(config, options.providerVariant);
+		if (!variantResult.ok) {
+			return err(variantResult.error!.code, variantResult.error!.message);
+		}
+
+		const status = this.ctx.store.findLocation(prdName);
+		if (!status) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+		}
+		if (status !== "pending") {
+			return err(
+				ErrorCodes.PRD_INVALID_STATUS,
+				`PRD "${prdName}" is in ${status}; only pending PRDs can be planned`,
+			);
+		}
+		const prdDir = this.ctx.store.getPRDPath(prdName)!;
+		if (!existsSync(join(prdDir, "spec.md"))) {
+			return err(ErrorCodes.PRD_NOT_FOUND, `PRD "${prdName}" has no spec.md to plan from`);
+		}
+		if (existsSync(join(prdDir, "prd.json")) && !options.replace) {
+			return err(
+				ErrorCodes.PRD_ALREADY_EXISTS,
+				`PRD "${prdName}" already has a prd.json; pass --replace to plan it again`,
+			);
+		}
+
+		const maxAttempts = options.maxAttempts ?? 3;
+		let problems: string[] = [];
+		for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+			const prompt = await generatePlanPrompt(
 				this.ctx.projectName,
 				this.ctx.repoRoot,
-				prd,
-				story,
 				prdName,
+				problems,
 			);
-			const result = await this.ctx.agentExecutor.run(prompt, agentConfig, {
-				stream: true,
-				signal,
-				onOutput: (data) => emit({ type: "agent_output", data }),
-			});
-
-			emit({ type: "agent_exit", code: result.exitCode });
-			log("info", `Agent exit code: ${result.exitCode}`);
-
-			await this.ctx.store.updateMetrics(prdName, { iterations: 1 });
-
-			// Parse token usage
-			const tokenUsage = this.ctx.agentExecutor.parseTokenUsage(result.output);
-			if (tokenUsage.inputTokens || tokenUsage.outputTokens) {
-				await this.ctx.store.updateMetrics(prdName, tokenUsage);
+			const result = await runAgentWithRecovery(
+				this.ctx.agentExecutor,
+				prompt,
+				variantResult.data!,
+				config,
+				"dev",
+				{
+					stream: true,
+					signal,
+					onOutput: (data) => emit({ type: "agent_output", data }),
+					...agentRecoveryHooks(this.ctx, prdName, "dev", emit),
+				},
+			);
+			if (result.aborted) {
+				return err(ErrorCodes.CANCELLED, "Planning aborted");
 			}
 
-			// Determine this story's status after the agent run
-			const updatedPrd = (await this.ctx.store.get(prdName)).data!;
-			const updatedStory = updatedPrd.stories.find((s) => s.id === story.id);
-
-			if (updatedStory?.status === "blocked") {
-				log("warn", `Story ${story.id} blocked`);
-				emit({ type: "story_update", prdName, storyId: story.id, status: "blocked" });
-				emit({
-					type: "complete",
-					result: "blocked",
-					message: `Story ${story.id} blocked`,
-				});
-
+			const reported = parseRalphResultFor(result.output, ["completed", "blocked"]);
+			if (reported?.status === "blocked") {
 				return ok({
 					prdName,
 					outcome: "blocked",
-					message: `Story ${story.id} blocked`,
-					storiesCompleted: updatedPrd.stories.filter((s) => s.status === "completed").length,
-					storiesRemaining: updatedPrd.stories.filter((s) => s.status !== "completed").length,
+					attempts: attempt,
+					storyIds: [],
+					problems: [],
+					questions: reported.questions.length > 0 ? reported.questions : [reported.summary],
 				});
 			}
 
-			let storyMarkedComplete = updatedStory?.status === "completed";
-			if (!storyMarkedComplete) {
-				const inferredStatus = this.ctx.agentExecutor.parseStatus(result.output, story.id);
-				if (inferredStatus === "completed") {
-					log("info", `Inferred story ${story.id} completed from output`);
-					await this.ctx.store.updateStoryStatus(prdName, story.id, "completed");
-					storyMarkedComplete = true;
-				} else if (inferredStatus === "blocked") {
-					log("info", `Inferred story ${story.id} blocked from output`);
-					await this.ctx.store.updateStoryStatus(prdName, story.id, "blocked", [
-						"Agent indicated this story is blocked. Please review the output for details.",
-					]);
-					emit({ type: "story_update", prdName, storyId: story.id, status: "blocked" });
+			problems = checkPlannedPRD(prdDir, prdName, {
+				...getLintConfig(config),
+				knownPRDs: new Set(this.ctx.store.list().map((p) => p.name)),
+			});
+			emit({ type: "plan_check", prdName, attempt, problems });
+			if (problems.length === 0) {
+				const progressPath = join(prdDir, "progress.txt");
+				if (!existsSync(progressPath)) {
+					await atomicWrite(progressPath, INITIAL_PROGRESS);
 				}
+				const prd = await this.ctx.store.get(prdName);
+				return ok({
+					prdName,
+					outcome: "planned",
+					attempts: attempt,
+					storyIds: prd.ok ? prd.data!.stories.map((s) => s.id) : [],
+					problems: [],
+					questions: [],
+				});
 			}
+		}
 
-			if (storyMarkedComplete) {
-				log("info", `Story ${story.id} completed`);
-				emit({ type: "story_update", prdName, storyId: story.id, status: "completed" });
+		return ok({
+			prdName,
+			outcome: "invalid",
+			attempts: maxAttempts,
+			storyIds: [],
+			problems,
+			questions: [],
+		});
+	}
 
-				// Moving to QA requires BOTH the agent's completion signal AND all stories done
-				if (this.ctx.agentExecutor.hasCompletionSignal(result.output)) {
-					const isCompleteResult = await this.ctx.store.isComplete(prdName);
-					if (isCompleteResult.ok && isCompleteResult.data) {
-						log("info", "Agent signaled completion and all stories are done");
-						await this.handleDevelopmentComplete(prdName, prd, agentConfig, emit, signal);
+	/**
+	 * Stop for a tripped budget limit: record it in lastRun and emit the completion.
+	 * The PRD and its stories are left as they are so a re-run resumes the work.
+	 */
+	private async stopForBudget(
+		prdName: string,
+		exceeded: BudgetExceeded,
+		emit: (event: EngineEvent) => void,
+		storyId = "ALL",
+	): Promise<void> {
+		this.ctx.logger.log("warn", exceeded.message, { prdName });
+		emit({ type: "log", level: "warn", message: exceeded.message });
+		await this.ctx.store.updateLastRun(prdName, {
+			timestamp: new Date().toISOString(),
+			storyId,
+			reason: "budget_exceeded",
+			summary: exceeded.message,
+		});
+		emit({ type: "complete", result: "budget_exceeded", message: exceeded.message });
+	}
 
-						return ok({
-							prdName,
-							outcome: "moved_to_qa",
-							message: "PRD moved to QA",
-							storiesCompleted: prd.stories.length,
-							storiesRemaining: 0,
-						});
-					}
-				}
-			}
+	/**
+	 * Run options capturing a transcript of the agent run under the PRD
+	 */
+	private transcriptOptions(
+		prdName: string,
+		phase: TranscriptPhase,
+		providerVariant: ProviderVariantConfig,
+		storyId?: string,
+	): { transcriptPath?: string } {
+		const transcriptPath = createTranscript(this.ctx.projectName, this.ctx.repoRoot, prdName, {
+			phase,
+			storyId,
+			providerVariant,
+		});
+		return transcriptPath ? { transcriptPath } : {};
+	}
+
+	/**
+	 * Record a timed-out agent run: log it, note it in lastRun, and emit an agent_timeout event
+	 */
+	private async recordAgentTimeout(
+		prdName: string,
+		phase: UsagePhase,
+		kind: AgentTimeoutKind,
+		action: TimeoutPolicy | "stop",
+		message: string,
+		emit: (event: EngineEvent) => void,
+		storyId?: string,
+	): Promise<void> {
+		this.ctx.logger.log("warn", `${message} (${action})`, { prdName, storyId });
+		await this.ctx.store.updateLastRun(prdName, {
+			timestamp: new Date().toISOString(),
+			storyId: storyId ?? "ALL",
+			reason: "agent_timeout",
+			summary: message,
+		});
+		emit({ type: "agent_timeout", prdName, storyId, phase, kind, action, message });
+	}
+
+	/**
+	 * Resolve the current HEAD sha in repoRoot, or undefined outside a git repo
+	 */
+	private getHeadCommit(): string | undefined {
+		try {
+			return execSync("git rev-parse HEAD", {
+				encoding: "utf-8",
+				cwd: this.ctx.repoRoot,
+				stdio: ["ignore", "pipe", "ignore"],
+			}).trim();
+		} catch {
+			return undefined;
 		}
+	}
 
-		// Max iterations reached
-		log("info", `Reached max iterations (${maxIterations})`);
-		emit({
-			type: "complete",
-			result: "max_iterations",
-			message: `Reached max iterations (${maxIterations})`,
+	/**
+	 * Diff the story's changes (`<story-start-sha>..HEAD`) for the verifier
+	 */
+	private getStoryDiff(baseCommit: string): string {
+		try {
+			return execFileSync("git", ["diff", `${baseCommit}..HEAD`], {
+				encoding: "utf-8",
+				cwd: this.ctx.repoRoot,
+				maxBuffer: 10 * 1024 * 1024,
+				stdio: ["ignore", "pipe", "ignore"],
+			});
+		} catch {
+			return "";
+		}
+	}
+
+	/**
+	 * Run the per-story verifier (spec FR-2) on a story the dev agent marked completed.
+	 *
+	 * - passed:   verdict PASS, story stays completed
+	 * - reopened: first FAIL, story back to in_progress with failed checks as questions
+	 * - blocked:  repeated FAIL, story auto-blocked
+	 * - skipped:  verifier disabled or run aborted
+	 */
+	private async verifyStory(
+		prdName: string,
+		storyId: string,
+		config: RalphConfig,
+		emit: (event: EngineEvent) => void,
+		signal?: AbortSignal,
+	): Promise<Result<"passed" | "reopened" | "blocked" | "skipped">> {
+		if (!getVerificationConfig(config).enabled) {
+			return ok("skipped");
+		}
+
+		const variantResult = resolveStoryVerifierProviderVariant(config);
+		if (!variantResult.ok) {
+			return err(variantResult.error!.code, variantResult.error!.message);
+		}
+
+		const prdResult = await this.ctx.store.get(prdName);
+		if (!prdResult.ok) {
+			return err(prdResult.error!.code, prdResult.error!.message);
+		}
+		const story = prdResult.data!.stories.find((s) => s.id === storyId);
+		if (!story) {
+			return err(ErrorCodes.UNKNOWN, `Story not found: ${storyId}`);
+		}
+
+		let storyFileContent: string;
+		let acceptanceCriteria: string[];
+		try {
+			const storyFilePath = this.ctx.store.getStoryFilePath(prdName, story);
+			storyFileContent = await readFile(storyFilePath, "utf-8");
+			acceptanceCriteria = readStoryAcceptanceCriteria(storyFilePath);
+		} catch (error) {
+			return err(
+				ErrorCodes.CONFIG_INVALID,
+				`Cannot verify story ${storyId}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+
+		const attempt = (story.verificationAttempts ?? 0) + 1;
+		const baseCommit = story.startCommit ?? "HEAD~1";
+		const gitDiff = this.getStoryDiff(baseCommit);
+
+		emit({ type: "story_verify_start", prdName, storyId, attempt });
+		this.ctx.logger.log("info", `Verifying story ${storyId} (attempt ${attempt})`, {
+			prdName,
+			storyId,
 		});
 
-		const finalPrd = (await this.ctx.store.get(prdName)).data!;
-		return ok({
+		const prompt = generateStoryVerifierPrompt(
+			story,
+			storyFileContent,
+			acceptanceCriteria,
+			gitDiff,
+		);
+		const result = await runAgentWithRecovery(
+			this.ctx.agentExecutor,
+			prompt,
+			variantResult.data!,
+			config,
+			"verify",
+			{
+				stream: true,
+				signal,
+				onOutput: (data) => emit({ type: "agent_output", data }),
+				...agentRecoveryHooks(this.ctx, prdName, "verify", emit, storyId),
+			},
+		);
+		if (result.aborted) {
+			return ok("skipped");
+		}
+
+		const parsed = parseStoryVerifierOutput(result.output);
+		const checks: StoryVerificationCheck[] =
+			parsed.result === "unknown"
+				? [
+						...parsed.checks,
+						{
+							id: "verdict",
+							status: "fail",
+							evidence: "Verifier did not emit a <verification-result> signal",
+						},
+					]
+				: parsed.checks;
+		const passed = parsed.result === "pass";
+
+		await this.ctx.store.saveStoryVerification(prdName, {
+			storyId,
+			timestamp: new Date().toISOString(),
+			result: passed ? "pass" : "fail",
+			attempt,
+			baseCommit: story.startCommit,
+			checks,
+		});
+
+		const failedChecks = checks
+			.filter((c) => c.status === "fail")
+			.map((c) => {
+				const criterion = acceptanceCriteria[Number.parseInt(c.id, 10) - 1];
+				return criterion
+					? `Verifier: AC ${c.id} (${criterion}) failed — ${c.evidence}`
+					: `Verifier: ${c.evidence}`;
+			});
+
+		emit({
+			type: "story_verify_complete",
 			prdName,
-			outcome: "max_iterations",
-			message: `Reached max iterations (${maxIterations})`,
-			storiesCompleted: finalPrd.stories.filter((s) => s.status === "completed").length,
-			storiesRemaining: finalPrd.stories.filter((s) => s.status !== "completed").length,
+			storyId,
+			attempt,
+			result: passed ? "pass" : "fail",
+			failedChecks,
 		});
+
+		const date = new Date().toISOString();
+		if (passed) {
+			await appendProgress(
+				this.ctx.projectName,
+				this.ctx.repoRoot,
+				prdName,
+				`## [${date}] - ${storyId}: verifier PASS (attempt ${attempt})\n---`,
+			);
+			const resetResult = await this.ctx.store.resetVerificationAttempts(prdName, storyId);
+			if (!resetResult.ok) {
+				return err(resetResult.error!.code, resetResult.error!.message);
+			}
+			return ok("passed");
+		}
+
+		const blocking = attempt >= MAX_STORY_VERIFICATION_FAILURES;
+		await appendProgress(
+			this.ctx.projectName,
+			this.ctx.repoRoot,
+			prdName,
+			`## [${date}] - ${storyId}: verifier FAIL (attempt ${attempt}${blocking ? ", auto-blocked" : ""})\n${failedChecks.map((c) => `- ${c}`).join("\n")}\n---`,
+		);
+
+		const reopenResult = await this.ctx.store.reopenStory(prdName, storyId, failedChecks);
+		if (!reopenResult.ok) {
+			return err(reopenResult.error!.code, reopenResult.error!.message);
+		}
+
+		if (blocking) {
+			const blockResult = await this.ctx.store.updateStoryStatus(
+				prdName,
+				storyId,
+				"blocked",
+				failedChecks,
+			);
+			if (!blockResult.ok) {
+				return err(blockResult.error!.code, blockResult.error!.message);
+			}
+			return ok("blocked");
+		}
+
+		return ok("reopened");
 	}
 
 	/**
-	 * Handle development completion - extract findings, run review, generate verification, move to testing
+	 * Handle development completion - extract findings, run review, generate verification, move to testing.
+	 * Returns why it stopped early when the review trips a budget limit or the pre_review hook
+	 * vetoes the review; the PRD then stays in_progress.
+	 * Each step is checkpointed, so a re-run after a crash resumes at the review or verification step.
 	 */
 	private async handleDevelopmentComplete(
 		prdName: string,
@@ -437,13 +2051,23 @@ export class OrchestrationEngine {
 		agentConfig: ProviderVariantConfig,
 		emit: (event: EngineEvent) => void,
 		signal?: AbortSignal,
-	): Promise<void> {
-		await this.ctx.store.markCompleted(prdName);
-		await extractAndSaveFindings(this.ctx.projectName, this.ctx.repoRoot, prdName);
+	): Promise<{ outcome: "budget_exceeded" | "hook_vetoed"; message: string } | null> {
+		const checkpoint = await this.ctx.store.getCheckpoint(prdName);
+		const resumePhase =
+			checkpoint?.phase === "review" || checkpoint?.phase === "verification"
+				? checkpoint.phase
+				: undefined;
+		if (resumePhase) {
+			emit({ type: "log", level: "info", message: `Resuming from checkpoint: ${resumePhase}` });
+		} else {
+			await this.ctx.store.markCompleted(prdName);
+			await extractAndSaveFindings(this.ctx.projectName, this.ctx.repoRoot, prdName);
+			await this.ctx.store.saveCheckpoint(prdName, { phase: "review" });
+		}
 
 		// Run code review pipeline
 		const configResult = await loadConfig();
-		if (configResult.ok) {
+		if (configResult.ok && resumePhase !== "verification") {
 			const reviewConfig = getReviewConfig(configResult.data!);
 			const latestPrdResult = await this.ctx.store.get(prdName);
 			const latestPrd = latestPrdResult.ok ? latestPrdResult.data! : _prd;
@@ -466,6 +2090,15 @@ export class OrchestrationEngine {
 				});
 			}
 
+			if (
+				reviewConfig.enabled &&
+				shouldRunReview &&
+				!(await this.runHook(prdName, "pre_review", configResult.data!, emit))
+			) {
+				const stop = await this.stopForHook(prdName, "pre_review", emit);
+				return { outcome: "hook_vetoed", message: stop.data!.message };
+			}
+
 			if (reviewConfig.enabled && shouldRunReview) {
 				const variantsResult = resolveReviewProviderVariants(configResult.data!, reviewConfig);
 				if (!variantsResult.ok) {
@@ -492,14 +2125,20 @@ export class OrchestrationEngine {
 							level: "warn",
 							message: `Review had errors: ${result.error?.message}`,
 						});
+					} else if (result.data!.budgetExceeded) {
+						await this.stopForBudget(prdName, result.data!.budgetExceeded, emit);
+						return { outcome: "budget_exceeded", message: result.data!.budgetExceeded.message };
 					}
 				}
 			}
 		}
 
 		const oldStatus = this.ctx.store.findLocation(prdName) ?? "pending";
-		await this.ctx.store.transition(prdName, "qa");
-		emit({ type: "state_change", prdName, from: oldStatus, to: "qa" });
+		if (oldStatus !== "qa") {
+			await this.ctx.store.transition(prdName, "qa");
+			emit({ type: "state_change", prdName, from: oldStatus, to: "qa" });
+		}
+		await this.ctx.store.saveCheckpoint(prdName, { phase: "verification" });
 
 		// Generate verification — use verification_provider_variant if configured, else fall back to development variant
 		let verificationVariant = agentConfig;
@@ -514,7 +2153,12 @@ export class OrchestrationEngine {
 		}
 		try {
 			const runAgentFn = async (prompt: string, config: ProviderVariantConfig) => {
-				const result = await this.ctx.agentExecutor.run(prompt, config, { signal });
+				const result = await this.ctx.agentExecutor.run(prompt, config, {
+					signal,
+					...(configResult.ok && getAgentTimeoutOptions(configResult.data!, config, "qa")),
+					...this.transcriptOptions(prdName, "qa", config),
+				});
+				await recordAgentUsage(this.ctx, prdName, result, config, "qa");
 				return { output: result.output, exitCode: result.exitCode };
 			};
 			await generateVerification(
@@ -534,18 +2178,24 @@ export class OrchestrationEngine {
 			reason: "completed",
 			summary: "All stories completed. PRD moved to QA.",
 		});
+		this.ctx.store.clearCheckpoint(prdName);
 
 		emit({
 			type: "complete",
 			result: "success",
 			message: "PRD moved to QA",
 		});
+		return null;
 	}
 
 	/**
 	 * Run QA for a PRD
 	 */
 	async runQA(prdName: string, options: RunOptions = {}): Promise<Result<QARunResult>> {
+		return this.withNotifications(prdName, options, (opts) => this.qa(prdName, opts));
+	}
+
+	private async qa(prdName: string, options: RunOptions): Promise<Result<QARunResult>> {
 		const signal = options.signal ?? this.ctx.signal;
 		const emit = options.onEvent ?? (() => {});
 		const log = (level: "info" | "warn" | "error", message: string) => {
@@ -576,12 +2226,50 @@ export class OrchestrationEngine {
 			log("warn", `PRD "${prdName}" is in ${status} status (not qa)`);
 		}
 
-		// Ensure verification exists
-		if (!hasVerification(this.ctx.projectName, this.ctx.repoRoot, prdName)) {
+		const budget = getBudgetConfig(config);
+		const qaRecoveryHooks = agentRecoveryHooks(this.ctx, prdName, "qa", emit);
+		const stopQAForTimeout = async (
+			result: AgentResult & { providerVariant: ProviderVariantConfig },
+			step: string,
+		): Promise<Result<QARunResult>> => {
+			const kind = result.timedOut ?? "wall_clock";
+			const qaTimeouts = getAgentTimeoutOptions(config, result.providerVariant, "qa");
+			const message = `${describeAgentTimeout(kind, qaTimeouts)} during QA ${step}`;
+			await this.recordAgentTimeout(prdName, "qa", kind, "stop", message, emit);
+			await this.runScript(scripts.teardown, "teardown", prdName);
+			return err(ErrorCodes.AGENT_TIMEOUT, message);
+		};
+		const stopQAForBudget = async (
+			exceeded: BudgetExceeded,
+			output: string,
+		): Promise<Result<QARunResult>> => {
+			await this.stopForBudget(prdName, exceeded, emit);
+			return ok({
+				prdName,
+				outcome: "budget_exceeded",
+				report: parseQAReport(output, prdName),
+			});
+		};
+		const startBudget = await checkPRDBudget(this.ctx.store, prdName, budget);
+		if (startBudget) {
+			return stopQAForBudget(startBudget, "");
+		}
+
+		// Ensure verification exists (regenerated when its generation was interrupted)
+		const checkpoint = await this.ctx.store.getCheckpoint(prdName);
+		if (
+			!hasVerification(this.ctx.projectName, this.ctx.repoRoot, prdName) ||
+			checkpoint?.phase === "verification"
+		) {
 			log("info", "Generating verification checklist...");
 			try {
 				const runAgentFn = async (prompt: string, cfg: ProviderVariantConfig) => {
-					const result = await this.ctx.agentExecutor.run(prompt, cfg, { signal });
+					const result = await this.ctx.agentExecutor.run(prompt, cfg, {
+						signal,
+						...getAgentTimeoutOptions(config, cfg, "qa"),
+						...this.transcriptOptions(prdName, "qa", cfg),
+					});
+					await recordAgentUsage(this.ctx, prdName, result, cfg, "qa");
 					return { output: result.output, exitCode: result.exitCode };
 				};
 				await generateVerification(
@@ -604,12 +2292,24 @@ export class OrchestrationEngine {
 		);
 		const isFocusedRetest = previousFailures !== null && previousFailures.length > 0;
 
+		// Resume after the last completed step of an interrupted run
+		const qaProgress: QACheckpoint = (checkpoint?.phase === "qa" && checkpoint.qa) || {
+			step: "started",
+			healthFixAttempts: 0,
+		};
+		const saveQAProgress = () =>
+			this.ctx.store.saveCheckpoint(prdName, { phase: "qa", qa: qaProgress });
+		if (qaProgress.step !== "started" || qaProgress.healthFixAttempts > 0) {
+			log("info", `Resuming QA from checkpoint (last completed: ${qaProgress.step})`);
+		}
+
 		if (isFocusedRetest) {
 			log("info", `Found ${previousFailures.length} previous failure(s) - running focused reQA`);
-		} else {
-			// Clear previous results only for full QA runs
+		} else if (qaProgress.step === "started") {
+			// Clear previous results only for full QA runs that have not produced any yet
 			this.ctx.store.clearQAResults(prdName);
 		}
+		await saveQAProgress();
 
 		log(
 			"info",
@@ -626,8 +2326,13 @@ export class OrchestrationEngine {
 		const healthTimeout = qaConfig.health_check_timeout ?? 30;
 		const maxHealthFixAttempts = qaConfig.max_health_fix_attempts ?? 3;
 
-		// Healthcheck fix loop: teardown → setup → start → healthcheck, retry with fix agent on failure
-		for (let attempt = 1; attempt <= maxHealthFixAttempts; attempt++) {
+		// Healthcheck fix loop: teardown → setup → start → healthcheck, retry with fix agent on failure.
+		// The environment is always brought up again on resume; spent fix attempts still count.
+		for (
+			let attempt = Math.min(qaProgress.healthFixAttempts + 1, maxHealthFixAttempts);
+			attempt <= maxHealthFixAttempts;
+			attempt++
+		) {
 			// Teardown first (clean state)
 			log(
 				"info",
@@ -667,6 +2372,12 @@ export class OrchestrationEngine {
 				break;
 			}
 
+			const fixBudget = await checkPRDBudget(this.ctx.store, prdName, budget);
+			if (fixBudget) {
+				await this.runScript(scripts.teardown, "teardown", prdName);
+				return stopQAForBudget(fixBudget, "");
+			}
+
 			// Spawn fix agent
 			log(
 				"info",
@@ -678,11 +2389,21 @@ export class OrchestrationEngine {
 				attempt,
 				maxHealthFixAttempts,
 			);
-			const fixResult = await this.ctx.agentExecutor.run(fixPrompt, agentConfig, {
-				stream: true,
-				signal,
-				onOutput: (data) => emit({ type: "agent_output", data }),
-			});
+			const fixResult = await runAgentWithRecovery(
+				this.ctx.agentExecutor,
+				fixPrompt,
+				agentConfig,
+				config,
+				"qa",
+				{
+					stream: true,
+					signal,
+					onOutput: (data) => emit({ type: "agent_output", data }),
+					...qaRecoveryHooks,
+				},
+			);
+			qaProgress.healthFixAttempts = attempt;
+			await saveQAProgress();
 
 			const fixSignal = detectHealthCheckResult(fixResult.output);
 			if (fixSignal === "fixed") {
@@ -701,48 +2422,96 @@ export class OrchestrationEngine {
 			break;
 		}
 
-		// Generate prompt (focused or full)
-		const prompt = isFocusedRetest
-			? await generateQARetestPrompt(
-					this.ctx.projectName,
-					this.ctx.repoRoot,
-					prdName,
-					previousFailures,
-					config,
-				)
-			: await generateQAPrompt(this.ctx.projectName, this.ctx.repoRoot, prdName, config);
-
-		log("info", `Spawning QA agent (step 1)... (cwd: ${process.cwd()})`);
-		const result = await this.ctx.agentExecutor.run(prompt, agentConfig, {
-			stream: true,
-			signal,
-			onOutput: (data) => emit({ type: "agent_output", data }),
-		});
+		let stepOneOutput = qaProgress.output ?? "";
+		if (qaProgress.step === "started") {
+			// Generate prompt (focused or full)
+			const prompt = isFocusedRetest
+				? await generateQARetestPrompt(
+						this.ctx.projectName,
+						this.ctx.repoRoot,
+						prdName,
+						previousFailures,
+						config,
+					)
+				: await generateQAPrompt(this.ctx.projectName, this.ctx.repoRoot, prdName, config);
+
+			const stepBudget = await checkPRDBudget(this.ctx.store, prdName, budget);
+			if (stepBudget) {
+				await this.runScript(scripts.teardown, "teardown", prdName);
+				return stopQAForBudget(stepBudget, "");
+			}
+
+			log("info", `Spawning QA agent (step 1)... (cwd: ${process.cwd()})`);
+			const result = await runAgentWithRecovery(
+				this.ctx.agentExecutor,
+				prompt,
+				agentConfig,
+				config,
+				"qa",
+				{
+					stream: true,
+					signal,
+					onOutput: (data) => emit({ type: "agent_output", data }),
+					...qaRecoveryHooks,
+				},
+			);
 
-		emit({ type: "agent_exit", code: result.exitCode });
-		log("info", `Step 1 agent exit code: ${result.exitCode}`);
+			emit({ type: "agent_exit", code: result.exitCode });
+			log("info", `Step 1 agent exit code: ${result.exitCode}`);
+			if (result.timedOut) {
+				return stopQAForTimeout(result, "step 1");
+			}
+
+			stepOneOutput = result.output;
+			qaProgress.step = "step1";
+			qaProgress.output = stepOneOutput;
+			await saveQAProgress();
+		}
 
 		// Step 2: platform plugin pass (per FR-5) — only if platforms with plugins are declared
-		let combinedOutput = result.output;
-		if (!isFocusedRetest) {
+		let combinedOutput = stepOneOutput;
+		if (qaProgress.step === "step2") {
+			combinedOutput = qaProgress.output ?? "";
+		} else if (!isFocusedRetest) {
 			const pluginPrompt = await generateQAPluginPrompt(
 				this.ctx.projectName,
 				this.ctx.repoRoot,
 				prdName,
 				config,
-				result.output,
+				stepOneOutput,
 			);
+			const pluginBudget = pluginPrompt
+				? await checkPRDBudget(this.ctx.store, prdName, budget)
+				: null;
+			if (pluginBudget) {
+				await this.runScript(scripts.teardown, "teardown", prdName);
+				return stopQAForBudget(pluginBudget, stepOneOutput);
+			}
 			if (pluginPrompt) {
 				log("info", "Spawning QA agent (step 2 — platform plugin pass)...");
-				const pluginResult = await this.ctx.agentExecutor.run(pluginPrompt, agentConfig, {
-					stream: true,
-					signal,
-					onOutput: (data) => emit({ type: "agent_output", data }),
-				});
+				const pluginResult = await runAgentWithRecovery(
+					this.ctx.agentExecutor,
+					pluginPrompt,
+					agentConfig,
+					config,
+					"qa",
+					{
+						stream: true,
+						signal,
+						onOutput: (data) => emit({ type: "agent_output", data }),
+						...qaRecoveryHooks,
+					},
+				);
 				emit({ type: "agent_exit", code: pluginResult.exitCode });
 				log("info", `Step 2 agent exit code: ${pluginResult.exitCode}`);
-				combinedOutput = `${result.output}\n\n${pluginResult.output}`;
+				if (pluginResult.timedOut) {
+					return stopQAForTimeout(pluginResult, "step 2");
+				}
+				combinedOutput = `${stepOneOutput}\n\n${pluginResult.output}`;
 			}
+			qaProgress.step = "step2";
+			qaProgress.output = combinedOutput;
+			await saveQAProgress();
 		}
 
 		// Parse results
@@ -758,6 +2527,22 @@ export class OrchestrationEngine {
 			await this.runScript(scripts.teardown, "teardown", prdName);
 		};
 
+		// post_qa sees the result before Ralph acts on it; a veto keeps the PRD in QA
+		if (
+			(qaResult === "verified" || qaResult === "failed") &&
+			!(await this.runHook(prdName, "post_qa", config, emit, undefined, {
+				RALPH_QA_RESULT: qaResult,
+			}))
+		) {
+			this.ctx.store.clearCheckpoint(prdName);
+			await runTeardown();
+
+			const message = `The post_qa hook vetoed the QA result (${qaResult}); the PRD stays in QA`;
+			log("warn", message);
+			emit({ type: "complete", result: "hook_vetoed", message });
+			return ok({ prdName, outcome: "hook_vetoed", report, issues });
+		}
+
 		// Handle result
 		if (qaResult === "verified") {
 			log("info", "PRD_VERIFIED - moving to completed");
@@ -777,7 +2562,12 @@ export class OrchestrationEngine {
 				try {
 					const { updateDocumentation } = await import("../documentation.js");
 					const runAgentFn = async (p: string, c: ProviderVariantConfig) => {
-						const r = await this.ctx.agentExecutor.run(p, c, { signal });
+						const r = await this.ctx.agentExecutor.run(p, c, {
+							signal,
+							...getAgentTimeoutOptions(config, c, "docs"),
+							...this.transcriptOptions(prdName, "docs", c),
+						});
+						await recordAgentUsage(this.ctx, prdName, r, c, "docs");
 						return { output: r.output, exitCode: r.exitCode };
 					};
 					const docResults = await updateDocumentation(
@@ -806,6 +2596,7 @@ export class OrchestrationEngine {
 
 			const oldStatus = this.ctx.store.findLocation(prdName) ?? "qa";
 			await this.ctx.store.transition(prdName, "completed");
+			this.ctx.store.clearCheckpoint(prdName);
 			emit({ type: "state_change", prdName, from: oldStatus, to: "completed" });
 			emit({ type: "qa_complete", result: "verified" });
 
@@ -813,11 +2604,18 @@ export class OrchestrationEngine {
 			try {
 				const commitVariantResult = getProviderVariantConfig(config);
 				if (commitVariantResult.ok) {
-					const commitPrompt = `Check \`git status\`. If there are any uncommitted changes (staged or unstaged, including untracked files), stage them all and commit using the format: \`feat: [${prdName}] - completion updates\`. If there are no changes, do nothing. Do not push.\n\nWhen done, output:\n<promise>COMPLETE</promise>`;
+					const commitPrompt = `Check \`git status\`. If there are any uncommitted changes (staged or unstaged, including untracked files), stage them all and commit using the format: \`feat: [${prdName}] - completion updates\`. If there are no changes, do nothing. Do not push.\n\nWhen done, output:\n<ralph-result>{"version": 1, "status": "completed", "summary": "", "files": [], "questions": [], "issues": []}</ralph-result>`;
 					log("info", "Checking for uncommitted changes...");
-					await this.ctx.agentExecutor.run(commitPrompt, commitVariantResult.data!, {
-						signal,
-					});
+					const commitResult = await this.ctx.agentExecutor.run(
+						commitPrompt,
+						commitVariantResult.data!,
+						{
+							signal,
+							...getAgentTimeoutOptions(config, commitVariantResult.data!, "qa"),
+							...this.transcriptOptions(prdName, "qa", commitVariantResult.data!),
+						},
+					);
+					await recordAgentUsage(this.ctx, prdName, commitResult, commitVariantResult.data!, "qa");
 				}
 			} catch (error) {
 				log("warn", `Auto-commit failed: ${error instanceof Error ? error.message : error}`);
@@ -840,6 +2638,7 @@ export class OrchestrationEngine {
 
 			const oldStatus = this.ctx.store.findLocation(prdName) ?? "qa";
 			await this.ctx.store.transition(prdName, "in_progress");
+			this.ctx.store.clearCheckpoint(prdName);
 			emit({ type: "state_change", prdName, from: oldStatus, to: "in_progress" });
 			emit({ type: "qa_complete", result: "failed", issues });
 
@@ -854,6 +2653,7 @@ export class OrchestrationEngine {
 		}
 
 		// Unknown result
+		this.ctx.store.clearCheckpoint(prdName);
 		await runTeardown();
 
 		log("warn", "No clear QA result signal detected");
@@ -993,17 +2793,11 @@ ${scripts?.teardown ? `- Teardown: ${scripts.teardown}` : ""}
 
 ## CRITICAL: Output Signal
 
-When done, you MUST output exactly one of these signals:
-
-**If you fixed the issue:**
-\`\`\`
-<healthcheck-result>FIXED</healthcheck-result>
-\`\`\`
-
-**If the issue cannot be fixed (infrastructure, external dependency, etc.):**
-\`\`\`
-<healthcheck-result>NOT_FIXABLE</healthcheck-result>
-\`\`\`
+${formatRalphResultInstructions({
+	fixed: "you fixed the issue and the healthcheck should now pass",
+	not_fixable:
+		"the issue cannot be fixed from the codebase (infrastructure, external dependency, etc.); explain why in `issues`",
+})}
 
 Begin diagnosis now.
 `;
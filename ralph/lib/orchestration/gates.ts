@@ -0,0 +1,58 @@
+/**
+ * Ralph Quality Gates
+ *
+ * Runs the `[ralph.gates]` commands (lint, typecheck, tests) once an agent
+ * claims a story is complete. Every gate runs so the agent sees all failures
+ * at once; a failing gate's output tail becomes the story's feedback.
+ */
+
+import type { GateCheck } from "../types.js";
+import { runShellCommand } from "./shell.js";
+
+/** Max characters kept from a gate's output in gate-results */
+const MAX_GATE_OUTPUT_CHARS = 4000;
+
+/** Max characters of a failing gate's output fed back to the agent */
+const MAX_GATE_FEEDBACK_CHARS = 1500;
+
+/**
+ * Run every gate command in order
+ */
+export async function runGates(
+	commands: Record<string, string>,
+	options: { cwd: string; timeoutSeconds: number; env?: Record<string, string> },
+): Promise<GateCheck[]> {
+	const checks: GateCheck[] = [];
+	for (const [name, command] of Object.entries(commands)) {
+		const run = await runShellCommand(command, {
+			cwd: options.cwd,
+			timeoutSeconds: options.timeoutSeconds,
+			maxOutputChars: MAX_GATE_OUTPUT_CHARS,
+			...(options.env && { env: options.env }),
+		});
+		checks.push({
+			name,
+			command,
+			passed: run.exitCode === 0,
+			exitCode: run.exitCode,
+			output: run.output,
+			durationMs: run.durationMs,
+		});
+	}
+	return checks;
+}
+
+/**
+ * Story feedback for failed gates: one entry per gate with its output tail
+ */
+export function formatGateFeedback(checks: GateCheck[]): string[] {
+	return checks
+		.filter((check) => !check.passed)
+		.map((check) => {
+			const output =
+				check.output.length > MAX_GATE_FEEDBACK_CHARS
+					? `…${check.output.slice(-MAX_GATE_FEEDBACK_CHARS)}`
+					: check.output;
+			return `Gate "${check.name}" (\`${check.command}\`) failed with exit code ${check.exitCode}${output ? `:\n${output}` : ""}`;
+		});
+}
@@ -0,0 +1,70 @@
+/**
+ * Ralph Lifecycle Hooks
+ *
+ * Runs the `[ralph.hooks]` shell commands (formatters, codegen, quick test
+ * subsets) around development iterations. Each hook gets the PRD and story in
+ * `RALPH_*` environment variables; a non-zero exit vetoes the transition the
+ * hook guards, and its output is fed into the next dev prompt.
+ */
+
+import type { HookName, HookOutput, Story } from "../types.js";
+import { runShellCommand } from "./shell.js";
+
+/** Max characters kept from a hook's output (the tail, where failures usually are) */
+const MAX_HOOK_OUTPUT_CHARS = 4000;
+
+/**
+ * What a hook run is about
+ */
+export interface HookContext {
+	projectName: string;
+	prdName: string;
+	story?: Pick<Story, "id" | "title" | "status" | "iterationCount" | "questions">;
+	/** Hook-specific variables, e.g. `RALPH_AGENT_EXIT_CODE` */
+	env?: Record<string, string>;
+}
+
+/**
+ * Environment variables describing a hook run
+ */
+export function hookEnv(hook: HookName, context: HookContext): Record<string, string> {
+	const { story } = context;
+	return {
+		RALPH_HOOK: hook,
+		RALPH_PROJECT: context.projectName,
+		RALPH_PRD: context.prdName,
+		...(story && {
+			RALPH_STORY_ID: story.id,
+			RALPH_STORY_TITLE: story.title,
+			RALPH_STORY_STATUS: story.status,
+			RALPH_ITERATION: String(story.iterationCount ?? 0),
+			RALPH_QUESTIONS: story.questions.join("\n"),
+		}),
+		...context.env,
+	};
+}
+
+/**
+ * Run one hook command with `bash -c` and capture its combined output.
+ * A hook that outlives its timeout is killed and reported with exit code 124.
+ */
+export async function runHook(
+	command: string,
+	hook: HookName,
+	context: HookContext,
+	options: { cwd: string; timeoutSeconds: number },
+): Promise<HookOutput> {
+	const run = await runShellCommand(command, {
+		cwd: options.cwd,
+		timeoutSeconds: options.timeoutSeconds,
+		maxOutputChars: MAX_HOOK_OUTPUT_CHARS,
+		env: hookEnv(hook, context),
+	});
+	return {
+		hook,
+		...(context.story && { storyId: context.story.id }),
+		exitCode: run.exitCode,
+		output: run.output,
+		timestamp: new Date().toISOString(),
+	};
+}
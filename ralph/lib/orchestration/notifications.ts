@@ -0,0 +1,260 @@
+/**
+ * Ralph Notifications
+ *
+ * Turns engine events into notifications (a story blocked, a PRD reaching QA,
+ * a QA verdict, a blown budget, an error) and sends them to the sinks under
+ * `[ralph.notifications]`: `notify-send`, an HTTP webhook with a templated
+ * JSON body, and a shell command. A failing sink is reported as a warning and
+ * never stops the run.
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { getNotificationsConfig } from "../core/config.js";
+import type { Notification, NotificationEvent } from "../types.js";
+import type { EngineEvent } from "./engine.js";
+import { runShellCommand } from "./shell.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Max characters of a failing notification command's output kept in the warning */
+const MAX_COMMAND_OUTPUT_CHARS = 1000;
+
+/**
+ * Where a notification comes from
+ */
+export interface NotificationContext {
+	projectName: string;
+	prdName: string;
+	/** Working directory for command sinks */
+	cwd: string;
+}
+
+/**
+ * The notification an engine event stands for, or null for events nobody is told about
+ */
+export function toNotification(
+	event: EngineEvent,
+	context: Pick<NotificationContext, "projectName" | "prdName">,
+): Notification | null {
+	const base = {
+		project: context.projectName,
+		prd: context.prdName,
+		timestamp: new Date().toISOString(),
+	};
+
+	switch (event.type) {
+		case "story_update":
+			if (event.status !== "blocked") return null;
+			return {
+				...base,
+				event: "story_blocked",
+				storyId: event.storyId,
+				title: `Ralph: ${context.prdName} ${event.storyId} is blocked`,
+				message: `Story ${event.storyId} is waiting for answers. Run: ralph answer ${context.prdName} ${event.storyId}`,
+			};
+		case "state_change":
+			if (event.to !== "qa") return null;
+			return {
+				...base,
+				event: "prd_qa",
+				title: `Ralph: ${context.prdName} is ready for QA`,
+				message: `All stories of ${context.prdName} are done and it moved to QA.`,
+			};
+		case "qa_complete":
+			if (event.result === "verified") {
+				return {
+					...base,
+					event: "qa_verified",
+					title: `Ralph: ${context.prdName} passed QA`,
+					message: `QA verified ${context.prdName}; it moved to completed.`,
+				};
+			}
+			if (event.result === "failed") {
+				const issues = event.issues ?? [];
+				return {
+					...base,
+					event: "qa_failed",
+					title: `Ralph: ${context.prdName} failed QA`,
+					message: `QA found ${issues.length} issue(s)${issues[0] ? `, first: ${issues[0]}` : ""}`,
+				};
+			}
+			return null;
+		case "complete":
+			if (event.result === "budget_exceeded") {
+				return {
+					...base,
+					event: "budget_exceeded",
+					title: `Ralph: ${context.prdName} hit its budget`,
+					message: event.message,
+				};
+			}
+			if (event.result === "error") {
+				return {
+					...base,
+					event: "error",
+					title: `Ralph: ${context.prdName} stopped with an error`,
+					message: event.message,
+				};
+			}
+			return null;
+		case "error":
+			return {
+				...base,
+				event: "error",
+				title: `Ralph: ${context.prdName} hit an error`,
+				message: event.error,
+			};
+		default:
+			return null;
+	}
+}
+
+/**
+ * Fill a webhook body template. Values are JSON-escaped so they can sit
+ * inside string literals; unknown placeholders are left as they are.
+ */
+export function renderNotificationTemplate(template: string, notification: Notification): string {
+	const fields: Record<string, string> = {
+		event: notification.event,
+		project: notification.project,
+		prd: notification.prd,
+		story: notification.storyId ?? "",
+		title: notification.title,
+		message: notification.message,
+		timestamp: notification.timestamp,
+	};
+	return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => {
+		const value = fields[key];
+		return value === undefined ? placeholder : JSON.stringify(value).slice(1, -1);
+	});
+}
+
+/**
+ * A destination for notifications
+ */
+interface NotificationSink {
+	name: string;
+	events: NotificationEvent[];
+	send(notification: Notification): Promise<void>;
+}
+
+function createSinks(
+	config: ReturnType<typeof getNotificationsConfig>,
+	cwd: string,
+): NotificationSink[] {
+	const sinks: NotificationSink[] = [];
+	const timeoutMs = config.timeout * 1000;
+
+	if (config.desktop && config.desktop.enabled !== false) {
+		sinks.push({
+			name: "desktop",
+			events: config.desktop.events ?? config.events,
+			send: async (n) => {
+				await execFileAsync("notify-send", ["--app-name=Ralph", n.title, n.message], {
+					timeout: timeoutMs,
+				});
+			},
+		});
+	}
+
+	const webhook = config.webhook;
+	if (webhook) {
+		sinks.push({
+			name: "webhook",
+			events: webhook.events ?? config.events,
+			send: async (n) => {
+				const response = await fetch(webhook.url, {
+					method: webhook.method ?? "POST",
+					headers: { "Content-Type": "application/json", ...webhook.headers },
+					body: webhook.body ? renderNotificationTemplate(webhook.body, n) : JSON.stringify(n),
+					signal: AbortSignal.timeout(timeoutMs),
+				});
+				if (!response.ok) {
+					throw new Error(`${webhook.url} answered ${response.status} ${response.statusText}`);
+				}
+			},
+		});
+	}
+
+	const command = config.command;
+	if (command) {
+		sinks.push({
+			name: "command",
+			events: command.events ?? config.events,
+			send: async (n) => {
+				const run = await runShellCommand(command.command, {
+					cwd,
+					timeoutSeconds: config.timeout,
+					maxOutputChars: MAX_COMMAND_OUTPUT_CHARS,
+					env: {
+						RALPH_NOTIFY_EVENT: n.event,
+						RALPH_NOTIFY_TITLE: n.title,
+						RALPH_NOTIFY_MESSAGE: n.message,
+						RALPH_PROJECT: n.project,
+						RALPH_PRD: n.prd,
+						RALPH_STORY_ID: n.storyId ?? "",
+					},
+				});
+				if (run.exitCode !== 0) {
+					throw new Error(`exited with code ${run.exitCode}${run.output ? `: ${run.output}` : ""}`);
+				}
+			},
+		});
+	}
+
+	return sinks;
+}
+
+/**
+ * Sits between the engine and its event listener: every event is passed on,
+ * and the ones that map to a configured notification are sent to the sinks in
+ * the background. `flush` waits for sends still in flight.
+ */
+export class Notifier {
+	private readonly sinks: NotificationSink[];
+	private readonly pending = new Set<Promise<void>>();
+
+	constructor(
+		private readonly context: NotificationContext,
+		config: ReturnType<typeof getNotificationsConfig>,
+		private readonly onEvent: (event: EngineEvent) => void = () => {},
+	) {
+		this.sinks = createSinks(config, context.cwd);
+	}
+
+	readonly emit = (event: EngineEvent): void => {
+		this.onEvent(event);
+		this.notify(event);
+	};
+
+	/**
+	 * Send an event to the sinks without passing it on to the listener, for
+	 * outcomes the caller reports itself (a failed or throwing run)
+	 */
+	readonly notify = (event: EngineEvent): void => {
+		if (this.sinks.length === 0) return;
+
+		const notification = toNotification(event, this.context);
+		if (!notification) return;
+
+		for (const sink of this.sinks) {
+			if (!sink.events.includes(notification.event)) continue;
+			const send: Promise<void> = sink
+				.send(notification)
+				.catch((error) => {
+					this.onEvent({
+						type: "log",
+						level: "warn",
+						message: `Notification via ${sink.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+					});
+				})
+				.finally(() => this.pending.delete(send));
+			this.pending.add(send);
+		}
+	};
+
+	async flush(): Promise<void> {
+		await Promise.all(this.pending);
+	}
+}
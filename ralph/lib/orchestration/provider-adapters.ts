@@ -0,0 +1,252 @@
+/**
+ * Ralph Provider Adapters
+ *
+ * Translate each CLI's stdout into a stable internal event model (text,
+ * tool_use, usage, result) so AgentExecutor does not depend on any one
+ * provider's output format. A provider variant picks its adapter with
+ * `format`; the default is Claude Code's stream-json.
+ */
+
+import type { AgentUsage, ProviderFormat } from "../types.js";
+
+/**
+ * Provider-independent event emitted while an agent runs
+ */
+export type AgentEvent =
+	/** Assistant text (appended to the run's plain-text output) */
+	| { type: "text"; text: string }
+	/** The agent invoked a tool */
+	| { type: "tool_use"; name: string }
+	/** Incremental usage for one turn or step (summed over the run) */
+	| { type: "usage"; usage: AgentUsage }
+	/** Final result; `usage` is the run total and replaces any incremental usage */
+	| { type: "result"; text?: string; usage?: AgentUsage };
+
+/**
+ * Parses one line of provider stdout into zero or more events
+ */
+export interface ProviderAdapter {
+	format: ProviderFormat;
+	parseLine(line: string): AgentEvent[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function count(value: unknown): number | undefined {
+	return typeof value === "number" && value >= 0 ? value : undefined;
+}
+
+function text(value: unknown): string | undefined {
+	return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Drop undefined fields; returns undefined when nothing was reported
+ */
+function compactUsage(usage: AgentUsage): AgentUsage | undefined {
+	const entries = Object.entries(usage).filter(([, v]) => v !== undefined);
+	return entries.length > 0 ? (Object.fromEntries(entries) as AgentUsage) : undefined;
+}
+
+/**
+ * Build an adapter for a JSON-lines format. Lines that are not JSON objects
+ * are passed through as raw text; unrecognized events are ignored.
+ */
+function jsonLinesAdapter(
+	format: ProviderFormat,
+	parseEvent: (event: JsonObject) => AgentEvent[],
+): ProviderAdapter {
+	return {
+		format,
+		parseLine(line) {
+			let event: unknown;
+			try {
+				event = JSON.parse(line);
+			} catch {
+				event = undefined;
+			}
+			if (!isObject(event)) {
+				return line.trim() ? [{ type: "text", text: `${line}\n` }] : [];
+			}
+			return parseEvent(event);
+		},
+	};
+}
+
+/**
+ * Claude Code `--output-format stream-json`
+ */
+const claudeStreamJson = jsonLinesAdapter("claude-stream-json", (event) => {
+	switch (event["type"]) {
+		case "assistant": {
+			const message = event["message"];
+			const content = isObject(message) ? message["content"] : undefined;
+			if (!Array.isArray(content)) {
+				return [];
+			}
+			const events: AgentEvent[] = [];
+			for (const block of content) {
+				if (!isObject(block)) continue;
+				const blockText = text(block["text"]);
+				if (block["type"] === "text" && blockText) {
+					events.push({ type: "text", text: blockText });
+				} else if (block["type"] === "tool_use") {
+					events.push({ type: "tool_use", name: String(block["name"] ?? "unknown") });
+				}
+			}
+			return events;
+		}
+		case "result": {
+			const usage = isObject(event["usage"]) ? event["usage"] : {};
+			return [
+				{
+					type: "result",
+					text: text(event["result"]),
+					usage: compactUsage({
+						inputTokens: count(usage["input_tokens"]),
+						outputTokens: count(usage["output_tokens"]),
+						cacheReadTokens: count(usage["cache_read_input_tokens"]),
+						cacheWriteTokens: count(usage["cache_creation_input_tokens"]),
+						costUsd: count(event["total_cost_usd"]),
+					}),
+				},
+			];
+		}
+		// Ignore user, system, init events
+		default:
+			return [];
+	}
+});
+
+/**
+ * Codex `exec --json`
+ */
+const codexJson = jsonLinesAdapter("codex-json", (event) => {
+	switch (event["type"]) {
+		case "item.completed": {
+			const item = event["item"];
+			if (!isObject(item)) {
+				return [];
+			}
+			const itemType = String(item["type"] ?? "");
+			if (itemType === "agent_message") {
+				const message = text(item["text"]);
+				return message ? [{ type: "text", text: `${message}\n` }] : [];
+			}
+			if (itemType === "mcp_tool_call") {
+				return [{ type: "tool_use", name: `${item["server"]}.${item["tool"]}` }];
+			}
+			if (["command_execution", "file_change", "web_search"].includes(itemType)) {
+				return [{ type: "tool_use", name: itemType }];
+			}
+			return [];
+		}
+		case "turn.completed": {
+			const usage = isObject(event["usage"]) ? event["usage"] : {};
+			// Codex counts cached tokens inside input_tokens
+			const cached = count(usage["cached_input_tokens"]);
+			const input = count(usage["input_tokens"]);
+			const result = compactUsage({
+				inputTokens: input !== undefined ? input - (cached ?? 0) : undefined,
+				outputTokens: count(usage["output_tokens"]),
+				cacheReadTokens: cached,
+			});
+			return result ? [{ type: "usage", usage: result }] : [];
+		}
+		default:
+			return [];
+	}
+});
+
+/**
+ * Gemini CLI `--output-format stream-json`
+ */
+const geminiStreamJson = jsonLinesAdapter("gemini-stream-json", (event) => {
+	switch (event["type"]) {
+		case "message": {
+			const content = text(event["content"]);
+			return event["role"] === "assistant" && content ? [{ type: "text", text: content }] : [];
+		}
+		case "tool_use":
+			return [{ type: "tool_use", name: String(event["tool_name"] ?? "unknown") }];
+		case "result": {
+			const stats = isObject(event["stats"]) ? event["stats"] : {};
+			return [
+				{
+					type: "result",
+					usage: compactUsage({
+						inputTokens: count(stats["input_tokens"]),
+						outputTokens: count(stats["output_tokens"]),
+						cacheReadTokens: count(stats["cached"]),
+					}),
+				},
+			];
+		}
+		default:
+			return [];
+	}
+});
+
+/**
+ * opencode `run --format json`
+ */
+const opencodeJson = jsonLinesAdapter("opencode-json", (event) => {
+	const part = isObject(event["part"]) ? event["part"] : {};
+	switch (event["type"]) {
+		case "text": {
+			const partText = text(part["text"]);
+			return partText ? [{ type: "text", text: partText }] : [];
+		}
+		case "tool_use":
+			return [{ type: "tool_use", name: String(part["tool"] ?? "unknown") }];
+		case "step_finish": {
+			const tokens = isObject(part["tokens"]) ? part["tokens"] : {};
+			const cache = isObject(tokens["cache"]) ? tokens["cache"] : {};
+			const output = count(tokens["output"]);
+			const reasoning = count(tokens["reasoning"]);
+			const usage = compactUsage({
+				inputTokens: count(tokens["input"]),
+				outputTokens:
+					output !== undefined || reasoning !== undefined
+						? (output ?? 0) + (reasoning ?? 0)
+						: undefined,
+				cacheReadTokens: count(cache["read"]),
+				cacheWriteTokens: count(cache["write"]),
+				costUsd: count(part["cost"]),
+			});
+			return usage ? [{ type: "usage", usage }] : [];
+		}
+		default:
+			return [];
+	}
+});
+
+/**
+ * Plain text (aider, custom scripts): every line is output; usage falls back
+ * to parsing `Input:`/`Output:` lines after the run
+ */
+const plainText: ProviderAdapter = {
+	format: "text",
+	parseLine(line) {
+		return line.trim() ? [{ type: "text", text: `${line}\n` }] : [];
+	},
+};
+
+const ADAPTERS: Record<ProviderFormat, ProviderAdapter> = {
+	"claude-stream-json": claudeStreamJson,
+	"codex-json": codexJson,
+	"gemini-stream-json": geminiStreamJson,
+	"opencode-json": opencodeJson,
+	text: plainText,
+};
+
+/**
+ * Get the adapter for a provider variant's `format` (default: claude-stream-json)
+ */
+export function getProviderAdapter(format: ProviderFormat = "claude-stream-json"): ProviderAdapter {
+	return ADAPTERS[format];
+}
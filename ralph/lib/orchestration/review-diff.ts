@@ -0,0 +1,350 @@
+/**
+ * Ralph Review Diff
+ *
+ * Builds the diff reviewers see. The base is the commit recorded when the
+ * PRD's development started, else the merge-base with the primary branch.
+ * Files matching `[ralph.review] diff_exclude` (lockfiles, generated code)
+ * are left out. A diff over `diff_token_budget` is split per file into parts,
+ * each listing the files of the other parts so a reviewer sees what else
+ * changed. The fix diff, what a single fix agent run changed, is taken
+ * between two snapshots of the working tree.
+ */
+
+import { execFileSync } from "node:child_process";
+import { copyFileSync, existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { isAbsolute, join } from "node:path";
+import type { PRD } from "../types.js";
+
+/** Largest diff git may return; excluded files are never fetched */
+const MAX_DIFF_BYTES = 256 * 1024 * 1024;
+
+/** Most bytes of file paths passed to one `git diff`, well under the argv limit */
+const MAX_PATHSPEC_BYTES = 64 * 1024;
+
+/** Rough characters per token for sizing diff parts */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * One file's section of a unified diff
+ */
+export interface DiffFile {
+	path: string;
+	/** Lines added, or null for binary files */
+	additions: number | null;
+	deletions: number | null;
+	diff: string;
+}
+
+/**
+ * Where the review diff starts
+ */
+export interface ReviewDiffBase {
+	/** Commit the diff is taken from, or null to diff uncommitted changes only */
+	commit: string | null;
+	source: "prd" | "merge-base" | "none";
+}
+
+/**
+ * The diff handed to reviewers
+ */
+export interface ReviewDiff {
+	base: ReviewDiffBase;
+	files: DiffFile[];
+	/** Changed files left out by `diff_exclude` */
+	excluded: string[];
+	/** Prompt-ready diff text, one entry per part */
+	parts: string[];
+}
+
+function git(args: string[], cwd: string, env?: NodeJS.ProcessEnv): string {
+	return execFileSync("git", args, {
+		cwd,
+		encoding: "utf-8",
+		env: env ? { ...process.env, ...env } : undefined,
+		maxBuffer: MAX_DIFF_BYTES,
+		stdio: ["ignore", "pipe", "ignore"],
+	});
+}
+
+/**
+ * Pick the review base: the PRD's recorded `baseCommit` while it still
+ * exists, else the merge-base of HEAD with the primary branch
+ */
+export function resolveReviewBase(
+	repoRoot: string,
+	prd: PRD,
+	primaryBranch: string,
+): ReviewDiffBase {
+	if (prd.baseCommit) {
+		try {
+			git(["cat-file", "-e", `${prd.baseCommit}^{commit}`], repoRoot);
+			return { commit: prd.baseCommit, source: "prd" };
+		} catch {
+			// Rewritten history; fall back to the merge-base
+		}
+	}
+	try {
+		const mergeBase = git(["merge-base", "HEAD", primaryBranch], repoRoot).trim();
+		if (mergeBase) return { commit: mergeBase, source: "merge-base" };
+	} catch {
+		// No such branch, or no common history
+	}
+	return { commit: null, source: "none" };
+}
+
+/**
+ * Translate a glob into a regular expression over repo-relative paths.
+ * `**` crosses directories, `*` and `?` do not, `{a,b}` is an alternation,
+ * and a pattern without a slash matches a file name at any depth.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const pattern = glob.includes("/") ? glob.replace(/^\//, "") : `**/${glob}`;
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i]!;
+		if (char === "*" && pattern[i + 1] === "*") {
+			i++;
+			if (pattern[i + 1] === "/") {
+				i++;
+				source += "(?:.*/)?";
+			} else {
+				source += ".*";
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			const end = pattern.indexOf("}", i);
+			if (end === -1) {
+				source += "\\{";
+				continue;
+			}
+			const options = pattern.slice(i + 1, end).split(",");
+			source += `(?:${options.map((o) => o.replace(/[.+^$()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*")).join("|")})`;
+			i = end;
+		} else {
+			source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Split a unified diff into its per-file sections
+ */
+export function parseDiffFiles(diff: string): DiffFile[] {
+	const files: DiffFile[] = [];
+	const sections = diff.split(/^(?=diff --git )/m).filter((s) => s.startsWith("diff --git "));
+	for (const section of sections) {
+		const header = /^diff --git a\/(.+?) b\/(.+)$/m.exec(section);
+		const path = header?.[2] ?? "(unknown)";
+		let additions = 0;
+		let deletions = 0;
+		const binary = /^Binary files .* differ$/m.test(section);
+		for (const line of section.split("\n")) {
+			if (line.startsWith("+") && !line.startsWith("+++")) additions++;
+			else if (line.startsWith("-") && !line.startsWith("---")) deletions++;
+		}
+		files.push({
+			path,
+			additions: binary ? null : additions,
+			deletions: binary ? null : deletions,
+			diff: section.endsWith("\n") ? section : `${section}\n`,
+		});
+	}
+	return files;
+}
+
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Group files into parts of at most `tokenBudget` tokens each, in diff order.
+ * A file larger than the budget gets a part of its own.
+ */
+export function chunkDiffFiles(files: DiffFile[], tokenBudget: number): DiffFile[][] {
+	const chunks: DiffFile[][] = [];
+	let current: DiffFile[] = [];
+	let size = 0;
+	for (const file of files) {
+		const tokens = estimateTokens(file.diff);
+		if (current.length > 0 && size + tokens > tokenBudget) {
+			chunks.push(current);
+			current = [];
+			size = 0;
+		}
+		current.push(file);
+		size += tokens;
+	}
+	if (current.length > 0) chunks.push(current);
+	return chunks;
+}
+
+function describeFile(file: DiffFile): string {
+	return file.additions === null
+		? `${file.path} (binary)`
+		: `${file.path} (+${file.additions} -${file.deletions})`;
+}
+
+/**
+ * Render one part: its files' diffs, clipped to the budget, followed by a
+ * summary of the files in other parts and of the excluded files
+ */
+function formatDiffPart(
+	chunk: DiffFile[],
+	index: number,
+	chunks: DiffFile[][],
+	excluded: string[],
+	tokenBudget: number,
+): string {
+	const maxChars = tokenBudget * CHARS_PER_TOKEN;
+	let body = chunk.map((f) => f.diff).join("");
+	if (body.length > maxChars) {
+		body = `${body.slice(0, maxChars)}\n...(truncated: ${body.length - maxChars} more characters of ${chunk[0]!.path})\n`;
+	}
+	if (chunks.length === 1 && excluded.length === 0) {
+		return body;
+	}
+
+	const lines: string[] = [];
+	if (chunks.length > 1) {
+		lines.push(
+			`# Diff part ${index + 1} of ${chunks.length}. Review the files in this part; the other parts are reviewed in separate runs.`,
+			"",
+		);
+	}
+	lines.push(body.trimEnd());
+
+	const others = chunks.flatMap((c, i) => (i === index ? [] : c));
+	if (others.length > 0) {
+		lines.push("", "# Changed in other parts (for context, not reviewed here):");
+		for (const file of others) lines.push(`#   ${describeFile(file)}`);
+	}
+	if (excluded.length > 0) {
+		lines.push("", "# Excluded from review by [ralph.review] diff_exclude:");
+		for (const path of excluded) lines.push(`#   ${path}`);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Split paths into consecutive batches of at most `maxBytes` each
+ */
+function batchPaths(paths: string[], maxBytes: number): string[][] {
+	const batches: string[][] = [];
+	let batch: string[] = [];
+	let bytes = 0;
+	for (const path of paths) {
+		const size = Buffer.byteLength(path) + 1;
+		if (batch.length > 0 && bytes + size > maxBytes) {
+			batches.push(batch);
+			batch = [];
+			bytes = 0;
+		}
+		batch.push(path);
+		bytes += size;
+	}
+	if (batch.length > 0) batches.push(batch);
+	return batches;
+}
+
+/**
+ * Diff `revisions` (one to compare with the working tree, or two), leaving
+ * out excluded files and splitting the rest into parts
+ */
+function collectDiff(
+	repoRoot: string,
+	revisions: string[],
+	options: { tokenBudget: number; exclude: string[] },
+): Omit<ReviewDiff, "base"> {
+	const excludePatterns = options.exclude.map(globToRegExp);
+
+	let changed: string[] = [];
+	try {
+		changed = git(["diff", "--no-renames", "--name-only", ...revisions], repoRoot)
+			.split("\n")
+			.filter(Boolean);
+	} catch {
+		return { files: [], excluded: [], parts: [] };
+	}
+	const excluded = changed.filter((path) => excludePatterns.some((re) => re.test(path)));
+	const included = changed.filter((path) => !excluded.includes(path));
+	if (included.length === 0) {
+		return { files: [], excluded, parts: [] };
+	}
+
+	// `git diff` has no --pathspec-from-file; diff the paths in batches so a
+	// large change set cannot overflow the argument list
+	let diff = "";
+	try {
+		for (const batch of batchPaths(included, MAX_PATHSPEC_BYTES)) {
+			diff += git(
+				["--literal-pathspecs", "diff", "--no-renames", ...revisions, "--", ...batch],
+				repoRoot,
+			);
+		}
+	} catch {
+		return { files: [], excluded, parts: [] };
+	}
+	const files = parseDiffFiles(diff);
+	const chunks = chunkDiffFiles(files, options.tokenBudget);
+	return {
+		files,
+		excluded,
+		parts: chunks.map((chunk, i) =>
+			formatDiffPart(chunk, i, chunks, excluded, options.tokenBudget),
+		),
+	};
+}
+
+/**
+ * Diff the working tree against the review base, run in `repoRoot`
+ */
+export function buildReviewDiff(
+	repoRoot: string,
+	prd: PRD,
+	options: { primaryBranch: string; tokenBudget: number; exclude: string[] },
+): ReviewDiff {
+	const base = resolveReviewBase(repoRoot, prd, options.primaryBranch);
+	return { base, ...collectDiff(repoRoot, [base.commit ?? "HEAD"], options) };
+}
+
+/**
+ * Write the working tree, untracked files included, to a git tree object
+ * without touching the index or HEAD. Returns the tree hash, or null when
+ * the snapshot fails.
+ */
+export function snapshotWorkingTree(repoRoot: string): string | null {
+	const dir = mkdtempSync(join(tmpdir(), "ralph-snapshot-"));
+	const index = join(dir, "index");
+	try {
+		// Start from the real index so unchanged files are not re-hashed
+		const gitIndex = git(["rev-parse", "--git-path", "index"], repoRoot).trim();
+		const gitIndexPath = isAbsolute(gitIndex) ? gitIndex : join(repoRoot, gitIndex);
+		if (existsSync(gitIndexPath)) copyFileSync(gitIndexPath, index);
+		git(["add", "-A"], repoRoot, { GIT_INDEX_FILE: index });
+		return git(["write-tree"], repoRoot, { GIT_INDEX_FILE: index }).trim() || null;
+	} catch {
+		return null;
+	} finally {
+		rmSync(dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Diff a working tree snapshot against the working tree as it is now; with a
+ * snapshot taken before a fix, this is what the fix changed. Null when the
+ * current tree cannot be snapshotted.
+ */
+export function buildFixDiff(
+	repoRoot: string,
+	beforeTree: string,
+	options: { tokenBudget: number; exclude: string[] },
+): Omit<ReviewDiff, "base"> | null {
+	const afterTree = snapshotWorkingTree(repoRoot);
+	if (!afterTree) return null;
+	return collectDiff(repoRoot, [beforeTree, afterTree], options);
+}
@@ -6,54 +6,71 @@
  * and resolves them with an inline fix agent.
  */
 
-import { execSync } from "node:child_process";
 import { existsSync, mkdirSync } from "node:fs";
 import { readFile, writeFile } from "node:fs/promises";
 import { isAbsolute, join } from "node:path";
-import { getProviderVariantConfig, type ResolvedReviewProviderVariants } from "../core/config.js";
+import { type BudgetExceeded, checkPRDBudget } from "../core/budget.js";
+import {
+	getBudgetConfig,
+	getProviderVariantConfig,
+	getSwarmConfig,
+	type ResolvedReviewProviderVariants,
+} from "../core/config.js";
 import { atomicWrite, getStatusDir } from "../core/paths.js";
+import {
+	fingerprintFinding,
+	isFindingTriaged,
+	markSentToFix,
+	recordReviewRound,
+	SEVERITY_RANK,
+} from "../findings.js";
 import type { Result } from "../results.js";
 import { ok } from "../results.js";
 import {
 	generateExternalReviewPrompt,
 	generateFinalizePrompt,
 	generateFixPrompt,
+	generateRecheckPrompt,
 	generateReviewPrompt,
+	parseRecheckResult,
 	parseReviewResult,
 } from "../review-prompt.js";
+import {
+	applySeverityThreshold,
+	loadReviewerDefinition,
+	reviewerMatchesFiles,
+} from "../reviewers.js";
 import type {
+	FindingsLedger,
 	PRD,
 	PRDStatus,
 	ProviderVariantConfig,
 	RalphConfig,
+	RecheckResult,
+	ReviewCheckpoint,
 	ReviewConfig,
+	ReviewerDefinition,
 	ReviewFinding,
 	ReviewRoundResult,
+	ToolReviewerConfig,
 } from "../types.js";
+import { agentRecoveryHooks, runAgentWithRecovery } from "./agent-runner.js";
 import type { EngineContext, EngineEvent } from "./engine.js";
+import {
+	buildFixDiff,
+	buildReviewDiff,
+	parseDiffFiles,
+	type ReviewDiff,
+	snapshotWorkingTree,
+} from "./review-diff.js";
+import { runToolReviewer } from "./tool-reviewer.js";
 
 /**
- * Get git diff for the PRD's changes
+ * Result of a review pipeline run
  */
-function getGitDiff(): string {
-	try {
-		// Get diff of all changes on current branch vs merge-base with main
-		const mergeBase = execSync(
-			"git merge-base HEAD main 2>/dev/null || git rev-parse HEAD~10 2>/dev/null || echo HEAD",
-			{ encoding: "utf-8" },
-		).trim();
-		return execSync(`git diff ${mergeBase} HEAD`, {
-			encoding: "utf-8",
-			maxBuffer: 10 * 1024 * 1024,
-		});
-	} catch {
-		// Fallback: diff of staged + unstaged changes
-		try {
-			return execSync("git diff HEAD", { encoding: "utf-8", maxBuffer: 10 * 1024 * 1024 });
-		} catch {
-			return "(unable to generate git diff)";
-		}
-	}
+export interface ReviewRunResult {
+	/** Set when the review stopped early because a [ralph.budget] limit tripped */
+	budgetExceeded?: BudgetExceeded;
 }
 
 /**
@@ -91,7 +108,7 @@ function formatReviewResultsMarkdown(
 		if (result.findings.length > 0) {
 			md += `**Findings:**\n\n`;
 			for (const f of result.findings) {
-				md += `- [${f.severity.toUpperCase()}] ${f.file}${f.line ? `:${f.line}` : ""} — ${f.issue}\n`;
+				md += `- [${f.severity.toUpperCase()}] ${f.file}${f.line ? `:${f.line}` : ""} — ${f.issue} (${fingerprintFinding(f)})\n`;
 			}
 			md += "\n";
 		} else {
@@ -102,29 +119,23 @@ function formatReviewResultsMarkdown(
 	return md;
 }
 
-const FINDING_SEVERITY_RANK: Record<ReviewFinding["severity"], number> = {
-	critical: 0,
-	major: 1,
-	minor: 2,
-	suggestion: 3,
-};
-
-function normalizeFindingKey(finding: ReviewFinding): string {
-	return `${finding.file}|${finding.line ?? ""}|${finding.issue.trim().toLowerCase()}`;
-}
-
+/**
+ * Merge findings with the same ledger fingerprint, so one issue reported on
+ * different lines or with different numbers is fixed and re-checked once.
+ * The first report's line is kept, with the highest severity and every reviewer.
+ */
 function dedupeFindings(findings: ReviewFinding[]): ReviewFinding[] {
 	const deduped = new Map<string, ReviewFinding>();
 
 	for (const finding of findings) {
-		const key = normalizeFindingKey(finding);
+		const key = fingerprintFinding(finding);
 		const existing = deduped.get(key);
 		if (!existing) {
 			deduped.set(key, { ...finding });
 			continue;
 		}
 
-		if (FINDING_SEVERITY_RANK[finding.severity] < FINDING_SEVERITY_RANK[existing.severity]) {
+		if (SEVERITY_RANK[finding.severity] < SEVERITY_RANK[existing.severity]) {
 			existing.severity = finding.severity;
 		}
 
@@ -194,6 +205,18 @@ function escapeRegExp(text: string): string {
 	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+/**
+ * A reviewer in a review round: an agent and how to prompt it for a diff, or
+ * a tool command
+ */
+type Reviewer = {
+	reviewType: string;
+	minSeverity?: ReviewFinding["severity"];
+} & (
+	| { agentConfig: ProviderVariantConfig; prompt: (diff: string) => Promise<string> }
+	| { tool: ToolReviewerConfig }
+);
+
 /**
  * Review Engine - orchestrates the multi-phase review pipeline
  */
@@ -205,7 +228,8 @@ export class ReviewEngine {
 	}
 
 	/**
-	 * Run the full review pipeline
+	 * Run the full review pipeline. Progress is checkpointed after each fix and
+	 * each completed phase, so a re-run resumes where the last one stopped.
 	 */
 	async runReview(
 		prdName: string,
@@ -215,7 +239,7 @@ export class ReviewEngine {
 		reviewConfig: Required<ReviewConfig>,
 		emit: (event: EngineEvent) => void,
 		signal?: AbortSignal,
-	): Promise<Result<void>> {
+	): Promise<Result<ReviewRunResult>> {
 		const log = (level: "info" | "warn" | "error", message: string) => {
 			this.ctx.logger.log(level, message, { prdName });
 			emit({ type: "log", level, message });
@@ -230,10 +254,25 @@ export class ReviewEngine {
 		);
 		mkdirSync(resultsDir, { recursive: true });
 
-		const gitDiff = getGitDiff();
-		if (gitDiff.length < 10) {
+		const getDiff = () => this.getReviewDiff(prdName, prd, config, reviewConfig, log);
+		const getDiffParts = () => getDiff().parts;
+		const getFixDiffParts = reviewConfig.recheck_fixes
+			? (beforeTree: string) =>
+					buildFixDiff(this.ctx.repoRoot, beforeTree, {
+						tokenBudget: reviewConfig.diff_token_budget,
+						exclude: reviewConfig.diff_exclude,
+					})?.parts ?? null
+			: null;
+		const diff = getDiff();
+		if (diff.parts.length === 0) {
 			log("info", "No significant changes detected in git diff, skipping review");
-			return ok(undefined);
+			return ok({});
+		}
+
+		const budget = getBudgetConfig(config);
+		const startBudget = await checkPRDBudget(this.ctx.store, prdName, budget);
+		if (startBudget) {
+			return ok({ budgetExceeded: startBudget });
 		}
 
 		const externalProviderVariantConfig = this.resolveExternalReviewVariant(
@@ -243,86 +282,145 @@ export class ReviewEngine {
 			reviewConfig,
 		);
 
+		const checkpoint = await this.ctx.store.getCheckpoint(prdName);
+		let progress: ReviewCheckpoint = (checkpoint?.phase === "review" && checkpoint.review) || {
+			phase: "first",
+			fixIteration: 0,
+			followUps: [],
+			noise: [],
+		};
+		if (progress.phase !== "first" || progress.fixIteration > 0) {
+			log(
+				"info",
+				`Resuming review at ${progress.phase} phase (fix iteration ${progress.fixIteration})`,
+			);
+		}
+
 		// Phase 1: Aggregated first-pass review
-		log("info", "Starting Phase 1: Aggregated Code Review");
-		emit({ type: "review_start", phase: "first" });
+		if (progress.phase === "first") {
+			await this.ctx.store.saveCheckpoint(prdName, { phase: "review", review: progress });
+			log("info", "Starting Phase 1: Aggregated Code Review");
+			emit({ type: "review_start", phase: "first" });
 
-		const firstResults = await this.runReviewRound(
-			prdName,
-			prd,
-			reviewConfig.first_review_agents,
-			variants.reviewVariant,
-			variants.fixVariant,
-			gitDiff,
-			false,
-			emit,
-			signal,
-			reviewConfig.max_fix_iterations,
-			reviewConfig.review_provider_variant
-				? {
-						reviewType: `external-${reviewConfig.review_provider_variant}`,
-						agentConfig: externalProviderVariantConfig,
-					}
-				: undefined,
-		);
+			const firstResults = await this.runReviewRound(
+				prdName,
+				prd,
+				this.selectReviewers(reviewConfig.first_review_agents, diff, log),
+				variants.reviewVariant,
+				variants.fixVariant,
+				diff.parts,
+				getDiffParts,
+				getFixDiffParts,
+				false,
+				config,
+				progress,
+				emit,
+				signal,
+				reviewConfig.max_fix_iterations,
+				reviewConfig.review_provider_variant
+					? {
+							reviewType: `external-${reviewConfig.review_provider_variant}`,
+							agentConfig: externalProviderVariantConfig,
+						}
+					: undefined,
+			);
 
-		await writeFile(
-			join(resultsDir, "first-review.md"),
-			formatReviewResultsMarkdown("First", firstResults.results, firstResults.fixIterations),
-		);
+			await writeFile(
+				join(resultsDir, "first-review.md"),
+				formatReviewResultsMarkdown("First", firstResults.results, firstResults.fixIterations),
+			);
+
+			if (firstResults.budgetExceeded) {
+				return ok({ budgetExceeded: firstResults.budgetExceeded });
+			}
+
+			emit({ type: "review_phase_complete", phase: "first", clean: firstResults.clean });
+			log("info", `Phase 1 complete: ${firstResults.clean ? "clean" : "findings fixed"}`);
 
-		emit({ type: "review_phase_complete", phase: "first", clean: firstResults.clean });
-		log("info", `Phase 1 complete: ${firstResults.clean ? "clean" : "findings fixed"}`);
+			progress = {
+				phase: "second",
+				fixIteration: 0,
+				followUps: firstResults.followUps,
+				noise: firstResults.noise,
+			};
+			await this.ctx.store.saveCheckpoint(prdName, { phase: "review", review: progress });
+		}
 
 		// Phase 2: Targeted verification review (critical only)
-		log("info", "Starting Phase 2: Targeted Verification Review (critical/major only)");
-		emit({ type: "review_start", phase: "second" });
+		if (progress.phase === "second") {
+			log("info", "Starting Phase 2: Targeted Verification Review (critical/major only)");
+			emit({ type: "review_start", phase: "second" });
 
-		const secondResults = await this.runReviewRound(
-			prdName,
-			prd,
-			reviewConfig.second_review_agents,
-			variants.reviewVariant,
-			variants.fixVariant,
-			getGitDiff(), // Re-get diff after fixes
-			true, // second review — critical only
-			emit,
-			signal,
-			reviewConfig.max_fix_iterations,
-		);
+			const secondDiff = getDiff(); // Re-get diff after fixes
+			const secondResults = await this.runReviewRound(
+				prdName,
+				prd,
+				this.selectReviewers(reviewConfig.second_review_agents, secondDiff, log),
+				variants.reviewVariant,
+				variants.fixVariant,
+				secondDiff.parts,
+				getDiffParts,
+				getFixDiffParts,
+				true, // second review — critical only
+				config,
+				progress,
+				emit,
+				signal,
+				reviewConfig.max_fix_iterations,
+			);
 
-		await writeFile(
-			join(resultsDir, "second-review.md"),
-			formatReviewResultsMarkdown("Second", secondResults.results, secondResults.fixIterations),
-		);
+			await writeFile(
+				join(resultsDir, "second-review.md"),
+				formatReviewResultsMarkdown("Second", secondResults.results, secondResults.fixIterations),
+			);
 
-		emit({ type: "review_phase_complete", phase: "second", clean: secondResults.clean });
-		log("info", `Phase 2 complete: ${secondResults.clean ? "clean" : "findings fixed"}`);
+			if (secondResults.budgetExceeded) {
+				return ok({ budgetExceeded: secondResults.budgetExceeded });
+			}
 
-		await this.writeTodoFindings(
-			prdName,
-			reviewConfig,
-			[
-				...firstResults.followUps,
-				...firstResults.noise,
-				...secondResults.followUps,
-				...secondResults.noise,
-			],
-			log,
-		);
+			emit({ type: "review_phase_complete", phase: "second", clean: secondResults.clean });
+			log("info", `Phase 2 complete: ${secondResults.clean ? "clean" : "findings fixed"}`);
+
+			progress = {
+				phase: "finalize",
+				fixIteration: 0,
+				followUps: [...progress.followUps, ...secondResults.followUps],
+				noise: [...progress.noise, ...secondResults.noise],
+			};
+			await this.writeTodoFindings(
+				prdName,
+				reviewConfig,
+				[...progress.followUps, ...progress.noise],
+				log,
+			);
+			await this.ctx.store.saveCheckpoint(prdName, { phase: "review", review: progress });
+		}
 
 		// Phase 3: Finalize (optional)
 		if (reviewConfig.finalize_enabled) {
+			const finalizeBudget = await checkPRDBudget(this.ctx.store, prdName, budget);
+			if (finalizeBudget) {
+				return ok({ budgetExceeded: finalizeBudget });
+			}
+
 			log("info", "Starting Phase 3: Finalize");
 			emit({ type: "review_start", phase: "finalize" });
 
-			await this.runFinalize(prdName, prd, variants.finalizeVariant, reviewConfig, emit, signal);
+			await this.runFinalize(
+				prdName,
+				prd,
+				variants.finalizeVariant,
+				config,
+				reviewConfig,
+				emit,
+				signal,
+			);
 
 			emit({ type: "review_phase_complete", phase: "finalize", clean: true });
 			log("info", "Phase 3 complete");
 		}
 
-		return ok(undefined);
+		return ok({});
 	}
 
 	private resolveExternalReviewVariant(
@@ -349,16 +447,23 @@ export class ReviewEngine {
 	}
 
 	/**
-	 * Run a review round with N agents in parallel, then fix findings
+	 * Run a review round with N agents in parallel, then fix findings.
+	 * Starts at `progress.fixIteration` and checkpoints after every fix. With
+	 * `getFixDiffParts`, each review after a fix is a re-check of the fixed
+	 * findings against the fix diff rather than a full review.
 	 */
 	private async runReviewRound(
 		prdName: string,
 		prd: PRD,
-		reviewTypes: string[],
+		reviewerDefinitions: ReviewerDefinition[],
 		reviewProviderVariantConfig: ProviderVariantConfig,
 		fixProviderVariantConfig: ProviderVariantConfig,
-		gitDiff: string,
+		diffParts: string[],
+		getDiffParts: () => string[],
+		getFixDiffParts: ((beforeTree: string) => string[] | null) | null,
 		isSecondReview: boolean,
+		config: RalphConfig,
+		progress: ReviewCheckpoint,
 		emit: (event: EngineEvent) => void,
 		signal?: AbortSignal,
 		maxFixIterations = 3,
@@ -369,8 +474,26 @@ export class ReviewEngine {
 		clean: boolean;
 		followUps: ReviewFinding[];
 		noise: ReviewFinding[];
+		budgetExceeded?: BudgetExceeded;
 	}> {
-		for (let fixIteration = 0; fixIteration <= maxFixIterations; fixIteration++) {
+		const budget = getBudgetConfig(config);
+		const reviewers = this.getReviewers(
+			prdName,
+			prd,
+			reviewerDefinitions,
+			reviewProviderVariantConfig,
+			isSecondReview,
+			externalReview,
+		);
+		// Blockers handed to the last fix, with the working tree from before it
+		let pendingRecheck: { beforeTree: string; findings: ReviewFinding[] } | null = null;
+		// Follow-ups and noise from the last full review plus any re-check regressions
+		let nonBlocking: ReviewFinding[] = [];
+		for (
+			let fixIteration = progress.fixIteration;
+			fixIteration <= maxFixIterations;
+			fixIteration++
+		) {
 			if (signal?.aborted) {
 				return {
 					results: [],
@@ -381,26 +504,66 @@ export class ReviewEngine {
 				};
 			}
 
-			const results = await this.runReviewerBatch(
-				prdName,
-				prd,
-				reviewTypes,
-				reviewProviderVariantConfig,
-				gitDiff,
-				isSecondReview,
-				emit,
-				signal,
-				externalReview,
-			);
+			const batchBudget = await checkPRDBudget(this.ctx.store, prdName, budget);
+			if (batchBudget) {
+				return {
+					results: [],
+					fixIterations: fixIteration,
+					clean: false,
+					followUps: [],
+					noise: [],
+					budgetExceeded: batchBudget,
+				};
+			}
+
+			const fixDiffParts =
+				pendingRecheck && getFixDiffParts ? getFixDiffParts(pendingRecheck.beforeTree) : null;
+			const recheck = pendingRecheck !== null && fixDiffParts !== null && fixDiffParts.length <= 1;
+			if (pendingRecheck && fixDiffParts && !recheck) {
+				this.ctx.logger.log(
+					"info",
+					`Fix diff spans ${fixDiffParts.length} parts; re-reviewing the full diff instead of re-checking`,
+					{ prdName },
+				);
+			}
+			const results = recheck
+				? await this.runFixRecheck(
+						prdName,
+						prd,
+						reviewers,
+						pendingRecheck!.findings,
+						fixDiffParts![0] ?? "",
+						fixIteration,
+						config,
+						emit,
+						signal,
+					)
+				: await this.runReviewerBatch(prdName, reviewers, diffParts, config, emit, signal);
 			const classified = classifyFindings(results.flatMap((r) => r.findings));
+			nonBlocking = [...(recheck ? nonBlocking : []), ...classified.followUps, ...classified.noise];
+			const { followUps, noise } = classifyFindings(nonBlocking);
+			const round = {
+				phase: isSecondReview ? "second" : "first",
+				iteration: fixIteration,
+			} as const;
+			const ledger = await this.updateFindingsLedger(prdName, (l) =>
+				recordReviewRound(
+					l,
+					[...classified.blockers, ...classified.followUps, ...classified.noise],
+					round,
+				),
+			);
+			// Findings triaged as disputed, deferred, or wontfix no longer block
+			const triaged = new Set(ledger?.findings.filter(isFindingTriaged).map((f) => f.id));
+			const blockers = classified.blockers.filter((f) => !triaged.has(fingerprintFinding(f)));
 
-			if (classified.blockers.length === 0) {
+			if (blockers.length === 0) {
 				return {
 					results,
 					fixIterations: fixIteration,
 					clean: fixIteration === 0,
-					followUps: classified.followUps,
-					noise: classified.noise,
+					followUps,
+					noise,
 				};
 			}
 
@@ -408,15 +571,27 @@ export class ReviewEngine {
 			if (fixIteration >= maxFixIterations) {
 				this.ctx.logger.log(
 					"warn",
-					`Max fix iterations (${maxFixIterations}) reached with ${classified.blockers.length} remaining findings`,
+					`Max fix iterations (${maxFixIterations}) reached with ${blockers.length} remaining findings`,
 					{ prdName },
 				);
 				return {
 					results,
 					fixIterations: fixIteration,
 					clean: false,
-					followUps: classified.followUps,
-					noise: classified.noise,
+					followUps,
+					noise,
+				};
+			}
+
+			const fixBudget = await checkPRDBudget(this.ctx.store, prdName, budget);
+			if (fixBudget) {
+				return {
+					results,
+					fixIterations: fixIteration,
+					clean: false,
+					followUps,
+					noise,
+					budgetExceeded: fixBudget,
 				};
 			}
 
@@ -424,19 +599,30 @@ export class ReviewEngine {
 			emit({
 				type: "review_fix_start",
 				iteration: fixIteration + 1,
-				findingsCount: classified.blockers.length,
+				findingsCount: blockers.length,
 			});
+			await this.updateFindingsLedger(prdName, (l) =>
+				markSentToFix(l, blockers, { ...round, iteration: fixIteration + 1 }),
+			);
+			const beforeTree = getFixDiffParts ? snapshotWorkingTree(this.ctx.repoRoot) : null;
 			await this.runFixAgent(
 				prdName,
 				prd,
-				classified.blockers,
+				blockers,
 				fixProviderVariantConfig,
+				config,
 				emit,
 				signal,
 			);
+			await this.ctx.store.saveCheckpoint(prdName, {
+				phase: "review",
+				review: { ...progress, fixIteration: fixIteration + 1 },
+			});
+
+			pendingRecheck = beforeTree ? { beforeTree, findings: blockers } : null;
 
 			// Re-get diff for next review iteration
-			gitDiff = getGitDiff();
+			diffParts = getDiffParts();
 		}
 
 		return {
@@ -448,95 +634,340 @@ export class ReviewEngine {
 		};
 	}
 
-	private async runReviewerBatch(
+	/**
+	 * Load the named reviewers and keep the ones whose `paths` match a file in
+	 * the diff. A reviewer that cannot be loaded is logged and skipped.
+	 */
+	private selectReviewers(
+		names: string[],
+		diff: ReviewDiff,
+		log: (level: "info" | "warn" | "error", message: string) => void,
+	): ReviewerDefinition[] {
+		const changedFiles = diff.files.map((f) => f.path);
+		const selected: ReviewerDefinition[] = [];
+		for (const name of names) {
+			const definition = loadReviewerDefinition(this.ctx.repoRoot, name);
+			if (!definition.ok) {
+				log("warn", `${definition.error!.message}; skipping it`);
+			} else if (!reviewerMatchesFiles(definition.data!, changedFiles)) {
+				log("info", `Skipping reviewer ${name}: no changed file matches its paths`);
+			} else {
+				selected.push(definition.data!);
+			}
+		}
+		return selected;
+	}
+
+	/**
+	 * The round's reviewers: one per definition, plus the external reviewer
+	 */
+	private getReviewers(
 		prdName: string,
 		prd: PRD,
-		reviewTypes: string[],
+		reviewerDefinitions: ReviewerDefinition[],
 		reviewProviderVariantConfig: ProviderVariantConfig,
-		gitDiff: string,
 		isSecondReview: boolean,
+		externalReview?: { reviewType: string; agentConfig: ProviderVariantConfig },
+	): Reviewer[] {
+		const reviewers: Reviewer[] = reviewerDefinitions.map(
+			({ name: reviewType, minSeverity, tool }): Reviewer => ({
+				reviewType,
+				...(minSeverity ? { minSeverity } : {}),
+				...(tool
+					? { tool }
+					: {
+							agentConfig: reviewProviderVariantConfig,
+							prompt: (diff: string) =>
+								generateReviewPrompt(
+									this.ctx.projectName,
+									this.ctx.repoRoot,
+									prdName,
+									reviewType,
+									prd,
+									diff,
+									isSecondReview,
+								),
+						}),
+			}),
+		);
+		if (externalReview) {
+			reviewers.push({
+				reviewType: externalReview.reviewType,
+				agentConfig: externalReview.agentConfig,
+				prompt: async (diff: string) =>
+					generateExternalReviewPrompt(this.ctx.projectName, this.ctx.repoRoot, prdName, prd, diff),
+			});
+		}
+		return reviewers;
+	}
+
+	/**
+	 * Run every reviewer over every diff part in parallel. A reviewer's results
+	 * across parts are merged into one round result. Tool reviewers run once,
+	 * scoped to the files in the diff.
+	 */
+	private async runReviewerBatch(
+		prdName: string,
+		reviewers: Reviewer[],
+		diffParts: string[],
+		config: RalphConfig,
 		emit: (event: EngineEvent) => void,
 		signal?: AbortSignal,
-		externalReview?: { reviewType: string; agentConfig: ProviderVariantConfig },
 	): Promise<ReviewRoundResult[]> {
-		const reviewPromises = reviewTypes.map(async (reviewType) => {
-			try {
-				const prompt = await generateReviewPrompt(
-					this.ctx.projectName,
-					this.ctx.repoRoot,
-					prdName,
-					reviewType,
-					prd,
-					gitDiff,
-					isSecondReview,
+		const changedFiles = diffParts.flatMap((part) => parseDiffFiles(part).map((f) => f.path));
+		return Promise.all(
+			reviewers.map(async (reviewer) => {
+				const { reviewType } = reviewer;
+				if ("tool" in reviewer) {
+					const findings = applySeverityThreshold(
+						(await this.runToolReview(prdName, reviewType, reviewer.tool, changedFiles)) ?? [],
+						reviewer.minSeverity,
+					);
+					const decision = findings.some((f) => f.severity === "critical" || f.severity === "major")
+						? "request_changes"
+						: "approve";
+					emit({
+						type: "review_agent_complete",
+						reviewType,
+						decision,
+						findingsCount: findings.length,
+					});
+					return { reviewType, decision, findings };
+				}
+
+				const partResults = await Promise.all(
+					diffParts.map(async (diff): Promise<ReviewRoundResult> => {
+						try {
+							const result = await runAgentWithRecovery(
+								this.ctx.agentExecutor,
+								await reviewer.prompt(diff),
+								reviewer.agentConfig,
+								config,
+								"review",
+								{
+									stream: true,
+									signal,
+									onOutput: (data) => emit({ type: "agent_output", data }),
+									...agentRecoveryHooks(this.ctx, prdName, "review", emit),
+								},
+							);
+							const parsed = parseReviewResult(result.output, reviewType);
+							return {
+								...parsed,
+								findings: applySeverityThreshold(parsed.findings, reviewer.minSeverity),
+							};
+						} catch (error) {
+							this.ctx.logger.log("warn", `Review agent ${reviewType} failed: ${error}`, {
+								prdName,
+							});
+							return { reviewType, decision: "approve", findings: [] };
+						}
+					}),
 				);
-				const result = await this.ctx.agentExecutor.run(prompt, reviewProviderVariantConfig, {
-					stream: true,
-					signal,
-					onOutput: (data) => emit({ type: "agent_output", data }),
-				});
 
-				const parsed = parseReviewResult(result.output, reviewType);
+				const merged: ReviewRoundResult = {
+					reviewType,
+					decision: partResults.some((r) => r.decision === "request_changes")
+						? "request_changes"
+						: "approve",
+					findings: partResults.flatMap((r) => r.findings),
+				};
 				emit({
 					type: "review_agent_complete",
 					reviewType,
-					decision: parsed.decision,
-					findingsCount: parsed.findings.length,
+					decision: merged.decision,
+					findingsCount: merged.findings.length,
 				});
-				return parsed;
-			} catch (error) {
-				this.ctx.logger.log("warn", `Review agent ${reviewType} failed: ${error}`, { prdName });
-				return {
-					reviewType,
-					decision: "approve" as const,
-					findings: [],
-				};
+				return merged;
+			}),
+		);
+	}
+
+	/**
+	 * Have each reviewer re-check the findings it raised against the fix diff.
+	 * A finding is resolved only if every reviewer that raised it says so; a
+	 * failed re-check, or an empty fix diff, leaves its findings unresolved. A
+	 * tool reviewer re-runs its command: a finding it still reports is
+	 * unresolved, and one not yet in the ledger is a regression.
+	 * Returns one round result per reviewer with its unresolved findings and
+	 * the regressions it found in the fix.
+	 */
+	private async runFixRecheck(
+		prdName: string,
+		prd: PRD,
+		reviewers: Reviewer[],
+		findings: ReviewFinding[],
+		fixDiff: string,
+		iteration: number,
+		config: RalphConfig,
+		emit: (event: EngineEvent) => void,
+		signal?: AbortSignal,
+	): Promise<ReviewRoundResult[]> {
+		const byReviewer = new Map<string, ReviewFinding[]>();
+		for (const finding of findings) {
+			for (const reviewType of finding.reviewer.split(", ")) {
+				byReviewer.set(reviewType, [...(byReviewer.get(reviewType) ?? []), finding]);
 			}
-		});
+		}
 
-		if (externalReview) {
-			reviewPromises.push(
-				(async () => {
-					try {
-						const prompt = generateExternalReviewPrompt(
-							this.ctx.projectName,
-							this.ctx.repoRoot,
-							prdName,
-							prd,
-							gitDiff,
-						);
-						const result = await this.ctx.agentExecutor.run(prompt, externalReview.agentConfig, {
+		const ledger = await this.ctx.store.getFindingsLedger(prdName);
+		const knownIds = new Set(ledger.ok ? ledger.data!.findings.map((f) => f.id) : []);
+		const fixFiles = parseDiffFiles(fixDiff).map((f) => f.path);
+
+		const rechecks = await Promise.all(
+			Array.from(byReviewer, async ([reviewType, own]): Promise<RecheckResult> => {
+				const ids = own.map(fingerprintFinding);
+				const unresolved = (note: string): RecheckResult => ({
+					reviewType,
+					verdicts: ids.map((id) => ({ id, verdict: "unresolved", note })),
+					regressions: [],
+				});
+				const reviewer = reviewers.find((r) => r.reviewType === reviewType);
+				if (!fixDiff) return unresolved("The fix changed nothing");
+				if (!reviewer) return unresolved(`Reviewer ${reviewType} is not part of this round`);
+
+				if ("tool" in reviewer) {
+					const current = await this.runToolReview(prdName, reviewType, reviewer.tool, [
+						...fixFiles,
+						...own.map((f) => f.file),
+					]);
+					if (!current) return unresolved("Re-check failed");
+					const reported = new Set(current.map(fingerprintFinding));
+					return {
+						reviewType,
+						verdicts: ids.map((id) => ({
+							id,
+							verdict: reported.has(id) ? "unresolved" : "resolved",
+						})),
+						regressions: applySeverityThreshold(
+							current.filter((f) => !knownIds.has(fingerprintFinding(f))),
+							reviewer.minSeverity,
+						),
+					};
+				}
+
+				try {
+					const result = await runAgentWithRecovery(
+						this.ctx.agentExecutor,
+						generateRecheckPrompt(prdName, prd, reviewType, own, fixDiff),
+						reviewer.agentConfig,
+						config,
+						"review",
+						{
 							stream: true,
 							signal,
 							onOutput: (data) => emit({ type: "agent_output", data }),
-						});
-						const parsed = parseReviewResult(result.output, externalReview.reviewType);
-						emit({
-							type: "review_agent_complete",
-							reviewType: externalReview.reviewType,
-							decision: parsed.decision,
-							findingsCount: parsed.findings.length,
-						});
-						return parsed;
-					} catch (error) {
-						this.ctx.logger.log(
-							"warn",
-							`Review agent ${externalReview.reviewType} failed: ${error}`,
-							{
-								prdName,
-							},
-						);
-						return {
-							reviewType: externalReview.reviewType,
-							decision: "approve" as const,
-							findings: [],
-						};
-					}
-				})(),
-			);
+							...agentRecoveryHooks(this.ctx, prdName, "review", emit),
+						},
+					);
+					const recheck = parseRecheckResult(result.output, reviewType, ids);
+					return {
+						...recheck,
+						regressions: applySeverityThreshold(recheck.regressions, reviewer.minSeverity),
+					};
+				} catch (error) {
+					this.ctx.logger.log("warn", `Re-check by ${reviewType} failed: ${error}`, { prdName });
+					return unresolved("Re-check failed");
+				}
+			}),
+		);
+
+		const unresolvedIds = new Set(
+			rechecks.flatMap((r) =>
+				r.verdicts.filter((v) => v.verdict === "unresolved").map((v) => v.id),
+			),
+		);
+		const results = rechecks.map(({ reviewType, regressions }): ReviewRoundResult => {
+			const remaining = [
+				...byReviewer.get(reviewType)!.filter((f) => unresolvedIds.has(fingerprintFinding(f))),
+				...regressions,
+			];
+			const decision = remaining.some((f) => f.severity === "critical" || f.severity === "major")
+				? "request_changes"
+				: "approve";
+			emit({
+				type: "review_agent_complete",
+				reviewType,
+				decision,
+				findingsCount: remaining.length,
+			});
+			return { reviewType, decision, findings: remaining };
+		});
+
+		const summary = {
+			iteration,
+			resolved: new Set(findings.map(fingerprintFinding)).size - unresolvedIds.size,
+			unresolved: unresolvedIds.size,
+			regressions: rechecks.reduce((sum, r) => sum + r.regressions.length, 0),
+		};
+		this.ctx.logger.log(
+			"info",
+			`Re-check after fix ${iteration}: ${summary.resolved} resolved, ${summary.unresolved} unresolved, ${summary.regressions} new`,
+			{ prdName },
+		);
+		emit({ type: "review_recheck_complete", ...summary });
+		return results;
+	}
+
+	/**
+	 * Run a tool reviewer, or log why it failed and return null
+	 */
+	private async runToolReview(
+		prdName: string,
+		reviewType: string,
+		tool: ToolReviewerConfig,
+		scope: string[],
+	): Promise<ReviewFinding[] | null> {
+		const result = await runToolReviewer(reviewType, tool, this.ctx.repoRoot, scope);
+		if (!result.ok) {
+			this.ctx.logger.log("warn", result.error!.message, { prdName });
+			return null;
 		}
+		return result.data!;
+	}
 
-		return Promise.all(reviewPromises);
+	/**
+	 * Apply a change to the findings ledger. A ledger that cannot be read or
+	 * written is logged and the review goes on without it.
+	 */
+	private async updateFindingsLedger(
+		prdName: string,
+		updateFn: (ledger: FindingsLedger) => FindingsLedger,
+	): Promise<FindingsLedger | null> {
+		const result = await this.ctx.store.updateFindingsLedger(prdName, updateFn);
+		if (!result.ok) {
+			this.ctx.logger.log("warn", result.error!.message, { prdName });
+			return null;
+		}
+		return result.data!;
+	}
+
+	/**
+	 * The review diff; its parts are empty when nothing changed
+	 */
+	private getReviewDiff(
+		prdName: string,
+		prd: PRD,
+		config: RalphConfig,
+		reviewConfig: Required<ReviewConfig>,
+		log: (level: "info" | "warn" | "error", message: string) => void,
+	): ReviewDiff {
+		const diff = buildReviewDiff(this.ctx.repoRoot, prd, {
+			primaryBranch: getSwarmConfig(config).primary_branch ?? "main",
+			tokenBudget: reviewConfig.diff_token_budget,
+			exclude: reviewConfig.diff_exclude,
+		});
+		if (diff.base.source === "none") {
+			log("warn", "No review base found for the PRD; reviewing uncommitted changes only");
+		}
+		if (diff.files.length > 0) {
+			this.ctx.logger.log(
+				"info",
+				`Review diff from ${diff.base.commit?.slice(0, 12) ?? "HEAD"} (${diff.base.source}): ${diff.files.length} file(s) in ${diff.parts.length} part(s), ${diff.excluded.length} excluded`,
+				{ prdName },
+			);
+		}
+		return diff;
 	}
 
 	/**
@@ -547,16 +978,18 @@ export class ReviewEngine {
 		prd: PRD,
 		findings: ReviewFinding[],
 		agentConfig: ProviderVariantConfig,
+		config: RalphConfig,
 		emit: (event: EngineEvent) => void,
 		signal?: AbortSignal,
 	): Promise<void> {
 		const prompt = generateFixPrompt(prdName, prd, findings);
 
 		try {
-			await this.ctx.agentExecutor.run(prompt, agentConfig, {
+			await runAgentWithRecovery(this.ctx.agentExecutor, prompt, agentConfig, config, "review", {
 				stream: true,
 				signal,
 				onOutput: (data) => emit({ type: "agent_output", data }),
+				...agentRecoveryHooks(this.ctx, prdName, "review", emit),
 			});
 		} catch (error) {
 			this.ctx.logger.log("warn", `Fix agent failed: ${error}`, { prdName });
@@ -609,6 +1042,7 @@ export class ReviewEngine {
 		prdName: string,
 		prd: PRD,
 		agentConfig: ProviderVariantConfig,
+		config: RalphConfig,
 		reviewConfig: Required<ReviewConfig>,
 		emit: (event: EngineEvent) => void,
 		signal?: AbortSignal,
@@ -616,10 +1050,11 @@ export class ReviewEngine {
 		const prompt = generateFinalizePrompt(prdName, prd, reviewConfig.finalize_prompt || undefined);
 
 		try {
-			await this.ctx.agentExecutor.run(prompt, agentConfig, {
+			await runAgentWithRecovery(this.ctx.agentExecutor, prompt, agentConfig, config, "review", {
 				stream: true,
 				signal,
 				onOutput: (data) => emit({ type: "agent_output", data }),
+				...agentRecoveryHooks(this.ctx, prdName, "review", emit),
 			});
 		} catch (error) {
 			this.ctx.logger.log("warn", `Finalize step failed: ${error}`, { prdName });
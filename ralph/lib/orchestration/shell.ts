@@ -0,0 +1,97 @@
+/**
+ * Ralph Shell Commands
+ *
+ * Runs user-configured shell commands (`[ralph.hooks]`, `[ralph.gates]`, tool
+ * reviewers) with `bash -c`, a timeout, and tail-clipped combined output.
+ */
+
+import { spawn } from "node:child_process";
+
+/**
+ * Outcome of one shell command
+ */
+export interface ShellRun {
+	/** Exit code; 124 when the command timed out, 127 when it could not start */
+	exitCode: number;
+	/** Combined stdout and stderr, keeping the tail when clipped */
+	output: string;
+	timedOut: boolean;
+	durationMs: number;
+	/** Full stdout, never clipped; only set with `keepStdout` */
+	stdout?: string;
+}
+
+/**
+ * Run a command with `bash -c`. A command that outlives its timeout is killed
+ * along with every process it started.
+ */
+export function runShellCommand(
+	command: string,
+	options: {
+		cwd: string;
+		timeoutSeconds: number;
+		maxOutputChars: number;
+		env?: Record<string, string>;
+		/** Also return stdout on its own, for commands whose output is parsed */
+		keepStdout?: boolean;
+	},
+): Promise<ShellRun> {
+	const startedAt = Date.now();
+	return new Promise((resolve) => {
+		const proc = spawn("bash", ["-c", command], {
+			cwd: options.cwd,
+			env: { ...process.env, ...options.env },
+			stdio: ["ignore", "pipe", "pipe"],
+			// Own process group, so a timeout also reaches the command's children
+			detached: true,
+		});
+
+		let output = "";
+		let stdout = "";
+		let timedOut = false;
+		const collect = (data: Buffer) => {
+			output += data.toString();
+		};
+		proc.stdout?.on("data", (data: Buffer) => {
+			collect(data);
+			if (options.keepStdout) stdout += data.toString();
+		});
+		proc.stderr?.on("data", collect);
+
+		const timer = setTimeout(() => {
+			timedOut = true;
+			if (proc.pid !== undefined) {
+				try {
+					process.kill(-proc.pid, "SIGKILL");
+				} catch {
+					proc.kill("SIGKILL");
+				}
+			}
+			// A child that left the group may still hold the pipes open
+			proc.stdout?.destroy();
+			proc.stderr?.destroy();
+		}, options.timeoutSeconds * 1000);
+
+		const finish = (exitCode: number, extra = "") => {
+			clearTimeout(timer);
+			const text = `${output}${extra}`.trim();
+			resolve({
+				exitCode,
+				output:
+					text.length > options.maxOutputChars ? `…${text.slice(-options.maxOutputChars)}` : text,
+				timedOut,
+				durationMs: Date.now() - startedAt,
+				...(options.keepStdout ? { stdout } : {}),
+			});
+		};
+
+		proc.on("close", (code) => {
+			if (timedOut) {
+				finish(124, `\n[timed out after ${options.timeoutSeconds}s]`);
+			} else {
+				finish(code ?? 1);
+			}
+		});
+		proc.on("error", (error) => finish(127, `\n${error.message}`));
+	});
+}
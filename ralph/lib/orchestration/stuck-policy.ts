@@ -0,0 +1,75 @@
+/**
+ * Ralph Stuck-Story Policy
+ *
+ * Decides what happens once a story runs past its `[ralph.stuck]` iteration
+ * threshold: one re-plan prompt, then one attempt on the escalation provider
+ * variant, then a block whose question carries a diagnosis built from the
+ * recorded attempt summaries.
+ */
+
+import { parseRalphResult } from "../ralph-result.js";
+import type { Story, StuckConfig, StuckStage } from "../types.js";
+
+/** Max characters kept from one attempt summary */
+const MAX_SUMMARY_CHARS = 400;
+
+/**
+ * Next escalation step for a story that is past its threshold, or null when
+ * every enabled step has been tried and the story should be blocked
+ */
+export function nextStuckStage(
+	current: StuckStage | undefined,
+	stuck: Pick<StuckConfig, "replan" | "escalation_provider_variant">,
+): StuckStage | null {
+	if (!current && stuck.replan !== false) {
+		return "replan";
+	}
+	if (current !== "escalated" && stuck.escalation_provider_variant) {
+		return "escalated";
+	}
+	return null;
+}
+
+/**
+ * One-line summary of a dev attempt: the agent's `<ralph-result>` summary,
+ * else the timeout message or exit code
+ */
+export function summarizeAttempt(
+	iteration: number,
+	output: string,
+	exitCode: number,
+	timeoutMessage = "",
+): string {
+	const summary =
+		parseRalphResult(output)?.summary.replace(/\s+/g, " ").trim() ||
+		timeoutMessage ||
+		`no summary reported (exit code ${exitCode})`;
+	const clipped =
+		summary.length > MAX_SUMMARY_CHARS ? `${summary.slice(0, MAX_SUMMARY_CHARS)}…` : summary;
+	return `Iteration ${iteration}: ${clipped}`;
+}
+
+/**
+ * Block question for a story the stuck policy gave up on: what was tried,
+ * how the recent attempts ended, and what the user should decide
+ */
+export function formatStuckDiagnosis(
+	story: Story,
+	iterations: number,
+	escalationVariant?: string,
+): string {
+	const stages = story.stuckStagesTried ?? [];
+	const tried = [
+		stages.includes("replan") && "a re-plan prompt",
+		stages.includes("escalated") && escalationVariant && `the ${escalationVariant} variant`,
+	].filter(Boolean);
+	const attempts = story.attemptSummaries ?? [];
+	const feedback = story.answers?.length ? [] : story.questions;
+
+	return [
+		`${story.id} is stuck after ${iterations} iterations${tried.length > 0 ? ` (also tried ${tried.join(" and ")})` : ""}.`,
+		...(attempts.length > 0 ? ["Recent attempts:", ...attempts.map((a) => `- ${a}`)] : []),
+		...(feedback.length > 0 ? ["Open feedback:", ...feedback.map((f) => `- ${f}`)] : []),
+		"How should this story change (a hint, a narrower scope, or a split) before Ralph retries it?",
+	].join("\n");
+}
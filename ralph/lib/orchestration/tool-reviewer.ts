@@ -0,0 +1,170 @@
+/**
+ * Ralph Tool Reviewers
+ *
+ * Runs a reviewer's static-analysis command (biome, tsc, eslint, ...) and
+ * turns its output into review findings, so deterministic checks go through
+ * the same dedupe, fix, and todo-file flow as the agent reviewers. Output is
+ * SARIF 2.1.0 or a list of Ralph JSON findings:
+ *
+ * [{"file": "src/a.ts", "line": 3, "severity": "major", "message": "...", "rule": "no-unused-vars"}]
+ *
+ * A command exiting non-zero is expected when it finds problems; only output
+ * that cannot be parsed counts as a failure.
+ */
+
+import { isAbsolute, relative } from "node:path";
+import { ErrorCodes, err, ok, type Result } from "../results.js";
+import { validateToolFindings } from "../schemas.js";
+import type { ReviewFinding, ToolReviewerConfig, ToolReviewerFormat } from "../types.js";
+import { runShellCommand } from "./shell.js";
+
+/** Max characters of a failing tool command's output kept in the error */
+const MAX_TOOL_OUTPUT_CHARS = 2000;
+
+/** SARIF `level` to finding severity; SARIF's default level is `warning` */
+const SARIF_LEVEL_SEVERITY: Record<string, ReviewFinding["severity"]> = {
+	error: "major",
+	warning: "minor",
+	note: "suggestion",
+	none: "suggestion",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Turn a reported path or `file://` URI into a repo-relative path
+ */
+function toRepoPath(uri: string, repoRoot: string): string {
+	let path = uri;
+	if (path.startsWith("file://")) {
+		path = decodeURIComponent(path.slice("file://".length));
+	}
+	if (isAbsolute(path)) {
+		path = relative(repoRoot, path);
+	}
+	return path.replace(/^\.\//, "");
+}
+
+function describeIssue(message: string, rule?: string): string {
+	const text = message.replace(/\s+/g, " ").trim();
+	return rule ? `${text} (${rule})` : text;
+}
+
+/**
+ * Findings from a SARIF log. Results without a file location are skipped.
+ */
+export function parseSarifFindings(
+	sarif: unknown,
+	reviewType: string,
+	repoRoot: string,
+): Result<ReviewFinding[]> {
+	if (!isRecord(sarif) || !Array.isArray(sarif["runs"])) {
+		return err(ErrorCodes.SCRIPT_FAILED, "SARIF output has no `runs` list");
+	}
+
+	const findings: ReviewFinding[] = [];
+	for (const run of sarif["runs"]) {
+		if (!isRecord(run) || !Array.isArray(run["results"])) continue;
+		for (const result of run["results"]) {
+			if (!isRecord(result)) continue;
+			const message = isRecord(result["message"]) ? result["message"]["text"] : undefined;
+			const location = Array.isArray(result["locations"]) ? result["locations"][0] : undefined;
+			const physical = isRecord(location) ? location["physicalLocation"] : undefined;
+			const artifact = isRecord(physical) ? physical["artifactLocation"] : undefined;
+			const uri = isRecord(artifact) ? artifact["uri"] : undefined;
+			if (typeof message !== "string" || typeof uri !== "string") continue;
+
+			const region = isRecord(physical) ? physical["region"] : undefined;
+			const line = isRecord(region) ? region["startLine"] : undefined;
+			const level = typeof result["level"] === "string" ? result["level"] : "warning";
+			const rule = typeof result["ruleId"] === "string" ? result["ruleId"] : undefined;
+			findings.push({
+				severity: SARIF_LEVEL_SEVERITY[level] ?? "minor",
+				file: toRepoPath(uri, repoRoot),
+				...(typeof line === "number" ? { line } : {}),
+				issue: describeIssue(message, rule),
+				reviewer: reviewType,
+			});
+		}
+	}
+	return ok(findings);
+}
+
+/**
+ * Findings from a tool command's stdout in the given format
+ */
+export function parseToolFindings(
+	output: string,
+	format: ToolReviewerFormat,
+	reviewType: string,
+	repoRoot: string,
+): Result<ReviewFinding[]> {
+	if (!output.trim()) {
+		return ok([]);
+	}
+
+	let data: unknown;
+	try {
+		data = JSON.parse(output);
+	} catch (error) {
+		return err(
+			ErrorCodes.SCRIPT_FAILED,
+			`Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	if (format === "sarif") {
+		return parseSarifFindings(data, reviewType, repoRoot);
+	}
+
+	const validation = validateToolFindings(data);
+	if (!validation.success) {
+		return err(
+			ErrorCodes.SCRIPT_FAILED,
+			`Output is not a list of findings: ${validation.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ")}`,
+		);
+	}
+	return ok(
+		validation.data.map((f) => ({
+			severity: f.severity,
+			file: toRepoPath(f.file, repoRoot),
+			...(f.line !== undefined ? { line: f.line } : {}),
+			issue: describeIssue(f.message, f.rule),
+			reviewer: reviewType,
+		})),
+	);
+}
+
+/**
+ * Run a tool reviewer's command in `repoRoot` and parse its findings. With
+ * `changedFilesOnly`, findings outside `scope` are dropped.
+ */
+export async function runToolReviewer(
+	reviewType: string,
+	tool: ToolReviewerConfig,
+	repoRoot: string,
+	scope: string[],
+): Promise<Result<ReviewFinding[]>> {
+	const run = await runShellCommand(tool.command, {
+		cwd: repoRoot,
+		timeoutSeconds: tool.timeout,
+		maxOutputChars: MAX_TOOL_OUTPUT_CHARS,
+		keepStdout: true,
+	});
+	const stdout = run.stdout ?? "";
+	if (run.timedOut || (run.exitCode !== 0 && !stdout.trim())) {
+		return err(
+			ErrorCodes.SCRIPT_FAILED,
+			`Tool reviewer ${reviewType} exited with code ${run.exitCode}${run.output ? `: ${run.output}` : ""}`,
+		);
+	}
+
+	const parsed = parseToolFindings(stdout, tool.format, reviewType, repoRoot);
+	if (!parsed.ok) {
+		return err(ErrorCodes.SCRIPT_FAILED, `Tool reviewer ${reviewType}: ${parsed.error!.message}`);
+	}
+	const files = new Set(scope);
+	return ok(tool.changedFilesOnly ? parsed.data!.filter((f) => files.has(f.file)) : parsed.data!);
+}
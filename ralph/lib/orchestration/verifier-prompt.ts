@@ -0,0 +1,118 @@
+/**
+ * Ralph Story Verifier Prompt
+ *
+ * Prompt and output parser for the per-story verifier (spec FR-2). The
+ * verifier is a Ralph-owned orchestration step: the engine calls the
+ * configured provider variant directly after a story is marked completed.
+ */
+
+import type { Story, StoryVerificationCheck } from "../types.js";
+
+/** Max diff characters embedded in the verifier prompt */
+const MAX_DIFF_CHARS = 60000;
+
+/**
+ * Parsed verifier output
+ */
+export interface StoryVerifierOutput {
+	result: "pass" | "fail" | "unknown";
+	checks: StoryVerificationCheck[];
+}
+
+/**
+ * Generate the story verifier prompt.
+ *
+ * @param story - Story being verified
+ * @param storyFileContent - Full content of `stories/<id>.md`
+ * @param acceptanceCriteria - Items parsed from `## Acceptance Criteria`
+ * @param gitDiff - `git diff <story-start-sha>..HEAD`
+ */
+export function generateStoryVerifierPrompt(
+	story: Story,
+	storyFileContent: string,
+	acceptanceCriteria: string[],
+	gitDiff: string,
+): string {
+	const checklist = acceptanceCriteria.map((ac, i) => `${i + 1}. ${ac}`).join("\n");
+	const diff = gitDiff.trim()
+		? `${gitDiff.slice(0, MAX_DIFF_CHARS)}${gitDiff.length > MAX_DIFF_CHARS ? "\n...(truncated)" : ""}`
+		: "(empty diff — no committed changes since the story started)";
+
+	return `<Role>
+Story verifier. You check whether a single completed story satisfies each of its acceptance criteria, using only the story file and the diff below. You do not modify code.
+</Role>
+
+<Story>
+**Story:** ${story.id} — ${story.title}
+
+\`\`\`markdown
+${storyFileContent.trim()}
+\`\`\`
+</Story>
+
+<Acceptance_Criteria>
+${checklist}
+</Acceptance_Criteria>
+
+<Diff>
+\`\`\`diff
+${diff}
+\`\`\`
+</Diff>
+
+<Instructions>
+1. Evaluate every acceptance criterion above, in order, against the diff
+2. A criterion passes only when the diff contains concrete evidence for it (file, symbol, or test)
+3. Behavioral checks that need a running app are out of scope — pass them if the code for them is present
+4. Do not run commands that modify the working tree
+</Instructions>
+
+<Output_Format>
+Emit one self-closing \`<check>\` tag per criterion, using the criterion number as \`id\`. Keep \`evidence\` to one sentence and avoid double quotes inside it:
+
+\`\`\`
+<check id="1" status="pass" evidence="src/auth.ts adds validateToken()"/>
+<check id="2" status="fail" evidence="No test covers the expired-token branch"/>
+\`\`\`
+
+Then emit the overall verdict — PASS only when every check passes:
+
+\`\`\`
+<verification-result>PASS</verification-result>
+\`\`\`
+or
+\`\`\`
+<verification-result>FAIL</verification-result>
+\`\`\`
+</Output_Format>
+`;
+}
+
+/**
+ * Parse `<check .../>` tags and the `<verification-result>` signal from verifier output.
+ * A FAIL check overrides a PASS verdict.
+ */
+export function parseStoryVerifierOutput(output: string): StoryVerifierOutput {
+	const checks: StoryVerificationCheck[] = [];
+	for (const match of output.matchAll(/<check\s+([^>]*?)\/?>/gi)) {
+		const attrs = match[1] ?? "";
+		const id = attrs.match(/\bid\s*=\s*"([^"]*)"/i)?.[1];
+		const status = attrs.match(/\bstatus\s*=\s*"([^"]*)"/i)?.[1]?.toLowerCase();
+		const evidence = attrs.match(/\bevidence\s*=\s*"([^"]*)"/i)?.[1] ?? "";
+		if (!id || (status !== "pass" && status !== "fail")) continue;
+		checks.push({ id, status, evidence: evidence.trim() });
+	}
+
+	const verdict = output.match(/<verification-result>\s*(PASS|FAIL)\s*<\/verification-result>/i);
+	let result: StoryVerifierOutput["result"] = verdict?.[1]
+		? verdict[1].toUpperCase() === "PASS"
+			? "pass"
+			: "fail"
+		: "unknown";
+
+	if (result === "pass" && checks.some((c) => c.status === "fail")) {
+		result = "fail";
+	}
+
+	return { result, checks };
+}
@@ -0,0 +1,57 @@
+/**
+ * Ralph Planning
+ *
+ * Checks what a planner agent wrote for `ralph plan`: the PRD must pass
+ * `ralph lint` without errors and every story must still be pending. Each
+ * problem is phrased so it can be handed back to the planner as is.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { type LintOptions, lintPRDDirectory } from "./lint.js";
+import { validatePRD } from "./schemas.js";
+
+/** progress.txt for a freshly planned PRD */
+export const INITIAL_PROGRESS = `## Codebase Patterns
+
+(Patterns discovered during implementation will be added here)
+
+---
+
+## Progress Log
+`;
+
+/**
+ * Check a planned PRD directory. Returns the problems found; an empty list
+ * means the PRD is ready to start. Lint errors count as problems, lint
+ * warnings do not.
+ */
+export function checkPlannedPRD(prdDir: string, prdName: string, options: LintOptions): string[] {
+	const prdPath = join(prdDir, "prd.json");
+	if (!existsSync(prdPath)) {
+		return ["prd.json was not written"];
+	}
+
+	const problems = lintPRDDirectory(prdDir, prdName, options)
+		.filter((issue) => issue.severity === "error")
+		.map((issue) => `${issue.file}: ${issue.message}`);
+
+	let data: unknown;
+	try {
+		data = JSON.parse(readFileSync(prdPath, "utf-8"));
+	} catch {
+		// Already reported by lint
+		return problems;
+	}
+	const validation = validatePRD(data);
+	if (validation.success) {
+		for (const story of validation.data.stories) {
+			if (story.status !== "pending") {
+				problems.push(
+					`prd.json: story ${story.id}: \`status\` must be "pending", got "${story.status}"`,
+				);
+			}
+		}
+	}
+	return problems;
+}
@@ -11,14 +11,19 @@ import { existsSync } from "node:fs";
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import { getStatusDir } from "./core/paths.js";
+import { formatRalphResultInstructions } from "./ralph-result.js";
 import { findPRDLocation, getPRD, getProgress, getSpec } from "./state.js";
-import type { PRD, Story } from "./types.js";
+import type { HookOutput, PRD, Story } from "./types.js";
 
 const DEFAULT_DOCS_GLOB = "docs/**/*.md";
 
+const SPLIT_FIELD_INSTRUCTIONS =
+	'list 2 or more sub-stories in a `split` array, in implementation order: `{"title": "...", "goal": "...", "scope": ["..."], "outOfScope": ["..."], "deliverables": ["..."], "acceptanceCriteria": ["..."], "suggestedFiles": ["..."]}`';
+
 /**
  * Generate a prompt for the dev agent. The story file is loaded verbatim
  * and becomes the bulk of the prompt; the header is intentionally minimal.
+ * `hookOutputs` are `[ralph.hooks]` results the agent has not seen yet.
  */
 export async function generatePrompt(
 	projectName: string,
@@ -26,6 +31,7 @@ export async function generatePrompt(
 	prd: PRD,
 	story: Story,
 	prdName: string,
+	hookOutputs: HookOutput[] = [],
 ): Promise<string> {
 	const prdStatus = findPRDLocation(projectName, repoRoot, prdName) ?? "pending";
 	const prdDir = `${getStatusDir(projectName, repoRoot, prdStatus)}/${prdName}`;
@@ -58,6 +64,27 @@ export async function generatePrompt(
 		}
 	}
 
+	// Stuck policy escalation: ask for a re-plan informed by the failed attempts
+	let stuckText = "";
+	if (story.stuckStage) {
+		stuckText = `\n\n**You are stuck:** ${story.id} has used ${story.iterationCount ?? 0} iterations without finishing. Do not retry the previous approach. Re-read the acceptance criteria, work out why the earlier attempts failed, choose a different plan, and record it in progress.txt before writing code. If the story cannot be done as written, report \`blocked\` with concrete questions.\n`;
+		const attempts = story.attemptSummaries ?? [];
+		if (attempts.length > 0) {
+			stuckText += "\n**Last attempts (oldest first):**\n";
+			for (const summary of attempts) {
+				stuckText += `  - ${summary}\n`;
+			}
+		}
+	}
+
+	let hookText = "";
+	if (hookOutputs.length > 0) {
+		hookText = "\n\n**Hook output since your last iteration:**\n";
+		for (const run of hookOutputs) {
+			hookText += `\n\`${run.hook}\`${run.storyId ? ` (${run.storyId})` : ""} exited with code ${run.exitCode}${run.exitCode !== 0 ? " and vetoed the transition" : ""}:\n\`\`\`\n${run.output}\n\`\`\`\n`;
+		}
+	}
+
 	const otherStories = prd.stories
 		.filter((s) => s.id !== story.id)
 		.map((s) => `  - ${s.id}: ${s.title} [${s.status}]`)
@@ -78,7 +105,7 @@ ${otherStories || "  (none)"}
 **Recent progress (last 20 lines of progress.txt):**
 \`\`\`
 ${recentProgress || "(no progress yet)"}
-\`\`\`${questionsAnswersText}
+\`\`\`${questionsAnswersText}${stuckText}${hookText}
 </Context>
 
 <Current_Story>
@@ -160,14 +187,9 @@ Add an entry to progress.txt:
 ---
 \`\`\`
 
-### 7. Check for Completion
-
-If ALL stories have \`status: "completed"\`, reply with:
-\`\`\`
-<promise>COMPLETE</promise>
-\`\`\`
+### 7. Report Result
 
-Otherwise, end your response normally. Ralph will spawn the next iteration.
+End your response with a \`<ralph-result>\` block (see Output_Format). Ralph reads prd.json to decide whether every story is complete and spawns the next iteration otherwise.
 
 </Workflow>
 
@@ -182,21 +204,176 @@ Otherwise, end your response normally. Ralph will spawn the next iteration.
 
 <Output_Format>
 
-### Completion signal
+${formatRalphResultInstructions({
+	completed: `${story.id} is implemented, committed, and marked \`completed\` in prd.json`,
+	blocked: `you cannot complete ${story.id} (unclear requirements, missing dependencies); put your questions in \`questions\` and also set \`status: "blocked"\` plus the \`questions\` array on the story in prd.json`,
+	split: `${story.id} is too large to finish in one iteration (for example, you are running out of context); commit any finished work and ${SPLIT_FIELD_INSTRUCTIONS}`,
+})}
 
-After completing the story, if ALL stories have \`status: "completed"\`:
-\`\`\`
-<promise>COMPLETE</promise>
+Ralph stops on \`blocked\` and presents the questions to the user. On \`split\`, Ralph replaces ${story.id} with the sub-stories and continues with the first one.
+
+</Output_Format>
+`;
+}
+
+/**
+ * Generate a prompt asking an agent to propose a split of one story into
+ * sub-stories (`ralph prd <name> --split <story>`). The agent only plans;
+ * Ralph writes the story files.
+ */
+export async function generateSplitPrompt(
+	projectName: string,
+	repoRoot: string,
+	prd: PRD,
+	story: Story,
+	prdName: string,
+): Promise<string> {
+	const prdStatus = findPRDLocation(projectName, repoRoot, prdName) ?? "pending";
+	const prdDir = `${getStatusDir(projectName, repoRoot, prdStatus)}/${prdName}`;
+	const storyFilePath = join(prdDir, story.promptPath);
+	const storyFileContent = existsSync(storyFilePath) ? await readFile(storyFilePath, "utf-8") : "";
+
+	return `<Role>
+Planning agent for a Ralph-managed PRD. You split one story that is too large for a single agent iteration into smaller sub-stories. You do not write code.
+</Role>
+
+<Context>
+**PRD:** ${prd.name} — ${prd.description}
+
+**Spec file:** \`${prdDir}/spec.md\`
+</Context>
+
+<Story_To_Split>
+Story file: \`${storyFilePath}\`
+
+${storyFileContent || `${story.id}: ${story.title}`}
+</Story_To_Split>
+
+<Instructions>
+- Read the spec and the codebase as needed, but do not modify any files
+- Each sub-story must be finishable in one iteration and leave checks green
+- Together, the sub-stories must cover every acceptance criterion of ${story.id}
+- Order them so each one builds only on the ones before it
+</Instructions>
+
+<Output_Format>
+
+${formatRalphResultInstructions({
+	split: SPLIT_FIELD_INSTRUCTIONS,
+	blocked: `${story.id} should not be split; explain why in \`questions\``,
+})}
+
+</Output_Format>
+`;
+}
+
+/**
+ * Generate a prompt for the planner agent behind `ralph plan`: turn spec.md
+ * into prd.json and `stories/<id>.md`. `problems` are what the previous
+ * attempt got wrong; the planner fixes the files it already wrote.
+ */
+export async function generatePlanPrompt(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	problems: string[] = [],
+): Promise<string> {
+	const prdStatus = findPRDLocation(projectName, repoRoot, prdName) ?? "pending";
+	const prdDir = `${getStatusDir(projectName, repoRoot, prdStatus)}/${prdName}`;
+	const spec = await getSpec(projectName, repoRoot, prdName);
+
+	const problemsSection =
+		problems.length > 0
+			? `
+<Problems_To_Fix>
+Your previous attempt wrote files that Ralph rejected. Fix every problem below in place; keep everything that was already right.
+
+${problems.map((p) => `- ${p}`).join("\n")}
+</Problems_To_Fix>
+`
+			: "";
+
+	return `<Role>
+Planning agent for a Ralph-managed PRD. You break an approved spec into stories an agent can implement one iteration at a time. You do not write code.
+</Role>
+
+<Context>
+**PRD:** ${prdName}
+
+**PRD directory:** \`${prdDir}\`
+
+**Spec (\`${prdDir}/spec.md\`):**
+
+${spec}
+</Context>
+${problemsSection}
+<Instructions>
+1. Explore the codebase as needed to understand where the feature fits. Do not modify the spec or any code.
+2. Run the \`spec-reviewer\` subagent on the spec. If it finds CRITICAL issues that make the spec impossible to plan, stop and report \`blocked\` with the issues as \`questions\`.
+3. Write \`${prdDir}/prd.json\` and one \`${prdDir}/stories/<id>.md\` per story, in the formats below.
+4. Run the \`prd-reviewer\` subagent on spec.md together with prd.json and the story files. Revise the files until it returns READY TO PROCEED.
+
+Story breakdown:
+- 5-10 stories is typical; each must be completable in one iteration and leave checks green
+- Foundational work first; a story's \`dependencies\` list the story ids it builds on
+- Acceptance criteria must be verifiable
+- If the feature changes behavior, APIs, configuration, commands, or workflows, end with a story that updates the affected docs
+</Instructions>
+
+<PRD_JSON_Format>
+\`\`\`json
+{
+  "name": "${prdName}",
+  "description": "Brief description of the feature",
+  "createdAt": "${new Date().toISOString()}",
+  "dependencies": [],
+  "stories": [
+    { "id": "US-001", "title": "Story title", "promptPath": "stories/US-001.md", "status": "pending", "priority": 1, "questions": [] }
+  ]
+}
 \`\`\`
 
-### Blocked signal
+- \`createdAt\` is an ISO-8601 UTC datetime ending in \`Z\`
+- Every story has \`status: "pending"\`, a positive integer \`priority\`, and a \`promptPath\` to its story file
+- Acceptance criteria never go in prd.json
+- \`dependencies\` at the top level names other PRDs that must be completed first
+</PRD_JSON_Format>
 
-If you cannot complete a story (unclear requirements, missing dependencies):
+<Story_File_Format>
+\`\`\`markdown
+---
+id: US-001
+title: Story title
+priority: 1
+dependencies: []
+---
+
+## Goal
+One-sentence outcome for this story.
+
+## Scope
+- What this story changes
+
+## Out of scope
+- Anything deliberately left for a later story
+
+## Deliverables
+1. Concrete artifact
+
+## Acceptance Criteria
+- [ ] Verifiable criterion
+- [ ] Tests, typecheck, and lint pass
+\`\`\`
+</Story_File_Format>
+
+<Output_Format>
 
-1. Set \`status: "blocked"\` in the story
-2. Add questions to the \`questions\` array in prd.json
+${formatRalphResultInstructions({
+	completed: "prd.json and every story file are written and the prd-reviewer approved them",
+	blocked: "the spec cannot be planned as written; list what must be clarified in `questions`",
+})}
 
-Ralph will stop and present the questions to the user.
+Ralph validates prd.json and the story files after you finish and sends you back with any problems it finds.
 
 </Output_Format>
 `;
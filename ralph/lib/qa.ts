@@ -10,20 +10,31 @@
  *      inject the capability's `ralph-qa.md` verbatim. Skipped entirely when
  *      no platforms declare a plugin.
  *
- * Both steps must emit `<qa-result>PRD_VERIFIED</qa-result>` for the PRD to
- * advance to `completed`.
+ * Both steps must report `verified` (in a `<ralph-result>` block, or the
+ * legacy `<qa-result>PRD_VERIFIED</qa-result>` tag) for the PRD to advance
+ * to `completed`.
  */
 
 import { existsSync } from "node:fs";
 import { readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { getStatusDir } from "./core/paths.js";
+import {
+	formatRalphResultInstructions,
+	parseRalphResultFor,
+	parseRalphResults,
+} from "./ralph-result.js";
 import { findPRDLocation, getPRD, getProgress, getQAResultsDir, getSpec } from "./state.js";
 import type { PRD, QAReport, QAResult, RalphConfig } from "./types.js";
 import { getVerification } from "./verification.js";
 
 const DEFAULT_DOCS_GLOB = "docs/**/*.md";
 
+const QA_RESULT_INSTRUCTIONS = formatRalphResultInstructions({
+	verified: "every check passed",
+	failed: "one or more checks failed; list each failure in `issues`",
+});
+
 /**
  * Resolve the capability root used to locate QA plugins.
  * `OMNIDEV_CAPABILITIES_ROOT` wins; otherwise falls back to the parent
@@ -229,7 +240,7 @@ Append a new entry:
 
 ### 2. Run project quality checks first
 
-Lint, typecheck, tests, formatting. If any fail, document and report QA_FAILED.
+Lint, typecheck, tests, formatting. If any fail, document and report \`failed\`.
 
 ### 3. Verify the happy path
 
@@ -242,7 +253,7 @@ Go through the verification checklist systematically:
 
 - Check the affected files under **${DEFAULT_DOCS_GLOB}**
 - Confirm behavior, commands, config, APIs, and workflows introduced by this PRD are documented where needed
-- If docs are missing or stale, report QA_FAILED
+- If docs are missing or stale, report \`failed\`
 - Update the documentation-related checkboxes in verification.md
 
 ### 5. Probe for failures (edge cases)
@@ -269,31 +280,19 @@ Complete the QA session entry. Be specific: what input caused what failure.
 
 ### 8. Output final signal
 
-PRD_VERIFIED only if happy path, documentation checks, and edge cases all pass.
+Report \`verified\` only if happy path, documentation checks, and edge cases all pass.
 
 </Investigation_Protocol>
 
 <Output_Format>
 
 These signals determine PRD state transitions:
-- \`<qa-result>PRD_VERIFIED</qa-result>\` → PRD moves to completed
-- \`<qa-result>QA_FAILED</qa-result>\` → fix story created, PRD moves back to in_progress
-
-Create a detailed report, then output your signal:
+- \`verified\` → PRD moves to completed
+- \`failed\` → fix story created from \`issues\`, PRD moves back to in_progress
 
-**If ALL checks pass:**
-\`\`\`
-<qa-result>PRD_VERIFIED</qa-result>
-\`\`\`
+Create a detailed report, then output your result block.
 
-**If ANY checks fail:**
-\`\`\`
-<qa-result>QA_FAILED</qa-result>
-<issues>
-- Issue description 1
-- Issue description 2
-</issues>
-\`\`\`
+${QA_RESULT_INSTRUCTIONS}
 
 ### Example report
 
@@ -324,13 +323,13 @@ Create a detailed report, then output your signal:
 </Output_Format>
 
 <Circuit_Breaker>
-If quality checks fail 3 times in a row, stop retrying and report QA_FAILED with a summary of what's failing and why, rather than looping indefinitely.
+If quality checks fail 3 times in a row, stop retrying and report \`failed\` with a summary of what's failing and why, rather than looping indefinitely.
 </Circuit_Breaker>
 
 <Failure_Modes_To_Avoid>
 - **Happy-path-only QA** — verifying the feature "works" without probing edge cases misses the bugs users will hit
 - **Untraceable results** — always update progress.txt and verification.md so the next developer (or fix agent) knows what was verified
-- **Missing signal** — the orchestrator needs the \`<qa-result>\` signal to proceed; omitting it requires manual intervention
+- **Missing signal** — the orchestrator needs the \`<ralph-result>\` block to proceed; omitting it requires manual intervention
 </Failure_Modes_To_Avoid>
 `;
 }
@@ -398,29 +397,26 @@ ${platformSections}
 
 <Output_Format>
 
-Run the platform-specific QA passes above. When done, output exactly one signal:
+Run the platform-specific QA passes above. When done, output your result block (\`verified\` only if every platform pass succeeds).
 
-**If every platform pass succeeds:**
-\`\`\`
-<qa-result>PRD_VERIFIED</qa-result>
-\`\`\`
-
-**If any platform pass fails:**
-\`\`\`
-<qa-result>QA_FAILED</qa-result>
-<issues>
-- Issue description 1
-- Issue description 2
-</issues>
-\`\`\`
+${QA_RESULT_INSTRUCTIONS}
 </Output_Format>
 `;
 }
 
 /**
- * Detect QA result signal from agent output
+ * Detect QA result signal from agent output.
+ * Reads `<ralph-result>` blocks first (any `failed` block wins, since step 1
+ * and step 2 output are combined), then the legacy `<qa-result>` tag.
  */
 export function detectQAResult(output: string): "verified" | "failed" | null {
+	const statuses = parseRalphResults(output).map((r) => r.status);
+	if (statuses.includes("failed")) {
+		return "failed";
+	}
+	if (statuses.includes("verified")) {
+		return "verified";
+	}
 	if (output.includes("<qa-result>PRD_VERIFIED</qa-result>")) {
 		return "verified";
 	}
@@ -431,9 +427,14 @@ export function detectQAResult(output: string): "verified" | "failed" | null {
 }
 
 /**
- * Detect healthcheck fix result signal from agent output
+ * Detect healthcheck fix result signal from agent output.
+ * Reads the `<ralph-result>` block first, then the legacy `<healthcheck-result>` tag.
  */
 export function detectHealthCheckResult(output: string): "fixed" | "not_fixable" | null {
+	const result = parseRalphResultFor(output, ["fixed", "not_fixable"] as const);
+	if (result) {
+		return result.status;
+	}
 	if (output.includes("<healthcheck-result>FIXED</healthcheck-result>")) {
 		return "fixed";
 	}
@@ -444,9 +445,14 @@ export function detectHealthCheckResult(output: string): "fixed" | "not_fixable"
 }
 
 /**
- * Extract issues from agent output
+ * Extract issues from agent output (`<ralph-result>` issues, else the legacy `<issues>` list)
  */
 export function extractIssues(output: string): string[] {
+	const reportedIssues = parseRalphResults(output).flatMap((r) => r.issues);
+	if (reportedIssues.length > 0) {
+		return reportedIssues;
+	}
+
 	const match = output.match(/<issues>([\s\S]*?)<\/issues>/);
 	const issuesContent = match?.[1];
 	if (!issuesContent) return [];
@@ -669,21 +675,9 @@ ${qaInstructions ? `**QA instructions:** ${qaInstructions}\n` : ""}
 
 <Output_Format>
 
-These signals determine PRD state transitions. The orchestrator parses them to decide whether to complete or loop back for fixes.
+The result block determines PRD state transitions. The orchestrator parses it to decide whether to complete or loop back for fixes (\`verified\` only if ALL previously failed items are now fixed).
 
-**If ALL previously failed items are now fixed:**
-\`\`\`
-<qa-result>PRD_VERIFIED</qa-result>
-\`\`\`
-
-**If ANY items still fail:**
-\`\`\`
-<qa-result>QA_FAILED</qa-result>
-<issues>
-- Issue description 1
-- Issue description 2
-</issues>
-\`\`\`
+${QA_RESULT_INSTRUCTIONS}
 
 </Output_Format>
 
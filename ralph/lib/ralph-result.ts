@@ -0,0 +1,92 @@
+/**
+ * Ralph Result Protocol
+ *
+ * Machine-readable completion signal shared by every agent Ralph spawns:
+ *
+ * <ralph-result>
+ * {"version": 1, "status": "completed", "summary": "...", "files": [], "questions": [], "issues": []}
+ * </ralph-result>
+ *
+ * Parsers for the legacy per-phase tags (`<promise>`, `<qa-result>`,
+ * `<healthcheck-result>`, `<review-result>`, `<doc-update-result>`) remain as
+ * a fallback when no valid block is present.
+ */
+
+import { validateRalphResult } from "./schemas.js";
+import type { RalphResult, RalphResultStatus } from "./types.js";
+
+/** Current protocol version */
+export const RALPH_RESULT_VERSION = 1;
+
+/**
+ * Parse every valid `<ralph-result>` block from agent output, in order.
+ * Blocks with malformed JSON or an invalid payload are skipped.
+ */
+export function parseRalphResults(output: string): RalphResult[] {
+	const results: RalphResult[] = [];
+
+	for (const match of output.matchAll(/<ralph-result>([\s\S]*?)<\/ralph-result>/gi)) {
+		const body = (match[1] ?? "")
+			.trim()
+			.replace(/^```(?:json)?\s*/i, "")
+			.replace(/\s*```$/, "");
+		try {
+			const validation = validateRalphResult(JSON.parse(body));
+			if (validation.success) {
+				results.push(validation.data as RalphResult);
+			}
+		} catch {
+			// Malformed JSON - ignore this block
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Parse the last valid `<ralph-result>` block from agent output, or null
+ */
+export function parseRalphResult(output: string): RalphResult | null {
+	return parseRalphResults(output).at(-1) ?? null;
+}
+
+/**
+ * Parse a `<ralph-result>` block and keep it only if its status is one the phase accepts
+ */
+export function parseRalphResultFor<S extends RalphResultStatus>(
+	output: string,
+	statuses: readonly S[],
+): (RalphResult & { status: S }) | null {
+	const result = parseRalphResult(output);
+	if (!result || !(statuses as readonly RalphResultStatus[]).includes(result.status)) {
+		return null;
+	}
+	return result as RalphResult & { status: S };
+}
+
+/**
+ * Prompt section instructing an agent to end with a `<ralph-result>` block.
+ *
+ * @param statuses - Allowed statuses for this phase, mapped to their meaning
+ */
+export function formatRalphResultInstructions(
+	statuses: Partial<Record<RalphResultStatus, string>>,
+): string {
+	const entries = Object.entries(statuses) as Array<[RalphResultStatus, string]>;
+	const example = entries[0]?.[0] ?? "completed";
+
+	return `### Result block
+
+End your response with exactly one \`<ralph-result>\` block containing JSON (protocol version ${RALPH_RESULT_VERSION}):
+
+\`\`\`
+<ralph-result>
+{"version": ${RALPH_RESULT_VERSION}, "status": "${example}", "summary": "One-paragraph summary", "files": ["path/to/changed-file.ts"], "questions": [], "issues": []}
+</ralph-result>
+\`\`\`
+
+\`status\` must be one of:
+${entries.map(([status, meaning]) => `- \`${status}\` — ${meaning}`).join("\n")}
+
+\`files\` lists files you created or modified, \`questions\` holds questions for the user, and \`issues\` lists problems found. Use empty arrays when there is nothing to report.`;
+}
@@ -47,9 +47,15 @@ export const ErrorCodes = {
 	PRD_ALREADY_EXISTS: "PRD_ALREADY_EXISTS",
 	PRD_INVALID_STATUS: "PRD_INVALID_STATUS",
 	PRD_BLOCKED: "PRD_BLOCKED",
+	STORY_DEPENDENCY_INVALID: "STORY_DEPENDENCY_INVALID",
+	STORY_SPLIT_INVALID: "STORY_SPLIT_INVALID",
+	STORY_NOT_BLOCKED: "STORY_NOT_BLOCKED",
+	ANSWERS_INVALID: "ANSWERS_INVALID",
+	FINDING_NOT_FOUND: "FINDING_NOT_FOUND",
 
 	// Agent errors
 	AGENT_NOT_FOUND: "AGENT_NOT_FOUND",
+	REVIEWER_NOT_FOUND: "REVIEWER_NOT_FOUND",
 	AGENT_FAILED: "AGENT_FAILED",
 	AGENT_TIMEOUT: "AGENT_TIMEOUT",
 
@@ -97,7 +103,14 @@ export interface StartResult {
 	prdName: string;
 	status: PRDStatus;
 	displayState: PRDDisplayState;
-	outcome: "moved_to_qa" | "blocked" | "max_iterations" | "interrupted" | "error";
+	outcome:
+		| "moved_to_qa"
+		| "blocked"
+		| "max_iterations"
+		| "budget_exceeded"
+		| "hook_vetoed"
+		| "interrupted"
+		| "error";
 	message: string;
 	storiesCompleted: number;
 	storiesRemaining: number;
@@ -112,7 +125,14 @@ export interface QAStartResult {
 	prdName: string;
 	status: PRDStatus;
 	displayState: PRDDisplayState;
-	outcome: "verified" | "failed" | "unknown" | "health_check_failed" | "error";
+	outcome:
+		| "verified"
+		| "failed"
+		| "unknown"
+		| "health_check_failed"
+		| "budget_exceeded"
+		| "hook_vetoed"
+		| "error";
 	message: string;
 	issues?: string[];
 	report?: QAReport;
@@ -138,6 +158,19 @@ export interface StateResult {
 	canMerge: boolean;
 }
 
+/**
+ * Result of answering, skipping, or rewriting a blocked story
+ */
+export interface AnswerResult {
+	prdName: string;
+	storyId: string;
+	action: "answer" | "skip" | "rewrite";
+	/** For a skip, the unfinished stories that now start without the skipped one */
+	dependents: string[];
+	/** PRD state after the response; `canStart` is true once no story is blocked */
+	state: StateResult;
+}
+
 /**
  * Transition validation
  */
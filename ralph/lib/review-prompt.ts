@@ -1,32 +1,36 @@
 /**
  * Ralph Review Prompt Generator
  *
- * Generates prompts for review agents, fix agents, external review,
- * and finalize steps. Parses review results from agent output.
+ * Generates prompts for review agents, fix agents, fix re-checks, external
+ * review, and finalize steps. Parses review results from agent output.
  */
 
-import { readFile } from "node:fs/promises";
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
+import { fingerprintFinding } from "./findings.js";
+import { formatRalphResultInstructions, parseRalphResultFor } from "./ralph-result.js";
+import { loadReviewerDefinition } from "./reviewers.js";
 import {
 	findPRDLocation,
 	getSpec,
 	getStoryFilePath,
 	readStoryAcceptanceCriteria,
 } from "./state.js";
-import type { PRD, ReviewFinding, ReviewRoundResult } from "./types.js";
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const SUBAGENTS_DIR = join(__dirname, "..", "subagents", "review");
-
-/**
- * Load a subagent prompt from the review subagent directory.
- * Reads from subagents/review/<type>/prompt.md (agent.toml + prompt.md format).
- */
-async function loadSubagentDefinition(reviewType: string): Promise<string> {
-	const filePath = join(SUBAGENTS_DIR, reviewType, "prompt.md");
-	return (await readFile(filePath, "utf-8")).trim();
-}
+import type {
+	FindingVerdict,
+	PRD,
+	RecheckResult,
+	ReviewFinding,
+	ReviewRoundResult,
+} from "./types.js";
+
+const REVIEW_RESULT_INSTRUCTIONS = formatRalphResultInstructions({
+	approve: "no CRITICAL or MAJOR findings remain",
+	request_changes: "at least one finding must be fixed before merging",
+});
+
+const FIX_RESULT_INSTRUCTIONS = formatRalphResultInstructions({
+	completed: "all findings are fixed (or skipped as false positives) and committed",
+	blocked: "a finding cannot be fixed without user input — list what you need in `questions`",
+});
 
 /**
  * Build a combined acceptance criteria section for a PRD by reading each
@@ -65,7 +69,11 @@ export async function generateReviewPrompt(
 	gitDiff: string,
 	isSecondReview: boolean,
 ): Promise<string> {
-	const agentDefinition = await loadSubagentDefinition(reviewType);
+	const reviewer = loadReviewerDefinition(repoRoot, reviewType);
+	if (!reviewer.ok) {
+		throw new Error(reviewer.error!.message);
+	}
+	const agentDefinition = reviewer.data!.prompt;
 	const prdStatus = findPRDLocation(projectName, repoRoot, prdName) ?? "in_progress";
 
 	let specContent = "";
@@ -100,10 +108,12 @@ ${acceptanceCriteria}
 
 **Git Diff (changes to review):**
 \`\`\`diff
-${gitDiff.slice(0, 50000)}${gitDiff.length > 50000 ? "\n...(truncated)" : ""}
+${gitDiff}
 \`\`\`
 </Review_Context>
 
+${REVIEW_RESULT_INSTRUCTIONS}
+
 Begin your review now.
 `;
 }
@@ -151,13 +161,14 @@ ${findingsList}
    npm test
    \`\`\`
 4. Commit with message: \`fix: [review] resolve code review findings for ${prdName}\`
-5. Signal completion:
-   \`\`\`
-   <promise>COMPLETE</promise>
-   \`\`\`
+5. Report the result block described below
 
 </Workflow>
 
+<Output_Format>
+${FIX_RESULT_INSTRUCTIONS}
+</Output_Format>
+
 <Constraints>
 - Fix only the listed findings — do not refactor surrounding code
 - If a finding is a false positive (the code is actually correct), skip it and note why
@@ -167,6 +178,71 @@ ${findingsList}
 `;
 }
 
+/**
+ * Generate a prompt for a reviewer to re-check its own findings against the
+ * diff of the fix that was meant to resolve them
+ */
+export function generateRecheckPrompt(
+	prdName: string,
+	prd: PRD,
+	reviewType: string,
+	findings: ReviewFinding[],
+	fixDiff: string,
+): string {
+	const findingsList = findings
+		.map(
+			(f) =>
+				`- ${fingerprintFinding(f)} [${f.severity.toUpperCase()}] ${f.file}${f.line ? `:${f.line}` : ""} — ${f.issue}`,
+		)
+		.join("\n");
+
+	return `# Fix Re-check: ${prdName} (${reviewType})
+
+<Role>
+You reviewed this PRD's changes as the ${reviewType} reviewer and reported the findings below. A fix agent has since tried to resolve them. Decide for each finding whether it is resolved, and check the fix for new problems.
+</Role>
+
+<Context>
+**PRD:** ${prd.name} — ${prd.description}
+</Context>
+
+<Findings_To_Recheck>
+${findingsList}
+</Findings_To_Recheck>
+
+<Fix_Diff>
+\`\`\`diff
+${fixDiff}
+\`\`\`
+</Fix_Diff>
+
+<Output_Format>
+Give one verdict per finding, by ID:
+
+<recheck-verdicts>
+- F-1a2b3c4d: RESOLVED - how the fix addresses it
+- F-5e6f7a8b: UNRESOLVED - what is still wrong
+</recheck-verdicts>
+
+Then list problems the fix diff introduced, leaving the block empty if there are none:
+
+<review-findings>
+- [MAJOR] file.ts:42 - Description of the issue
+</review-findings>
+
+A finding without a verdict counts as unresolved.
+
+${REVIEW_RESULT_INSTRUCTIONS}
+</Output_Format>
+
+<Constraints>
+- Judge only the listed findings and the changes in the fix diff; do not re-review the rest of the PRD
+- Read the current code when the diff alone does not settle a verdict
+- RESOLVED means the problem is gone, not moved elsewhere or silenced
+</Constraints>
+`;
+}
+
 /**
  * Generate a prompt for external review tools (codex, etc.)
  */
@@ -190,7 +266,7 @@ ${acceptanceCriteria}
 ## Code Changes
 
 \`\`\`diff
-${gitDiff.slice(0, 50000)}${gitDiff.length > 50000 ? "\n...(truncated)" : ""}
+${gitDiff}
 \`\`\`
 
 ## Review Focus
@@ -210,6 +286,8 @@ List any issues found using this format:
 - [SUGGESTION] file.ts:150 - Description of the issue
 
 If no issues are found, respond with "APPROVE - no issues found."
+
+${REVIEW_RESULT_INSTRUCTIONS}
 `;
 }
 
@@ -224,10 +302,9 @@ export function generateFinalizePrompt(prdName: string, prd: PRD, customPrompt?:
 
 ${customPrompt}
 
-When done, signal completion:
-\`\`\`
-<promise>COMPLETE</promise>
-\`\`\`
+When done, report the result:
+
+${FIX_RESULT_INSTRUCTIONS}
 `;
 	}
 
@@ -248,16 +325,16 @@ Perform final cleanup on the codebase after code review:
    \`\`\`
 4. If changes were made, commit with: \`chore: [${prdName}] finalize after review\`
 
-When done, signal completion:
-\`\`\`
-<promise>COMPLETE</promise>
-\`\`\`
+When done, report the result:
+
+${FIX_RESULT_INSTRUCTIONS}
 `;
 }
 
 /**
  * Parse review result from agent output.
- * Handles both structured XML output and freeform text.
+ * The decision comes from the `<ralph-result>` block, then the legacy
+ * `<review-result>` tag; findings are parsed from structured or freeform text.
  */
 export function parseReviewResult(output: string, reviewType: string): ReviewRoundResult {
 	const result: ReviewRoundResult = {
@@ -266,11 +343,15 @@ export function parseReviewResult(output: string, reviewType: string): ReviewRou
 		findings: [],
 	};
 
-	// Try to parse structured <review-result> tag
+	// Prefer the <ralph-result> block, then the legacy <review-result> tag
+	const ralphResult = parseRalphResultFor(output, ["approve", "request_changes"] as const);
 	const resultMatch = output.match(
 		/<review-result>\s*(APPROVE|REQUEST_CHANGES)\s*<\/review-result>/i,
 	);
-	if (resultMatch?.[1]) {
+	const hasDecision = ralphResult !== null || Boolean(resultMatch?.[1]);
+	if (ralphResult) {
+		result.decision = ralphResult.status;
+	} else if (resultMatch?.[1]) {
 		result.decision = resultMatch[1].toLowerCase() === "approve" ? "approve" : "request_changes";
 	}
 
@@ -297,7 +378,7 @@ export function parseReviewResult(output: string, reviewType: string): ReviewRou
 	}
 
 	// If we found findings but no explicit decision, infer from findings
-	if (!resultMatch && result.findings.length > 0) {
+	if (!hasDecision && result.findings.length > 0) {
 		const hasCriticalOrMajor = result.findings.some(
 			(f) => f.severity === "critical" || f.severity === "major",
 		);
@@ -305,10 +386,44 @@ export function parseReviewResult(output: string, reviewType: string): ReviewRou
 	}
 
 	// If text says APPROVE but no structured tag
-	if (!resultMatch && result.findings.length === 0) {
+	if (!hasDecision && result.findings.length === 0) {
 		const approveMatch = /\bAPPROVE\b/i.test(output);
 		result.decision = approveMatch ? "approve" : "approve"; // Default to approve if no signal
 	}
 
 	return result;
 }
+
+/**
+ * Parse a fix re-check from agent output. Every finding in `findingIds` gets
+ * a verdict; one the reviewer left out counts as unresolved. Regressions are
+ * read from the `<review-findings>` block only.
+ */
+export function parseRecheckResult(
+	output: string,
+	reviewType: string,
+	findingIds: string[],
+): RecheckResult {
+	const verdictsText = output.match(/<recheck-verdicts>([\s\S]*?)<\/recheck-verdicts>/i)?.[1] ?? "";
+	const given = new Map<string, FindingVerdict>();
+	for (const match of verdictsText.matchAll(
+		/(F-[0-9a-f]{8})\s*:?\s*(UNRESOLVED|RESOLVED)\b(?:\s*[-—]\s*(.+))?/gi,
+	)) {
+		const id = `F-${match[1]!.slice(2).toLowerCase()}`;
+		const note = match[3]?.trim();
+		given.set(id, {
+			id,
+			verdict: match[2]!.toLowerCase() === "resolved" ? "resolved" : "unresolved",
+			...(note ? { note } : {}),
+		});
+	}
+
+	const findingsBlock = output.match(/<review-findings>[\s\S]*?<\/review-findings>/i)?.[0];
+	return {
+		reviewType,
+		verdicts: findingIds.map(
+			(id) => given.get(id) ?? { id, verdict: "unresolved", note: "No verdict given" },
+		),
+		regressions: findingsBlock ? parseReviewResult(findingsBlock, reviewType).findings : [],
+	};
+}
@@ -0,0 +1,131 @@
+/**
+ * Ralph Reviewers
+ *
+ * Resolves the names in `first_review_agents` and `second_review_agents` to
+ * reviewer definitions: a directory named after the reviewer holding
+ * `prompt.md` and an optional `agent.toml`. Repo-local reviewers under
+ * `.omni/ralph/reviewers/` are looked up before the bundled ones in
+ * `subagents/review/`, so a repo can add reviewers or replace a bundled one.
+ * `paths` in agent.toml limits a reviewer to diffs touching matching files,
+ * and `min_severity` drops its less severe findings. A `type = "tool"`
+ * reviewer runs `command` and needs no prompt.md.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parse } from "smol-toml";
+import { SEVERITY_RANK } from "./findings.js";
+import { globToRegExp } from "./orchestration/review-diff.js";
+import { ErrorCodes, err, ok, type Result } from "./results.js";
+import { validateReviewerAgent } from "./schemas.js";
+import type { ReviewerDefinition, ReviewFinding, ToolReviewerConfig } from "./types.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Reviewers shipped with Ralph */
+export const BUNDLED_REVIEWERS_DIR = join(__dirname, "..", "subagents", "review");
+
+/** Reviewers defined by the repo, relative to its root */
+export const REPO_REVIEWERS_DIR = join(".omni", "ralph", "reviewers");
+
+/** Default seconds before a tool reviewer's command is killed */
+const DEFAULT_TOOL_TIMEOUT = 300;
+
+/**
+ * Load a reviewer by name, from the repo's reviewers first, then the bundled ones
+ */
+export function loadReviewerDefinition(repoRoot: string, name: string): Result<ReviewerDefinition> {
+	if (!/^[\w.-]+$/.test(name) || name.startsWith(".")) {
+		return err(ErrorCodes.CONFIG_INVALID, `Invalid reviewer name: '${name}'`);
+	}
+
+	const roots = [
+		{ source: "repo", dir: join(repoRoot, REPO_REVIEWERS_DIR, name) },
+		{ source: "bundled", dir: join(BUNDLED_REVIEWERS_DIR, name) },
+	] as const;
+	for (const { source, dir } of roots) {
+		const promptPath = join(dir, "prompt.md");
+		const tomlPath = join(dir, "agent.toml");
+		const hasPrompt = existsSync(promptPath);
+		if (!hasPrompt && !existsSync(tomlPath)) continue;
+
+		const definition: ReviewerDefinition = {
+			name,
+			source,
+			dir,
+			type: "agent",
+			prompt: hasPrompt ? readFileSync(promptPath, "utf-8").trim() : "",
+		};
+		if (!existsSync(tomlPath)) {
+			return ok(definition);
+		}
+
+		let raw: unknown;
+		try {
+			raw = parse(readFileSync(tomlPath, "utf-8"));
+		} catch (error) {
+			return err(
+				ErrorCodes.CONFIG_INVALID,
+				`Invalid ${tomlPath}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		const validation = validateReviewerAgent(raw);
+		if (!validation.success) {
+			return err(
+				ErrorCodes.CONFIG_INVALID,
+				`Invalid ${tomlPath}: ${validation.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ")}`,
+			);
+		}
+		const agent = validation.data;
+		if (agent.description) definition.description = agent.description;
+		if (agent.paths) definition.paths = agent.paths;
+		if (agent.min_severity) definition.minSeverity = agent.min_severity;
+
+		if (agent.type === "tool") {
+			if (!agent.command) {
+				return err(
+					ErrorCodes.CONFIG_INVALID,
+					`Invalid ${tomlPath}: a tool reviewer needs \`command\``,
+				);
+			}
+			const tool: ToolReviewerConfig = {
+				command: agent.command,
+				format: agent.format ?? "sarif",
+				timeout: agent.timeout ?? DEFAULT_TOOL_TIMEOUT,
+				changedFilesOnly: agent.changed_files_only ?? true,
+			};
+			definition.type = "tool";
+			definition.tool = tool;
+		} else if (!hasPrompt) {
+			return err(ErrorCodes.CONFIG_INVALID, `Reviewer '${name}' has no prompt.md in ${dir}`);
+		}
+		return ok(definition);
+	}
+
+	return err(
+		ErrorCodes.REVIEWER_NOT_FOUND,
+		`Reviewer '${name}' not found in ${REPO_REVIEWERS_DIR} or the bundled reviewers`,
+	);
+}
+
+/**
+ * Whether a reviewer runs for a diff touching `files`. A reviewer without
+ * `paths` always runs.
+ */
+export function reviewerMatchesFiles(definition: ReviewerDefinition, files: string[]): boolean {
+	if (!definition.paths || definition.paths.length === 0) return true;
+	const patterns = definition.paths.map(globToRegExp);
+	return files.some((file) => patterns.some((re) => re.test(file)));
+}
+
+/**
+ * Drop findings less severe than `minSeverity`
+ */
+export function applySeverityThreshold(
+	findings: ReviewFinding[],
+	minSeverity?: ReviewFinding["severity"],
+): ReviewFinding[] {
+	if (!minSeverity) return findings;
+	return findings.filter((f) => SEVERITY_RANK[f.severity] <= SEVERITY_RANK[minSeverity]);
+}
@@ -20,20 +20,70 @@ export const StorySchema = z.object({
 	questions: z.array(z.string()).default([]),
 	answers: z.array(z.string()).optional(),
 	iterationCount: z.number().int().min(0).optional(),
+	startCommit: z.string().min(1).optional(),
+	endCommit: z.string().min(1).optional(),
+	verificationAttempts: z.number().int().min(0).optional(),
+	stuckStage: z.enum(["replan", "escalated"]).optional(),
+	stuckStagesTried: z.array(z.enum(["replan", "escalated"])).optional(),
+	attemptSummaries: z.array(z.string()).optional(),
+	skipped: z.boolean().optional(),
 });
 
 export const LastRunSchema = z.object({
 	timestamp: z.string().datetime(),
 	storyId: z.string(),
-	reason: z.enum(["user_interrupted", "completed", "story_completed", "blocked", "error"]),
+	reason: z.enum([
+		"user_interrupted",
+		"completed",
+		"story_completed",
+		"blocked",
+		"budget_exceeded",
+		"agent_timeout",
+		"error",
+	]),
 	summary: z.string(),
 });
 
+export const UsagePhaseSchema = z.enum(["dev", "verify", "review", "qa", "docs", "merge"]);
+
+export const UsageTotalsSchema = z.object({
+	inputTokens: z.number().int().min(0),
+	outputTokens: z.number().int().min(0),
+	cacheReadTokens: z.number().int().min(0),
+	cacheWriteTokens: z.number().int().min(0),
+	totalTokens: z.number().int().min(0),
+	costUsd: z.number().min(0),
+	runs: z.number().int().min(0),
+});
+
 export const PRDMetricsSchema = z.object({
 	totalTokens: z.number().int().min(0).optional(),
 	inputTokens: z.number().int().min(0).optional(),
 	outputTokens: z.number().int().min(0).optional(),
+	cacheReadTokens: z.number().int().min(0).optional(),
+	cacheWriteTokens: z.number().int().min(0).optional(),
+	costUsd: z.number().min(0).optional(),
 	iterations: z.number().int().min(0).optional(),
+	byStory: z.record(UsageTotalsSchema).optional(),
+	byPhase: z.record(UsagePhaseSchema, UsageTotalsSchema).optional(),
+	byProviderVariant: z.record(UsageTotalsSchema).optional(),
+});
+
+export const HookNameSchema = z.enum([
+	"pre_iteration",
+	"post_iteration",
+	"pre_review",
+	"post_qa",
+	"on_complete",
+	"on_blocked",
+]);
+
+export const HookOutputSchema = z.object({
+	hook: HookNameSchema,
+	storyId: z.string().optional(),
+	exitCode: z.number().int(),
+	output: z.string(),
+	timestamp: z.string().datetime(),
 });
 
 export const PRDSchema = z.object({
@@ -47,11 +97,154 @@ export const PRDSchema = z.object({
 	qaCaughtIssue: z.boolean().optional(),
 	lastRun: LastRunSchema.optional(),
 	metrics: PRDMetricsSchema.optional(),
+	hookOutputs: z.array(HookOutputSchema).optional(),
+	baseCommit: z.string().min(1).optional(),
+});
+
+export const ReviewFindingSchema = z.object({
+	severity: z.enum(["critical", "major", "minor", "suggestion"]),
+	file: z.string(),
+	line: z.number().int().optional(),
+	issue: z.string(),
+	reviewer: z.string(),
+});
+
+export const ReviewerAgentSchema = z.object({
+	name: z.string().optional(),
+	description: z.string().optional(),
+	paths: z.array(z.string().min(1)).optional(),
+	min_severity: ReviewFindingSchema.shape.severity.optional(),
+	type: z.enum(["agent", "tool"]).optional(),
+	command: z.string().min(1).optional(),
+	format: z.enum(["sarif", "json"]).optional(),
+	timeout: z.number().int().min(1).optional(),
+	changed_files_only: z.boolean().optional(),
+});
+
+export const ToolFindingSchema = z.object({
+	file: z.string().min(1),
+	line: z.number().int().min(1).optional(),
+	severity: ReviewFindingSchema.shape.severity,
+	message: z.string().min(1),
+	rule: z.string().optional(),
+});
+
+export const ToolFindingsSchema = z.union([
+	z.array(ToolFindingSchema),
+	z.object({ findings: z.array(ToolFindingSchema) }),
+]);
+
+export const FindingStatusSchema = z.enum(["open", "fixed", "disputed", "deferred", "wontfix"]);
+
+const FindingRoundSchema = z.object({
+	phase: z.enum(["first", "second"]),
+	iteration: z.number().int().min(0),
+	timestamp: z.string().datetime(),
+});
+
+export const LedgerFindingSchema = ReviewFindingSchema.extend({
+	id: z.string().min(1),
+	status: FindingStatusSchema,
+	firstSeen: FindingRoundSchema,
+	lastSeen: FindingRoundSchema,
+	sentToFix: FindingRoundSchema.optional(),
+	fixedBy: FindingRoundSchema.optional(),
+	note: z.string().optional(),
+});
+
+export const FindingsLedgerSchema = z.object({
+	updatedAt: z.string().datetime(),
+	findings: z.array(LedgerFindingSchema),
+});
+
+export const EngineCheckpointSchema = z.object({
+	phase: z.enum(["review", "verification", "qa"]),
+	updatedAt: z.string().datetime(),
+	review: z
+		.object({
+			phase: z.enum(["first", "second", "finalize"]),
+			fixIteration: z.number().int().min(0),
+			followUps: z.array(ReviewFindingSchema),
+			noise: z.array(ReviewFindingSchema),
+		})
+		.optional(),
+	qa: z
+		.object({
+			step: z.enum(["started", "step1", "step2"]),
+			healthFixAttempts: z.number().int().min(0),
+			output: z.string().optional(),
+		})
+		.optional(),
+});
+
+export const RalphResultStatusSchema = z.enum([
+	"completed",
+	"blocked",
+	"verified",
+	"failed",
+	"fixed",
+	"not_fixable",
+	"approve",
+	"request_changes",
+	"no_updates",
+	"split",
+]);
+
+export const StorySplitPartSchema = z.object({
+	title: z.string().min(1),
+	goal: z.string().optional(),
+	scope: z.array(z.string().min(1)).optional(),
+	outOfScope: z.array(z.string().min(1)).optional(),
+	deliverables: z.array(z.string().min(1)).optional(),
+	acceptanceCriteria: z.array(z.string().min(1)).min(1),
+	suggestedFiles: z.array(z.string().min(1)).optional(),
 });
 
+export const RalphResultSchema = z.object({
+	version: z.literal(1).default(1),
+	status: RalphResultStatusSchema,
+	summary: z.string().default(""),
+	files: z.array(z.string()).default([]),
+	questions: z.array(z.string()).default([]),
+	issues: z.array(z.string()).default([]),
+	split: z.array(StorySplitPartSchema).optional(),
+});
+
+export const AnswerEntrySchema = z
+	.object({
+		prd: z.string().min(1),
+		story: z.string().min(1),
+		answers: z.array(z.string()).optional(),
+		skip: z.union([z.boolean(), z.string()]).optional(),
+		rewrite: z.string().min(1).optional(),
+	})
+	.refine(
+		(entry) =>
+			[
+				entry.answers !== undefined,
+				entry.skip !== undefined && entry.skip !== false,
+				entry.rewrite !== undefined,
+			].filter(Boolean).length === 1,
+		{ message: "each entry needs exactly one of answers, skip, or rewrite" },
+	);
+
+export const AnswersFileSchema = z.array(AnswerEntrySchema);
+
+export const ProviderFormatSchema = z.enum([
+	"claude-stream-json",
+	"codex-json",
+	"gemini-stream-json",
+	"opencode-json",
+	"text",
+]);
+
 export const ProviderVariantConfigSchema = z.object({
 	command: z.string().min(1),
 	args: z.array(z.string()),
+	format: ProviderFormatSchema.optional(),
+	timeout_minutes: z.number().positive().optional(),
+	idle_timeout_minutes: z.number().positive().optional(),
+	fallback_variants: z.array(z.string().min(1)).optional(),
 });
 
 export const QAPlatformConfigSchema = z.object({
@@ -80,6 +273,114 @@ export const DocsConfigSchema = z.object({
 	provider_variant: z.string().optional(),
 });
 
+export const VerificationConfigSchema = z.object({
+	enabled: z.boolean().optional(),
+	story_verifier_provider_variant: z.string().min(1).optional(),
+});
+
+export const BudgetConfigSchema = z.object({
+	max_tokens: z.number().int().positive().optional(),
+	max_usd: z.number().positive().optional(),
+	max_wall_clock_minutes: z.number().positive().optional(),
+	max_iterations_per_story: z.number().int().positive().optional(),
+});
+
+export const AgentTimeoutConfigSchema = z.object({
+	timeout_minutes: z.number().positive().optional(),
+	idle_timeout_minutes: z.number().positive().optional(),
+});
+
+export const TimeoutsConfigSchema = z.object({
+	on_timeout: z.enum(["retry", "count", "block"]).optional(),
+	max_retries: z.number().int().min(0).optional(),
+	kill_grace_seconds: z.number().min(0).optional(),
+	dev: AgentTimeoutConfigSchema.optional(),
+	qa: AgentTimeoutConfigSchema.optional(),
+	review: AgentTimeoutConfigSchema.optional(),
+	merge: AgentTimeoutConfigSchema.optional(),
+	docs: AgentTimeoutConfigSchema.optional(),
+});
+
+export const ParallelConfigSchema = z.object({
+	enabled: z.boolean().optional(),
+	max_stories: z.number().int().min(1).optional(),
+	worktree_parent: z.string().optional(),
+});
+
+export const CommitsConfigSchema = z.object({
+	auto_commit: z.boolean().optional(),
+	require_commit: z.boolean().optional(),
+});
+
+export const HooksConfigSchema = z.object({
+	pre_iteration: z.string().optional(),
+	post_iteration: z.string().optional(),
+	pre_review: z.string().optional(),
+	post_qa: z.string().optional(),
+	on_complete: z.string().optional(),
+	on_blocked: z.string().optional(),
+	timeout: z.number().positive().optional(),
+});
+
+export const GatesConfigSchema = z.object({
+	commands: z.record(z.string(), z.string().min(1)).optional(),
+	timeout: z.number().positive().optional(),
+});
+
+export const LintConfigSchema = z.object({
+	min_acceptance_criteria: z.number().int().min(0).optional(),
+	max_acceptance_criteria: z.number().int().min(1).optional(),
+});
+
+export const NotificationEventSchema = z.enum([
+	"story_blocked",
+	"prd_qa",
+	"qa_verified",
+	"qa_failed",
+	"budget_exceeded",
+	"error",
+]);
+
+export const NotificationsConfigSchema = z.object({
+	events: z.array(NotificationEventSchema).optional(),
+	timeout: z.number().positive().optional(),
+	desktop: z
+		.object({
+			enabled: z.boolean().optional(),
+			events: z.array(NotificationEventSchema).optional(),
+		})
+		.optional(),
+	webhook: z
+		.object({
+			url: z.string().url(),
+			method: z.string().min(1).optional(),
+			headers: z.record(z.string(), z.string()).optional(),
+			body: z.string().optional(),
+			events: z.array(NotificationEventSchema).optional(),
+		})
+		.optional(),
+	command: z
+		.object({
+			command: z.string().min(1),
+			events: z.array(NotificationEventSchema).optional(),
+		})
+		.optional(),
+});
+
+export const StuckConfigSchema = z.object({
+	max_iterations: z.number().int().min(1).optional(),
+	priority_max_iterations: z.record(z.string(), z.number().int().min(1)).optional(),
+	story_max_iterations: z.record(z.string(), z.number().int().min(1)).optional(),
+	replan: z.boolean().optional(),
+	escalation_provider_variant: z.string().optional(),
+});
+
+export const RetryConfigSchema = z.object({
+	max_retries: z.number().int().min(0).optional(),
+	base_delay_seconds: z.number().min(0).optional(),
+	max_delay_seconds: z.number().min(0).optional(),
+});
+
 export const ReviewConfigSchema = z.object({
 	enabled: z.boolean().optional(),
 	provider_variant: z.string().optional(),
@@ -92,6 +393,9 @@ export const ReviewConfigSchema = z.object({
 	second_review_agents: z.array(z.string()).optional(),
 	max_fix_iterations: z.number().int().min(1).max(10).optional(),
 	todo_file: z.string().min(1).optional(),
+	diff_token_budget: z.number().int().min(1000).optional(),
+	diff_exclude: z.array(z.string().min(1)).optional(),
+	recheck_fixes: z.boolean().optional(),
 });
 
 export const SwarmConfigSchema = z.object({
@@ -116,6 +420,17 @@ export const RalphConfigSchema = z.object({
 	default_iterations: z.number().int().min(1),
 	provider_variants: z.record(z.string(), ProviderVariantConfigSchema),
 	verification_provider_variant: z.string().optional(),
+	verification: VerificationConfigSchema.optional(),
+	budget: BudgetConfigSchema.optional(),
+	timeouts: TimeoutsConfigSchema.optional(),
+	retry: RetryConfigSchema.optional(),
+	parallel: ParallelConfigSchema.optional(),
+	stuck: StuckConfigSchema.optional(),
+	commits: CommitsConfigSchema.optional(),
+	hooks: HooksConfigSchema.optional(),
+	gates: GatesConfigSchema.optional(),
+	lint: LintConfigSchema.optional(),
+	notifications: NotificationsConfigSchema.optional(),
 	qa: QAConfigSchema.optional(),
 	scripts: ScriptsConfigSchema.optional(),
 	docs: DocsConfigSchema.optional(),
@@ -183,12 +498,37 @@ export type PRDStatusZ = z.infer<typeof PRDStatusSchema>;
 export type StoryZ = z.infer<typeof StorySchema>;
 export type LastRunZ = z.infer<typeof LastRunSchema>;
 export type PRDMetricsZ = z.infer<typeof PRDMetricsSchema>;
+export type UsagePhaseZ = z.infer<typeof UsagePhaseSchema>;
+export type UsageTotalsZ = z.infer<typeof UsageTotalsSchema>;
+export type HookOutputZ = z.infer<typeof HookOutputSchema>;
 export type PRDZ = z.infer<typeof PRDSchema>;
+export type ReviewFindingZ = z.infer<typeof ReviewFindingSchema>;
+export type EngineCheckpointZ = z.infer<typeof EngineCheckpointSchema>;
+export type ReviewerAgentZ = z.infer<typeof ReviewerAgentSchema>;
+export type ToolFindingZ = z.infer<typeof ToolFindingSchema>;
+export type FindingsLedgerZ = z.infer<typeof FindingsLedgerSchema>;
+export type RalphResultStatusZ = z.infer<typeof RalphResultStatusSchema>;
+export type RalphResultZ = z.infer<typeof RalphResultSchema>;
+export type StorySplitPartZ = z.infer<typeof StorySplitPartSchema>;
+export type AnswerEntryZ = z.infer<typeof AnswerEntrySchema>;
+export type ProviderFormatZ = z.infer<typeof ProviderFormatSchema>;
 export type ProviderVariantConfigZ = z.infer<typeof ProviderVariantConfigSchema>;
 export type QAPlatformConfigZ = z.infer<typeof QAPlatformConfigSchema>;
 export type QAConfigZ = z.infer<typeof QAConfigSchema>;
 export type ScriptsConfigZ = z.infer<typeof ScriptsConfigSchema>;
 export type DocsConfigZ = z.infer<typeof DocsConfigSchema>;
+export type VerificationConfigZ = z.infer<typeof VerificationConfigSchema>;
+export type BudgetConfigZ = z.infer<typeof BudgetConfigSchema>;
+export type TimeoutsConfigZ = z.infer<typeof TimeoutsConfigSchema>;
+export type ParallelConfigZ = z.infer<typeof ParallelConfigSchema>;
+export type CommitsConfigZ = z.infer<typeof CommitsConfigSchema>;
+export type HooksConfigZ = z.infer<typeof HooksConfigSchema>;
+export type GatesConfigZ = z.infer<typeof GatesConfigSchema>;
+export type LintConfigZ = z.infer<typeof LintConfigSchema>;
+export type NotificationEventZ = z.infer<typeof NotificationEventSchema>;
+export type NotificationsConfigZ = z.infer<typeof NotificationsConfigSchema>;
+export type StuckConfigZ = z.infer<typeof StuckConfigSchema>;
+export type RetryConfigZ = z.infer<typeof RetryConfigSchema>;
 export type ReviewConfigZ = z.infer<typeof ReviewConfigSchema>;
 export type SwarmConfigZ = z.infer<typeof SwarmConfigSchema>;
 export type RalphConfigZ = z.infer<typeof RalphConfigSchema>;
@@ -236,3 +576,86 @@ export function validateRalphConfig(
 	}
 	return { success: false, error: result.error };
 }
+
+/**
+ * Validate a `<ralph-result>` payload
+ */
+export function validateRalphResult(
+	data: unknown,
+): { success: true; data: RalphResultZ } | { success: false; error: z.ZodError } {
+	const result = RalphResultSchema.safeParse(data);
+	if (result.success) {
+		return { success: true, data: result.data };
+	}
+	return { success: false, error: result.error };
+}
+
+/**
+ * Validate an engine checkpoint
+ */
+export function validateEngineCheckpoint(
+	data: unknown,
+): { success: true; data: EngineCheckpointZ } | { success: false; error: z.ZodError } {
+	const result = EngineCheckpointSchema.safeParse(data);
+	if (result.success) {
+		return { success: true, data: result.data };
+	}
+	return { success: false, error: result.error };
+}
+
+/**
+ * Validate a reviewer's agent.toml. Provider sections such as `[claude]` are
+ * dropped.
+ */
+export function validateReviewerAgent(
+	data: unknown,
+): { success: true; data: ReviewerAgentZ } | { success: false; error: z.ZodError } {
+	const result = ReviewerAgentSchema.safeParse(data);
+	if (result.success) {
+		return { success: true, data: result.data };
+	}
+	return { success: false, error: result.error };
+}
+
+/**
+ * Validate a tool reviewer's JSON output: a list of findings, or an object
+ * with a `findings` list
+ */
+export function validateToolFindings(
+	data: unknown,
+): { success: true; data: ToolFindingZ[] } | { success: false; error: z.ZodError } {
+	const result = ToolFindingsSchema.safeParse(data);
+	if (result.success) {
+		return {
+			success: true,
+			data: Array.isArray(result.data) ? result.data : result.data.findings,
+		};
+	}
+	return { success: false, error: result.error };
+}
+
+/**
+ * Validate a review findings ledger
+ */
+export function validateFindingsLedger(
+	data: unknown,
+): { success: true; data: FindingsLedgerZ } | { success: false; error: z.ZodError } {
+	const result = FindingsLedgerSchema.safeParse(data);
+	if (result.success) {
+		return { success: true, data: result.data };
+	}
+	return { success: false, error: result.error };
+}
+
+/**
+ * Validate the entries of a `ralph answer --file` file
+ */
+export function validateAnswersFile(
+	data: unknown,
+): { success: true; data: AnswerEntryZ[] } | { success: false; error: z.ZodError } {
+	const result = AnswersFileSchema.safeParse(data);
+	if (result.success) {
+		return { success: true, data: result.data };
+	}
+	return { success: false, error: result.error };
+}
@@ -9,8 +9,18 @@ import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync }
 import { readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { atomicWrite, ensureStateDirs, getStateDir, getStatusDir } from "./core/paths.js";
+import {
+	buildStoryDependencyGraph,
+	getUnmetStoryDependencies,
+	type StoryDependencyGraph,
+	validateStoryDependencyGraph,
+} from "./core/story-graph.js";
+import { accumulateMetrics } from "./core/usage.js";
+import { validateEngineCheckpoint } from "./schemas.js";
 import type {
+	AgentUsage,
 	DependencyInfo,
+	EngineCheckpoint,
 	LastRun,
 	PRD,
 	PRDStatus,
@@ -18,6 +28,7 @@ import type {
 	ProviderVariantConfig,
 	Story,
 	StoryStatus,
+	UsageAttribution,
 } from "./types.js";
 
 const ALL_STATUSES: PRDStatus[] = ["pending", "in_progress", "qa", "completed"];
@@ -308,7 +319,8 @@ export async function savePRD(
 }
 
 /**
- * Get the next pending story from a PRD (sorted by priority)
+ * Get the next pending story from a PRD (sorted by priority).
+ * Stories whose frontmatter dependencies are not all completed are skipped.
  */
 export async function getNextStory(
 	projectName: string,
@@ -316,9 +328,18 @@ export async function getNextStory(
 	prdName: string,
 ): Promise<Story | null> {
 	const prd = await getPRD(projectName, repoRoot, prdName);
+	const prdDir = getPRDPath(projectName, repoRoot, prdName);
+	const graph: StoryDependencyGraph = prdDir
+		? buildStoryDependencyGraph(prdDir, prd.stories)
+		: new Map();
+	const graphCheck = validateStoryDependencyGraph(graph);
+	if (!graphCheck.ok) {
+		throw new Error(graphCheck.error!.message);
+	}
 
 	const workableStories = prd.stories
 		.filter((story) => story.status === "pending" || story.status === "in_progress")
+		.filter((story) => getUnmetStoryDependencies(story.id, prd.stories, graph).length === 0)
 		.sort((a, b) => a.priority - b.priority);
 
 	return workableStories[0] ?? null;
@@ -425,21 +446,11 @@ export async function updateMetrics(
 	projectName: string,
 	repoRoot: string,
 	prdName: string,
-	newMetrics: { inputTokens?: number; outputTokens?: number; iterations?: number },
+	newMetrics: AgentUsage & { iterations?: number },
+	attribution?: UsageAttribution,
 ): Promise<void> {
 	const prd = await getPRD(projectName, repoRoot, prdName);
-	const existing = prd.metrics ?? {};
-
-	const updated = {
-		inputTokens: (existing.inputTokens ?? 0) + (newMetrics.inputTokens ?? 0),
-		outputTokens: (existing.outputTokens ?? 0) + (newMetrics.outputTokens ?? 0),
-		totalTokens:
-			(existing.inputTokens ?? 0) +
-			(newMetrics.inputTokens ?? 0) +
-			(existing.outputTokens ?? 0) +
-			(newMetrics.outputTokens ?? 0),
-		iterations: (existing.iterations ?? 0) + (newMetrics.iterations ?? 0),
-	};
+	const updated = accumulateMetrics(prd.metrics, newMetrics, attribution);
 
 	await updatePRD(projectName, repoRoot, prdName, { metrics: updated });
 }
@@ -845,6 +856,40 @@ export function getQAResultsDir(
 	return join(prdPath, "qa-results");
 }
 
+/**
+ * Get the agent transcripts directory path for a PRD
+ */
+export function getTranscriptsDir(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+): string | null {
+	const prdPath = getPRDPath(projectName, repoRoot, prdName);
+	if (!prdPath) return null;
+	return join(prdPath, "transcripts");
+}
+
+/**
+ * Read the engine checkpoint (`checkpoint.json`) of a PRD, or null when there is none
+ */
+export function getCheckpoint(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+): EngineCheckpoint | null {
+	const prdPath = getPRDPath(projectName, repoRoot, prdName);
+	const checkpointPath = prdPath ? join(prdPath, "checkpoint.json") : null;
+	if (!checkpointPath || !existsSync(checkpointPath)) {
+		return null;
+	}
+	try {
+		const validation = validateEngineCheckpoint(JSON.parse(readFileSync(checkpointPath, "utf-8")));
+		return validation.success ? (validation.data as EngineCheckpoint) : null;
+	} catch {
+		return null;
+	}
+}
+
 /**
  * Clear the QA results directory for a PRD
  */
@@ -0,0 +1,166 @@
+/**
+ * Ralph Story Commits
+ *
+ * Each story owns a commit range: `startCommit` (HEAD when work began) to
+ * `endCommit` (HEAD once it was completed and committed). The engine closes
+ * the range when a story completes; `ralph story rollback` undoes it.
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { getDefaultStore } from "./core/prd-store.js";
+import { ErrorCodes, err, ok, type Result } from "./results.js";
+import { appendProgress } from "./state.js";
+import type { Story } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Outcome of rolling back a story
+ */
+export interface StoryRollback {
+	/** `reset` when the completed story's commits were at the tip of the branch, else `revert` */
+	mode: "reset" | "revert";
+	/** Commits undone, newest first */
+	commits: string[];
+}
+
+async function git(args: string[], cwd: string): Promise<string> {
+	const { stdout } = await execFileAsync("git", args, { cwd, timeout: 30_000 });
+	return stdout.trim();
+}
+
+/**
+ * Conventional commit message for a story's work
+ */
+export function storyCommitMessage(story: Pick<Story, "id" | "title">): string {
+	return `feat: [${story.id}] - ${story.title}`;
+}
+
+/**
+ * Undo a story: remove its commits and reset it to `pending`.
+ *
+ * When the story was completed and its commits are the newest on the branch,
+ * the branch is reset to `startCommit`, which also discards uncommitted
+ * changes. Otherwise its commits are reverted, which needs a clean working
+ * tree. A story that never completed has no `endCommit`, so its range runs to
+ * HEAD; that is refused when another story completed inside the range. The
+ * story's iteration bookkeeping is cleared so it starts over.
+ */
+export async function rollbackStory(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	storyId: string,
+): Promise<Result<StoryRollback>> {
+	const store = getDefaultStore(projectName, repoRoot);
+	const location = store.findLocation(prdName);
+	if (!location) {
+		return err(ErrorCodes.PRD_NOT_FOUND, `PRD not found: ${prdName}`);
+	}
+	if (location !== "pending" && location !== "in_progress") {
+		return err(
+			ErrorCodes.PRD_INVALID_STATUS,
+			`PRD "${prdName}" is in ${location}; move it back to in_progress before rolling back a story`,
+		);
+	}
+
+	const prdResult = await store.get(prdName);
+	if (!prdResult.ok) {
+		return err(prdResult.error!.code, prdResult.error!.message);
+	}
+	const story = prdResult.data!.stories.find((s) => s.id === storyId);
+	if (!story) {
+		return err(ErrorCodes.PRD_NOT_FOUND, `Story not found: ${storyId}`);
+	}
+	if (!story.startCommit) {
+		return err(
+			ErrorCodes.PRD_INVALID_STATUS,
+			`Story ${storyId} has no recorded start commit; nothing to roll back`,
+		);
+	}
+
+	let rollback: StoryRollback;
+	try {
+		const head = await git(["rev-parse", "HEAD"], repoRoot);
+		const end = story.endCommit ?? head;
+		const commits = (await git(["rev-list", `${story.startCommit}..${end}`], repoRoot))
+			.split("\n")
+			.filter(Boolean);
+
+		if (!story.endCommit) {
+			// Without an end the range runs to HEAD and may hold other stories' work
+			const range = new Set(commits);
+			const later = prdResult
+				.data!.stories.filter((s) => s.id !== storyId && s.endCommit && range.has(s.endCommit))
+				.map((s) => s.id);
+			if (later.length > 0) {
+				return err(
+					ErrorCodes.PRD_INVALID_STATUS,
+					`${storyId} never completed, and ${later.join(", ")} completed after it started; roll those back first or revert ${storyId}'s commits by hand`,
+				);
+			}
+		}
+
+		if (story.endCommit === head) {
+			await git(["reset", "--hard", story.startCommit], repoRoot);
+			rollback = { mode: "reset", commits };
+		} else {
+			if (await git(["status", "--porcelain"], repoRoot)) {
+				return err(
+					ErrorCodes.PRD_INVALID_STATUS,
+					`${storyId}'s commits must be reverted; commit or stash your changes first`,
+				);
+			}
+			try {
+				if (commits.length > 0) {
+					await git(["revert", "--no-edit", `${story.startCommit}..${end}`], repoRoot);
+				}
+			} catch (error) {
+				await git(["revert", "--abort"], repoRoot).catch(() => {});
+				throw error;
+			}
+			rollback = { mode: "revert", commits };
+		}
+	} catch (error) {
+		return err(
+			ErrorCodes.UNKNOWN,
+			`Failed to roll back ${storyId}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const updateResult = await store.update(prdName, (prd) => {
+		const s = prd.stories.find((st) => st.id === storyId);
+		if (s) {
+			s.status = "pending";
+			s.questions = [];
+			s.iterationCount = 0;
+			delete s.answers;
+			delete s.startCommit;
+			delete s.endCommit;
+			delete s.verificationAttempts;
+			delete s.stuckStage;
+			delete s.stuckStagesTried;
+			delete s.attemptSummaries;
+		}
+		return prd;
+	});
+	if (!updateResult.ok) {
+		return err(updateResult.error!.code, updateResult.error!.message);
+	}
+
+	await appendProgress(
+		projectName,
+		repoRoot,
+		prdName,
+		[
+			`## [${new Date().toISOString()}] - Rolled back ${storyId}: ${story.title}`,
+			"",
+			`${rollback.mode === "reset" ? "Reset" : "Reverted"} ${rollback.commits.length} commit(s) since ${story.startCommit.slice(0, 7)}; the story is pending again.`,
+			"",
+			"---",
+		].join("\n"),
+	);
+
+	return ok(rollback);
+}
@@ -41,6 +41,7 @@ export { DEFAULT_SWARM_CONFIG } from "./types.js";
 // Worktree operations
 export {
 	branchExists,
+	commitAll,
 	createWorktree,
 	getCurrentBranch,
 	getMainWorktreePath,
@@ -48,6 +49,7 @@ export {
 	interpolateWorktreeCmd,
 	isMainWorktree,
 	listWorktrees,
+	mergeBranch,
 	removeWorktree,
 	resolveWorktreePath,
 	type WorktreeCmdVars,
@@ -7,11 +7,17 @@
  * the session backend implementation.
  */
 
-import { existsSync } from "node:fs";
-import { AgentExecutor } from "../orchestration/agent-runner.js";
-import { err, ok, type Result } from "../results.js";
-import { canStartPRD, findPRDLocation, getPRD, hasPRDFile } from "../state.js";
-import type { PRD } from "../types.js";
+import { copyFileSync, existsSync } from "node:fs";
+import { hasUsage, splitUsage } from "../core/usage.js";
+import {
+	AgentExecutor,
+	type AgentResult,
+	describeAgentTimeout,
+} from "../orchestration/agent-runner.js";
+import { ErrorCodes, err, ok, type Result } from "../results.js";
+import { canStartPRD, findPRDLocation, getPRD, hasPRDFile, updateMetrics } from "../state.js";
+import { createTranscript } from "../transcripts.js";
+import type { PRD, ProviderVariantConfig } from "../types.js";
 import { buildAutoCloseCommand } from "./commands.js";
 import {
 	getRun,
@@ -312,11 +318,24 @@ export class SwarmManager {
 
 		// Run agent in the main worktree
 		const executor = new AgentExecutor();
+		const transcriptPath = createTranscript(this.projectName, this.repoRoot, prdName, {
+			phase: "merge",
+			providerVariant: options.providerVariant,
+		});
 		const result = await executor.run(prompt, options.providerVariant, {
 			cwd: this.cwd,
 			onOutput: options.onOutput,
+			...options.timeouts,
+			...(transcriptPath && { transcriptPath }),
 		});
 
+		if (result.timedOut) {
+			await this.recordMergeUsage([prdName], result, options.providerVariant);
+			return err(
+				ErrorCodes.AGENT_TIMEOUT,
+				describeAgentTimeout(result.timedOut, options.timeouts ?? {}),
+			);
+		}
 		if (result.exitCode !== 0 && !result.aborted) {
 			return err("MERGE_FAILED", `Merge agent exited with code ${result.exitCode}`);
 		}
@@ -324,6 +343,8 @@ export class SwarmManager {
 			return err("MERGE_ABORTED", "Merge agent was aborted");
 		}
 
+		await this.recordMergeUsage([prdName], result, options.providerVariant);
+
 		// Clean up swarm state
 		if (runResult.ok && runResult.data) {
 			await this.session.destroyPane(runResult.data.paneId).catch(() => {});
@@ -361,13 +382,40 @@ export class SwarmManager {
 		}));
 		const prompt = buildMergeAllPrompt(entries);
 
-		// Run agent in the main worktree
+		// Run agent in the main worktree; every merged PRD gets a copy of the transcript
 		const executor = new AgentExecutor();
+		const transcriptPaths = mergeable.flatMap(
+			(r) =>
+				createTranscript(this.projectName, this.repoRoot, r.prdName, {
+					phase: "merge",
+					providerVariant: options.providerVariant,
+				}) ?? [],
+		);
 		const result = await executor.run(prompt, options.providerVariant, {
 			cwd: this.cwd,
 			onOutput: options.onOutput,
+			...options.timeouts,
+			...(transcriptPaths[0] && { transcriptPath: transcriptPaths[0] }),
 		});
+		for (const copyPath of transcriptPaths.slice(1)) {
+			try {
+				copyFileSync(transcriptPaths[0]!, copyPath);
+			} catch {
+				// Transcripts are best-effort
+			}
+		}
 
+		if (result.timedOut) {
+			await this.recordMergeUsage(
+				mergeable.map((r) => r.prdName),
+				result,
+				options.providerVariant,
+			);
+			return err(
+				ErrorCodes.AGENT_TIMEOUT,
+				describeAgentTimeout(result.timedOut, options.timeouts ?? {}),
+			);
+		}
 		if (result.exitCode !== 0 && !result.aborted) {
 			return err("MERGE_FAILED", `Merge agent exited with code ${result.exitCode}`);
 		}
@@ -375,6 +423,12 @@ export class SwarmManager {
 			return err("MERGE_ABORTED", "Merge agent was aborted");
 		}
 
+		await this.recordMergeUsage(
+			mergeable.map((r) => r.prdName),
+			result,
+			options.providerVariant,
+		);
+
 		// Clean up swarm state for all merged PRDs
 		const mergedNames: string[] = [];
 		for (const run of mergeable) {
@@ -568,6 +622,28 @@ export class SwarmManager {
 		}
 	}
 
+	/**
+	 * Record a merge agent's usage under the "merge" phase of each merged PRD.
+	 * A merge-all run is split evenly across its PRDs.
+	 */
+	private async recordMergeUsage(
+		prdNames: string[],
+		result: AgentResult,
+		providerVariant: ProviderVariantConfig,
+	): Promise<void> {
+		if (!result.usage || !hasUsage(result.usage)) {
+			return;
+		}
+		const share = splitUsage(result.usage, prdNames.length);
+		for (const prdName of prdNames) {
+			if (!hasPRDFile(this.projectName, this.repoRoot, prdName)) continue;
+			await updateMetrics(this.projectName, this.repoRoot, prdName, share, {
+				phase: "merge",
+				providerVariant: providerVariant.name,
+			}).catch(() => {});
+		}
+	}
+
 	/**
 	 * Pre-flight checks common to start operations
 	 */
@@ -591,7 +667,7 @@ export class SwarmManager {
 		if (!hasPRDFile(this.projectName, this.repoRoot, prdName)) {
 			return err(
 				"PRD_INVALID_STATUS",
-				`PRD "${prdName}" only has a spec — stories must be defined before running`,
+				`PRD "${prdName}" only has a spec — run 'ralph plan ${prdName}' to define its stories first`,
 			);
 		}
 
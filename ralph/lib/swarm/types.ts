@@ -5,6 +5,7 @@
  * and pluggable session backends.
  */
 
+import type { RunOptions as AgentRunOptions } from "../orchestration/agent-runner.js";
 import type { Result } from "../results.js";
 import type { ProviderVariantConfig } from "../types.js";
 
@@ -90,6 +91,8 @@ export interface MergeOptions {
 	providerVariant: ProviderVariantConfig;
 	/** Callback for agent output chunks */
 	onOutput?: (data: string) => void;
+	/** Timeouts for the merge agent (see getAgentTimeoutOptions) */
+	timeouts?: Pick<AgentRunOptions, "timeoutMs" | "idleTimeoutMs" | "killGraceMs">;
 }
 
 /**
@@ -219,6 +219,44 @@ export async function hasUncommittedChanges(worktreePath: string): Promise<Resul
 	return ok(result.data!.length > 0);
 }
 
+/**
+ * Stage and commit everything in a worktree. Does nothing when it is clean.
+ */
+export async function commitAll(worktreePath: string, message: string): Promise<Result<boolean>> {
+	const dirty = await hasUncommittedChanges(worktreePath);
+	if (!dirty.ok) return err(dirty.error!.code, dirty.error!.message);
+	if (!dirty.data) return ok(false);
+
+	const added = await gitResult(["add", "-A"], worktreePath);
+	if (!added.ok) return err(added.error!.code, added.error!.message);
+	const committed = await gitResult(["commit", "-q", "-m", message], worktreePath);
+	if (!committed.ok) return err(committed.error!.code, committed.error!.message);
+	return ok(true);
+}
+
+/**
+ * Merge a branch into the branch checked out at `cwd` with a merge commit.
+ * On conflict the merge is aborted, leaving `cwd` as it was, and "conflict" is returned.
+ */
+export async function mergeBranch(
+	branch: string,
+	cwd: string,
+	message: string,
+): Promise<Result<"merged" | "conflict">> {
+	try {
+		await git(["merge", "--no-ff", "-m", message, branch], cwd);
+		return ok("merged");
+	} catch (error) {
+		const status = await gitResult(["diff", "--name-only", "--diff-filter=U"], cwd);
+		if (status.ok && status.data) {
+			await git(["merge", "--abort"], cwd).catch(() => {});
+			return ok("conflict");
+		}
+		const msg = error instanceof Error ? error.message : String(error);
+		return err("MERGE_FAILED", `Failed to merge ${branch}: ${msg}`);
+	}
+}
+
 /**
  * Get the main worktree path (the one that's not a linked worktree)
  */
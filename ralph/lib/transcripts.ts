@@ -0,0 +1,181 @@
+/**
+ * Ralph Agent Transcripts
+ *
+ * Every agent run is captured to `<prd>/transcripts/<phase>-<story>-<n>.jsonl`:
+ * the prompt, the raw stdout/stderr chunks as they arrived, and the exit.
+ * `index.jsonl` lists the runs in order. Transcripts live in the PRD directory,
+ * so they outlive swarm panes and move with the PRD between statuses.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { getProviderAdapter } from "./orchestration/provider-adapters.js";
+import { getTranscriptsDir } from "./state.js";
+import type {
+	ProviderVariantConfig,
+	TranscriptIndexEntry,
+	TranscriptPhase,
+	TranscriptRecord,
+} from "./types.js";
+
+const INDEX_FILE = "index.jsonl";
+
+/**
+ * Read a JSON-lines file, skipping lines that do not parse
+ */
+function readJsonLines<T>(path: string): T[] {
+	if (!existsSync(path)) {
+		return [];
+	}
+	const entries: T[] = [];
+	for (const line of readFileSync(path, "utf-8").split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			entries.push(JSON.parse(line) as T);
+		} catch {
+			// Partial line from an interrupted write - skip
+		}
+	}
+	return entries;
+}
+
+/**
+ * List a PRD's transcripts in run order, optionally filtered by story and phase
+ */
+export function listTranscripts(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	filter: { storyId?: string; phase?: string } = {},
+): TranscriptIndexEntry[] {
+	const dir = getTranscriptsDir(projectName, repoRoot, prdName);
+	if (!dir) {
+		return [];
+	}
+	return readJsonLines<TranscriptIndexEntry>(join(dir, INDEX_FILE)).filter(
+		(entry) =>
+			(!filter.storyId || entry.storyId === filter.storyId) &&
+			(!filter.phase || entry.phase === filter.phase),
+	);
+}
+
+/**
+ * Allocate the transcript file for a new agent run and add it to the index.
+ *
+ * @returns Absolute path to write the transcript to, or null when the PRD does not exist
+ */
+export function createTranscript(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	run: { phase: TranscriptPhase; storyId?: string; providerVariant?: ProviderVariantConfig },
+): string | null {
+	const dir = getTranscriptsDir(projectName, repoRoot, prdName);
+	if (!dir) {
+		return null;
+	}
+
+	const storyId = run.storyId ?? "ALL";
+	const runNumber =
+		listTranscripts(projectName, repoRoot, prdName, { storyId, phase: run.phase }).length + 1;
+	const entry: TranscriptIndexEntry = {
+		file: `${run.phase}-${storyId}-${runNumber}.jsonl`,
+		phase: run.phase,
+		storyId,
+		run: runNumber,
+		...(run.providerVariant?.name && { providerVariant: run.providerVariant.name }),
+		...(run.providerVariant?.format && { format: run.providerVariant.format }),
+		startedAt: new Date().toISOString(),
+	};
+
+	try {
+		mkdirSync(dir, { recursive: true });
+		appendFileSync(join(dir, INDEX_FILE), `${JSON.stringify(entry)}\n`);
+	} catch {
+		return null;
+	}
+	return join(dir, entry.file);
+}
+
+/**
+ * Read the records of one transcript
+ */
+export function readTranscript(
+	projectName: string,
+	repoRoot: string,
+	prdName: string,
+	entry: TranscriptIndexEntry,
+): TranscriptRecord[] {
+	const dir = getTranscriptsDir(projectName, repoRoot, prdName);
+	return dir ? readJsonLines<TranscriptRecord>(join(dir, entry.file)) : [];
+}
+
+/**
+ * Render a transcript for reading: a header, the prompt size (or the full
+ * prompt), assistant text and tool calls decoded with the run's provider
+ * format, stderr, and the exit status.
+ */
+export function renderTranscript(
+	entry: TranscriptIndexEntry,
+	records: TranscriptRecord[],
+	options: { showPrompt?: boolean } = {},
+): string {
+	const lines: string[] = [
+		`=== ${entry.phase} ${entry.storyId} #${entry.run}${entry.providerVariant ? ` (${entry.providerVariant})` : ""} — ${entry.startedAt} ===`,
+	];
+
+	const prompt = records.find((r) => r.type === "prompt");
+	if (prompt?.type === "prompt") {
+		lines.push(
+			options.showPrompt
+				? `--- prompt ---\n${prompt.text}\n--- end prompt ---`
+				: `[prompt: ${prompt.text.length.toLocaleString()} chars]`,
+		);
+	}
+
+	const adapter = getProviderAdapter(entry.format);
+	const stdout = records.flatMap((r) => (r.type === "stdout" ? [r.data] : [])).join("");
+	let text = "";
+	let sawText = false;
+	let resultText: string | undefined;
+	const flushText = () => {
+		if (text.trim()) lines.push(text.trimEnd());
+		text = "";
+	};
+	for (const line of stdout.split("\n")) {
+		if (!line.trim()) continue;
+		for (const event of adapter.parseLine(line)) {
+			if (event.type === "text") {
+				text += event.text;
+				sawText = true;
+			} else if (event.type === "tool_use") {
+				flushText();
+				lines.push(`  → ${event.name}`);
+			} else if (event.type === "result") {
+				resultText = event.text ?? resultText;
+			}
+		}
+	}
+	// Like AgentExecutor, fall back to the result text when no assistant text streamed
+	text += sawText ? "" : (resultText ?? "");
+	flushText();
+
+	const stderr = records.flatMap((r) => (r.type === "stderr" ? [r.data] : [])).join("");
+	if (stderr.trim()) {
+		lines.push(`--- stderr ---\n${stderr.trimEnd()}`);
+	}
+
+	const exit = records.find((r) => r.type === "exit");
+	if (exit?.type === "exit") {
+		const notes = [
+			exit.aborted && "aborted",
+			exit.timedOut && `timed out (${exit.timedOut})`,
+			exit.failure && `failure: ${exit.failure}`,
+		].filter(Boolean);
+		lines.push(`--- exit ${exit.exitCode}${notes.length > 0 ? ` (${notes.join(", ")})` : ""} ---`);
+	} else {
+		lines.push("--- no exit recorded (run interrupted or still running) ---");
+	}
+
+	return lines.join("\n");
+}
@@ -43,8 +43,37 @@ export interface Story {
 	answers?: string[];
 	/** Number of iterations attempted for this story (used to detect stuck stories) */
 	iterationCount?: number;
+	/** HEAD sha recorded when work on this story started (base of the verifier diff) */
+	startCommit?: string;
+	/** HEAD sha once the story was completed and committed (end of its commit range) */
+	endCommit?: string;
+	/** Number of per-story verifier runs that returned FAIL */
+	verificationAttempts?: number;
+	/** Stuck-policy escalation already applied to this story */
+	stuckStage?: StuckStage;
+	/** Every stuck-policy step that ran for this story, in order */
+	stuckStagesTried?: StuckStage[];
+	/** Agent summaries of the most recent attempts, oldest first */
+	attemptSummaries?: string[];
+	/** Set when the user skipped the story instead of answering it; it counts as completed */
+	skipped?: boolean;
 }
 
+/**
+ * A user's response to a blocked story: answer its questions, skip it, or
+ * replace its story file with a rewritten one
+ */
+export type StoryResponse =
+	| { action: "answer"; answers: string[] }
+	| { action: "skip"; reason?: string }
+	| { action: "rewrite"; content: string };
+
+/**
+ * Escalation step applied to a stuck story: a re-plan prompt, then a
+ * stronger provider variant
+ */
+export type StuckStage = "replan" | "escalated";
+
 /**
  * Last run information - captured on Ctrl+C or completion
  */
@@ -54,19 +83,115 @@ export interface LastRun {
 	/** Story ID that was being worked on */
 	storyId: string;
 	/** Reason for stopping */
-	reason: "user_interrupted" | "completed" | "story_completed" | "blocked" | "error";
+	reason:
+		| "user_interrupted"
+		| "completed"
+		| "story_completed"
+		| "blocked"
+		| "budget_exceeded"
+		| "agent_timeout"
+		| "error";
 	/** Agent's summary of where it stopped */
 	summary: string;
 }
 
+/**
+ * Review pipeline position within an engine checkpoint
+ */
+export interface ReviewCheckpoint {
+	/** Review phase in progress */
+	phase: "first" | "second" | "finalize";
+	/** Fix iterations already applied in this phase */
+	fixIteration: number;
+	/** Follow-up and noise findings from completed phases (for the todo file) */
+	followUps: ReviewFinding[];
+	noise: ReviewFinding[];
+}
+
+/**
+ * QA run position within an engine checkpoint
+ */
+export interface QACheckpoint {
+	/** Last completed QA step */
+	step: "started" | "step1" | "step2";
+	/** Health-check fix agents already spawned */
+	healthFixAttempts: number;
+	/** Agent output of the completed steps */
+	output?: string;
+}
+
+/**
+ * Resumable engine progress after development, stored in `<prd>/checkpoint.json`.
+ * Written as each step completes and removed once the PRD leaves the phase, so a
+ * crashed `ralph start` or `ralph qa` picks up after the last completed step.
+ */
+export interface EngineCheckpoint {
+	/** Step in progress: code review, verification generation, or QA */
+	phase: "review" | "verification" | "qa";
+	/** ISO timestamp of the last update */
+	updatedAt: string;
+	review?: ReviewCheckpoint;
+	qa?: QACheckpoint;
+}
+
+/**
+ * Phase an agent run's usage is attributed to
+ */
+export type UsagePhase = "dev" | "verify" | "review" | "qa" | "docs" | "merge";
+
+/**
+ * Token and cost usage reported by a single agent run
+ */
+export interface AgentUsage {
+	inputTokens?: number;
+	outputTokens?: number;
+	/** Prompt tokens served from the provider's cache */
+	cacheReadTokens?: number;
+	/** Prompt tokens written to the provider's cache */
+	cacheWriteTokens?: number;
+	/** Cost in USD as reported by the provider */
+	costUsd?: number;
+}
+
+/**
+ * Where an agent run's usage is attributed in PRD metrics
+ */
+export interface UsageAttribution {
+	storyId?: string;
+	phase?: UsagePhase;
+	providerVariant?: string;
+}
+
+/**
+ * Aggregated usage for one story, phase, or provider variant
+ */
+export interface UsageTotals {
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens: number;
+	cacheWriteTokens: number;
+	/** Input + output + cache read + cache write tokens */
+	totalTokens: number;
+	costUsd: number;
+	/** Number of agent runs that reported usage */
+	runs: number;
+}
+
 /**
  * Metrics tracked for a PRD
  */
 export interface PRDMetrics {
+	/** Input + output + cache read + cache write tokens */
 	totalTokens?: number;
 	inputTokens?: number;
 	outputTokens?: number;
+	cacheReadTokens?: number;
+	cacheWriteTokens?: number;
+	costUsd?: number;
 	iterations?: number;
+	byStory?: Record<string, UsageTotals>;
+	byPhase?: Partial<Record<UsagePhase, UsageTotals>>;
+	byProviderVariant?: Record<string, UsageTotals>;
 }
 
 /**
@@ -87,8 +212,119 @@ export interface PRD {
 	qaCaughtIssue?: boolean;
 	lastRun?: LastRun;
 	metrics?: PRDMetrics;
+	/** Hook output not yet shown to a dev agent; the next dev prompt includes and clears it */
+	hookOutputs?: HookOutput[];
+	/** HEAD sha when development started (base of the review diff) */
+	baseCommit?: string;
+}
+
+/**
+ * Status values an agent may report in a `<ralph-result>` block.
+ * Each agent phase uses its own subset:
+ * - development: completed | blocked | split
+ * - fix, finalize: completed | blocked
+ * - QA: verified | failed
+ * - health-check fix: fixed | not_fixable
+ * - review: approve | request_changes
+ * - documentation: completed | no_updates
+ */
+export type RalphResultStatus =
+	| "completed"
+	| "blocked"
+	| "verified"
+	| "failed"
+	| "fixed"
+	| "not_fixable"
+	| "approve"
+	| "request_changes"
+	| "no_updates"
+	| "split";
+
+/**
+ * One sub-story proposed when a story is too large for a single iteration
+ */
+export interface StorySplitPart {
+	title: string;
+	/** What this part delivers */
+	goal?: string;
+	/** Items for the part's `## Scope` section */
+	scope?: string[];
+	/** Items for the part's `## Out of scope` section; the other parts are always listed */
+	outOfScope?: string[];
+	/** Items for the part's `## Deliverables` section */
+	deliverables?: string[];
+	/** Code-level checks for the part's `## Acceptance Criteria` section */
+	acceptanceCriteria: string[];
+	/** Paths for the part's `## Suggested files` section */
+	suggestedFiles?: string[];
+}
+
+/**
+ * Structured completion signal emitted by agents as
+ * `<ralph-result>{json}</ralph-result>` (protocol version 1)
+ */
+export interface RalphResult {
+	version: 1;
+	status: RalphResultStatus;
+	/** One-paragraph summary of what the agent did */
+	summary: string;
+	/** Files the agent created or modified */
+	files: string[];
+	/** Questions for the user (when blocked) */
+	questions: string[];
+	/** Issues found (QA failures, unresolved problems) */
+	issues: string[];
+	/** Proposed sub-stories, in implementation order (status `split`) */
+	split?: StorySplitPart[];
+}
+
+/**
+ * Output format of a provider CLI, selecting the adapter that parses its stdout
+ */
+export type ProviderFormat =
+	| "claude-stream-json"
+	| "codex-json"
+	| "gemini-stream-json"
+	| "opencode-json"
+	| "text";
+
+/**
+ * Phase an agent transcript belongs to (usage phases plus findings extraction)
+ */
+export type TranscriptPhase = UsagePhase | "findings";
+
+/**
+ * One agent invocation in `<prd>/transcripts/index.jsonl`
+ */
+export interface TranscriptIndexEntry {
+	/** File name inside the transcripts directory, e.g. `dev-US-001-2.jsonl` */
+	file: string;
+	phase: TranscriptPhase;
+	/** Story the run worked on, or "ALL" for PRD-wide runs */
+	storyId: string;
+	/** 1-based run number for this phase and story */
+	run: number;
+	providerVariant?: string;
+	format?: ProviderFormat;
+	/** ISO timestamp */
+	startedAt: string;
 }
 
+/**
+ * One line of a transcript file: the prompt, raw output chunks, then the exit
+ */
+export type TranscriptRecord =
+	| { type: "prompt"; ts: string; text: string }
+	| { type: "stdout" | "stderr"; ts: string; data: string }
+	| {
+			type: "exit";
+			ts: string;
+			exitCode: number;
+			aborted: boolean;
+			timedOut?: string;
+			failure?: string;
+	  };
+
 /**
  * Provider variant configuration — a Ralph-owned LLM launch profile.
  * Each variant is a command + args pair Ralph can spawn directly.
@@ -96,6 +332,16 @@ export interface PRD {
 export interface ProviderVariantConfig {
 	command: string;
 	args: string[];
+	/** Output format of the CLI (default: "claude-stream-json") */
+	format?: ProviderFormat;
+	/** Kill the agent after this many minutes (overridden per phase by [ralph.timeouts]) */
+	timeout_minutes?: number;
+	/** Kill the agent after this many minutes without output (overridden per phase by [ralph.timeouts]) */
+	idle_timeout_minutes?: number;
+	/** Provider variants to switch to, in order, when this one keeps failing */
+	fallback_variants?: string[];
+	/** Variant name, set when resolved through getProviderVariantConfig */
+	name?: string;
 }
 
 /**
@@ -134,6 +380,52 @@ export interface ScriptsConfig {
 	teardown?: string;
 }
 
+/**
+ * Lifecycle points where a `[ralph.hooks]` command runs
+ */
+export type HookName =
+	| "pre_iteration"
+	| "post_iteration"
+	| "pre_review"
+	| "post_qa"
+	| "on_complete"
+	| "on_blocked";
+
+/**
+ * Hooks configuration - shell commands run from the repo root around
+ * development iterations. A non-zero exit vetoes the transition the hook guards.
+ */
+export interface HooksConfig {
+	/** Before each dev iteration; a veto stops the run */
+	pre_iteration?: string;
+	/** After each dev iteration; a veto reopens a story the agent marked completed */
+	post_iteration?: string;
+	/** Before the review pipeline; a veto stops the run before review */
+	pre_review?: string;
+	/** After QA reports a result; a veto keeps the PRD in QA */
+	post_qa?: string;
+	/** When a story is about to be completed; a veto reopens it */
+	on_complete?: string;
+	/** When a story is about to be blocked; a veto keeps it in progress */
+	on_blocked?: string;
+	/** Seconds before a hook is killed and counted as a veto (default: 300) */
+	timeout?: number;
+}
+
+/**
+ * Output of one hook run, kept until a dev prompt has shown it
+ */
+export interface HookOutput {
+	hook: HookName;
+	/** Story the hook ran for, if any */
+	storyId?: string;
+	exitCode: number;
+	/** Combined stdout and stderr, tail-clipped */
+	output: string;
+	/** ISO timestamp */
+	timestamp: string;
+}
+
 /**
  * Issue found during QA
  */
@@ -154,6 +446,117 @@ export interface DocsConfig {
 	provider_variant?: string;
 }
 
+/**
+ * Per-story verifier configuration
+ */
+export interface VerificationConfig {
+	/** Run the story verifier after each completed story (default: true) */
+	enabled?: boolean;
+	/** Provider variant for the story verifier (default: "claude-haiku") */
+	story_verifier_provider_variant?: string;
+}
+
+/**
+ * Per-PRD budget limits. Unset limits are not enforced.
+ */
+export interface BudgetConfig {
+	/** Max total tokens (input + output + cache) across all agent runs on the PRD */
+	max_tokens?: number;
+	/** Max cost in USD across all agent runs on the PRD */
+	max_usd?: number;
+	/** Max wall-clock minutes since the PRD was started */
+	max_wall_clock_minutes?: number;
+	/** Max development iterations for a single story */
+	max_iterations_per_story?: number;
+}
+
+/**
+ * Wall-clock and no-output limits for a single agent run
+ */
+export interface AgentTimeoutConfig {
+	/** Kill the agent after this many minutes */
+	timeout_minutes?: number;
+	/** Kill the agent after this many minutes without output */
+	idle_timeout_minutes?: number;
+}
+
+/**
+ * What the development loop does when a story's agent run times out:
+ * - retry: re-run the story without counting the iteration (up to max_retries)
+ * - count: count the run as a failed iteration and continue
+ * - block: block the story
+ */
+export type TimeoutPolicy = "retry" | "count" | "block";
+
+/**
+ * Agent run timeouts. Per-phase limits override the provider variant's own.
+ */
+export interface TimeoutsConfig {
+	/** Development policy for a timed-out story run (default: "count") */
+	on_timeout?: TimeoutPolicy;
+	/** Uncounted re-runs allowed by the retry policy before the timeout counts (default: 1) */
+	max_retries?: number;
+	/** Seconds between SIGTERM and SIGKILL (default: 10) */
+	kill_grace_seconds?: number;
+	dev?: AgentTimeoutConfig;
+	verify?: AgentTimeoutConfig;
+	qa?: AgentTimeoutConfig;
+	review?: AgentTimeoutConfig;
+	merge?: AgentTimeoutConfig;
+	docs?: AgentTimeoutConfig;
+}
+
+/**
+ * Retry policy for agent runs that fail for transient reasons (rate limits, network errors)
+ */
+export interface RetryConfig {
+	/** Retries on the same provider variant before switching to a fallback (default: 3) */
+	max_retries?: number;
+	/** Delay before the first retry; doubles on each further retry (default: 30) */
+	base_delay_seconds?: number;
+	/** Upper bound for the backoff delay (default: 600) */
+	max_delay_seconds?: number;
+}
+
+/**
+ * Opt-in parallel story execution within a single PRD
+ */
+export interface ParallelConfig {
+	/** Run independent stories concurrently in sub-worktrees (default: false) */
+	enabled?: boolean;
+	/** Maximum stories running at once (default: 2) */
+	max_stories?: number;
+	/** Directory for story worktrees, relative to the repo root (default: [ralph.swarm] worktree_parent) */
+	worktree_parent?: string;
+}
+
+/**
+ * Per-story commit discipline
+ */
+export interface CommitsConfig {
+	/** Commit changes a completed story left uncommitted, as `feat: [<id>] - <title>` (default: true) */
+	auto_commit?: boolean;
+	/** Reopen a story marked completed without any commit since its start (default: false) */
+	require_commit?: boolean;
+}
+
+/**
+ * Stuck-story policy: how many iterations a story gets, and the escalation
+ * steps tried before it is blocked
+ */
+export interface StuckConfig {
+	/** Iterations before a story counts as stuck (default: 3) */
+	max_iterations?: number;
+	/** Thresholds by story priority, keyed "1"–"10"; override max_iterations */
+	priority_max_iterations?: Record<string, number>;
+	/** Thresholds by story id; override priority thresholds */
+	story_max_iterations?: Record<string, number>;
+	/** Re-prompt a stuck story once with a re-plan prompt (default: true) */
+	replan?: boolean;
+	/** Provider variant for one final attempt before blocking (default: none) */
+	escalation_provider_variant?: string;
+}
+
 /**
  * Review configuration for code review pipeline
  */
@@ -173,6 +576,53 @@ export interface ReviewConfig {
 	second_review_agents?: string[];
 	max_fix_iterations?: number;
 	todo_file?: string;
+	/** Estimated tokens of diff per reviewer prompt; larger diffs are split per file (default: 12000) */
+	diff_token_budget?: number;
+	/** Globs of changed files left out of the review diff (default: common lockfiles and minified files) */
+	diff_exclude?: string[];
+	/** After a fix, have reviewers re-check their own findings against the fix diff instead of re-reviewing everything (default: true) */
+	recheck_fixes?: boolean;
+}
+
+/**
+ * Output format of a tool reviewer's command
+ */
+export type ToolReviewerFormat = "sarif" | "json";
+
+/**
+ * A reviewer that runs a static-analysis command instead of an agent
+ */
+export interface ToolReviewerConfig {
+	/** Shell command run in the repo root; its stdout is parsed */
+	command: string;
+	format: ToolReviewerFormat;
+	/** Seconds before the command is killed */
+	timeout: number;
+	/** Keep only findings in files the review diff touches */
+	changedFilesOnly: boolean;
+}
+
+/**
+ * A reviewer: its prompt plus the settings from its agent.toml
+ */
+export interface ReviewerDefinition {
+	/** Name used in `first_review_agents` / `second_review_agents` */
+	name: string;
+	/** `repo` for `.omni/ralph/reviewers/`, `bundled` for Ralph's own */
+	source: "repo" | "bundled";
+	/** Directory holding prompt.md and agent.toml */
+	dir: string;
+	/** `agent` reviewers are prompted with the diff; `tool` reviewers run a command */
+	type: "agent" | "tool";
+	description?: string;
+	/** Instructions from prompt.md; empty for a tool reviewer without one */
+	prompt: string;
+	/** Set for tool reviewers */
+	tool?: ToolReviewerConfig;
+	/** Globs of changed files the reviewer runs for; unset runs it for every diff */
+	paths?: string[];
+	/** Least severe finding kept from this reviewer */
+	minSeverity?: ReviewFinding["severity"];
 }
 
 /**
@@ -186,6 +636,46 @@ export interface ReviewFinding {
 	reviewer: string;
 }
 
+/**
+ * Where a finding stands: `open` until a fix iteration resolves it (`fixed`)
+ * or someone triages it as `disputed`, `deferred`, or `wontfix`
+ */
+export type FindingStatus = "open" | "fixed" | "disputed" | "deferred" | "wontfix";
+
+/**
+ * A review round: its phase and fix iteration (0 = before any fix)
+ */
+export interface FindingRound {
+	phase: "first" | "second";
+	iteration: number;
+	timestamp: string;
+}
+
+/**
+ * A finding as tracked in the findings ledger across review rounds
+ */
+export interface LedgerFinding extends ReviewFinding {
+	/** Stable fingerprint of file and issue text, kept across rounds and line shifts */
+	id: string;
+	status: FindingStatus;
+	firstSeen: FindingRound;
+	lastSeen: FindingRound;
+	/** Last fix iteration the finding was handed to */
+	sentToFix?: FindingRound;
+	/** Fix iteration after which reviewers stopped reporting it */
+	fixedBy?: FindingRound;
+	/** Why it was triaged */
+	note?: string;
+}
+
+/**
+ * Every finding reported for a PRD, stored in `review-results/findings.json`
+ */
+export interface FindingsLedger {
+	updatedAt: string;
+	findings: LedgerFinding[];
+}
+
 /**
  * Result of a single review round
  */
@@ -195,6 +685,208 @@ export interface ReviewRoundResult {
 	findings: ReviewFinding[];
 }
 
+/**
+ * A reviewer's verdict on one of its findings after a fix
+ */
+export interface FindingVerdict {
+	/** Ledger ID of the finding */
+	id: string;
+	verdict: "resolved" | "unresolved";
+	note?: string;
+}
+
+/**
+ * Result of a reviewer re-checking its findings against a fix diff
+ */
+export interface RecheckResult {
+	reviewType: string;
+	verdicts: FindingVerdict[];
+	/** New issues the fix introduced */
+	regressions: ReviewFinding[];
+}
+
+/**
+ * A single acceptance-criteria check reported by the story verifier
+ */
+export interface StoryVerificationCheck {
+	id: string;
+	status: "pass" | "fail";
+	evidence: string;
+}
+
+/**
+ * Per-story verifier verdict, persisted to `verification-results/<story-id>.json`
+ */
+export interface StoryVerificationResult {
+	storyId: string;
+	timestamp: string;
+	result: "pass" | "fail";
+	/** 1-based verifier run number for this story */
+	attempt: number;
+	/** Commit the diff was taken from (story start commit) */
+	baseCommit?: string;
+	checks: StoryVerificationCheck[];
+}
+
+/**
+ * Quality gates - commands that must pass before a story counts as completed
+ */
+export interface GatesConfig {
+	/** Gate name → shell command, run in order from the repo root */
+	commands?: Record<string, string>;
+	/** Seconds before a gate command is killed and counted as failed (default: 600) */
+	timeout?: number;
+}
+
+/**
+ * Outcome of one gate command
+ */
+export interface GateCheck {
+	name: string;
+	command: string;
+	passed: boolean;
+	exitCode: number;
+	/** Combined stdout and stderr, tail-clipped */
+	output: string;
+	durationMs: number;
+}
+
+/**
+ * Gate results for one iteration of a story, appended to `gate-results/<story-id>.json`
+ */
+export interface StoryGateResult {
+	storyId: string;
+	/** Story iteration the gates ran after */
+	iteration: number;
+	timestamp: string;
+	passed: boolean;
+	gates: GateCheck[];
+}
+
+/**
+ * Limits `ralph lint` checks story files against
+ */
+export interface LintConfig {
+	/** Fewest acceptance criteria a story may have (default: 1) */
+	min_acceptance_criteria?: number;
+	/** Most acceptance criteria before a story counts as oversized (default: 10) */
+	max_acceptance_criteria?: number;
+}
+
+export type LintSeverity = "error" | "warning";
+
+/**
+ * What a lint issue is about
+ */
+export type LintRule =
+	| "prd-json"
+	| "prd-name"
+	| "prd-dependency"
+	| "story-id"
+	| "story-file"
+	| "frontmatter"
+	| "section"
+	| "acceptance-criteria"
+	| "story-dependency";
+
+/**
+ * One problem `ralph lint` found in a PRD
+ */
+export interface LintIssue {
+	rule: LintRule;
+	severity: LintSeverity;
+	/** File the issue is in, relative to the PRD folder */
+	file: string;
+	storyId?: string;
+	message: string;
+}
+
+/**
+ * Lint results for one PRD
+ */
+export interface PRDLintReport {
+	prdName: string;
+	status: PRDStatus;
+	issues: LintIssue[];
+}
+
+/**
+ * Machine-readable output of `ralph lint`
+ */
+export interface LintReport {
+	prds: PRDLintReport[];
+	errors: number;
+	warnings: number;
+}
+
+/**
+ * Engine moments worth telling someone about
+ */
+export type NotificationEvent =
+	| "story_blocked"
+	| "prd_qa"
+	| "qa_verified"
+	| "qa_failed"
+	| "budget_exceeded"
+	| "error";
+
+/**
+ * `notify-send` desktop notifications
+ */
+export interface DesktopNotificationConfig {
+	/** Default: true once the table is present */
+	enabled?: boolean;
+	/** Only these events reach this sink (default: the global `events`) */
+	events?: NotificationEvent[];
+}
+
+/**
+ * HTTP webhook notifications
+ */
+export interface WebhookNotificationConfig {
+	url: string;
+	/** Default: POST */
+	method?: string;
+	headers?: Record<string, string>;
+	/** JSON body template with `{{event}}`, `{{project}}`, `{{prd}}`, `{{story}}`, `{{title}}`, `{{message}}`, `{{timestamp}}` (default: the whole notification as JSON) */
+	body?: string;
+	events?: NotificationEvent[];
+}
+
+/**
+ * Shell command notifications; the notification is passed in `RALPH_NOTIFY_*` variables
+ */
+export interface CommandNotificationConfig {
+	command: string;
+	events?: NotificationEvent[];
+}
+
+/**
+ * Notifications configuration - sinks that hear about engine events
+ */
+export interface NotificationsConfig {
+	/** Events to notify about (default: all) */
+	events?: NotificationEvent[];
+	/** Seconds before a webhook request or command is abandoned (default: 10) */
+	timeout?: number;
+	desktop?: DesktopNotificationConfig;
+	webhook?: WebhookNotificationConfig;
+	command?: CommandNotificationConfig;
+}
+
+/**
+ * One notification, as sent to every sink
+ */
+export interface Notification {
+	event: NotificationEvent;
+	project: string;
+	prd: string;
+	storyId?: string;
+	title: string;
+	message: string;
+	timestamp: string;
+}
+
 /**
  * Swarm configuration for parallel PRD execution
  */
@@ -222,6 +914,28 @@ export interface RalphConfig {
 	provider_variants: Record<string, ProviderVariantConfig>;
 	/** Provider variant for verification prompt generation. Falls back to default_provider_variant. */
 	verification_provider_variant?: string;
+	/** Per-story verifier configuration */
+	verification?: VerificationConfig;
+	/** Per-PRD budget limits */
+	budget?: BudgetConfig;
+	/** Agent run timeouts */
+	timeouts?: TimeoutsConfig;
+	/** Retry policy for transient agent failures */
+	retry?: RetryConfig;
+	/** Parallel story execution */
+	parallel?: ParallelConfig;
+	/** Stuck-story policy */
+	stuck?: StuckConfig;
+	/** Per-story commit discipline */
+	commits?: CommitsConfig;
+	/** Lifecycle hooks around development iterations */
+	hooks?: HooksConfig;
+	/** Quality gates run when a story claims completion */
+	gates?: GatesConfig;
+	/** Story file limits for `ralph lint` and `ralph plan` */
+	lint?: LintConfig;
+	/** Desktop, webhook, and command notifications for engine events */
+	notifications?: NotificationsConfig;
 	/** QA configuration */
 	qa?: QAConfig;
 	/** Scripts configuration - paths to lifecycle scripts */
@@ -5,15 +5,30 @@
 import { afterEach, beforeEach, it } from "bun:test";
 import assert from "node:assert";
 import { execSync } from "node:child_process";
-import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
 import { join } from "node:path";
 import {
+	classifyAgentFailure,
 	createEngine,
+	createTranscript,
+	type EngineEvent,
 	ensureDirectories,
+	formatStuckDiagnosis,
 	getAgentExecutor,
+	getDefaultStore,
+	getProviderVariantConfig,
 	getStatusDir,
+	listTranscripts,
 	loadConfig,
+	parseRalphResult,
+	readTranscript,
+	renderTranscript,
+	rollbackStory,
+	runAgentWithRecovery,
+	runGates,
 } from "./lib/index.js";
 import type { PRD, PRDStatus } from "./lib/types.js";
 import { cleanupTmpTestDir, createTmpTestDir } from "./test-helpers.js";
@@ -241,6 +256,221 @@ it("returns exit code on failure via AgentExecutor", async () => {
 	assert.strictEqual(result.exitCode, 1);
 });
 
+it("captures usage and cost from the stream-json result event", async () => {
+	const executor = getAgentExecutor();
+	const resultEvent = JSON.stringify({
+		type: "result",
+		result: "done",
+		total_cost_usd: 0.42,
+		usage: {
+			input_tokens: 12,
+			output_tokens: 340,
+			cache_read_input_tokens: 5000,
+			cache_creation_input_tokens: 800,
+		},
+	});
+
+	const result = await executor.run("test", {
+		command: "sh",
+		args: ["-c", `cat > /dev/null; echo '${resultEvent}'`],
+	});
+
+	assert.strictEqual(result.output, "done");
+	assert.deepStrictEqual(result.usage, {
+		inputTokens: 12,
+		outputTokens: 340,
+		cacheReadTokens: 5000,
+		cacheWriteTokens: 800,
+		costUsd: 0.42,
+	});
+});
+
+it("normalizes other providers' event streams through the variant's format adapter", async () => {
+	const executor = getAgentExecutor();
+	const codexEvents = [
+		{ type: "thread.started", thread_id: "t1" },
+		{ type: "item.completed", item: { id: "i0", type: "command_execution", command: "ls" } },
+		{ type: "item.completed", item: { id: "i1", type: "agent_message", text: "done" } },
+		{
+			type: "turn.completed",
+			usage: { input_tokens: 100, cached_input_tokens: 40, output_tokens: 7 },
+		},
+		{ type: "turn.completed", usage: { input_tokens: 50, output_tokens: 3 } },
+	]
+		.map((event) => JSON.stringify(event))
+		.join("\n");
+	const tools: string[] = [];
+
+	const codex = await executor.run(
+		"test",
+		{ command: "sh", args: ["-c", `cat > /dev/null; echo '${codexEvents}'`], format: "codex-json" },
+		{ onTool: (name) => tools.push(name) },
+	);
+
+	assert.strictEqual(codex.output, "done\n");
+	assert.deepStrictEqual(tools, ["command_execution"]);
+	assert.deepStrictEqual(codex.usage, { inputTokens: 110, outputTokens: 10, cacheReadTokens: 40 });
+
+	// The plain-text adapter keeps JSON-looking lines as output
+	const text = await executor.run("test", {
+		command: "sh",
+		args: ["-c", `cat > /dev/null; echo '{"type":"result","result":"x"}'`],
+		format: "text",
+	});
+	assert.strictEqual(text.output, '{"type":"result","result":"x"}\n');
+	assert.strictEqual(text.usage, undefined);
+});
+
+it("keeps malformed or unknown stream lines from a failing provider as raw output", async () => {
+	const executor = getAgentExecutor();
+	const lines = [
+		"warning: config file not found",
+		'{"type":"assistant","message":{"content":[{"type":"text","text":"partial',
+		JSON.stringify({ type: "rate_limit_event", retry_after: 30 }),
+		"[1, 2, 3]",
+	].join("\n");
+
+	const result = await executor.run("test", {
+		command: "sh",
+		args: ["-c", `cat > /dev/null; echo '${lines}'; exit 2`],
+		format: "claude-stream-json",
+	});
+
+	assert.strictEqual(result.exitCode, 2);
+	assert.ok(result.output.includes("warning: config file not found\n"));
+	assert.ok(result.output.includes('"text":"partial'));
+	assert.ok(result.output.includes("[1, 2, 3]\n"));
+	assert.ok(!result.output.includes("rate_limit_event"));
+	assert.strictEqual(result.usage, undefined);
+});
+
+it("rejects a provider variant with an unknown output format", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.provider_variants.other]
+command = "other"
+args = []
+format = "other-json"
+`,
+	);
+
+	const result = await loadConfig();
+	assert.ok(!result.ok);
+	assert.ok(result.error!.message.includes("format"));
+});
+
+it("kills an agent that exceeds its idle or wall-clock timeout", async () => {
+	const executor = getAgentExecutor();
+
+	const idle = await executor.run(
+		"test",
+		{ command: "sh", args: ["-c", "cat > /dev/null; echo started; exec sleep 5"] },
+		{ idleTimeoutMs: 200 },
+	);
+	assert.strictEqual(idle.timedOut, "idle");
+	assert.ok(idle.output.includes("started"));
+
+	const wallClock = await executor.run(
+		"test",
+		{ command: "sh", args: ["-c", "cat > /dev/null; exec sleep 5"] },
+		{ timeoutMs: 200, idleTimeoutMs: 60_000 },
+	);
+	assert.strictEqual(wallClock.timedOut, "wall_clock");
+
+	const fast = await executor.run("test", { command: "echo", args: ["ok"] }, { timeoutMs: 5000 });
+	assert.strictEqual(fast.timedOut, undefined);
+});
+
+it("escalates to SIGKILL when a timed-out agent ignores SIGTERM", async () => {
+	const executor = getAgentExecutor();
+	const startedAt = Date.now();
+
+	const result = await executor.run(
+		"test",
+		{ command: "sh", args: ["-c", "trap '' TERM; cat > /dev/null; exec sleep 10"] },
+		{ timeoutMs: 200, killGraceMs: 200 },
+	);
+
+	assert.strictEqual(result.timedOut, "wall_clock");
+	assert.ok(Date.now() - startedAt < 5000);
+});
+
+it("captures each agent run as a transcript under the PRD", async () => {
+	await createTestPRD("transcript-prd");
+	const executor = getAgentExecutor();
+	const events = [
+		{ type: "assistant", message: { content: [{ type: "text", text: "Reading files" }] } },
+		{ type: "assistant", message: { content: [{ type: "tool_use", name: "Read" }] } },
+		{ type: "result", result: "done" },
+	]
+		.map((event) => JSON.stringify(event))
+		.join("\n");
+	const variant = {
+		name: "test",
+		command: "sh",
+		args: ["-c", `cat > /dev/null; echo '${events}'; echo oops >&2; exit 3`],
+	};
+
+	for (let i = 0; i < 2; i++) {
+		const transcriptPath = createTranscript(PROJECT_NAME, REPO_ROOT, "transcript-prd", {
+			phase: "dev",
+			storyId: "US-001",
+			providerVariant: variant,
+		});
+		assert.ok(transcriptPath);
+		await executor.run("implement US-001", variant, { transcriptPath });
+	}
+
+	const entries = listTranscripts(PROJECT_NAME, REPO_ROOT, "transcript-prd", { storyId: "US-001" });
+	assert.deepStrictEqual(
+		entries.map((e) => e.file),
+		["dev-US-001-1.jsonl", "dev-US-001-2.jsonl"],
+	);
+	assert.strictEqual(
+		createTranscript(PROJECT_NAME, REPO_ROOT, "missing-prd", { phase: "qa" }),
+		null,
+	);
+
+	const records = readTranscript(PROJECT_NAME, REPO_ROOT, "transcript-prd", entries[1]!);
+	assert.deepStrictEqual(records[0], {
+		type: "prompt",
+		ts: records[0]?.ts,
+		text: "implement US-001",
+	});
+	assert.strictEqual(records.at(-1)?.type, "exit");
+
+	const rendered = renderTranscript(entries[1]!, records);
+	assert.ok(rendered.includes("=== dev US-001 #2 (test)"));
+	assert.ok(rendered.includes("Reading files\n  → Read"));
+	assert.ok(rendered.includes("--- stderr ---\noops"));
+	assert.ok(rendered.includes("--- exit 3"));
+});
+
+it("parses agent status from the <ralph-result> block", () => {
+	const executor = getAgentExecutor();
+
+	const completed = `Done.\n<ralph-result>{"version": 1, "status": "completed", "summary": "Added auth", "files": ["lib/auth.ts"]}</ralph-result>`;
+	assert.strictEqual(executor.parseStatus(completed, "US-001"), "completed");
+	assert.ok(executor.hasCompletionSignal(completed));
+
+	const blocked = `<ralph-result>\n{"version": 1, "status": "blocked", "questions": ["Which DB?"]}\n</ralph-result>`;
+	assert.strictEqual(executor.parseStatus(blocked, "US-001"), "blocked");
+	assert.ok(!executor.hasCompletionSignal(blocked));
+	assert.deepStrictEqual(parseRalphResult(blocked)?.questions, ["Which DB?"]);
+
+	// Legacy tag still counts; prose and malformed blocks do not
+	assert.strictEqual(executor.parseStatus("<promise>COMPLETE</promise>", "US-001"), "completed");
+	assert.strictEqual(executor.parseStatus("All tasks done, story is complete.", "US-001"), null);
+	assert.strictEqual(
+		executor.parseStatus(
+			'<ralph-result>{"version": 2, "status": "completed"}</ralph-result>',
+			"US-001",
+		),
+		null,
+	);
+});
+
 it("returns error when PRD doesn't exist", async () => {
 	const engine = createEngine({ projectName: PROJECT_NAME, repoRoot: REPO_ROOT });
 
@@ -362,3 +592,1596 @@ it("skips review after a failed QA cycle even if qaCaughtIssue was dropped from
 	);
 	assert.ok(!events.some((event) => event.type === "review_start"));
 });
+
+const VERIFIER_CONFIG = `${MOCK_CONFIG}
+[ralph.provider_variants.verifier]
+command = "echo"
+args = ["verifier"]
+
+[ralph.verification]
+story_verifier_provider_variant = "verifier"
+`;
+
+function createVerifierMockExecutor(verdicts: string[]) {
+	const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+	const prompts: string[] = [];
+	return {
+		prompts,
+		executor: {
+			async run(prompt: string) {
+				prompts.push(prompt);
+				if (prompt.includes("Story verifier.")) {
+					return { output: verdicts.shift() ?? "", exitCode: 0, aborted: false };
+				}
+				if (prompt.startsWith("# Code Review")) {
+					return {
+						output: "<review-result>APPROVE</review-result>",
+						exitCode: 0,
+						aborted: false,
+					};
+				}
+				// Dev agent: mark the only story completed, as instructed by the dev prompt
+				await store.update("verify-prd", (prd) => {
+					for (const story of prd.stories) story.status = "completed";
+					return prd;
+				});
+				return { output: "<promise>COMPLETE</promise>", exitCode: 0, aborted: false };
+			},
+			parseTokenUsage() {
+				return {};
+			},
+			hasCompletionSignal(output: string) {
+				return output.includes("<promise>COMPLETE</promise>");
+			},
+			parseStatus() {
+				return null;
+			},
+		},
+	};
+}
+
+const VERIFY_STORY = {
+	id: "US-001",
+	title: "Verified story",
+	promptPath: "stories/US-001.md",
+	status: "pending" as const,
+	priority: 1,
+	questions: [],
+};
+
+it("loads story verifier config", async () => {
+	writeFileSync(join(testDir, "omni.toml"), VERIFIER_CONFIG);
+
+	const result = await loadConfig();
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.verification?.story_verifier_provider_variant, "verifier");
+});
+
+it("rejects a story verifier variant that is not defined", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.verification]
+story_verifier_provider_variant = "missing"
+`,
+	);
+
+	const result = await loadConfig();
+	assert.ok(!result.ok);
+	assert.ok(result.error!.message.includes("ralph.verification.story_verifier_provider_variant"));
+});
+
+it("reopens a story once on verifier FAIL, then blocks it on a second FAIL", async () => {
+	writeFileSync(join(testDir, "omni.toml"), VERIFIER_CONFIG);
+	await createTestPRD("verify-prd", { stories: [VERIFY_STORY] }, "in_progress");
+
+	const failOutput = `<check id="1" status="fail" evidence="Nothing implemented"/>
+<verification-result>FAIL</verification-result>`;
+	const { executor, prompts } = createVerifierMockExecutor([failOutput, failOutput]);
+	const events: Array<{ type: string }> = [];
+
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+	const result = await engine.runDevelopment("verify-prd", {
+		onEvent: (event) => events.push(event),
+	});
+
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "blocked");
+	assert.strictEqual(events.filter((event) => event.type === "story_verify_complete").length, 2);
+
+	// The retry prompt carries the failed check as verifier feedback
+	const devPrompts = prompts.filter((prompt) => !prompt.includes("Story verifier."));
+	assert.strictEqual(devPrompts.length, 2);
+	assert.ok(devPrompts[1]!.includes("AC 1 (Done) failed — Nothing implemented"));
+
+	const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+	const prd = (await store.get("verify-prd")).data!;
+	assert.strictEqual(prd.stories[0]?.status, "blocked");
+	assert.strictEqual(prd.stories[0]?.verificationAttempts, 2);
+	assert.ok(prd.stories[0]?.startCommit);
+
+	const verdictPath = join(store.getVerificationResultsDir("verify-prd")!, "US-001.json");
+	const verdict = JSON.parse(readFileSync(verdictPath, "utf-8"));
+	assert.strictEqual(verdict.result, "fail");
+	assert.strictEqual(verdict.attempt, 2);
+});
+
+it("moves to QA when the story verifier passes", async () => {
+	writeFileSync(join(testDir, "omni.toml"), VERIFIER_CONFIG);
+	await createTestPRD("verify-prd", { stories: [VERIFY_STORY] }, "in_progress");
+
+	const { executor } = createVerifierMockExecutor([
+		`<check id="1" status="pass" evidence="tracked.txt updated"/>
+<verification-result>PASS</verification-result>`,
+	]);
+
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+	const result = await engine.runDevelopment("verify-prd");
+
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+	const verdictPath = join(
+		getStatusDir(PROJECT_NAME, REPO_ROOT, "qa"),
+		"verify-prd",
+		"verification-results",
+		"US-001.json",
+	);
+	assert.strictEqual(JSON.parse(readFileSync(verdictPath, "utf-8")).result, "pass");
+});
+
+it("clears the verifier failure count once a reopened story passes", async () => {
+	writeFileSync(join(testDir, "omni.toml"), VERIFIER_CONFIG);
+	await createTestPRD("verify-prd", { stories: [VERIFY_STORY] }, "in_progress");
+
+	const { executor } = createVerifierMockExecutor([
+		`<check id="1" status="fail" evidence="Nothing implemented"/>
+<verification-result>FAIL</verification-result>`,
+		`<check id="1" status="pass" evidence="tracked.txt updated"/>
+<verification-result>PASS</verification-result>`,
+	]);
+
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+	const result = await engine.runDevelopment("verify-prd");
+
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+	const prd = (await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("verify-prd")).data!;
+	assert.strictEqual(prd.stories[0]?.verificationAttempts, undefined);
+});
+
+it("stops with budget_exceeded when the token budget trips, then resumes once raised", async () => {
+	const budgetConfig = (maxTokens: number) => `${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+
+[ralph.budget]
+max_tokens = ${maxTokens}
+`;
+	writeFileSync(join(testDir, "omni.toml"), budgetConfig(1000));
+	await createTestPRD("budget-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+	let finishStory = false;
+	const executor = {
+		async run() {
+			if (finishStory) {
+				await store.update("budget-prd", (prd) => {
+					for (const story of prd.stories) story.status = "completed";
+					return prd;
+				});
+			}
+			return {
+				output: "still working",
+				exitCode: 0,
+				aborted: false,
+				usage: { inputTokens: 700, outputTokens: 400, costUsd: 0.1 },
+			};
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const stopped = await engine.runDevelopment("budget-prd");
+	assert.ok(stopped.ok);
+	assert.strictEqual(stopped.data!.outcome, "budget_exceeded");
+
+	let prd = (await store.get("budget-prd")).data!;
+	assert.strictEqual(prd.metrics?.totalTokens, 1100);
+	assert.strictEqual(prd.metrics?.byPhase?.dev?.runs, 1);
+	assert.strictEqual(prd.lastRun?.reason, "budget_exceeded");
+	assert.strictEqual(prd.stories[0]?.status, "in_progress");
+
+	// Raising the limit resumes the same story
+	writeFileSync(join(testDir, "omni.toml"), budgetConfig(5000));
+	finishStory = true;
+	const resumed = await engine.runDevelopment("budget-prd");
+	assert.ok(resumed.ok);
+	assert.strictEqual(resumed.data!.outcome, "moved_to_qa");
+
+	prd = (await store.get("budget-prd")).data!;
+	assert.strictEqual(prd.metrics?.byStory?.["US-001"]?.runs, 2);
+});
+
+it("blocks a story whose agent run times out under on_timeout = block", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.timeouts]
+on_timeout = "block"
+
+[ralph.timeouts.dev]
+idle_timeout_minutes = 5
+`,
+	);
+	await createTestPRD("timeout-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const runOptions: Array<{ idleTimeoutMs?: number }> = [];
+	const executor = {
+		async run(_prompt: string, _variant: unknown, options: { idleTimeoutMs?: number }) {
+			runOptions.push(options);
+			return { output: "", exitCode: 1, aborted: false, timedOut: "idle" as const };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const events: EngineEvent[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("timeout-prd", { onEvent: (e) => events.push(e) });
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "blocked");
+
+	// 5 idle minutes from [ralph.timeouts.dev]
+	assert.strictEqual(runOptions.length, 1);
+	assert.strictEqual(runOptions[0]?.idleTimeoutMs, 300_000);
+	assert.deepStrictEqual(
+		events.flatMap((e) => (e.type === "agent_timeout" ? [e.action] : [])),
+		["block"],
+	);
+
+	const prd = (await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("timeout-prd")).data!;
+	assert.strictEqual(prd.stories[0]?.status, "blocked");
+	assert.strictEqual(prd.stories[0]?.iterationCount, 1);
+	assert.strictEqual(prd.metrics?.iterations, 1);
+	assert.strictEqual(prd.lastRun?.reason, "agent_timeout");
+});
+
+it("retries a timed-out story run under on_timeout = retry, then counts the timeout", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+
+[ralph.timeouts]
+on_timeout = "retry"
+max_retries = 1
+`,
+	);
+	await createTestPRD("timeout-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+	let runs = 0;
+	const executor = {
+		async run(prompt: string) {
+			if (prompt.startsWith("# Verification Checklist")) {
+				return { output: "", exitCode: 0, aborted: false };
+			}
+			runs++;
+			if (runs <= 2) {
+				return { output: "", exitCode: 1, aborted: false, timedOut: "wall_clock" as const };
+			}
+			await store.update("timeout-prd", (prd) => {
+				for (const story of prd.stories) story.status = "completed";
+				return prd;
+			});
+			return { output: "<promise>COMPLETE</promise>", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal(output: string) {
+			return output.includes("<promise>COMPLETE</promise>");
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const events: EngineEvent[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("timeout-prd", { onEvent: (e) => events.push(e) });
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+	// The retry is not counted; the timeout after max_retries is
+	assert.strictEqual(runs, 3);
+	assert.deepStrictEqual(
+		events.flatMap((e) => (e.type === "agent_timeout" ? [e.action] : [])),
+		["retry", "count"],
+	);
+	const prd = (await store.get("timeout-prd")).data!;
+	assert.strictEqual(prd.metrics?.iterations, 2);
+});
+
+it("re-plans, then escalates, then blocks a stuck story with a diagnosis", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.provider_variants.strong]
+command = "echo"
+args = ["strong"]
+
+[ralph.stuck]
+max_iterations = 5
+escalation_provider_variant = "strong"
+
+[ralph.stuck.story_max_iterations]
+US-001 = 1
+`,
+	);
+	await createTestPRD("stuck-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const runs: Array<{ prompt: string; args: string[] }> = [];
+	const executor = {
+		async run(prompt: string, variant: { args: string[] }) {
+			runs.push({ prompt, args: variant.args });
+			return {
+				output: `<ralph-result>{"version":1,"status":"failed","summary":"Attempt ${runs.length} hit a failing test","files":[],"questions":[],"issues":[]}</ralph-result>`,
+				exitCode: 0,
+				aborted: false,
+			};
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const events: EngineEvent[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("stuck-prd", { onEvent: (e) => events.push(e) });
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "blocked");
+
+	// One regular attempt, one re-plan, one on the escalation variant
+	assert.strictEqual(runs.length, 3);
+	assert.ok(!runs[0]!.prompt.includes("You are stuck"));
+	assert.ok(runs[1]!.prompt.includes("You are stuck"));
+	assert.ok(runs[1]!.prompt.includes("Iteration 1: Attempt 1 hit a failing test"));
+	assert.deepStrictEqual(runs[1]!.args, ["test output"]);
+	assert.deepStrictEqual(runs[2]!.args, ["strong"]);
+	assert.deepStrictEqual(
+		events.flatMap((e) => (e.type === "story_stuck" ? [e.action] : [])),
+		["replan", "escalated", "block"],
+	);
+
+	const story = (await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("stuck-prd")).data!.stories[0]!;
+	assert.strictEqual(story.status, "blocked");
+	assert.strictEqual(story.questions.length, 1);
+	assert.ok(story.questions[0]!.startsWith("US-001 is stuck after 3 iterations"));
+	assert.ok(story.questions[0]!.includes("also tried a re-plan prompt and the strong variant"));
+	assert.ok(story.questions[0]!.includes("Iteration 3: Attempt 3 hit a failing test"));
+	assert.deepStrictEqual(story.stuckStagesTried, ["replan", "escalated"]);
+});
+
+it("starts the stuck policy over when a stuck diagnosis is answered", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.provider_variants.strong]
+command = "echo"
+args = ["strong"]
+
+[ralph.stuck]
+escalation_provider_variant = "strong"
+
+[ralph.stuck.story_max_iterations]
+US-001 = 1
+`,
+	);
+	await createTestPRD("stuck-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const runs: Array<{ prompt: string; args: string[] }> = [];
+	const executor = {
+		async run(prompt: string, variant: { args: string[] }) {
+			runs.push({ prompt, args: variant.args });
+			return { output: "", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+	const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+
+	assert.strictEqual((await engine.runDevelopment("stuck-prd")).data!.outcome, "blocked");
+	assert.strictEqual(runs.length, 3);
+	assert.ok((await store.unblockStory("stuck-prd", "US-001", ["Mock the clock"])).ok);
+
+	const answered = (await store.get("stuck-prd")).data!.stories[0]!;
+	assert.strictEqual(answered.iterationCount, 0);
+	assert.strictEqual(answered.stuckStage, undefined);
+	assert.strictEqual(answered.stuckStagesTried, undefined);
+	assert.strictEqual(answered.attemptSummaries, undefined);
+
+	// The hint gets a regular attempt on the default variant, then the policy runs again
+	runs.length = 0;
+	const result = await engine.runDevelopment("stuck-prd");
+	assert.strictEqual(result.data!.outcome, "blocked");
+	assert.deepStrictEqual(
+		runs.map((r) => r.args),
+		[["test output"], ["test output"], ["strong"]],
+	);
+	assert.ok(!runs[0]!.prompt.includes("You are stuck"));
+	assert.ok(runs[0]!.prompt.includes("Mock the clock"));
+	assert.ok(runs[1]!.prompt.includes("You are stuck"));
+});
+
+it("lists only the stuck-policy steps that ran in the diagnosis", () => {
+	const story = {
+		...VERIFY_STORY,
+		status: "in_progress" as const,
+		stuckStage: "escalated" as const,
+		stuckStagesTried: ["escalated" as const],
+	};
+
+	const escalatedOnly = formatStuckDiagnosis(story, 4, "strong");
+	assert.ok(escalatedOnly.includes("(also tried the strong variant)"));
+	assert.ok(!escalatedOnly.includes("re-plan"));
+
+	const nothingTried = formatStuckDiagnosis({ ...story, stuckStagesTried: [] }, 4, "strong");
+	assert.ok(nothingTried.startsWith("US-001 is stuck after 4 iterations."));
+});
+
+it("replaces a story with the sub-stories its dev agent proposes", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+`,
+	);
+	await createTestPRD("split-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+	const worked: string[] = [];
+	const executor = {
+		async run(prompt: string) {
+			const storyId = prompt.match(/feat: \[([^\]]+)\]/)?.[1];
+			if (!storyId) {
+				return { output: "", exitCode: 0, aborted: false };
+			}
+			worked.push(storyId);
+			if (storyId === "US-001") {
+				const split = [
+					{ title: "Model", acceptanceCriteria: ["Model saved"] },
+					{ title: "View", acceptanceCriteria: ["View renders"] },
+				];
+				return {
+					output: `<ralph-result>${JSON.stringify({ version: 1, status: "split", summary: "Too large", split })}</ralph-result>`,
+					exitCode: 0,
+					aborted: false,
+				};
+			}
+			await store.updateStoryStatus("split-prd", storyId, "completed");
+			return { output: "<promise>COMPLETE</promise>", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal(output: string) {
+			return output.includes("<promise>COMPLETE</promise>");
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const events: EngineEvent[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("split-prd", { onEvent: (e) => events.push(e) });
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+	assert.deepStrictEqual(worked, ["US-001", "US-001a", "US-001b"]);
+	assert.deepStrictEqual(
+		events.flatMap((e) => (e.type === "story_split" ? [e.subStoryIds] : [])),
+		[["US-001a", "US-001b"]],
+	);
+
+	const prd = (await store.get("split-prd")).data!;
+	assert.deepStrictEqual(
+		prd.stories.map((s) => `${s.id}:${s.status}`),
+		["US-001a:completed", "US-001b:completed"],
+	);
+});
+
+it("runs independent stories in parallel worktrees and merges each back", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+
+[ralph.parallel]
+enabled = true
+worktree_parent = ".worktrees"
+`,
+	);
+	writeFileSync(join(testDir, ".gitignore"), ".worktrees/\n");
+	execSync("git add .gitignore && git commit -q -m ignore", { cwd: testDir });
+	await createTestPRD(
+		"parallel-prd",
+		{
+			stories: [
+				{ ...VERIFY_STORY, id: "US-001", title: "Auth" },
+				{ ...VERIFY_STORY, id: "US-002", title: "Billing", promptPath: "stories/US-002.md" },
+			],
+		},
+		"in_progress",
+	);
+	const storiesDir = join(
+		getStatusDir(PROJECT_NAME, REPO_ROOT, "in_progress"),
+		"parallel-prd",
+		"stories",
+	);
+	writeFileSync(join(storiesDir, "US-001.md"), "## Suggested files\n- `auth.ts`\n");
+	writeFileSync(join(storiesDir, "US-002.md"), "## Suggested files\n- `billing.ts`\n");
+
+	const cwds: string[] = [];
+	const executor = {
+		async run(_prompt: string, _variant: unknown, options: { cwd?: string }) {
+			if (!options.cwd) {
+				return { output: "", exitCode: 0, aborted: false };
+			}
+			cwds.push(options.cwd);
+			const storyId = options.cwd.endsWith("us-001") ? "US-001" : "US-002";
+			writeFileSync(join(options.cwd, storyId === "US-001" ? "auth.ts" : "billing.ts"), "done\n");
+			return { output: `finished ${storyId}`, exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus(output: string, storyId: string) {
+			return output.includes(storyId) ? "completed" : null;
+		},
+	};
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("parallel-prd");
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+	// Both agents ran in their own sub-worktree, and both merges landed on the PRD branch
+	assert.deepStrictEqual(cwds.sort(), [
+		join(testDir, ".worktrees", "parallel-prd-us-001"),
+		join(testDir, ".worktrees", "parallel-prd-us-002"),
+	]);
+	assert.strictEqual(readFileSync(join(testDir, "auth.ts"), "utf-8"), "done\n");
+	assert.strictEqual(readFileSync(join(testDir, "billing.ts"), "utf-8"), "done\n");
+	assert.strictEqual(
+		execSync("git branch --list 'parallel-prd-*'", { cwd: testDir }).toString(),
+		"",
+	);
+
+	const prd = (await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("parallel-prd")).data!;
+	assert.deepStrictEqual(
+		prd.stories.map((s) => s.status),
+		["completed", "completed"],
+	);
+	assert.strictEqual(prd.metrics?.iterations, 2);
+});
+
+async function createParallelPRD(extraConfig = "") {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+
+[ralph.parallel]
+enabled = true
+worktree_parent = ".worktrees"
+${extraConfig}`,
+	);
+	writeFileSync(join(testDir, ".gitignore"), ".worktrees/\n");
+	execSync("git add .gitignore && git commit -q -m ignore", { cwd: testDir });
+	await createTestPRD(
+		"parallel-prd",
+		{
+			stories: [
+				{ ...VERIFY_STORY, id: "US-001", title: "Auth" },
+				{ ...VERIFY_STORY, id: "US-002", title: "Billing", promptPath: "stories/US-002.md" },
+			],
+		},
+		"in_progress",
+	);
+	const storiesDir = join(
+		getStatusDir(PROJECT_NAME, REPO_ROOT, "in_progress"),
+		"parallel-prd",
+		"stories",
+	);
+	writeFileSync(join(storiesDir, "US-001.md"), "## Suggested files\n- `auth.ts`\n");
+	writeFileSync(join(storiesDir, "US-002.md"), "## Suggested files\n- `billing.ts`\n");
+}
+
+function assertNoParallelWorktreesLeft() {
+	assert.strictEqual(
+		execSync("git branch --list 'parallel-prd-*'", { cwd: testDir }).toString(),
+		"",
+	);
+	assert.ok(!existsSync(join(testDir, ".worktrees", "parallel-prd-us-001")));
+	assert.ok(!existsSync(join(testDir, ".worktrees", "parallel-prd-us-002")));
+}
+
+it("counts each story in a parallel batch against the run's iterations", async () => {
+	await createParallelPRD();
+	const configPath = join(testDir, "omni.toml");
+	writeFileSync(
+		configPath,
+		readFileSync(configPath, "utf-8").replace("default_iterations = 5", "default_iterations = 2"),
+	);
+
+	const runs: string[] = [];
+	const executor = {
+		async run(_prompt: string, _variant: unknown, options: { cwd?: string }) {
+			const storyId = options.cwd?.endsWith("us-001") ? "US-001" : "US-002";
+			runs.push(options.cwd ? storyId : "serial");
+			if (storyId === "US-001") writeFileSync(join(options.cwd!, "auth.ts"), "done\n");
+			// US-002 never finishes
+			return { output: `finished ${storyId}`, exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus(output: string, storyId: string) {
+			return storyId === "US-001" && output.includes(storyId) ? "completed" : null;
+		},
+	};
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("parallel-prd");
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "max_iterations");
+	// The batch of two used both iterations, so US-002 is not run again
+	assert.deepStrictEqual(runs.sort(), ["US-001", "US-002"]);
+	assertNoParallelWorktreesLeft();
+});
+
+it("retries a timed-out parallel story and keeps every agent's usage", async () => {
+	await createParallelPRD(`
+[ralph.timeouts]
+on_timeout = "retry"
+max_retries = 1
+`);
+
+	const runs: string[] = [];
+	const prompts: string[] = [];
+	const executor = {
+		async run(prompt: string, _variant: unknown, options: { cwd?: string }) {
+			if (!options.cwd) {
+				return { output: "", exitCode: 0, aborted: false };
+			}
+			const storyId = options.cwd.endsWith("us-001") ? "US-001" : "US-002";
+			runs.push(storyId);
+			prompts.push(prompt);
+			const usage = { inputTokens: 100, outputTokens: 10 };
+			if (storyId === "US-001" && runs.filter((id) => id === "US-001").length === 1) {
+				return { output: "", exitCode: 1, aborted: false, timedOut: "idle" as const, usage };
+			}
+			writeFileSync(join(options.cwd, storyId === "US-001" ? "auth.ts" : "billing.ts"), "done\n");
+			return { output: `finished ${storyId}`, exitCode: 0, aborted: false, usage };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus(output: string, storyId: string) {
+			return output.includes(storyId) ? "completed" : null;
+		},
+	};
+	const events: EngineEvent[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("parallel-prd", { onEvent: (e) => events.push(e) });
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+	// US-001 re-ran in its worktree instead of counting the timeout
+	assert.deepStrictEqual(runs.sort(), ["US-001", "US-001", "US-002"]);
+	assert.deepStrictEqual(
+		events.flatMap((e) => (e.type === "agent_timeout" ? [e.action] : [])),
+		["retry"],
+	);
+	// Agents are told to report through <ralph-result> instead of sharing prd.json
+	assert.ok(prompts.every((prompt) => prompt.includes("Do not edit prd.json")));
+
+	// Concurrent usage updates all landed
+	const prd = (await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("parallel-prd")).data!;
+	assert.strictEqual(prd.metrics?.byStory?.["US-001"]?.runs, 2);
+	assert.strictEqual(prd.metrics?.byStory?.["US-002"]?.runs, 1);
+	assert.strictEqual(prd.metrics?.byPhase?.dev?.inputTokens, 300);
+	assertNoParallelWorktreesLeft();
+});
+
+it("re-runs a parallel story alone when committing its worktree fails", async () => {
+	await createParallelPRD();
+
+	const cwds: string[] = [];
+	const executor = {
+		async run(prompt: string, _variant: unknown, options: { cwd?: string }) {
+			if (prompt.startsWith("# Verification Checklist")) {
+				return { output: "", exitCode: 0, aborted: false };
+			}
+			const cwd = options.cwd ?? testDir;
+			cwds.push(cwd);
+			const storyId = cwd.endsWith("us-001") ? "US-001" : "US-002";
+			writeFileSync(join(cwd, storyId === "US-001" ? "auth.ts" : "billing.ts"), "done\n");
+			if (cwd.endsWith("us-002")) {
+				// A stale index lock in US-002's sub-worktree makes its commit fail
+				const gitDir = readFileSync(join(cwd, ".git"), "utf-8").replace("gitdir:", "").trim();
+				writeFileSync(join(gitDir, "index.lock"), "");
+			}
+			return { output: `finished ${storyId}`, exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus(output: string, storyId: string) {
+			return output.includes(storyId) ? "completed" : null;
+		},
+	};
+	const events: EngineEvent[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("parallel-prd", { onEvent: (e) => events.push(e) });
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+	// US-002's failed commit is reported, not merged as an empty branch, and it ran again alone
+	assert.ok(
+		events.some((e) => e.type === "log" && e.message?.includes("Committing US-002's work failed")),
+	);
+	assert.strictEqual(cwds.filter((cwd) => cwd === testDir).length, 1);
+	assert.strictEqual(readFileSync(join(testDir, "billing.ts"), "utf-8"), "done\n");
+	assertNoParallelWorktreesLeft();
+});
+
+it("auto-commits a completed story and rolls it back by reverting its commits", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+`,
+	);
+	writeFileSync(join(testDir, ".gitignore"), "omnidev/\nomni.toml\n");
+	execSync("git add .gitignore && git commit -q -m ignore", { cwd: testDir });
+	await createTestPRD(
+		"commit-prd",
+		{
+			stories: [
+				{ ...VERIFY_STORY, title: "Feature" },
+				{ ...VERIFY_STORY, id: "US-002", title: "Follow-up", promptPath: "stories/US-002.md" },
+			],
+		},
+		"in_progress",
+	);
+
+	let runs = 0;
+	const executor = {
+		async run() {
+			runs++;
+			if (runs > 1) {
+				return { output: "blocked US-002", exitCode: 0, aborted: false };
+			}
+			writeFileSync(join(testDir, "feature.txt"), "feature\n");
+			return { output: "completed US-001", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus(output: string, storyId: string) {
+			if (!output.includes(storyId)) return null;
+			return output.startsWith("completed") ? "completed" : "blocked";
+		},
+	};
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("commit-prd");
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "blocked");
+
+	// The agent left feature.txt uncommitted; the engine committed it for the story
+	assert.strictEqual(
+		execSync("git log -1 --format=%s", { cwd: testDir }).toString().trim(),
+		"feat: [US-001] - Feature",
+	);
+	const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+	const story = (await store.get("commit-prd")).data!.stories[0]!;
+	assert.strictEqual(
+		story.endCommit,
+		execSync("git rev-parse HEAD", { cwd: testDir }).toString().trim(),
+	);
+	assert.notStrictEqual(story.startCommit, story.endCommit);
+
+	// A later commit forces a revert instead of a reset
+	writeFileSync(join(testDir, "later.txt"), "later\n");
+	execSync("git add later.txt && git commit -q -m later", { cwd: testDir });
+
+	const rollback = await rollbackStory(PROJECT_NAME, REPO_ROOT, "commit-prd", "US-001");
+	assert.ok(rollback.ok, rollback.error?.message);
+	assert.strictEqual(rollback.data!.mode, "revert");
+	assert.strictEqual(rollback.data!.commits.length, 1);
+	assert.ok(!existsSync(join(testDir, "feature.txt")));
+	assert.ok(existsSync(join(testDir, "later.txt")));
+
+	const rolledBack = (await store.get("commit-prd")).data!.stories[0]!;
+	assert.strictEqual(rolledBack.status, "pending");
+	assert.strictEqual(rolledBack.startCommit, undefined);
+	assert.strictEqual(rolledBack.endCommit, undefined);
+});
+
+it("refuses to roll back a blocked story when a later story completed on top of it", async () => {
+	const head = () => execSync("git rev-parse HEAD", { cwd: testDir }).toString().trim();
+	// Keep Ralph's state (XDG_STATE_HOME is the test dir) out of the working tree
+	writeFileSync(join(testDir, ".gitignore"), "omnidev/\nomni.toml\n");
+	writeFileSync(join(testDir, "base.txt"), "base\n");
+	execSync("git add .gitignore base.txt && git commit -q -m base", { cwd: testDir });
+	const aStart = head();
+	writeFileSync(join(testDir, "a.txt"), "partial\n");
+	execSync("git add a.txt && git commit -q -m wip-a", { cwd: testDir });
+	const bStart = head();
+	writeFileSync(join(testDir, "b.txt"), "done\n");
+	execSync("git add b.txt && git commit -q -m b", { cwd: testDir });
+
+	await createTestPRD(
+		"rollback-prd",
+		{
+			stories: [
+				{
+					...VERIFY_STORY,
+					id: "US-001",
+					status: "blocked",
+					questions: ["Which API?"],
+					startCommit: aStart,
+				},
+				{
+					...VERIFY_STORY,
+					id: "US-002",
+					promptPath: "stories/US-002.md",
+					status: "completed",
+					startCommit: bStart,
+					endCommit: head(),
+				},
+			],
+		},
+		"in_progress",
+	);
+
+	const rollback = await rollbackStory(PROJECT_NAME, REPO_ROOT, "rollback-prd", "US-001");
+	assert.ok(!rollback.ok);
+	assert.ok(rollback.error!.message.includes("US-002 completed after it started"));
+	// Nothing was reset: US-002's work and US-001's bookkeeping are intact
+	assert.ok(existsSync(join(testDir, "b.txt")));
+	const story = (await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("rollback-prd")).data!
+		.stories[0]!;
+	assert.strictEqual(story.status, "blocked");
+	assert.strictEqual(story.startCommit, aStart);
+
+	// Once US-002 is rolled back, US-001's range holds only its own work and is reverted
+	assert.ok((await rollbackStory(PROJECT_NAME, REPO_ROOT, "rollback-prd", "US-002")).ok);
+	const rolledBack = await rollbackStory(PROJECT_NAME, REPO_ROOT, "rollback-prd", "US-001");
+	assert.ok(rolledBack.ok, rolledBack.error?.message);
+	assert.strictEqual(rolledBack.data!.mode, "revert");
+	assert.ok(!existsSync(join(testDir, "a.txt")));
+	assert.ok(existsSync(join(testDir, "base.txt")));
+});
+
+const HOOKS_CONFIG = `${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+
+[ralph.hooks]
+pre_iteration = 'echo "pre $RALPH_STORY_ID $RALPH_ITERATION" >> hooks.log'
+post_iteration = 'test -f fixed.txt || { echo "lint: 2 errors"; exit 1; }'
+`;
+
+it("runs iteration hooks with story context and feeds a veto's output into the next prompt", async () => {
+	writeFileSync(join(testDir, "omni.toml"), HOOKS_CONFIG);
+	await createTestPRD("hooks-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const prompts: string[] = [];
+	const executor = {
+		async run(prompt: string) {
+			if (!prompt.includes("<Current_Story>")) {
+				return { output: "", exitCode: 0, aborted: false };
+			}
+			prompts.push(prompt);
+			if (prompts.length > 1) {
+				writeFileSync(join(testDir, "fixed.txt"), "lint clean\n");
+			}
+			return { output: "completed US-001", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus(output: string, storyId: string) {
+			return output.includes(storyId) ? "completed" : null;
+		},
+	};
+	const events: EngineEvent[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("hooks-prd", { onEvent: (e) => events.push(e) });
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+	assert.strictEqual(
+		readFileSync(join(testDir, "hooks.log"), "utf-8"),
+		"pre US-001 1\npre US-001 2\n",
+	);
+	assert.deepStrictEqual(
+		events.flatMap((e) => (e.type === "hook_run" && e.vetoed ? [e.hook] : [])),
+		["post_iteration"],
+	);
+
+	// The first completion was reopened; the retry prompt shows why
+	assert.strictEqual(prompts.length, 2);
+	assert.ok(!prompts[0]!.includes("Hook output"));
+	assert.ok(prompts[1]!.includes("`post_iteration` (US-001) exited with code 1"));
+	assert.ok(prompts[1]!.includes("lint: 2 errors"));
+	assert.ok(prompts[1]!.includes("The post_iteration hook rejected US-001"));
+
+	const prd = (await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("hooks-prd")).data!;
+	assert.strictEqual(prd.stories[0]?.status, "completed");
+	assert.strictEqual(prd.hookOutputs, undefined);
+});
+
+it("stops development when the pre_iteration hook vetoes it", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.hooks]
+pre_iteration = "echo codegen failed; exit 3"
+`,
+	);
+	await createTestPRD("veto-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	let runs = 0;
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: {
+			async run() {
+				runs++;
+				return { output: "", exitCode: 0, aborted: false };
+			},
+		} as never,
+	});
+
+	const result = await engine.runDevelopment("veto-prd");
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "hook_vetoed");
+	assert.strictEqual(runs, 0);
+
+	const prd = (await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("veto-prd")).data!;
+	assert.deepStrictEqual(
+		prd.hookOutputs?.map((o) => [o.hook, o.exitCode, o.output]),
+		[["pre_iteration", 3, "codegen failed"]],
+	);
+});
+
+it("kills a timed-out gate command together with the processes it started", async () => {
+	const startedAt = Date.now();
+
+	const [check] = await runGates(
+		{ slow: "sleep 8; echo done" },
+		{ cwd: testDir, timeoutSeconds: 1 },
+	);
+
+	assert.ok(Date.now() - startedAt < 4000);
+	assert.strictEqual(check?.passed, false);
+	assert.strictEqual(check?.exitCode, 124);
+	assert.ok(check?.output.includes("[timed out after 1s]"));
+	assert.ok(!check?.output.includes("done"));
+});
+
+it("reopens a story whose quality gate fails and keeps gate results per iteration", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+
+[ralph.gates.commands]
+lint = 'test -f fixed.txt || { echo "src/a.ts:1 unused variable"; exit 1; }'
+typecheck = "true"
+`,
+	);
+	await createTestPRD("gates-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const prompts: string[] = [];
+	const executor = {
+		async run(prompt: string) {
+			if (!prompt.includes("<Current_Story>")) {
+				return { output: "", exitCode: 0, aborted: false };
+			}
+			prompts.push(prompt);
+			if (prompts.length > 1) {
+				writeFileSync(join(testDir, "fixed.txt"), "clean\n");
+			}
+			return { output: "completed US-001", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus(output: string, storyId: string) {
+			return output.includes(storyId) ? "completed" : null;
+		},
+	};
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("gates-prd");
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+	// The failing gate's output is the retry's feedback
+	assert.strictEqual(prompts.length, 2);
+	assert.ok(prompts[1]!.includes('Gate "lint"'));
+	assert.ok(prompts[1]!.includes("src/a.ts:1 unused variable"));
+
+	const history = JSON.parse(
+		readFileSync(
+			join(getStatusDir(PROJECT_NAME, REPO_ROOT, "qa"), "gates-prd", "gate-results", "US-001.json"),
+			"utf-8",
+		),
+	);
+	assert.deepStrictEqual(
+		history.map((r: { iteration: number; passed: boolean }) => [r.iteration, r.passed]),
+		[
+			[1, false],
+			[2, true],
+		],
+	);
+	assert.deepStrictEqual(
+		history[0].gates.map((g: { name: string; passed: boolean }) => [g.name, g.passed]),
+		[
+			["lint", false],
+			["typecheck", true],
+		],
+	);
+});
+
+it("sends filtered notifications to webhook and command sinks", async () => {
+	const bodies: string[] = [];
+	const server = createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", () => {
+			bodies.push(body);
+			res.end("ok");
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+
+	try {
+		writeFileSync(
+			join(testDir, "omni.toml"),
+			`${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+
+[ralph.notifications]
+events = ["story_blocked", "prd_qa"]
+
+[ralph.notifications.webhook]
+url = "http://127.0.0.1:${port}/hook"
+body = '{"text": "{{title}}", "prd": "{{prd}}"}'
+events = ["prd_qa"]
+
+[ralph.notifications.command]
+command = 'echo "$RALPH_NOTIFY_EVENT $RALPH_PRD $RALPH_STORY_ID" >> notified.log'
+`,
+		);
+		await createTestPRD("notify-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+		const executor = {
+			async run(prompt: string) {
+				if (!prompt.includes("<Current_Story>")) {
+					return { output: "", exitCode: 0, aborted: false };
+				}
+				return { output: "completed US-001", exitCode: 0, aborted: false };
+			},
+			parseTokenUsage() {
+				return {};
+			},
+			hasCompletionSignal() {
+				return false;
+			},
+			parseStatus(output: string, storyId: string) {
+				return output.includes(storyId) ? "completed" : null;
+			},
+		};
+		const engine = createEngine({
+			projectName: PROJECT_NAME,
+			repoRoot: REPO_ROOT,
+			agentExecutor: executor as never,
+		});
+
+		const result = await engine.runDevelopment("notify-prd");
+		assert.ok(result.ok);
+		assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+		// Sends are awaited before runDevelopment returns
+		assert.deepStrictEqual(
+			bodies.map((b) => JSON.parse(b)),
+			[{ text: "Ralph: notify-prd is ready for QA", prd: "notify-prd" }],
+		);
+		assert.strictEqual(
+			readFileSync(join(testDir, "notified.log"), "utf-8"),
+			"prd_qa notify-prd \n",
+		);
+	} finally {
+		server.close();
+	}
+});
+
+it("sends an error notification when a run fails or throws", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.notifications.command]
+command = 'echo "$RALPH_NOTIFY_EVENT $RALPH_NOTIFY_MESSAGE" >> notified.log'
+`,
+	);
+	await createTestPRD("notify-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const executor = {
+		async run(): Promise<never> {
+			throw new Error("agent binary vanished");
+		},
+	};
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const failed = await engine.runDevelopment("notify-prd", { providerVariant: "missing" });
+	assert.ok(!failed.ok);
+	await assert.rejects(engine.runDevelopment("notify-prd"), /agent binary vanished/);
+
+	const lines = readFileSync(join(testDir, "notified.log"), "utf-8").trim().split("\n");
+	assert.strictEqual(lines.length, 2);
+	assert.ok(lines[0]!.startsWith(`error ${failed.error!.message}`));
+	assert.strictEqual(lines[1], "error agent binary vanished");
+});
+
+it("logs a failing notification sink as a warning without failing the run", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.verification]
+enabled = false
+
+[ralph.review]
+enabled = false
+
+[ralph.notifications.webhook]
+url = "http://127.0.0.1:9/hook"
+
+[ralph.notifications.command]
+command = "echo sink down >&2; exit 3"
+`,
+	);
+	await createTestPRD("notify-prd", { stories: [{ ...VERIFY_STORY }] }, "in_progress");
+
+	const executor = {
+		async run() {
+			return { output: "completed US-001", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus(output: string, storyId: string) {
+			return output.includes(storyId) ? "completed" : null;
+		},
+	};
+	const events: EngineEvent[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+
+	const result = await engine.runDevelopment("notify-prd", { onEvent: (e) => events.push(e) });
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "moved_to_qa");
+
+	const warnings = events.flatMap((e) =>
+		e.type === "log" && e.level === "warn" && e.message.startsWith("Notification via")
+			? [e.message]
+			: [],
+	);
+	assert.strictEqual(warnings.length, 2);
+	assert.ok(warnings.some((w) => w.startsWith("Notification via webhook failed")));
+	assert.ok(
+		warnings.some(
+			(w) => w.startsWith("Notification via command failed") && w.includes("sink down"),
+		),
+	);
+});
+
+it("plans a spec-only PRD and sends schema problems back to the planner", async () => {
+	const prdDir = join(getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"), "plan-prd");
+	mkdirSync(prdDir, { recursive: true });
+	writeFileSync(join(prdDir, "spec.md"), "# Export\n\n## Requirements\n- FR-1: CSV export\n");
+
+	const storyFile = (id: string, deps: string) =>
+		`---\nid: ${id}\ntitle: Story ${id}\npriority: 1\ndependencies: ${deps}\n---\n\n## Goal\nShip it.\n\n## Scope\n- lib\n\n## Out of scope\n- UI\n\n## Deliverables\n1. Code\n\n## Acceptance Criteria\n- [ ] Works\n`;
+	const prompts: string[] = [];
+	const executor = {
+		async run(prompt: string) {
+			prompts.push(prompt);
+			const story = (id: string, priority: number) => ({
+				id,
+				title: `Story ${id}`,
+				promptPath: `stories/${id}.md`,
+				status: "pending",
+				priority,
+				questions: [],
+			});
+			mkdirSync(join(prdDir, "stories"), { recursive: true });
+			if (prompts.length === 1) {
+				// First attempt: criteria in prd.json, a bad timestamp, and no US-002 file
+				writeFileSync(
+					join(prdDir, "prd.json"),
+					JSON.stringify({
+						name: "plan-prd",
+						description: "CSV export",
+						createdAt: "2026-01-10 12:00",
+						stories: [{ ...story("US-001", 1), acceptanceCriteria: ["Works"] }, story("US-002", 2)],
+					}),
+				);
+				writeFileSync(join(prdDir, "stories", "US-001.md"), storyFile("US-001", "[]"));
+			} else {
+				writeFileSync(
+					join(prdDir, "prd.json"),
+					JSON.stringify({
+						name: "plan-prd",
+						description: "CSV export",
+						createdAt: "2026-01-10T12:00:00Z",
+						stories: [story("US-001", 1), story("US-002", 2)],
+					}),
+				);
+				writeFileSync(join(prdDir, "stories", "US-002.md"), storyFile("US-002", "[US-001]"));
+			}
+			return {
+				output:
+					'<ralph-result>{"version": 1, "status": "completed", "summary": "Planned"}</ralph-result>',
+				exitCode: 0,
+				aborted: false,
+			};
+		},
+		parseTokenUsage() {
+			return {};
+		},
+	};
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: executor as never,
+	});
+	const checks: string[][] = [];
+
+	const result = await engine.planPRD("plan-prd", {
+		onEvent: (event) => {
+			if (event.type === "plan_check") checks.push(event.problems);
+		},
+	});
+	assert.ok(result.ok, result.error?.message);
+	assert.strictEqual(result.data!.outcome, "planned");
+	assert.strictEqual(result.data!.attempts, 2);
+	assert.deepStrictEqual(result.data!.storyIds, ["US-001", "US-002"]);
+
+	// The second prompt carries the first attempt's problems
+	assert.strictEqual(checks.length, 2);
+	assert.ok(checks[0]!.some((p) => p.includes("acceptanceCriteria")));
+	assert.ok(checks[0]!.some((p) => p.startsWith("prd.json: createdAt")));
+	assert.deepStrictEqual(checks[1], []);
+	assert.ok(prompts[0]!.includes("CSV export"));
+	assert.ok(!prompts[0]!.includes("<Problems_To_Fix>"));
+	assert.ok(prompts[1]!.includes("<Problems_To_Fix>"));
+	assert.ok(prompts[1]!.includes("acceptanceCriteria"));
+	assert.ok(existsSync(join(prdDir, "progress.txt")));
+
+	const again = await engine.planPRD("plan-prd");
+	assert.strictEqual(again.error?.code, "PRD_ALREADY_EXISTS");
+});
+
+it("classifies agent failures from exit code and output", () => {
+	assert.strictEqual(classifyAgentFailure(0, "429 Too Many Requests"), undefined);
+	assert.strictEqual(classifyAgentFailure(1, "API Error: 429 rate_limit_error"), "rate_limit");
+	assert.strictEqual(classifyAgentFailure(1, "Error: connect ECONNRESET"), "network");
+	assert.strictEqual(classifyAgentFailure(1, "Invalid API key · Please run /login"), "auth");
+	assert.strictEqual(classifyAgentFailure(1, "model: claude-x not found"), "model_error");
+	assert.strictEqual(classifyAgentFailure(139, "Segmentation fault"), "crash");
+});
+
+it("retries transient failures with backoff, then switches to a fallback variant", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.provider_variants.backup]
+command = "echo"
+args = ["backup"]
+
+[ralph.retry]
+max_retries = 2
+base_delay_seconds = 0
+`.replace('args = ["test output"]', 'args = ["test output"]\nfallback_variants = ["backup"]'),
+	);
+	const config = (await loadConfig()).data!;
+	const primary = getProviderVariantConfig(config, "test").data!;
+
+	const ran: string[] = [];
+	const executor = {
+		async run(_prompt: string, variant: { name?: string }) {
+			ran.push(variant.name ?? "");
+			return variant.name === "backup"
+				? { output: "done", exitCode: 0, aborted: false }
+				: { output: "", exitCode: 1, aborted: false, failure: "rate_limit" as const };
+		},
+	};
+	const recoveries: string[] = [];
+
+	const result = await runAgentWithRecovery(executor, "prompt", primary, config, "dev", {
+		onRecovery: (r) => recoveries.push(`${r.action}:${r.nextProviderVariant}`),
+	});
+
+	assert.deepStrictEqual(ran, ["test", "test", "test", "backup"]);
+	assert.deepStrictEqual(recoveries, ["backoff:test", "backoff:test", "fallback:backup"]);
+	assert.strictEqual(result.output, "done");
+	assert.strictEqual(result.providerVariant.name, "backup");
+});
+
+it("stops retrying when the run is cancelled during the backoff delay", async () => {
+	writeFileSync(
+		join(testDir, "omni.toml"),
+		`${MOCK_CONFIG}
+[ralph.retry]
+max_retries = 3
+base_delay_seconds = 60
+`,
+	);
+	const config = (await loadConfig()).data!;
+	const primary = getProviderVariantConfig(config, "test").data!;
+
+	const controller = new AbortController();
+	let runs = 0;
+	const executor = {
+		async run() {
+			runs++;
+			return { output: "", exitCode: 1, aborted: false, failure: "network" as const };
+		},
+	};
+
+	const result = await runAgentWithRecovery(executor, "prompt", primary, config, "dev", {
+		signal: controller.signal,
+		onRecovery: () => setTimeout(() => controller.abort(), 10),
+	});
+
+	assert.strictEqual(runs, 1);
+	assert.strictEqual(result.aborted, true);
+
+	// An already-cancelled run never spawns the agent
+	const skipped = await getAgentExecutor().run(
+		"test",
+		{ command: "sh", args: ["-c", "sleep 5"] },
+		{ signal: controller.signal },
+	);
+	assert.strictEqual(skipped.aborted, true);
+});
+
+it("resumes QA after the last completed step recorded in the checkpoint", async () => {
+	await createTestPRD(
+		"qa-resume-prd",
+		{
+			stories: [
+				{
+					id: "US-001",
+					title: "Done",
+					promptPath: "stories/US-001.md",
+					status: "completed",
+					priority: 1,
+					questions: [],
+				},
+			],
+		},
+		"qa",
+	);
+	const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+	writeFileSync(join(store.getPRDPath("qa-resume-prd")!, "verification.md"), "# Verification\n");
+	// State left by the interrupted run: results cleared, step 1 done
+	store.clearQAResults("qa-resume-prd");
+	await store.saveCheckpoint("qa-resume-prd", {
+		phase: "qa",
+		qa: {
+			step: "step1",
+			healthFixAttempts: 0,
+			output: `<ralph-result>{"version": 1, "status": "verified", "summary": "All checks pass"}</ralph-result>`,
+		},
+	});
+
+	const prompts: string[] = [];
+	const engine = createEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: REPO_ROOT,
+		agentExecutor: {
+			async run(prompt: string) {
+				prompts.push(prompt);
+				return { output: "", exitCode: 0, aborted: false };
+			},
+			parseTokenUsage() {
+				return {};
+			},
+			hasCompletionSignal() {
+				return false;
+			},
+			parseStatus() {
+				return null;
+			},
+		} as never,
+	});
+	const result = await engine.runQA("qa-resume-prd");
+
+	assert.ok(result.ok);
+	assert.strictEqual(result.data!.outcome, "verified");
+	// Step 1 is not re-run; only the post-verification auto-commit agent runs
+	assert.strictEqual(prompts.length, 1);
+	assert.ok(prompts[0]!.startsWith("Check `git status`"));
+	assert.strictEqual(store.findLocation("qa-resume-prd"), "completed");
+	assert.strictEqual(await store.getCheckpoint("qa-resume-prd"), null);
+});
@@ -5,14 +5,25 @@ import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import {
+	buildReviewDiff,
+	type EngineEvent,
+	fingerprintFinding,
 	getDefaultStore,
 	getReviewConfig,
 	getStateDir,
 	getStatusDir,
+	listFindings,
+	loadReviewerDefinition,
+	parseToolFindings,
+	REPO_REVIEWERS_DIR,
 	ReviewEngine,
+	recordReviewRound,
+	resolveReviewBase,
 	resolveReviewProviderVariants,
+	runToolReviewer,
+	triageFinding,
 } from "./lib/index.js";
-import type { PRD, RalphConfig } from "./lib/types.js";
+import type { PRD, RalphConfig, ToolReviewerConfig } from "./lib/types.js";
 import { cleanupTmpTestDir, createTmpTestDir } from "./test-helpers.js";
 
 const PROJECT_NAME = "review-test";
@@ -244,3 +255,943 @@ it("aggregates first-pass reviewers, dedupes blockers, and writes non-blocking f
 	const firstReviewContent = readFileSync(firstReviewPath, "utf-8");
 	assert.ok(firstReviewContent.includes("## external-codex"));
 });
+
+it("resumes the review pipeline from its checkpoint", async () => {
+	const prd = await createReviewablePrd(testDir, "resume-prd");
+	const store = getDefaultStore(PROJECT_NAME, testDir);
+	await store.saveCheckpoint(prd.name, {
+		phase: "review",
+		review: {
+			phase: "second",
+			fixIteration: 1,
+			followUps: [
+				{ severity: "minor", file: "src/a.ts", issue: "Carried follow-up", reviewer: "quality" },
+			],
+			noise: [],
+		},
+	});
+	const reviewPrompts: string[] = [];
+
+	const mockAgentExecutor = {
+		async run(prompt: string) {
+			if (prompt.startsWith("# Code Review")) {
+				reviewPrompts.push(prompt);
+			}
+			return { output: "<review-result>APPROVE</review-result>", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+
+	const config: RalphConfig = {
+		project_name: PROJECT_NAME,
+		default_provider_variant: "test",
+		default_iterations: 5,
+		provider_variants: { test: { command: "echo", args: ["test"] } },
+		review: {
+			first_review_agents: ["quality", "implementation"],
+			second_review_agents: ["quality"],
+			todo_file: ".ralph-review-todo.md",
+		},
+	};
+	const reviewConfig = getReviewConfig(config);
+	const variantsResult = resolveReviewProviderVariants(config, reviewConfig);
+	assert.ok(variantsResult.ok);
+
+	const engine = new ReviewEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: testDir,
+		store,
+		agentExecutor: mockAgentExecutor as never,
+		logger: { log() {} } as never,
+	});
+	const result = await engine.runReview(
+		prd.name,
+		prd,
+		config,
+		variantsResult.data!,
+		reviewConfig,
+		() => {},
+	);
+
+	assert.ok(result.ok);
+	// Phase 1 is not re-run; phase 2 picks up with the carried findings
+	assert.strictEqual(reviewPrompts.length, 1);
+	assert.ok(reviewPrompts[0]!.includes("second review pass"));
+	const todoContent = readFileSync(join(testDir, ".ralph-review-todo.md"), "utf-8");
+	assert.ok(todoContent.includes("Carried follow-up"));
+
+	const checkpoint = await store.getCheckpoint(prd.name);
+	assert.strictEqual(checkpoint?.review?.phase, "finalize");
+});
+
+it("reviews from the PRD base commit, skips excluded files, and splits large diffs", async () => {
+	const prd = await createReviewablePrd(testDir, "chunk-prd");
+	// Work committed before development started is not part of the review
+	prd.baseCommit = execSync("git rev-parse HEAD", { cwd: testDir, encoding: "utf-8" }).trim();
+	const body = (name: string) =>
+		Array.from({ length: 150 }, (_, i) => `export const ${name}${i} = ${i};`).join("\n");
+	writeFileSync(join(testDir, "a.ts"), `${body("a")}\n`);
+	writeFileSync(join(testDir, "b.ts"), `${body("b")}\n`);
+	writeFileSync(join(testDir, "package-lock.json"), '{"lockfileVersion": 3}\n');
+	execSync("git add -A", { cwd: testDir });
+	execSync('git commit -m "story work" -q', { cwd: testDir });
+	// The review runs in the repo root, not wherever the process happens to be
+	process.chdir(originalCwd);
+
+	const prompts: string[] = [];
+	const mockAgentExecutor = {
+		async run(prompt: string) {
+			prompts.push(prompt);
+			return { output: "<review-result>APPROVE</review-result>", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const config: RalphConfig = {
+		project_name: PROJECT_NAME,
+		default_provider_variant: "test",
+		default_iterations: 5,
+		provider_variants: { test: { command: "echo", args: ["test"] } },
+		review: {
+			first_review_agents: ["quality"],
+			second_review_agents: [],
+			diff_token_budget: 1500,
+		},
+	};
+	const reviewConfig = getReviewConfig(config);
+	const variantsResult = resolveReviewProviderVariants(config, reviewConfig);
+	assert.ok(variantsResult.ok);
+
+	const engine = new ReviewEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: testDir,
+		store: getDefaultStore(PROJECT_NAME, testDir),
+		agentExecutor: mockAgentExecutor as never,
+		logger: { log() {} } as never,
+	});
+	const result = await engine.runReview(
+		prd.name,
+		prd,
+		config,
+		variantsResult.data!,
+		reviewConfig,
+		() => {},
+	);
+	assert.ok(result.ok);
+
+	// One quality run per part, each with its own file and the other listed
+	assert.strictEqual(prompts.length, 2);
+	assert.ok(prompts[0]!.includes("# Diff part 1 of 2"));
+	assert.ok(prompts[0]!.includes("+export const a0 = 0;"));
+	assert.ok(!prompts[0]!.includes("+export const b0 = 0;"));
+	assert.ok(prompts[0]!.includes("#   b.ts (+150 -0)"));
+	assert.ok(prompts[1]!.includes("+export const b0 = 0;"));
+	for (const prompt of prompts) {
+		assert.ok(!prompt.includes("diff --git a/tracked.txt"));
+		assert.ok(!prompt.includes("lockfileVersion"));
+		assert.ok(prompt.includes("#   package-lock.json"));
+	}
+});
+
+it("records the review base only when development first starts", async () => {
+	const store = getDefaultStore(PROJECT_NAME, testDir);
+	const head = execSync("git rev-parse HEAD", { cwd: testDir, encoding: "utf-8" }).trim();
+	await createReviewablePrd(testDir, "fresh-prd");
+	assert.ok((await store.markStarted("fresh-prd", head)).ok);
+	assert.strictEqual((await store.get("fresh-prd")).data!.baseCommit, head);
+
+	// Started before base commits were recorded: HEAD now is not where the work began
+	await createReviewablePrd(testDir, "started-prd");
+	await store.update("started-prd", (prd) => ({ ...prd, startedAt: new Date().toISOString() }));
+	assert.ok((await store.markStarted("started-prd", head)).ok);
+	const started = (await store.get("started-prd")).data!;
+	assert.strictEqual(started.baseCommit, undefined);
+	assert.strictEqual(resolveReviewBase(testDir, started, "main").source, "merge-base");
+});
+
+it("diffs a change set too large for one git command line", async () => {
+	const prd = await createReviewablePrd(testDir, "wide-prd");
+	prd.baseCommit = execSync("git rev-parse HEAD", { cwd: testDir, encoding: "utf-8" }).trim();
+	// ~130 bytes per path, so the paths alone exceed one batch of arguments
+	const dir = join(testDir, "generated", "x".repeat(100));
+	mkdirSync(dir, { recursive: true });
+	for (let i = 0; i < 800; i++) {
+		writeFileSync(join(dir, `file-${i}.ts`), `export const v${i} = ${i};\n`);
+	}
+	execSync("git add -A && git commit -q -m generated", { cwd: testDir });
+
+	const diff = buildReviewDiff(testDir, prd, {
+		primaryBranch: "main",
+		tokenBudget: 1_000_000,
+		exclude: [],
+	});
+
+	assert.strictEqual(diff.files.filter((f) => f.path.startsWith("generated/")).length, 800);
+	assert.ok(diff.parts[0]!.includes("+export const v799 = 799;"));
+});
+
+it("tracks findings in a ledger with stable IDs, fix links, and triage", async () => {
+	const prd = await createReviewablePrd(testDir, "ledger-prd");
+	const store = getDefaultStore(PROJECT_NAME, testDir);
+	// A finding from an earlier run that was triaged as wontfix
+	await store.updateFindingsLedger(prd.name, (ledger) =>
+		recordReviewRound(
+			ledger,
+			[
+				{
+					severity: "major",
+					file: "tracked.txt",
+					issue: "Style nit on line 3",
+					reviewer: "quality",
+				},
+			],
+			{ phase: "first", iteration: 0 },
+		),
+	);
+	const styleId = fingerprintFinding({ file: "tracked.txt", issue: "Style nit on line 3" });
+	const triaged = await triageFinding(
+		PROJECT_NAME,
+		testDir,
+		prd.name,
+		styleId.slice(0, 6).toLowerCase(),
+		"wontfix",
+		"House style",
+	);
+	assert.strictEqual(triaged.data?.status, "wontfix");
+	assert.strictEqual(
+		(await triageFinding(PROJECT_NAME, testDir, prd.name, "F-none", "open")).error?.code,
+		"FINDING_NOT_FOUND",
+	);
+
+	const fixPrompts: string[] = [];
+	let reviews = 0;
+	const mockAgentExecutor = {
+		async run(prompt: string) {
+			if (prompt.includes("<Findings_To_Fix>")) {
+				fixPrompts.push(prompt);
+				return { output: "<promise>COMPLETE</promise>", exitCode: 0, aborted: false };
+			}
+			reviews++;
+			const findings =
+				reviews === 1
+					? "- [MAJOR] tracked.txt:1 - Missing null check\n- [MAJOR] tracked.txt:9 - Style nit on line 9\n- [MINOR] tracked.txt:2 - Rename variable"
+					: "- [MINOR] tracked.txt:4 - Rename variable";
+			return {
+				output: `<review-result>${reviews === 1 ? "REQUEST_CHANGES" : "APPROVE"}</review-result>\n<review-findings>\n${findings}\n</review-findings>`,
+				exitCode: 0,
+				aborted: false,
+			};
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal(output: string) {
+			return output.includes("<promise>COMPLETE</promise>");
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const config: RalphConfig = {
+		project_name: PROJECT_NAME,
+		default_provider_variant: "test",
+		default_iterations: 5,
+		provider_variants: { test: { command: "echo", args: ["test"] } },
+		// Full re-reviews after each fix, so a finding no longer reported counts as fixed
+		review: { first_review_agents: ["quality"], second_review_agents: [], recheck_fixes: false },
+	};
+	const reviewConfig = getReviewConfig(config);
+	const variantsResult = resolveReviewProviderVariants(config, reviewConfig);
+	assert.ok(variantsResult.ok);
+
+	const engine = new ReviewEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: testDir,
+		store,
+		agentExecutor: mockAgentExecutor as never,
+		logger: { log() {} } as never,
+	});
+	const result = await engine.runReview(
+		prd.name,
+		prd,
+		config,
+		variantsResult.data!,
+		reviewConfig,
+		() => {},
+	);
+	assert.ok(result.ok);
+
+	// The wontfix finding no longer blocks or goes to the fix agent
+	assert.strictEqual(fixPrompts.length, 1);
+	assert.ok(fixPrompts[0]!.includes("Missing null check"));
+	assert.ok(!fixPrompts[0]!.includes("Style nit"));
+
+	const all = await listFindings(PROJECT_NAME, testDir, prd.name);
+	const byIssue = new Map(all.data!.map((f) => [f.issue, f]));
+	assert.strictEqual(all.data!.length, 3);
+	const nullCheck = byIssue.get("Missing null check")!;
+	assert.strictEqual(nullCheck.status, "fixed");
+	assert.deepStrictEqual(
+		{ phase: nullCheck.fixedBy?.phase, iteration: nullCheck.fixedBy?.iteration },
+		{ phase: "first", iteration: 1 },
+	);
+	const style = byIssue.get("Style nit on line 3")!;
+	assert.strictEqual(style.id, styleId);
+	assert.strictEqual(style.status, "wontfix");
+	assert.strictEqual(style.note, "House style");
+	assert.strictEqual(style.line, 9);
+	// Same finding on another line keeps its ID
+	const rename = byIssue.get("Rename variable")!;
+	assert.strictEqual(rename.status, "open");
+	assert.strictEqual(rename.line, 4);
+	assert.strictEqual(rename.lastSeen.iteration, 1);
+
+	const open = await listFindings(PROJECT_NAME, testDir, prd.name, { status: ["open"] });
+	assert.deepStrictEqual(
+		open.data!.map((f) => f.id),
+		[rename.id],
+	);
+	const firstReview = readFileSync(
+		join(
+			getStatusDir(PROJECT_NAME, testDir, "in_progress"),
+			prd.name,
+			"review-results",
+			"first-review.md",
+		),
+		"utf-8",
+	);
+	assert.ok(firstReview.includes(`(${rename.id})`));
+});
+
+it("re-checks fixed findings against the fix diff and escalates only unresolved ones", async () => {
+	const prd = await createReviewablePrd(testDir, "recheck-prd");
+	const fullReviews: string[] = [];
+	const rechecks: string[] = [];
+	const fixPrompts: string[] = [];
+
+	const mockAgentExecutor = {
+		async run(prompt: string) {
+			if (prompt.includes("<Findings_To_Fix>")) {
+				fixPrompts.push(prompt);
+				writeFileSync(join(testDir, "tracked.txt"), `fix ${fixPrompts.length}\n`);
+				if (fixPrompts.length === 1) writeFileSync(join(testDir, "helper.ts"), "export {};\n");
+				return { output: "<promise>COMPLETE</promise>", exitCode: 0, aborted: false };
+			}
+			if (prompt.startsWith("# Fix Re-check:")) {
+				rechecks.push(prompt);
+				const round = fixPrompts.length;
+				const verdicts = Array.from(
+					prompt.matchAll(/^- (F-[0-9a-f]{8}) \[\w+\] \S+ — (.+)$/gm),
+					([, id, issue]) =>
+						`- ${id}: ${round === 1 && issue === "Missing error path" ? "UNRESOLVED - still throws" : "RESOLVED - handled"}`,
+				);
+				const regressions =
+					round === 1 && prompt.includes("(quality)")
+						? "- [MAJOR] tracked.txt:2 - Fix broke the happy path"
+						: "";
+				return {
+					output: `<recheck-verdicts>\n${verdicts.join("\n")}\n</recheck-verdicts>\n<review-findings>\n${regressions}\n</review-findings>`,
+					exitCode: 0,
+					aborted: false,
+				};
+			}
+			fullReviews.push(prompt);
+			const findings = prompt.includes("(quality)")
+				? "- [MAJOR] tracked.txt:1 - Unchecked input\n- [MINOR] src/a.ts:2 - Name nit"
+				: "- [MAJOR] tracked.txt:3 - Missing error path";
+			return {
+				output: `<review-result>REQUEST_CHANGES</review-result>\n<review-findings>\n${findings}\n</review-findings>`,
+				exitCode: 0,
+				aborted: false,
+			};
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal(output: string) {
+			return output.includes("<promise>COMPLETE</promise>");
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const config: RalphConfig = {
+		project_name: PROJECT_NAME,
+		default_provider_variant: "test",
+		default_iterations: 5,
+		provider_variants: { test: { command: "echo", args: ["test"] } },
+		review: { first_review_agents: ["quality", "implementation"], second_review_agents: [] },
+	};
+	const reviewConfig = getReviewConfig(config);
+	const variantsResult = resolveReviewProviderVariants(config, reviewConfig);
+	assert.ok(variantsResult.ok);
+
+	const events: EngineEvent[] = [];
+	const engine = new ReviewEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: testDir,
+		store: getDefaultStore(PROJECT_NAME, testDir),
+		agentExecutor: mockAgentExecutor as never,
+		logger: { log() {} } as never,
+	});
+	const result = await engine.runReview(
+		prd.name,
+		prd,
+		config,
+		variantsResult.data!,
+		reviewConfig,
+		(event) => events.push(event),
+	);
+	assert.ok(result.ok);
+
+	// One full review per reviewer; every later round is a re-check
+	assert.strictEqual(fullReviews.length, 2);
+	assert.strictEqual(rechecks.length, 4);
+	const firstQualityRecheck = rechecks.find((p) => p.includes("(quality)"))!;
+	assert.ok(firstQualityRecheck.includes("Unchecked input"));
+	assert.ok(!firstQualityRecheck.includes("Missing error path"));
+	assert.ok(!firstQualityRecheck.includes("Name nit"));
+	assert.ok(firstQualityRecheck.includes("+fix 1"));
+	assert.ok(firstQualityRecheck.includes("helper.ts"));
+
+	// Only the unresolved finding and the regression go to the second fix
+	assert.strictEqual(fixPrompts.length, 2);
+	assert.ok(fixPrompts[1]!.includes("Missing error path"));
+	assert.ok(fixPrompts[1]!.includes("Fix broke the happy path"));
+	assert.ok(!fixPrompts[1]!.includes("Unchecked input"));
+
+	assert.deepStrictEqual(
+		events.flatMap((e) =>
+			e.type === "review_recheck_complete"
+				? [[e.iteration, e.resolved, e.unresolved, e.regressions]]
+				: [],
+		),
+		[
+			[1, 1, 1, 1],
+			[2, 2, 0, 0],
+		],
+	);
+
+	const ledger = await listFindings(PROJECT_NAME, testDir, prd.name);
+	const statusOf = (issue: string) => {
+		const finding = ledger.data!.find((f) => f.issue === issue)!;
+		return `${finding.status} ${finding.fixedBy?.iteration ?? "-"}`;
+	};
+	assert.strictEqual(statusOf("Unchecked input"), "fixed 1");
+	assert.strictEqual(statusOf("Missing error path"), "fixed 2");
+	assert.strictEqual(statusOf("Fix broke the happy path"), "fixed 2");
+	assert.strictEqual(statusOf("Name nit"), "open -");
+});
+
+it("merges one finding reported on different lines into a single blocker", async () => {
+	const prd = await createReviewablePrd(testDir, "dedupe-prd");
+	const fixPrompts: string[] = [];
+	const rechecks: string[] = [];
+
+	const mockAgentExecutor = {
+		async run(prompt: string) {
+			if (prompt.includes("<Findings_To_Fix>")) {
+				fixPrompts.push(prompt);
+				writeFileSync(join(testDir, "tracked.txt"), "fixed\n");
+				return { output: "<promise>COMPLETE</promise>", exitCode: 0, aborted: false };
+			}
+			if (prompt.startsWith("# Fix Re-check:")) {
+				rechecks.push(prompt);
+				const verdicts = Array.from(
+					prompt.matchAll(/^- (F-[0-9a-f]{8}) /gm),
+					([, id]) => `- ${id}: RESOLVED - checked`,
+				);
+				return {
+					output: `<recheck-verdicts>\n${verdicts.join("\n")}\n</recheck-verdicts>`,
+					exitCode: 0,
+					aborted: false,
+				};
+			}
+			const finding = prompt.includes("(quality)")
+				? "- [MINOR] tracked.txt:1 - Value 1 is never checked"
+				: "- [MAJOR] tracked.txt:7 - Value 2 is never checked";
+			return {
+				output: `<review-result>REQUEST_CHANGES</review-result>\n<review-findings>\n${finding}\n</review-findings>`,
+				exitCode: 0,
+				aborted: false,
+			};
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal(output: string) {
+			return output.includes("<promise>COMPLETE</promise>");
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const config: RalphConfig = {
+		project_name: PROJECT_NAME,
+		default_provider_variant: "test",
+		default_iterations: 5,
+		provider_variants: { test: { command: "echo", args: ["test"] } },
+		review: {
+			first_review_agents: ["quality", "implementation"],
+			second_review_agents: [],
+			max_fix_iterations: 1,
+			diff_exclude: ["omnidev/**"],
+		},
+	};
+	const reviewConfig = getReviewConfig(config);
+	const variantsResult = resolveReviewProviderVariants(config, reviewConfig);
+	assert.ok(variantsResult.ok);
+
+	const engine = new ReviewEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: testDir,
+		store: getDefaultStore(PROJECT_NAME, testDir),
+		agentExecutor: mockAgentExecutor as never,
+		logger: { log() {} } as never,
+	});
+	const result = await engine.runReview(
+		prd.name,
+		prd,
+		config,
+		variantsResult.data!,
+		reviewConfig,
+		() => {},
+	);
+	assert.ok(result.ok);
+
+	// One blocker at the first line, at the higher severity, credited to both reviewers
+	assert.strictEqual(fixPrompts.length, 1);
+	assert.strictEqual(fixPrompts[0]!.match(/never checked/g)?.length, 1);
+	assert.ok(fixPrompts[0]!.includes("[MAJOR] line 1 — Value 1 is never checked"));
+	assert.ok(fixPrompts[0]!.includes("(reviewer: quality, implementation)"));
+
+	// Each reviewer re-checks the finding once, under its one ID
+	assert.strictEqual(rechecks.length, 2);
+	for (const recheck of rechecks) {
+		assert.strictEqual(recheck.match(/^- F-[0-9a-f]{8} /gm)?.length, 1);
+	}
+	const ledger = await listFindings(PROJECT_NAME, testDir, prd.name);
+	assert.deepStrictEqual(
+		ledger.data!.map((f) => f.status),
+		["fixed"],
+	);
+});
+
+it("keeps findings unresolved when a re-check fails and re-reviews a fix too large to re-check", async () => {
+	const prd = await createReviewablePrd(testDir, "recheck-failure-prd");
+	const fullReviews: string[] = [];
+	const rechecks: string[] = [];
+	const fixPrompts: string[] = [];
+	const bigFile = (name: string) =>
+		Array.from({ length: 400 }, (_, i) => `export const ${name}${i} = ${i};`).join("\n");
+
+	const mockAgentExecutor = {
+		async run(prompt: string) {
+			if (prompt.includes("<Findings_To_Fix>")) {
+				fixPrompts.push(prompt);
+				// Fix 1 changes nothing, fix 2 a line, fix 3 more than one diff part
+				if (fixPrompts.length === 2) writeFileSync(join(testDir, "tracked.txt"), "fix 2\n");
+				if (fixPrompts.length === 3) {
+					writeFileSync(join(testDir, "big-a.ts"), bigFile("a"));
+					writeFileSync(join(testDir, "big-b.ts"), bigFile("b"));
+				}
+				return { output: "<promise>COMPLETE</promise>", exitCode: 0, aborted: false };
+			}
+			if (prompt.startsWith("# Fix Re-check:")) {
+				rechecks.push(prompt);
+				if (prompt.includes("(quality)")) throw new Error("re-check agent crashed");
+				return {
+					output: "Looks handled now.\n<review-findings>\n</review-findings>",
+					exitCode: 0,
+					aborted: false,
+				};
+			}
+			fullReviews.push(prompt);
+			if (fixPrompts.length === 3) {
+				return {
+					output: "<review-result>APPROVE</review-result>\n<review-findings>\n</review-findings>",
+					exitCode: 0,
+					aborted: false,
+				};
+			}
+			const findings = prompt.includes("(quality)")
+				? "- [MAJOR] tracked.txt:1 - Unchecked input"
+				: "- [MAJOR] tracked.txt:3 - Missing error path";
+			return {
+				output: `<review-result>REQUEST_CHANGES</review-result>\n<review-findings>\n${findings}\n</review-findings>`,
+				exitCode: 0,
+				aborted: false,
+			};
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal(output: string) {
+			return output.includes("<promise>COMPLETE</promise>");
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const config: RalphConfig = {
+		project_name: PROJECT_NAME,
+		default_provider_variant: "test",
+		default_iterations: 5,
+		provider_variants: { test: { command: "echo", args: ["test"] } },
+		review: {
+			first_review_agents: ["quality", "implementation"],
+			second_review_agents: [],
+			max_fix_iterations: 3,
+			diff_token_budget: 1000,
+			// Ralph's state lives in the test repo; keep it out of the fix diffs
+			diff_exclude: ["omnidev/**"],
+		},
+	};
+	const reviewConfig = getReviewConfig(config);
+	const variantsResult = resolveReviewProviderVariants(config, reviewConfig);
+	assert.ok(variantsResult.ok);
+
+	const events: EngineEvent[] = [];
+	const engine = new ReviewEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: testDir,
+		store: getDefaultStore(PROJECT_NAME, testDir),
+		agentExecutor: mockAgentExecutor as never,
+		logger: { log() {} } as never,
+	});
+	const result = await engine.runReview(
+		prd.name,
+		prd,
+		config,
+		variantsResult.data!,
+		reviewConfig,
+		(event) => events.push(event),
+	);
+	assert.ok(result.ok);
+
+	// An empty fix diff needs no re-check agent; a crash or a missing verdict is unresolved
+	assert.strictEqual(rechecks.length, 2);
+	assert.deepStrictEqual(
+		events.flatMap((e) =>
+			e.type === "review_recheck_complete"
+				? [[e.iteration, e.resolved, e.unresolved, e.regressions]]
+				: [],
+		),
+		[
+			[1, 0, 2, 0],
+			[2, 0, 2, 0],
+		],
+	);
+	assert.strictEqual(fixPrompts.length, 3);
+	for (const prompt of fixPrompts.slice(1)) {
+		assert.ok(prompt.includes("Unchecked input"));
+		assert.ok(prompt.includes("Missing error path"));
+	}
+
+	// The last fix spans several diff parts, so both reviewers re-review in full
+	assert.ok(fullReviews.length > 2);
+	assert.ok(fullReviews.slice(2).some((p) => p.includes("(quality)")));
+	assert.ok(fullReviews.slice(2).some((p) => p.includes("(implementation)")));
+
+	const ledger = await listFindings(PROJECT_NAME, testDir, prd.name);
+	const statusOf = (issue: string) => {
+		const finding = ledger.data!.find((f) => f.issue === issue)!;
+		return `${finding.status} ${finding.fixedBy?.iteration ?? "-"}`;
+	};
+	assert.strictEqual(statusOf("Unchecked input"), "fixed 3");
+	assert.strictEqual(statusOf("Missing error path"), "fixed 3");
+});
+
+it("runs repo-local reviewers scoped by path with a severity threshold", async () => {
+	const addReviewer = (name: string, toml: string, prompt: string) => {
+		const dir = join(testDir, REPO_REVIEWERS_DIR, name);
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(join(dir, "agent.toml"), toml);
+		writeFileSync(join(dir, "prompt.md"), prompt);
+	};
+	addReviewer(
+		"migrations",
+		'name = "migrations"\npaths = ["db/**/*.sql"]\n',
+		"MIGRATIONS REVIEWER PROMPT",
+	);
+	addReviewer("strict", 'min_severity = "major"\n', "STRICT REVIEWER PROMPT");
+	// A repo reviewer replaces the bundled one of the same name
+	addReviewer("testing", "", "REPO TESTING PROMPT");
+	addReviewer("broken", "paths = 3\n", "BROKEN");
+
+	assert.strictEqual(loadReviewerDefinition(testDir, "quality").data?.source, "bundled");
+	assert.strictEqual(loadReviewerDefinition(testDir, "testing").data?.source, "repo");
+	assert.strictEqual(loadReviewerDefinition(testDir, "broken").error?.code, "CONFIG_INVALID");
+	assert.strictEqual(loadReviewerDefinition(testDir, "nope").error?.code, "REVIEWER_NOT_FOUND");
+	assert.strictEqual(loadReviewerDefinition(testDir, "../quality").error?.code, "CONFIG_INVALID");
+
+	const prompts: string[] = [];
+	const mockAgentExecutor = {
+		async run(prompt: string) {
+			prompts.push(prompt);
+			return {
+				output:
+					"<review-result>APPROVE</review-result>\n<review-findings>\n- [MINOR] tracked.txt:1 - Minor nit\n- [SUGGESTION] tracked.txt:1 - Idea\n</review-findings>",
+				exitCode: 0,
+				aborted: false,
+			};
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal() {
+			return false;
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const config: RalphConfig = {
+		project_name: PROJECT_NAME,
+		default_provider_variant: "test",
+		default_iterations: 5,
+		provider_variants: { test: { command: "echo", args: ["test"] } },
+		review: {
+			first_review_agents: ["migrations", "strict", "testing", "nope"],
+			second_review_agents: [],
+			todo_file: ".ralph-review-todo.md",
+		},
+	};
+	const reviewConfig = getReviewConfig(config);
+	const variantsResult = resolveReviewProviderVariants(config, reviewConfig);
+	assert.ok(variantsResult.ok);
+	const warnings: string[] = [];
+	const engine = new ReviewEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: testDir,
+		store: getDefaultStore(PROJECT_NAME, testDir),
+		agentExecutor: mockAgentExecutor as never,
+		logger: { log() {} } as never,
+	});
+	const runReview = async (prdName: string) => {
+		const prd = await createReviewablePrd(testDir, prdName);
+		const result = await engine.runReview(
+			prd.name,
+			prd,
+			config,
+			variantsResult.data!,
+			reviewConfig,
+			(event) => {
+				if (event.type === "log" && event.level === "warn") warnings.push(event.message);
+			},
+		);
+		assert.ok(result.ok);
+	};
+
+	// No SQL changed: the migrations reviewer stays out, the unknown one is skipped
+	await runReview("no-sql-prd");
+	assert.strictEqual(prompts.length, 2);
+	assert.ok(prompts.some((p) => p.includes("STRICT REVIEWER PROMPT")));
+	assert.ok(prompts.some((p) => p.includes("REPO TESTING PROMPT")));
+	assert.ok(!prompts.some((p) => p.includes("MIGRATIONS REVIEWER PROMPT")));
+	assert.ok(warnings.some((w) => w.includes("Reviewer 'nope' not found")));
+	// strict drops findings below MAJOR; testing keeps them
+	const todo = readFileSync(join(testDir, ".ralph-review-todo.md"), "utf-8");
+	assert.ok(todo.includes("Minor nit (reviewer: testing)"));
+	assert.ok(!todo.includes("strict"));
+
+	mkdirSync(join(testDir, "db", "migrations"), { recursive: true });
+	writeFileSync(join(testDir, "db", "migrations", "001.sql"), "create table t (id int);\n");
+	execSync("git add db", { cwd: testDir });
+	execSync('git commit -m "add migration" -q', { cwd: testDir });
+	prompts.length = 0;
+	await runReview("sql-prd");
+	assert.strictEqual(prompts.length, 3);
+	assert.ok(prompts.some((p) => p.includes("MIGRATIONS REVIEWER PROMPT")));
+});
+
+it("merges tool reviewer findings from SARIF into the fix and re-check flow", async () => {
+	const sarifPath = join(testDir, ".git", "lint.sarif");
+	const writeSarif = (results: Array<{ level: string; uri: string; line: number; text: string }>) =>
+		writeFileSync(
+			sarifPath,
+			JSON.stringify({
+				version: "2.1.0",
+				runs: [
+					{
+						tool: { driver: { name: "lint" } },
+						results: results.map((r) => ({
+							ruleId: "lint/rule",
+							level: r.level,
+							message: { text: r.text },
+							locations: [
+								{
+									physicalLocation: {
+										artifactLocation: { uri: r.uri },
+										region: { startLine: r.line },
+									},
+								},
+							],
+						})),
+					},
+				],
+			}),
+		);
+	writeSarif([
+		{
+			level: "error",
+			uri: `file://${join(testDir, "tracked.txt")}`,
+			line: 1,
+			text: "Unused value",
+		},
+		{ level: "warning", uri: "tracked.txt", line: 1, text: "Prefer const" },
+		{ level: "error", uri: "untouched.ts", line: 4, text: "Old problem" },
+	]);
+	const reviewerDir = join(testDir, REPO_REVIEWERS_DIR, "lint");
+	mkdirSync(reviewerDir, { recursive: true });
+	writeFileSync(
+		join(reviewerDir, "agent.toml"),
+		`type = "tool"\ncommand = "cat '${sarifPath}'; exit 1"\nformat = "sarif"\n`,
+	);
+	assert.strictEqual(loadReviewerDefinition(testDir, "lint").data?.tool?.changedFilesOnly, true);
+
+	const fixPrompts: string[] = [];
+	const mockAgentExecutor = {
+		async run(prompt: string) {
+			assert.ok(prompt.includes("<Findings_To_Fix>"));
+			fixPrompts.push(prompt);
+			writeFileSync(join(testDir, "tracked.txt"), "fixed\n");
+			writeSarif([
+				{ level: "warning", uri: "tracked.txt", line: 1, text: "Prefer const" },
+				{ level: "error", uri: "tracked.txt", line: 2, text: "Fix left a typo" },
+			]);
+			return { output: "<promise>COMPLETE</promise>", exitCode: 0, aborted: false };
+		},
+		parseTokenUsage() {
+			return {};
+		},
+		hasCompletionSignal(output: string) {
+			return output.includes("<promise>COMPLETE</promise>");
+		},
+		parseStatus() {
+			return null;
+		},
+	};
+	const config: RalphConfig = {
+		project_name: PROJECT_NAME,
+		default_provider_variant: "test",
+		default_iterations: 5,
+		provider_variants: { test: { command: "echo", args: ["test"] } },
+		review: {
+			first_review_agents: ["lint"],
+			second_review_agents: [],
+			max_fix_iterations: 1,
+			todo_file: ".ralph-review-todo.md",
+		},
+	};
+	const reviewConfig = getReviewConfig(config);
+	const variantsResult = resolveReviewProviderVariants(config, reviewConfig);
+	assert.ok(variantsResult.ok);
+
+	const events: EngineEvent[] = [];
+	const prd = await createReviewablePrd(testDir, "tool-prd");
+	const engine = new ReviewEngine({
+		projectName: PROJECT_NAME,
+		repoRoot: testDir,
+		store: getDefaultStore(PROJECT_NAME, testDir),
+		agentExecutor: mockAgentExecutor as never,
+		logger: { log() {} } as never,
+	});
+	const result = await engine.runReview(
+		prd.name,
+		prd,
+		config,
+		variantsResult.data!,
+		reviewConfig,
+		(event) => events.push(event),
+	);
+	assert.ok(result.ok);
+
+	// Errors become blockers; files outside the diff are left out
+	assert.strictEqual(fixPrompts.length, 1);
+	assert.ok(fixPrompts[0]!.includes("Unused value (lint/rule) (reviewer: lint)"));
+	assert.ok(!fixPrompts[0]!.includes("Old problem"));
+	assert.ok(!fixPrompts[0]!.includes("Prefer const"));
+
+	// The re-run resolves the fixed error, and only the new error counts as a regression
+	assert.deepStrictEqual(
+		events.flatMap((e) =>
+			e.type === "review_recheck_complete"
+				? [[e.iteration, e.resolved, e.unresolved, e.regressions]]
+				: [],
+		),
+		[[1, 1, 0, 1]],
+	);
+	const ledger = await listFindings(PROJECT_NAME, testDir, prd.name);
+	const statusOf = (issue: string) => ledger.data!.find((f) => f.issue === issue)?.status;
+	assert.strictEqual(statusOf("Unused value (lint/rule)"), "fixed");
+	assert.strictEqual(statusOf("Fix left a typo (lint/rule)"), "open");
+	assert.strictEqual(statusOf("Prefer const (lint/rule)"), "open");
+	const todo = readFileSync(join(testDir, ".ralph-review-todo.md"), "utf-8");
+	assert.ok(todo.includes("Prefer const (lint/rule) (reviewer: lint)"));
+
+	const json = parseToolFindings(
+		JSON.stringify({ findings: [{ file: "./src/a.ts", severity: "critical", message: "Bad" }] }),
+		"json",
+		"tsc",
+		testDir,
+	);
+	assert.deepStrictEqual(json.data, [
+		{ severity: "critical", file: "src/a.ts", issue: "Bad", reviewer: "tsc" },
+	]);
+	assert.strictEqual(
+		parseToolFindings("not json", "json", "tsc", testDir).error?.code,
+		"SCRIPT_FAILED",
+	);
+});
+
+it("fails a tool reviewer on unparseable output, a silent non-zero exit, or a timeout", async () => {
+	const run = (command: string, format: ToolReviewerConfig["format"] = "sarif", timeout = 10) =>
+		runToolReviewer("lint", { command, format, timeout, changedFilesOnly: false }, testDir, []);
+
+	const notJson = await run("echo '{\"runs\": ['");
+	assert.strictEqual(notJson.error?.code, "SCRIPT_FAILED");
+	assert.ok(notJson.error?.message.startsWith("Tool reviewer lint: Output is not valid JSON"));
+
+	const noRuns = await run(`echo '{"version": "2.1.0"}'`);
+	assert.strictEqual(noRuns.error?.code, "SCRIPT_FAILED");
+	assert.ok(noRuns.error?.message.includes("SARIF output has no `runs` list"));
+
+	const badFindings = await run(
+		`echo '[{"file": "a.ts", "severity": "blocker", "message": "Bad"}]'`,
+		"json",
+	);
+	assert.strictEqual(badFindings.error?.code, "SCRIPT_FAILED");
+	assert.ok(badFindings.error?.message.includes("Output is not a list of findings"));
+
+	// Non-zero with nothing on stdout means the tool itself failed, not that it found problems
+	const crashed = await run("echo 'config not found' >&2; exit 2");
+	assert.strictEqual(crashed.error?.code, "SCRIPT_FAILED");
+	assert.strictEqual(
+		crashed.error?.message,
+		"Tool reviewer lint exited with code 2: config not found",
+	);
+
+	// Output from a command that was killed may be cut short, so it is not parsed
+	const slow = await run(`echo '{"runs": []}'; sleep 5`, "sarif", 1);
+	assert.strictEqual(slow.error?.code, "SCRIPT_FAILED");
+	assert.ok(slow.error?.message.startsWith("Tool reviewer lint exited with code 124"));
+	assert.ok(slow.error?.message.includes("[timed out after 1s]"));
+
+	assert.deepStrictEqual((await run(`echo '{"runs": []}'; exit 1`)).data, []);
+});
@@ -4,29 +4,41 @@
 
 import { afterEach, beforeEach, describe, it } from "bun:test";
 import assert from "node:assert";
-import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import {
+	answerStory,
 	appendProgress,
 	ensureDirectories,
+	entryToResponse,
 	extractFindings,
 	findPRDLocation,
+	getDefaultStore,
 	getNextStory,
+	getOpenQuestions,
 	getPRD,
 	getProgress,
 	getSpec,
 	getStatusDir,
 	hasBlockedStories,
 	isPRDComplete,
+	lintPRDDirectory,
+	lintPRDs,
 	listPRDs,
 	listPRDsByStatus,
 	movePRD,
+	parseAnswersFile,
+	parseStoryFrontmatter,
+	readStorySuggestedFiles,
+	StoryStateMachine,
+	suggestedFilesOverlap,
 	updateLastRun,
+	updateMetrics,
 	updatePRD,
 	updateStoryStatus,
 } from "./lib/index.js";
-import type { PRD, PRDStatus } from "./lib/types.js";
+import type { PRD, PRDStatus, Story } from "./lib/types.js";
 import { cleanupTmpTestDir, createTmpTestDir } from "./test-helpers.js";
 
 const PROJECT_NAME = "test";
@@ -353,6 +365,47 @@ describe("updateLastRun", () => {
 	});
 });
 
+describe("updateMetrics", () => {
+	it("accumulates usage in total and per story, phase, and provider variant", async () => {
+		await createTestPRD("test-prd", {
+			stories: [
+				{
+					id: "US-001",
+					title: "Story",
+					promptPath: "stories/US-001.md",
+					status: "in_progress",
+					priority: 1,
+					questions: [],
+				},
+			],
+		});
+
+		await updateMetrics(
+			PROJECT_NAME,
+			REPO_ROOT,
+			"test-prd",
+			{ inputTokens: 100, outputTokens: 50, cacheReadTokens: 1000, costUsd: 0.25, iterations: 1 },
+			{ storyId: "US-001", phase: "dev", providerVariant: "claude" },
+		);
+		await updateMetrics(
+			PROJECT_NAME,
+			REPO_ROOT,
+			"test-prd",
+			{ inputTokens: 10, outputTokens: 5, cacheWriteTokens: 20, costUsd: 0.05 },
+			{ phase: "review", providerVariant: "claude" },
+		);
+
+		const { metrics } = await getPRD(PROJECT_NAME, REPO_ROOT, "test-prd");
+		assert.strictEqual(metrics?.totalTokens, 1185);
+		assert.strictEqual(metrics?.cacheReadTokens, 1000);
+		assert.strictEqual(metrics?.iterations, 1);
+		assert.ok(Math.abs((metrics?.costUsd ?? 0) - 0.3) < 1e-9);
+		assert.strictEqual(metrics?.byStory?.["US-001"]?.totalTokens, 1150);
+		assert.strictEqual(metrics?.byPhase?.review?.totalTokens, 35);
+		assert.strictEqual(metrics?.byProviderVariant?.["claude"]?.runs, 2);
+	});
+});
+
 describe("isPRDComplete", () => {
 	it("returns true when all stories completed", async () => {
 		await createTestPRD("test-prd", {
@@ -560,3 +613,541 @@ describe("extractFindings", () => {
 		assert.strictEqual(findings, "");
 	});
 });
+
+describe("story dependencies", () => {
+	async function writeStoryWithDeps(prdName: string, id: string, deps: string): Promise<void> {
+		const storiesDir = join(getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"), prdName, "stories");
+		mkdirSync(storiesDir, { recursive: true });
+		await writeFile(
+			join(storiesDir, `${id}.md`),
+			`---\nid: ${id}\ntitle: Story ${id}\npriority: 1\ndependencies: ${deps}\n---\n\n## Goal\nShip it.\n\n## Scope\n- lib\n\n## Deliverables\n1. Code\n\n## Acceptance Criteria\n- [ ] Done\n`,
+		);
+	}
+
+	function story(id: string, priority: number, status: Story["status"] = "pending"): Story {
+		return {
+			id,
+			title: `Story ${id}`,
+			promptPath: `stories/${id}.md`,
+			status,
+			priority,
+			questions: [],
+		};
+	}
+
+	it("parses inline and block dependency lists from frontmatter", () => {
+		assert.deepStrictEqual(
+			parseStoryFrontmatter('---\nid: US-002\ndependencies: [US-001, "US-003"]\n---\n')
+				.dependencies,
+			["US-001", "US-003"],
+		);
+		assert.deepStrictEqual(
+			parseStoryFrontmatter("---\ndependencies:\n  - US-001\n  - US-004\n---\n").dependencies,
+			["US-001", "US-004"],
+		);
+		assert.deepStrictEqual(parseStoryFrontmatter("# No frontmatter\n").dependencies, []);
+	});
+
+	it("skips stories whose dependencies are not completed", async () => {
+		await createTestPRD("test-prd", {
+			stories: [story("US-001", 2), story("US-002", 1)],
+		});
+		await writeStoryWithDeps("test-prd", "US-001", "[]");
+		await writeStoryWithDeps("test-prd", "US-002", "[US-001]");
+
+		const next = await getNextStory(PROJECT_NAME, REPO_ROOT, "test-prd");
+		assert.strictEqual(next?.id, "US-001");
+
+		const storeNext = await getDefaultStore(PROJECT_NAME, REPO_ROOT).getNextStory("test-prd");
+		assert.ok(storeNext.ok);
+		assert.strictEqual(storeNext.data?.id, "US-001");
+	});
+
+	it("starts a dependent story once its dependencies are completed", async () => {
+		await createTestPRD("test-prd", {
+			stories: [story("US-001", 2, "completed"), story("US-002", 1)],
+		});
+		await writeStoryWithDeps("test-prd", "US-001", "[]");
+		await writeStoryWithDeps("test-prd", "US-002", "[US-001]");
+
+		const next = await getNextStory(PROJECT_NAME, REPO_ROOT, "test-prd");
+		assert.strictEqual(next?.id, "US-002");
+	});
+
+	it("reports dependency cycles when the PRD is loaded", async () => {
+		await createTestPRD("test-prd", {
+			stories: [story("US-001", 1), story("US-002", 2)],
+		});
+		await writeStoryWithDeps("test-prd", "US-001", "[US-002]");
+		await writeStoryWithDeps("test-prd", "US-002", "[US-001]");
+
+		const result = await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("test-prd");
+		assert.ok(!result.ok);
+		assert.strictEqual(result.error!.code, "STORY_DEPENDENCY_INVALID");
+		assert.ok(result.error!.message.includes("US-001 → US-002 → US-001"));
+
+		await assert.rejects(
+			getNextStory(PROJECT_NAME, REPO_ROOT, "test-prd"),
+			/Story dependency cycle detected/,
+		);
+	});
+
+	it("reports dependencies on unknown stories", async () => {
+		await createTestPRD("test-prd", { stories: [story("US-001", 1)] });
+		await writeStoryWithDeps("test-prd", "US-001", "[US-404]");
+
+		const result = await getDefaultStore(PROJECT_NAME, REPO_ROOT).get("test-prd");
+		assert.ok(!result.ok);
+		assert.ok(result.error!.message.includes("unknown story 'US-404'"));
+	});
+
+	it("splits a story into chained sub-stories and rewires its dependents", async () => {
+		await createTestPRD("test-prd", {
+			stories: [story("US-001", 1, "completed"), story("US-002", 2), story("US-003", 3)],
+		});
+		await writeStoryWithDeps("test-prd", "US-001", "[]");
+		await writeStoryWithDeps("test-prd", "US-002", "[US-001]");
+		await writeStoryWithDeps("test-prd", "US-003", "\n  - US-002\n  - US-001");
+
+		const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+		const rejected = await store.splitStory("test-prd", "US-002", [
+			{ title: "Only part", acceptanceCriteria: ["Done"] },
+		]);
+		assert.ok(!rejected.ok);
+		assert.strictEqual(rejected.error!.code, "STORY_SPLIT_INVALID");
+
+		const result = await store.splitStory(
+			"test-prd",
+			"US-002",
+			[
+				{ title: "Schema", acceptanceCriteria: ["Table exists"], suggestedFiles: ["db/schema.ts"] },
+				{ title: "API", goal: "Expose the table", acceptanceCriteria: ["GET returns rows"] },
+			],
+			"Ran out of context",
+		);
+		assert.ok(result.ok);
+		assert.deepStrictEqual(result.data, ["US-002a", "US-002b"]);
+
+		const prd = (await store.get("test-prd")).data!;
+		assert.deepStrictEqual(
+			prd.stories.map((s) => `${s.id}:${s.priority}:${s.status}`),
+			["US-001:1:completed", "US-002a:2:pending", "US-002b:2:pending", "US-003:3:pending"],
+		);
+
+		const storiesDir = join(
+			getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"),
+			"test-prd",
+			"stories",
+		);
+		const partB = readFileSync(join(storiesDir, "US-002b.md"), "utf-8");
+		assert.deepStrictEqual(parseStoryFrontmatter(partB).dependencies, ["US-002a"]);
+		assert.ok(partB.includes("## Goal\nExpose the table"));
+		assert.ok(partB.includes("- [ ] GET returns rows"));
+		assert.deepStrictEqual(readStorySuggestedFiles(join(storiesDir, "US-002a.md")), [
+			"db/schema.ts",
+		]);
+		assert.deepStrictEqual(
+			parseStoryFrontmatter(readFileSync(join(storiesDir, "US-002a.md"), "utf-8")).dependencies,
+			["US-001"],
+		);
+		const dependent = readFileSync(join(storiesDir, "US-003.md"), "utf-8");
+		assert.deepStrictEqual(parseStoryFrontmatter(dependent).dependencies, ["US-002b", "US-001"]);
+		assert.ok(dependent.includes("\n\n## Acceptance Criteria"));
+
+		const progress = await getProgress(PROJECT_NAME, REPO_ROOT, "test-prd");
+		assert.ok(progress.includes("Split US-002: Story US-002"));
+		assert.ok(progress.includes("**Why:** Ran out of context"));
+		assert.ok(progress.includes("- US-002b: API"));
+
+		const next = await store.getNextStory("test-prd");
+		assert.strictEqual(next.data?.id, "US-002a");
+
+		// The sub-story files have every section a planned story has
+		assert.ok(partB.includes("## Out of scope\n- US-002a: Schema (a separate sub-story)"));
+		const lintIssues = lintPRDDirectory(join(storiesDir, ".."), "test-prd", {
+			min_acceptance_criteria: 1,
+			max_acceptance_criteria: 10,
+			knownPRDs: new Set(["test-prd"]),
+		});
+		assert.deepStrictEqual(
+			lintIssues.filter((i) => i.severity === "error"),
+			[],
+		);
+	});
+
+	it("batches workable stories with disjoint suggested files for parallel runs", async () => {
+		await createTestPRD("test-prd", {
+			stories: [story("US-001", 1), story("US-002", 2), story("US-003", 3), story("US-004", 4)],
+		});
+		const storiesDir = join(
+			getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"),
+			"test-prd",
+			"stories",
+		);
+		mkdirSync(storiesDir, { recursive: true });
+		const files: Record<string, string> = {
+			"US-001": "- `lib/auth/**` — login flow\n- `README.md`",
+			"US-002": "- lib/billing/invoice.ts\n",
+			"US-003": "- `lib/auth/session.ts`",
+			"US-004": "- `docs/api.md`",
+		};
+		for (const [id, list] of Object.entries(files)) {
+			await writeFile(
+				join(storiesDir, `${id}.md`),
+				`---\nid: ${id}\n---\n\n## Suggested files\n${list}\n\n## Acceptance Criteria\n- [ ] Done\n`,
+			);
+		}
+
+		assert.deepStrictEqual(readStorySuggestedFiles(join(storiesDir, "US-001.md")), [
+			"lib/auth/**",
+			"README.md",
+		]);
+		assert.ok(suggestedFilesOverlap(["lib/auth/**"], ["lib/auth/session.ts"]));
+		assert.ok(!suggestedFilesOverlap(["lib/auth/**"], ["lib/authz.ts"]));
+
+		const store = getDefaultStore(PROJECT_NAME, REPO_ROOT);
+		const batch = await store.getParallelStories("test-prd", 3);
+		assert.deepStrictEqual(
+			batch.data?.map((s) => s.id),
+			["US-001", "US-002", "US-004"],
+		);
+
+		// Stories that must run alone never join a batch
+		const serial = await store.getParallelStories("test-prd", 3, new Set(["US-002"]));
+		assert.deepStrictEqual(
+			serial.data?.map((s) => s.id),
+			["US-001", "US-004"],
+		);
+	});
+});
+
+describe("blocked-story answers", () => {
+	function blocked(id: string, questions: string[]): Story {
+		return {
+			id,
+			title: `Story ${id}`,
+			promptPath: `stories/${id}.md`,
+			status: "blocked",
+			priority: 1,
+			questions,
+		};
+	}
+
+	it("parses YAML and JSON answers files", () => {
+		const yaml = [
+			"# answers for auth",
+			"- prd: auth",
+			"  story: US-002",
+			"  answers:",
+			"    - Use JWT",
+			'    - "24: hours"',
+			"- prd: auth",
+			"  story: US-003",
+			"  skip: Covered by US-001",
+			"- prd: auth",
+			"  story: US-004",
+			"  rewrite: |",
+			"    # US-004",
+			"",
+			"    ## Acceptance Criteria",
+			"    - [ ] Done",
+		].join("\n");
+		const parsed = parseAnswersFile(yaml, "answers.yaml");
+		assert.ok(parsed.ok, parsed.error?.message);
+		assert.deepStrictEqual(parsed.data![0]!.answers, ["Use JWT", "24: hours"]);
+		assert.deepStrictEqual(entryToResponse(parsed.data![1]!), {
+			action: "skip",
+			reason: "Covered by US-001",
+		});
+		assert.strictEqual(
+			parsed.data![2]!.rewrite,
+			"# US-004\n\n## Acceptance Criteria\n- [ ] Done\n",
+		);
+
+		const json = parseAnswersFile(
+			JSON.stringify([{ prd: "auth", story: "US-003", skip: true }]),
+			"answers.json",
+		);
+		assert.ok(json.ok);
+		assert.deepStrictEqual(entryToResponse(json.data![0]!), { action: "skip" });
+
+		const ambiguous = parseAnswersFile(
+			"- prd: auth\n  story: US-002\n  skip: true\n  rewrite: x\n",
+			"a.yml",
+		);
+		assert.ok(!ambiguous.ok);
+		assert.strictEqual(ambiguous.error!.code, "ANSWERS_INVALID");
+	});
+
+	it("lists open questions across PRDs and answers, skips, or rewrites them", async () => {
+		await createTestPRD("auth", {
+			stories: [
+				blocked("US-001", ["Which provider?"]),
+				blocked("US-002", ["Scope?"]),
+				blocked("US-003", []),
+			],
+		});
+		await createTestPRD("billing", { stories: [blocked("US-001", ["Currency?"])] }, "in_progress");
+		await createTestPRD("done", { stories: [blocked("US-001", ["Ignored"])] }, "qa");
+		const storiesDir = join(getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"), "auth", "stories");
+		mkdirSync(storiesDir, { recursive: true });
+		writeFileSync(
+			join(storiesDir, "US-003.md"),
+			"---\nid: US-003\ndependencies: [US-001]\n---\n\n# Old\n",
+		);
+
+		const open = await getOpenQuestions(PROJECT_NAME, REPO_ROOT);
+		assert.deepStrictEqual(
+			open.data?.map((q) => `${q.prdName}/${q.storyId}`),
+			["auth/US-001", "auth/US-002", "auth/US-003", "billing/US-001"],
+		);
+
+		const wrongCount = await answerStory(PROJECT_NAME, REPO_ROOT, "auth", "US-001", {
+			action: "answer",
+			answers: [],
+		});
+		assert.strictEqual(wrongCount.error?.code, "ANSWERS_INVALID");
+
+		const answered = await answerStory(PROJECT_NAME, REPO_ROOT, "auth", "US-001", {
+			action: "answer",
+			answers: ["GitHub"],
+		});
+		assert.ok(answered.ok);
+		assert.strictEqual(answered.data!.state.stories.blocked, 2);
+
+		const skipped = await answerStory(PROJECT_NAME, REPO_ROOT, "auth", "US-002", {
+			action: "skip",
+			reason: "Out of scope",
+		});
+		assert.ok(skipped.ok);
+
+		const rewritten = await answerStory(PROJECT_NAME, REPO_ROOT, "auth", "US-003", {
+			action: "rewrite",
+			content: "# New\n\n## Acceptance Criteria\n- [ ] Done\n",
+		});
+		assert.ok(rewritten.ok);
+		assert.ok(rewritten.data!.state.canStart);
+
+		const prd = await getPRD(PROJECT_NAME, REPO_ROOT, "auth");
+		assert.deepStrictEqual(prd.stories[0]!.answers, ["GitHub"]);
+		assert.strictEqual(prd.stories[1]!.status, "completed");
+		assert.strictEqual(prd.stories[1]!.skipped, true);
+		assert.strictEqual(prd.stories[2]!.status, "pending");
+		const storyFile = readFileSync(join(storiesDir, "US-003.md"), "utf-8");
+		assert.ok(storyFile.includes("# New"));
+		assert.deepStrictEqual(parseStoryFrontmatter(storyFile).dependencies, ["US-001"]);
+
+		const progress = await getProgress(PROJECT_NAME, REPO_ROOT, "auth");
+		assert.ok(progress.includes("Skipped US-002: Story US-002"));
+		assert.ok(progress.includes("**Why:** Out of scope"));
+		assert.ok(progress.includes("Rewrote US-003"));
+
+		const again = await answerStory(PROJECT_NAME, REPO_ROOT, "auth", "US-002", { action: "skip" });
+		assert.strictEqual(again.error?.code, "STORY_NOT_BLOCKED");
+	});
+
+	it("reports the dependents that start without a skipped story", async () => {
+		await createTestPRD("auth", {
+			stories: [
+				blocked("US-001", ["Which provider?"]),
+				{ ...blocked("US-002", []), status: "pending" },
+				{ ...blocked("US-003", []), status: "pending" },
+			],
+		});
+		const storiesDir = join(getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"), "auth", "stories");
+		mkdirSync(storiesDir, { recursive: true });
+		writeFileSync(join(storiesDir, "US-002.md"), "---\nid: US-002\ndependencies: [US-001]\n---\n");
+		assert.strictEqual((await getNextStory(PROJECT_NAME, REPO_ROOT, "auth"))?.id, "US-003");
+
+		const skipped = await answerStory(PROJECT_NAME, REPO_ROOT, "auth", "US-001", {
+			action: "skip",
+		});
+		assert.ok(skipped.ok, skipped.error?.message);
+		assert.deepStrictEqual(skipped.data!.dependents, ["US-002"]);
+
+		// The skip goes through the state machine and unlocks the dependent, with a warning on record
+		assert.ok(StoryStateMachine.canTransition("blocked", "completed"));
+		const prd = await getPRD(PROJECT_NAME, REPO_ROOT, "auth");
+		assert.strictEqual(prd.stories[0]!.status, "completed");
+		assert.strictEqual((await getNextStory(PROJECT_NAME, REPO_ROOT, "auth"))?.id, "US-002");
+		const progress = await getProgress(PROJECT_NAME, REPO_ROOT, "auth");
+		assert.ok(
+			progress.includes("**Starts without it:** US-002. Check they do not rely on its work."),
+		);
+	});
+
+	it("keeps the original story when a rewrite's frontmatter creates a dependency cycle", async () => {
+		await createTestPRD("auth", {
+			stories: [blocked("US-001", ["Which provider?"]), blocked("US-002", ["Scope?"])],
+		});
+		const storiesDir = join(getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"), "auth", "stories");
+		mkdirSync(storiesDir, { recursive: true });
+		const original = "---\nid: US-002\ndependencies: [US-001]\n---\n\n# Old\n";
+		writeFileSync(join(storiesDir, "US-002.md"), original);
+		const cyclic = (id: string, dependency: string) =>
+			`---\nid: ${id}\ndependencies: [${dependency}]\n---\n\n# New\n`;
+
+		// US-001 had no story file: the rejected rewrite must not leave one behind
+		const noFile = await answerStory(PROJECT_NAME, REPO_ROOT, "auth", "US-001", {
+			action: "rewrite",
+			content: cyclic("US-001", "US-002"),
+		});
+		assert.ok(!noFile.ok);
+		assert.ok(!existsSync(join(storiesDir, "US-001.md")));
+
+		// An existing story file is restored as it was
+		writeFileSync(join(storiesDir, "US-001.md"), "---\nid: US-001\n---\n\n# One\n");
+		const withFile = await answerStory(PROJECT_NAME, REPO_ROOT, "auth", "US-001", {
+			action: "rewrite",
+			content: cyclic("US-001", "US-002"),
+		});
+		assert.ok(!withFile.ok);
+		assert.strictEqual(
+			readFileSync(join(storiesDir, "US-001.md"), "utf-8"),
+			"---\nid: US-001\n---\n\n# One\n",
+		);
+		assert.strictEqual(readFileSync(join(storiesDir, "US-002.md"), "utf-8"), original);
+
+		const prd = await getPRD(PROJECT_NAME, REPO_ROOT, "auth");
+		assert.deepStrictEqual(
+			prd.stories.map((s) => s.status),
+			["blocked", "blocked"],
+		);
+	});
+});
+
+describe("lintPRDs", () => {
+	const LIMITS = { min_acceptance_criteria: 1, max_acceptance_criteria: 3 };
+
+	function story(id: string, priority = 1): Story {
+		return {
+			id,
+			title: `Story ${id}`,
+			promptPath: `stories/${id}.md`,
+			status: "pending",
+			priority,
+			questions: [],
+		};
+	}
+
+	function storyFile(id: string, frontmatter: string, criteria: string[], sections = true) {
+		const body = sections
+			? "## Goal\nShip it.\n\n## Scope\n- lib\n\n## Deliverables\n1. Code\n\n"
+			: "";
+		const ac = criteria.map((c) => `- [ ] ${c}`).join("\n");
+		return `---\nid: ${id}\n${frontmatter}---\n\n# ${id}\n\n${body}## Acceptance Criteria\n${ac}\n`;
+	}
+
+	it("reports frontmatter, section, criteria, and dependency problems", async () => {
+		await createTestPRD("base", { stories: [] }, "completed");
+		await createTestPRD("auth", {
+			dependencies: ["base", "missing-prd"],
+			stories: [story("US-001"), story("US-002", 2), story("US-003"), story("US-004")],
+		});
+		const storiesDir = join(getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"), "auth", "stories");
+		mkdirSync(storiesDir, { recursive: true });
+		writeFileSync(
+			join(storiesDir, "US-001.md"),
+			storyFile("US-001", "title: Story US-001\npriority: 1\n", ["Works"]),
+		);
+		writeFileSync(
+			join(storiesDir, "US-002.md"),
+			storyFile("US-002", "title: Renamed\npriority: 2\ndependencies: [US-001, US-009]\n", [
+				"a",
+				"b",
+				"c",
+				"d",
+			]),
+		);
+		writeFileSync(
+			join(storiesDir, "US-003.md"),
+			storyFile("US-003", "title: Story US-003\npriority: 1\n", [], false),
+		);
+
+		const result = lintPRDs(PROJECT_NAME, REPO_ROOT, LIMITS, { prdName: "auth" });
+		assert.ok(result.ok, result.error?.message);
+		const issues = result.data!.prds[0]!.issues.map(
+			(i) => `${i.severity} ${i.rule} ${i.storyId ?? "-"}: ${i.message}`,
+		);
+		assert.deepStrictEqual(issues, [
+			"error prd-dependency -: depends on unknown PRD 'missing-prd'",
+			'warning frontmatter US-002: frontmatter `title` "Renamed" differs from prd.json "Story US-002"',
+			"warning acceptance-criteria US-002: has 4 acceptance criteria, more than 3; consider splitting the story",
+			"error section US-003: missing `## Goal` section",
+			"error section US-003: missing `## Scope` section",
+			"error section US-003: missing `## Deliverables` section",
+			"error acceptance-criteria US-003: has 0 acceptance criteria, needs at least 1",
+			"error story-file US-004: story US-004: story file stories/US-004.md does not exist",
+			"error story-dependency US-002: depends on unknown story 'US-009'",
+		]);
+		assert.strictEqual(result.data!.errors, 7);
+		assert.strictEqual(result.data!.warnings, 2);
+	});
+
+	it("passes the story files Ralph writes when it splits a story", async () => {
+		await createTestPRD("auth", { stories: [story("US-001"), story("US-002", 2)] });
+		const storiesDir = join(getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"), "auth", "stories");
+		mkdirSync(storiesDir, { recursive: true });
+		writeFileSync(
+			join(storiesDir, "US-001.md"),
+			storyFile("US-001", "title: Story US-001\npriority: 1\n", ["Works"]),
+		);
+		writeFileSync(
+			join(storiesDir, "US-002.md"),
+			storyFile("US-002", "title: Story US-002\npriority: 2\ndependencies: [US-001]\n", ["Works"]),
+		);
+
+		const split = await getDefaultStore(PROJECT_NAME, REPO_ROOT).splitStory("auth", "US-001", [
+			{ title: "Model", acceptanceCriteria: ["Model saved"] },
+			{
+				title: "View",
+				goal: "Render the model",
+				scope: ["lib/view.ts"],
+				outOfScope: ["Styling"],
+				deliverables: ["A view component"],
+				acceptanceCriteria: ["View renders"],
+				suggestedFiles: ["lib/view.ts"],
+			},
+		]);
+		assert.ok(split.ok, split.error?.message);
+
+		const result = lintPRDs(PROJECT_NAME, REPO_ROOT, LIMITS, { prdName: "auth" });
+		assert.ok(result.ok, result.error?.message);
+		assert.deepStrictEqual(result.data!.prds[0]!.issues, []);
+	});
+
+	it("lints active PRDs by default and completed ones with all", async () => {
+		await createTestPRD("done", {}, "completed");
+		await createTestPRD("active", { stories: [story("US-001")] });
+		const activeStories = join(
+			getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"),
+			"active",
+			"stories",
+		);
+		mkdirSync(activeStories, { recursive: true });
+		writeFileSync(
+			join(activeStories, "US-001.md"),
+			storyFile("US-001", "title: Story US-001\npriority: 1\n", ["Works"]),
+		);
+		const specOnly = join(getStatusDir(PROJECT_NAME, REPO_ROOT, "pending"), "draft");
+		mkdirSync(specOnly, { recursive: true });
+		writeFileSync(join(specOnly, "spec.md"), "# Draft\n");
+
+		const active = lintPRDs(PROJECT_NAME, REPO_ROOT, LIMITS);
+		assert.ok(active.ok);
+		assert.deepStrictEqual(
+			active.data!.prds.map((p) => [p.prdName, p.issues.map((i) => `${i.severity} ${i.rule}`)]),
+			[
+				["active", []],
+				["draft", ["warning prd-json"]],
+			],
+		);
+		assert.strictEqual(active.data!.errors, 0);
+
+		const all = lintPRDs(PROJECT_NAME, REPO_ROOT, LIMITS, { all: true });
+		assert.strictEqual(all.data!.prds.length, 3);
+
+		const missing = lintPRDs(PROJECT_NAME, REPO_ROOT, LIMITS, { prdName: "nope" });
+		assert.strictEqual(missing.error?.code, "PRD_NOT_FOUND");
+	});
+});
@@ -4,7 +4,9 @@ import { mkdirSync } from "node:fs";
 import { writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import {
+	detectQAResult,
 	ensureDirectories,
+	extractIssues,
 	generateQAPrompt,
 	generateSimpleVerification,
 	generateVerificationPrompt,
@@ -157,7 +159,18 @@ it("requires documentation checks in the QA prompt", async () => {
 	assert.ok(prompt.includes("Verify documentation completeness"));
 	assert.ok(
 		prompt.includes(
-			"PRD_VERIFIED only if happy path, documentation checks, and edge cases all pass.",
+			"Report `verified` only if happy path, documentation checks, and edge cases all pass.",
 		),
 	);
 });
+
+it("detectQAResult reads <ralph-result> blocks and fails if any step failed", () => {
+	const verified = `<ralph-result>{"version": 1, "status": "verified", "summary": "ok"}</ralph-result>`;
+	const failed = `<ralph-result>{"version": 1, "status": "failed", "issues": ["Login 500s"]}</ralph-result>`;
+
+	assert.strictEqual(detectQAResult(verified), "verified");
+	assert.strictEqual(detectQAResult(`${failed}\n${verified}`), "failed");
+	assert.deepStrictEqual(extractIssues(`${failed}\n${verified}`), ["Login 500s"]);
+	assert.strictEqual(detectQAResult("<qa-result>PRD_VERIFIED</qa-result>"), "verified");
+	assert.strictEqual(detectQAResult("Everything looks verified to me"), null);
+});